@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { updateAccount } from '@/lib/accounts/accounts';
+import { accountUpdateSchema } from '@/lib/validators';
+
+/**
+ * Rename, re-type or archive an account, or correct its opening balance.
+ * Accounts are never deleted, since conversions and transfers refer to them.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid account ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: unknown = await request.json();
+    const result = accountUpdateSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { name, kind, openingBalance, archived } = result.data;
+    const updated = updateAccount(db, numericId, {
+      name,
+      kind,
+      opening_balance: openingBalance,
+      archived: archived === undefined ? undefined : archived ? 1 : 0,
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Account not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to update account';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { createAccount, getAccountBalances } from '@/lib/accounts/accounts';
+import { accountSchema } from '@/lib/validators';
+
+/** Every account with its current balance. */
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json(getAccountBalances(db));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch accounts';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = accountSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const account = createAccount(db, {
+      name: result.data.name,
+      currency: result.data.currency,
+      kind: result.data.kind,
+      opening_balance: result.data.openingBalance,
+    });
+
+    return NextResponse.json(account, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create account';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
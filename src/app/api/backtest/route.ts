@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { settings } from '@/lib/db/schema';
+import { getRateHistory } from '@/lib/rates/history';
+import { parseRateCsv } from '@/lib/rates/import';
+import { findPairConfig, getPairConfigs } from '@/lib/strategy/pairs';
+import { runBacktest } from '@/lib/strategy/backtest';
+import { backtestImportSchema, backtestQuerySchema } from '@/lib/validators';
+
+/** Backtest the primary pair over the stored rate history. */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const result = backtestQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
+    }
+
+    const history = getRateHistory(db, result.data.days ?? 365);
+    const backtest = runBacktest(history, config, getPairConfigs(db)[0], result.data.budget);
+
+    if (!backtest) {
+      return NextResponse.json(
+        { error: 'Not enough rate history to backtest' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(backtest);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to run backtest';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Backtest any configured pair over an uploaded CSV series without storing it. */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = backtestImportSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
+    }
+
+    const data = result.data;
+    const pairConfig = findPairConfig(getPairConfigs(db), data.pair ?? null);
+
+    if (!pairConfig) {
+      return NextResponse.json(
+        { error: 'Unknown currency pair' },
+        { status: 404 }
+      );
+    }
+
+    const parsed = parseRateCsv(data.csv, {
+      dateColumn: data.dateColumn,
+      rateColumn: data.rateColumn,
+      inverted: data.inverted,
+    });
+    const backtest = runBacktest(parsed.rows, config, pairConfig, data.budget);
+
+    if (!backtest) {
+      return NextResponse.json(
+        { error: 'Not enough valid rates to backtest', errors: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ ...backtest, errors: parsed.errors });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to run backtest';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
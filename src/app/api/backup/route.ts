@@ -1,13 +1,24 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { conversions, settings, rateHistory, alerts } from '@/lib/db/schema';
+import { accounts, bandTiers, conversions, conversionRevisions, currencyPairs, limitOrders, lotAssignments, planRuns, recurringPlans, settings, transfers, expenses, rateHistory, rateSnapshots, alerts } from '@/lib/db/schema';
 
 export async function GET(): Promise<NextResponse> {
   try {
     const allConversions = db.select().from(conversions).all();
+    const allConversionRevisions = db.select().from(conversionRevisions).all();
     const allSettings = db.select().from(settings).all();
     const allRateHistory = db.select().from(rateHistory).all();
+    const allRateSnapshots = db.select().from(rateSnapshots).all();
+    const allCurrencyPairs = db.select().from(currencyPairs).all();
+    const allBandTiers = db.select().from(bandTiers).all();
     const allAlerts = db.select().from(alerts).all();
+    const allLimitOrders = db.select().from(limitOrders).all();
+    const allLotAssignments = db.select().from(lotAssignments).all();
+    const allAccounts = db.select().from(accounts).all();
+    const allTransfers = db.select().from(transfers).all();
+    const allExpenses = db.select().from(expenses).all();
+    const allRecurringPlans = db.select().from(recurringPlans).all();
+    const allPlanRuns = db.select().from(planRuns).all();
 
     const today = new Date().toISOString().split('T')[0];
 
@@ -17,15 +28,37 @@ export async function GET(): Promise<NextResponse> {
         version: '1.0.0',
         tables: {
           conversions: allConversions.length,
+          conversion_revisions: allConversionRevisions.length,
           settings: allSettings.length,
           rate_history: allRateHistory.length,
+          rate_snapshots: allRateSnapshots.length,
+          currency_pairs: allCurrencyPairs.length,
+          band_tiers: allBandTiers.length,
           alerts: allAlerts.length,
+          limit_orders: allLimitOrders.length,
+          lot_assignments: allLotAssignments.length,
+          accounts: allAccounts.length,
+          transfers: allTransfers.length,
+          expenses: allExpenses.length,
+          recurring_plans: allRecurringPlans.length,
+          plan_runs: allPlanRuns.length,
         },
       },
       conversions: allConversions,
+      conversion_revisions: allConversionRevisions,
       settings: allSettings,
       rate_history: allRateHistory,
+      rate_snapshots: allRateSnapshots,
+      currency_pairs: allCurrencyPairs,
+      band_tiers: allBandTiers,
       alerts: allAlerts,
+      limit_orders: allLimitOrders,
+      lot_assignments: allLotAssignments,
+      accounts: allAccounts,
+      transfers: allTransfers,
+      expenses: allExpenses,
+      recurring_plans: allRecurringPlans,
+      plan_runs: allPlanRuns,
     };
 
     return new NextResponse(JSON.stringify(backup, null, 2), {
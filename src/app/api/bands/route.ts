@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { findPairConfig, getPairConfigs, saveBandTiers } from '@/lib/strategy/pairs';
+import { bandLadderSchema } from '@/lib/validators';
+
+/** A pair's band ladder (`?pair=EUR/JPY`, GBP/JPY by default), highest floor first. */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const pairConfig = findPairConfig(getPairConfigs(db), request.nextUrl.searchParams.get('pair'));
+
+    if (!pairConfig) {
+      return NextResponse.json(
+        { error: 'Unknown currency pair' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(pairConfig.ladder);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch band ladder';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Replace a pair's whole ladder. Tiers sent without a key are new. */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = bandLadderSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const pairConfig = findPairConfig(getPairConfigs(db), request.nextUrl.searchParams.get('pair'));
+
+    if (!pairConfig) {
+      return NextResponse.json(
+        { error: 'Unknown currency pair' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(saveBandTiers(db, pairConfig.pair, result.data.tiers));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to save band ladder';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
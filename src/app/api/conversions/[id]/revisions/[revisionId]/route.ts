@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { validateConversionAccounts } from '@/lib/accounts/accounts';
+import {
+  getRevisionValues,
+  toConversionInput,
+  toConversionValues,
+  updateConversion,
+} from '@/lib/conversions/revisions';
+import { conversionSchema } from '@/lib/validators';
+
+/**
+ * Revert the conversion to this revision. The revert is an edit like any
+ * other: it is validated the same way, and the version it replaces becomes a
+ * revision too.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id, revisionId } = await params;
+    const numericId = Number(id);
+    const numericRevisionId = Number(revisionId);
+
+    if (Number.isNaN(numericId) || Number.isNaN(numericRevisionId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversion or revision ID' },
+        { status: 400 }
+      );
+    }
+
+    const saved = getRevisionValues(db, numericId, numericRevisionId);
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Conversion or revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = conversionSchema.safeParse(toConversionInput(saved));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const values = toConversionValues(result.data);
+    const accountProblem = validateConversionAccounts(db, values);
+
+    if (accountProblem) {
+      return NextResponse.json({ error: accountProblem }, { status: 400 });
+    }
+
+    return NextResponse.json(updateConversion(db, numericId, values));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to revert conversion';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getConversionRevisions } from '@/lib/conversions/revisions';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversion ID' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(getConversionRevisions(db, numericId));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch revisions';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
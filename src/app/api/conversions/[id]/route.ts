@@ -1,8 +1,99 @@
-import { NextResponse } from 'next/server';
-import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { conversions } from '@/lib/db/schema';
+import {
+  getConversion,
+  toConversionInput,
+  toConversionValues,
+  updateConversion,
+} from '@/lib/conversions/revisions';
+import { trashConversion } from '@/lib/conversions/trash';
+import { validateConversionAccounts } from '@/lib/accounts/accounts';
+import { conversionSchema, conversionUpdateSchema } from '@/lib/validators';
 
+/**
+ * PUT replaces every field (omitted optional fields revert to their defaults);
+ * PATCH changes only the fields sent. Both keep created_at and record the
+ * previous version in conversion_revisions.
+ */
+async function handleUpdate(
+  request: NextRequest,
+  params: Promise<{ id: string }>,
+  partial: boolean
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversion ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: unknown = await request.json();
+    const existing = getConversion(db, numericId);
+
+    if (!existing || existing.deleted_at) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    let input = body;
+    if (partial) {
+      const patch = conversionUpdateSchema.safeParse(body);
+      if (!patch.success) {
+        return NextResponse.json(
+          { errors: patch.error.issues },
+          { status: 400 }
+        );
+      }
+      input = { ...toConversionInput(existing), ...patch.data };
+    }
+
+    const result = conversionSchema.safeParse(input);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const values = toConversionValues(result.data);
+    const accountProblem = validateConversionAccounts(db, values);
+
+    if (accountProblem) {
+      return NextResponse.json({ error: accountProblem }, { status: 400 });
+    }
+
+    const updated = updateConversion(db, numericId, values);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to update conversion';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return handleUpdate(request, params, false);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return handleUpdate(request, params, true);
+}
+
+/** Moves the conversion to the trash; restore or purge it under /api/conversions/trash. */
 export async function DELETE(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -18,9 +109,16 @@ export async function DELETE(
       );
     }
 
-    db.delete(conversions).where(eq(conversions.id, numericId)).run();
+    const trashed = trashConversion(db, numericId);
+
+    if (!trashed) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json(trashed);
   } catch (error) {
     const message =
       error instanceof Error ? error.message : 'Failed to delete conversion';
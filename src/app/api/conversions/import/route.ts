@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import {
+  commitStatementImport,
+  getStatementProvider,
+  parseStatement,
+  previewStatementImport,
+} from '@/lib/conversions/statements';
+import { statementImportSchema } from '@/lib/validators';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = statementImportSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const parsed = parseStatement(data.csv, data.format, data.mapping);
+    const preview = previewStatementImport(
+      db,
+      parsed,
+      getStatementProvider(data.format, data.provider)
+    );
+
+    if (data.mode === 'preview') {
+      return NextResponse.json(preview);
+    }
+
+    if (preview.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No conversions found in the statement', errors: preview.errors },
+        { status: 400 }
+      );
+    }
+
+    const imported = commitStatementImport(db, preview, data.includeDuplicates ?? false);
+
+    return NextResponse.json({ ...imported, errors: preview.errors }, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to import statement';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,18 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { desc } from 'drizzle-orm';
 import { db } from '@/lib/db/client';
 import { conversions } from '@/lib/db/schema';
-import { conversionSchema } from '@/lib/validators';
+import { queryConversions, decodeCursor } from '@/lib/conversions/query';
+import { toConversionValues } from '@/lib/conversions/revisions';
+import { validateConversionAccounts } from '@/lib/accounts/accounts';
+import { conversionQuerySchema, conversionSchema } from '@/lib/validators';
 
-export async function GET(): Promise<NextResponse> {
+/**
+ * Conversions matching the query-string filters, newest first by default.
+ * Pass `limit` to page through them with the returned `nextCursor`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    const rows = db
-      .select()
-      .from(conversions)
-      .orderBy(desc(conversions.date), desc(conversions.created_at))
-      .all();
+    const result = conversionQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
 
-    return NextResponse.json(rows);
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (result.data.cursor && !decodeCursor(result.data.cursor)) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(queryConversions(db, result.data));
   } catch (error) {
     const message =
       error instanceof Error ? error.message : 'Failed to fetch conversions';
@@ -32,22 +50,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const data = result.data;
+    const values = toConversionValues(result.data);
+    const accountProblem = validateConversionAccounts(db, values);
+
+    if (accountProblem) {
+      return NextResponse.json({ error: accountProblem }, { status: 400 });
+    }
 
     const inserted = db
       .insert(conversions)
-      .values({
-        date: data.date,
-        direction: data.direction,
-        gbp_amount: data.gbpPence,
-        jpy_amount: data.jpyAmount,
-        exchange_rate: data.rate,
-        spot_rate: data.spotRate ?? null,
-        fee_pct: data.feePct ?? 0,
-        provider: data.provider ?? 'WISE',
-        band_at_time: data.bandAtTime ?? null,
-        notes: data.notes ?? null,
-      })
+      .values(values)
       .returning()
       .get();
 
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { purgeConversions, restoreConversion } from '@/lib/conversions/trash';
+
+/** Restores a conversion from the trash. */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversion ID' },
+        { status: 400 }
+      );
+    }
+
+    const restored = restoreConversion(db, numericId);
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Conversion not in trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to restore conversion';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Permanently deletes a trashed conversion and its revisions. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversion ID' },
+        { status: 400 }
+      );
+    }
+
+    if (purgeConversions(db, [numericId]) === 0) {
+      return NextResponse.json(
+        { error: 'Conversion not in trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to purge conversion';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
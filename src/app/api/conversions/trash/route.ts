@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getTrashedConversions, purgeConversions } from '@/lib/conversions/trash';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json(getTrashedConversions(db));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to load trash';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Empties the trash, permanently deleting every conversion in it. */
+export async function DELETE(): Promise<NextResponse> {
+  try {
+    const purged = purgeConversions(db);
+    return NextResponse.json({ purged });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to empty trash';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
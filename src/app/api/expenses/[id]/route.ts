@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { deleteExpense } from '@/lib/spending/expenses';
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid expense ID' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = deleteExpense(db, numericId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Expense not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(deleted);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to delete expense';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
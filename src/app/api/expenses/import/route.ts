@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { importExpenses, validateExpenseAccount } from '@/lib/spending/expenses';
+import { parseExpenseCsv } from '@/lib/spending/ledger';
+import { expenseImportSchema } from '@/lib/validators';
+
+/** Bulk expenses from a bank or card CSV; preview first, then commit. */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = expenseImportSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const accountId = data.accountId ?? null;
+    const problem = validateExpenseAccount(db, accountId, data.currency);
+
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const parsed = parseExpenseCsv(data.csv, {
+      dateColumn: data.dateColumn,
+      amountColumn: data.amountColumn,
+      descriptionColumn: data.descriptionColumn,
+      categoryColumn: data.categoryColumn,
+      currency: data.currency,
+    });
+
+    if (data.mode === 'preview') {
+      return NextResponse.json(parsed);
+    }
+
+    if (parsed.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rows to import', errors: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    const imported = importExpenses(db, parsed, data.currency, accountId);
+
+    return NextResponse.json({ imported, total: parsed.total, errors: parsed.errors });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to import expenses';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { settings } from '@/lib/db/schema';
+import { createExpense, getExpenses, validateExpenseAccount } from '@/lib/spending/expenses';
+import type { ExpenseValues } from '@/lib/spending/expenses';
+import { calculateMonthlySpending, totalSpent } from '@/lib/spending/ledger';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { expenseQuerySchema, expenseSchema } from '@/lib/validators';
+
+/**
+ * Expenses in ?from=&to=, newest first, with monthly yen spending against
+ * the monthly_jpy_expenses budget.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const result = expenseQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+    const budget = config?.monthly_jpy_expenses ?? 0;
+    const currency = PRIMARY_PAIR.quote;
+    const expenses = getExpenses(db, result.data);
+
+    return NextResponse.json({
+      expenses,
+      currency,
+      budget,
+      totalSpent: totalSpent(expenses, currency),
+      monthly: calculateMonthlySpending(expenses, budget, currency),
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch expenses';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = expenseSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const values: ExpenseValues = {
+      date: result.data.date,
+      currency: result.data.currency,
+      amount: result.data.amount,
+      account_id: result.data.accountId ?? null,
+      category: result.data.category || null,
+      description: result.data.description || null,
+    };
+    const problem = validateExpenseAccount(db, values.account_id, values.currency);
+
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    return NextResponse.json(createExpense(db, values), { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create expense';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Papa from 'papaparse';
-import { desc } from 'drizzle-orm';
 import { db } from '@/lib/db/client';
-import { conversions } from '@/lib/db/schema';
-import { penceToPounds } from '@/lib/finance/currency';
-import type { ConversionRecord } from '@/types';
+import { queryConversions } from '@/lib/conversions/query';
+import { fromMinorUnits } from '@/lib/finance/currency';
+import { parseTaxYear } from '@/lib/finance/tax';
+import { conversionQuerySchema } from '@/lib/validators';
 
 interface CsvRow {
   Date: string;
   Direction: string;
-  'GBP Amount': string;
-  'JPY Amount': number;
+  'Source Currency': string;
+  'Source Amount': number;
+  'Target Currency': string;
+  'Target Amount': number;
   'Exchange Rate': number;
   'Spot Rate': string;
   'Fee %': string;
@@ -19,59 +21,40 @@ interface CsvRow {
   Notes: string;
 }
 
-function parseTaxYearRange(
-  taxYear: string,
-  taxSystem: string
-): { start: string; end: string } | null {
-  if (taxSystem === 'jp') {
-    const year = parseInt(taxYear, 10);
-    if (Number.isNaN(year)) return null;
-    return {
-      start: `${year}-01-01`,
-      end: `${year}-12-31`,
-    };
-  }
-
-  // UK tax year: "2025-2026" means Apr 6 2025 to Apr 5 2026
-  const parts = taxYear.split('-');
-  if (parts.length !== 2) return null;
-
-  const startYear = parseInt(parts[0], 10);
-  const endYear = parseInt(parts[1], 10);
-  if (Number.isNaN(startYear) || Number.isNaN(endYear)) return null;
-
-  return {
-    start: `${startYear}-04-06`,
-    end: `${endYear}-04-05`,
-  };
-}
-
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
     const { searchParams } = request.nextUrl;
     const taxYear = searchParams.get('taxYear');
     const taxSystem = searchParams.get('taxSystem') ?? 'uk';
 
-    let rows: ConversionRecord[] = db
-      .select()
-      .from(conversions)
-      .orderBy(desc(conversions.date), desc(conversions.created_at))
-      .all() as ConversionRecord[];
+    // Same filters as GET /api/conversions, without paging
+    const result = conversionQuerySchema.safeParse(Object.fromEntries(searchParams));
 
-    if (taxYear) {
-      const range = parseTaxYearRange(taxYear, taxSystem);
-      if (range) {
-        rows = rows.filter(
-          (row) => row.date >= range.start && row.date <= range.end
-        );
-      }
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
     }
 
+    const filters = { ...result.data, limit: undefined, cursor: undefined };
+
+    // A tax year narrows any explicit date range to the part inside it
+    const range = taxYear ? parseTaxYear(taxYear, taxSystem === 'jp' ? 'jp' : 'uk') : null;
+    if (range) {
+      filters.from = filters.from && filters.from > range.start ? filters.from : range.start;
+      filters.to = filters.to && filters.to < range.end ? filters.to : range.end;
+    }
+
+    const rows = queryConversions(db, filters).conversions;
+
     const csvData: CsvRow[] = rows.map((row) => ({
       Date: row.date,
-      Direction: row.direction,
-      'GBP Amount': penceToPounds(row.gbp_amount).toFixed(2),
-      'JPY Amount': row.jpy_amount,
+      Direction: `${row.source_currency}_TO_${row.target_currency}`,
+      'Source Currency': row.source_currency,
+      'Source Amount': fromMinorUnits(row.source_amount, row.source_currency),
+      'Target Currency': row.target_currency,
+      'Target Amount': fromMinorUnits(row.target_amount, row.target_currency),
       'Exchange Rate': row.exchange_rate,
       'Spot Rate': row.spot_rate != null ? row.spot_rate.toString() : '',
       'Fee %': row.fee_pct != null ? row.fee_pct.toString() : '',
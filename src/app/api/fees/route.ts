@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { conversions } from '@/lib/db/schema';
+import { calculateFeeReport } from '@/lib/finance/fees';
+import type { ConversionRecord } from '@/types';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const allConversions = db.select().from(conversions).all() as ConversionRecord[];
+
+    return NextResponse.json(calculateFeeReport(allConversions));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to calculate fees';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
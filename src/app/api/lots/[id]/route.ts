@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/client';
+import { conversions } from '@/lib/db/schema';
+import { setLotAssignments, validateLotAssignments } from '@/lib/conversions/lot-assignments';
+import { lotAssignmentSchema } from '@/lib/validators';
+import type { ConversionRecord } from '@/types';
+
+/**
+ * Choose the lots a reversal draws on under the specific-lot method. `id` is
+ * the reversal; an empty list reverts it to FIFO.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversion ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: unknown = await request.json();
+    const result = lotAssignmentSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const disposal = db
+      .select()
+      .from(conversions)
+      .where(and(eq(conversions.id, numericId), isNull(conversions.deleted_at)))
+      .get() as ConversionRecord | undefined;
+
+    if (!disposal) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    const problem = validateLotAssignments(db, disposal, result.data.assignments);
+
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    return NextResponse.json(setLotAssignments(db, numericId, result.data.assignments));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to choose lots';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
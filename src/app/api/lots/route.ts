@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { settings, conversions } from '@/lib/db/schema';
+import { getCurrentRate } from '@/lib/rates/service';
+import { findPairConfig, getPairConfigs } from '@/lib/strategy/pairs';
+import { calculateLots, LOT_METHODS } from '@/lib/finance/lots';
+import type { LotMethod } from '@/lib/finance/lots';
+import { getLotAssignments } from '@/lib/conversions/lot-assignments';
+import type { ConversionRecord } from '@/types';
+
+/**
+ * Realised P&L per reversal and the open lots left for a pair, matched by
+ * ?method=fifo|average|specific (FIFO by default).
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const config = db.select().from(settings).all()[0];
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
+    }
+
+    const method = request.nextUrl.searchParams.get('method') ?? 'fifo';
+
+    if (!LOT_METHODS.includes(method as LotMethod)) {
+      return NextResponse.json(
+        { error: `Method must be one of ${LOT_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const pairConfig = findPairConfig(
+      getPairConfigs(db),
+      request.nextUrl.searchParams.get('pair')
+    );
+
+    if (!pairConfig) {
+      return NextResponse.json(
+        { error: 'Unknown currency pair' },
+        { status: 404 }
+      );
+    }
+
+    // Open lots are valued at the current rate when one is available
+    const { rate: rateInfo } = await getCurrentRate(db, config, { pair: pairConfig.pair });
+    const allConversions = db.select().from(conversions).all() as ConversionRecord[];
+
+    return NextResponse.json(
+      calculateLots(
+        allConversions,
+        rateInfo?.rate ?? 0,
+        method as LotMethod,
+        getLotAssignments(db),
+        pairConfig.pair
+      )
+    );
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to calculate lots';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
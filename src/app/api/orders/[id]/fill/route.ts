@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getPairConfigs } from '@/lib/strategy/pairs';
+import { fillLimitOrder, findOrderPair, getLimitOrder } from '@/lib/orders/limit-orders';
+import { limitOrderFillSchema } from '@/lib/validators';
+
+/**
+ * Logs the conversion for a triggered order. Every field is optional: by
+ * default the order amount is converted at the rate it triggered on, today.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = limitOrderFillSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const order = getLimitOrder(db, numericId);
+    const pairConfig = order ? findOrderPair(getPairConfigs(db), order) : null;
+
+    if (!order || !pairConfig) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const filled = fillLimitOrder(db, numericId, pairConfig.pair, {
+      ...result.data,
+      date: result.data.date ?? new Date().toISOString().split('T')[0],
+    });
+
+    if (!filled) {
+      return NextResponse.json(
+        { error: 'Only triggered orders can be filled' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(filled, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fill limit order';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
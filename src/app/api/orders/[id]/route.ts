@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { cancelLimitOrder } from '@/lib/orders/limit-orders';
+
+/** Cancels a pending or triggered order; filled, expired and cancelled orders are kept as history. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const cancelled = cancelLimitOrder(db, numericId);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Order not found or no longer open' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(cancelled);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to cancel limit order';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
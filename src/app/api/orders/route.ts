@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getPairConfigs } from '@/lib/strategy/pairs';
+import { createLimitOrder, findOrderPair, getLimitOrders } from '@/lib/orders/limit-orders';
+import { limitOrderSchema } from '@/lib/validators';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json(getLimitOrders(db));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch limit orders';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = limitOrderSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const pairConfig = findOrderPair(getPairConfigs(db), {
+      source_currency: data.sourceCurrency,
+      target_currency: data.targetCurrency,
+    });
+
+    // Orders are watched on their pair's rate, so the pair must be tracked
+    if (!pairConfig) {
+      return NextResponse.json(
+        { error: `No currency pair configured for ${data.sourceCurrency} and ${data.targetCurrency}` },
+        { status: 400 }
+      );
+    }
+
+    const order = createLimitOrder(db, {
+      source_currency: data.sourceCurrency,
+      target_currency: data.targetCurrency,
+      amount: data.amount,
+      condition: data.condition,
+      target_rate: data.targetRate,
+      expires_on: data.expiresOn ?? null,
+      notes: data.notes ?? null,
+    });
+
+    return NextResponse.json(order, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create limit order';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
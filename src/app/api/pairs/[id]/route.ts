@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { deletePair } from '@/lib/strategy/pairs';
+
+// A pair's ladder is edited through /api/bands?pair=
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid currency pair ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!deletePair(db, numericId)) {
+      return NextResponse.json(
+        { error: 'Currency pair not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to delete currency pair';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
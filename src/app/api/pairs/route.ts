@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { isPrimaryPair, pairKey } from '@/lib/finance/currency';
+import { createPair, getPairConfigs } from '@/lib/strategy/pairs';
+import { currencyPairSchema } from '@/lib/validators';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json(getPairConfigs(db));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch currency pairs';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = currencyPairSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const pair = { base: data.base_currency, quote: data.quote_currency };
+
+    if (isPrimaryPair(pair)) {
+      return NextResponse.json(
+        { error: `${pairKey(pair)} uses the band ladder in settings` },
+        { status: 409 }
+      );
+    }
+
+    const created = createPair(db, pair, data.tiers);
+
+    if (!created) {
+      return NextResponse.json(
+        { error: `${pairKey(pair)} is already configured` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create currency pair';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
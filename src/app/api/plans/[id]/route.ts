@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { deletePlan, updatePlan } from '@/lib/plans/plans';
+import { recurringPlanUpdateSchema } from '@/lib/validators';
+
+/** Change a plan's amount, day, provider or end date, or pause and resume it. */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid plan ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: unknown = await request.json();
+    const result = recurringPlanUpdateSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { amount, dayOfMonth, provider, endDate, active, notes } = result.data;
+    const updated = updatePlan(db, numericId, {
+      amount,
+      day_of_month: dayOfMonth,
+      provider,
+      end_date: endDate,
+      active: active === undefined ? undefined : active ? 1 : 0,
+      notes,
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to update recurring plan';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid plan ID' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = deletePlan(db, numericId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(deleted);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to delete recurring plan';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getPairConfigs } from '@/lib/strategy/pairs';
+import { findOrderPair } from '@/lib/orders/limit-orders';
+import { getPlan, recordPlanRun } from '@/lib/plans/plans';
+import { planRunSchema } from '@/lib/validators';
+
+/**
+ * Confirm a scheduled run with the amounts actually sent and received, which
+ * logs the conversion, or skip it. The conversion date defaults to the
+ * scheduled date.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid plan ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = planRunSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const plan = getPlan(db, numericId);
+    const pairConfig = plan ? findOrderPair(getPairConfigs(db), plan) : null;
+
+    if (!plan || !pairConfig) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const { scheduledDate, status, date, targetAmount, ...actuals } = result.data;
+    const recorded = recordPlanRun(
+      db,
+      plan,
+      pairConfig.pair,
+      scheduledDate,
+      status,
+      targetAmount !== undefined ? { ...actuals, targetAmount, date: date ?? scheduledDate } : undefined
+    );
+
+    if (!recorded) {
+      return NextResponse.json(
+        { error: `No outstanding run of this plan on ${scheduledDate}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(recorded, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to record plan run';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
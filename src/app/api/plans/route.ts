@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getPairConfigs } from '@/lib/strategy/pairs';
+import { findOrderPair } from '@/lib/orders/limit-orders';
+import { createPlan, getPlanRuns, getPlans } from '@/lib/plans/plans';
+import { scheduleRuns } from '@/lib/plans/schedule';
+import { recurringPlanSchema } from '@/lib/validators';
+import type { PlansResponse } from '@/types';
+
+/** Every plan, with each run from its start until a month ahead. */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const plans = getPlans(db);
+    const today = new Date().toISOString().split('T')[0];
+    const response: PlansResponse = { plans, runs: scheduleRuns(plans, getPlanRuns(db), today) };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch recurring plans';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = recurringPlanSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const pairConfig = findOrderPair(getPairConfigs(db), {
+      source_currency: data.sourceCurrency,
+      target_currency: data.targetCurrency,
+    });
+
+    // Confirmed runs are logged against the pair, so it must be tracked
+    if (!pairConfig) {
+      return NextResponse.json(
+        { error: `No currency pair configured for ${data.sourceCurrency} and ${data.targetCurrency}` },
+        { status: 400 }
+      );
+    }
+
+    const plan = createPlan(db, {
+      source_currency: data.sourceCurrency,
+      target_currency: data.targetCurrency,
+      amount: data.amount,
+      day_of_month: data.dayOfMonth,
+      provider: data.provider,
+      start_date: data.startDate,
+      end_date: data.endDate ?? null,
+      notes: data.notes ?? null,
+    });
+
+    return NextResponse.json(plan, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create recurring plan';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
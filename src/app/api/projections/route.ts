@@ -1,30 +1,34 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { settings, conversions } from '@/lib/db/schema';
-import { fetchCurrentRate } from '@/lib/rates/frankfurter';
-import { cacheRate, getLatestCachedRate } from '@/lib/rates/cache';
+import { getCurrentRate } from '@/lib/rates/service';
+import { getHoldings } from '@/lib/accounts/accounts';
 import { calculatePortfolioSummary } from '@/lib/finance/pnl';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
 import {
   calculateScenarios,
   calculateBreakEven,
-  compareStrategies,
 } from '@/lib/strategy/projections';
 import { calculateNisaProjection } from '@/lib/strategy/nisa';
 import { getRateHistory, calculate52WeekRange } from '@/lib/rates/history';
-import type { RateInfo, ConversionRecord } from '@/types';
+import type { ConversionRecord } from '@/types';
 
 export async function GET(): Promise<NextResponse> {
   try {
-    // 1. Fetch current rate with cache fallback
-    let rateInfo: RateInfo | null = null;
+    // 1. Load settings
+    const settingsRows = db.select().from(settings).all();
+    const config = settingsRows[0];
 
-    try {
-      rateInfo = await fetchCurrentRate();
-      cacheRate(db, rateInfo);
-    } catch {
-      rateInfo = getLatestCachedRate(db);
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
     }
 
+    // 2. Current rate from the shared rate service (falls back to cache)
+    const { rate: rateInfo } = await getCurrentRate(db, config);
+
     if (!rateInfo) {
       return NextResponse.json(
         { error: 'No rate data available' },
@@ -34,27 +38,21 @@ export async function GET(): Promise<NextResponse> {
 
     const currentRate = rateInfo.rate;
 
-    // 2. Load settings
-    const settingsRows = db.select().from(settings).all();
-    const config = settingsRows[0];
-
-    if (!config) {
-      return NextResponse.json(
-        { error: 'Settings not configured' },
-        { status: 500 }
-      );
-    }
-
     // 3. Load all conversions
     const allConversions = db.select().from(conversions).all() as ConversionRecord[];
 
-    // 4. Calculate portfolio summary
-    const portfolio = calculatePortfolioSummary(allConversions, currentRate);
+    // 4. Calculate portfolio summary on what is held, as the dashboard does
+    const portfolio = calculatePortfolioSummary(
+      allConversions,
+      currentRate,
+      PRIMARY_PAIR,
+      getHoldings(db, PRIMARY_PAIR, currentRate)?.convertedQuote
+    );
 
     // 5. Calculate remaining GBP (not below 0)
     const remainingGbpPence = Math.max(
       0,
-      config.total_gbp_savings_pence - portfolio.netGbpDeployed
+      config.total_gbp_savings_pence - portfolio.netBaseDeployed
     );
 
     // 6. Calculate scenarios
@@ -66,35 +64,26 @@ export async function GET(): Promise<NextResponse> {
 
     // 7. Calculate break-even rate
     const breakEvenRate = calculateBreakEven(
-      portfolio.totalJpyAcquired,
-      portfolio.netGbpDeployed
-    );
-
-    // 8. Strategy comparison over 12 months
-    const strategyComparison = compareStrategies(
-      remainingGbpPence,
-      currentRate,
-      config,
-      12
+      portfolio.totalQuoteAcquired,
+      portfolio.netBaseDeployed
     );
 
-    // 9. NISA projection over 20 years
+    // 8. NISA projection over 20 years
     const nisaProjection = calculateNisaProjection(
       config.nisa_monthly_jpy,
       config.nisa_return_pct,
       20
     );
 
-    // 10. Rate history (365 days)
+    // 9. Rate history (365 days)
     const rateHistory = getRateHistory(db, 365);
 
-    // 11. 52-week range
+    // 10. 52-week range
     const range52Week = calculate52WeekRange(rateHistory, currentRate);
 
     return NextResponse.json({
       scenarios,
       breakEvenRate,
-      strategyComparison,
       nisaProjection,
       rateHistory,
       range52Week,
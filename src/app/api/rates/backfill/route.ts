@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import {
+  DEFAULT_BACKFILL_DAYS,
+  getBackfillProgress,
+  startBackfill,
+} from '@/lib/rates/backfill';
+import { addDays } from '@/lib/rates/calendar';
+import { backfillSchema } from '@/lib/validators';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json(getBackfillProgress());
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch backfill progress';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = backfillSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const to = data.to ?? new Date().toISOString().split('T')[0];
+    const from = data.from ?? addDays(to, -DEFAULT_BACKFILL_DAYS);
+
+    const progress = startBackfill(db, { from, to, chunkDays: data.chunkDays });
+
+    if (!progress) {
+      return NextResponse.json(
+        { error: 'A backfill is already running', progress: getBackfillProgress() },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(progress, { status: 202 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to start backfill';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import {
+  commitRateImport,
+  DEFAULT_IMPORT_SOURCE,
+  parseRateCsv,
+  previewRateImport,
+} from '@/lib/rates/import';
+import { rateImportSchema } from '@/lib/validators';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json().catch(() => ({}));
+    const result = rateImportSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+    const parsed = parseRateCsv(data.csv, {
+      dateColumn: data.dateColumn,
+      rateColumn: data.rateColumn,
+      inverted: data.inverted,
+    });
+    const preview = previewRateImport(db, parsed);
+
+    if (data.mode === 'preview') {
+      return NextResponse.json(preview);
+    }
+
+    if (preview.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rows to import', errors: preview.errors },
+        { status: 400 }
+      );
+    }
+
+    const imported = commitRateImport(
+      db,
+      preview,
+      data.onConflict ?? 'skip',
+      data.source ?? DEFAULT_IMPORT_SOURCE
+    );
+
+    return NextResponse.json({ ...imported, errors: preview.errors });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to import rates';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
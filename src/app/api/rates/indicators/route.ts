@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { settings } from '@/lib/db/schema';
+import { getRateHistory } from '@/lib/rates/history';
+import { calculateIndicators, MOVING_AVERAGE_PERIODS } from '@/lib/rates/indicators';
+import { getCurrentRate } from '@/lib/rates/service';
+
+// Extra calendar days loaded before the window so the longest average is warm
+const WARMUP_DAYS = Math.ceil(Math.max(...MOVING_AVERAGE_PERIODS) * 1.5);
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const days = Number(request.nextUrl.searchParams.get('days') ?? 365);
+
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      return NextResponse.json(
+        { error: 'days must be an integer between 1 and 3650' },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+    const { rate: rateInfo } = await getCurrentRate(db, config);
+
+    const history = getRateHistory(db, days + WARMUP_DAYS);
+    const { series, latest } = calculateIndicators(history, rateInfo?.rate);
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - days);
+    const cutoffStr = cutoff.toISOString().split('T')[0];
+
+    return NextResponse.json({
+      series: series.filter((point) => point.date >= cutoffStr),
+      latest,
+      currentRate: rateInfo?.rate ?? null,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to calculate indicators';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
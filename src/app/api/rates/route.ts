@@ -1,34 +1,45 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { eq, desc } from 'drizzle-orm';
 import { db } from '@/lib/db/client';
 import { settings, conversions, alerts } from '@/lib/db/schema';
-import { fetchCurrentRate } from '@/lib/rates/frankfurter';
-import { cacheRate, getLatestCachedRate } from '@/lib/rates/cache';
+import { getCurrentRate } from '@/lib/rates/service';
+import { pairKey, PRIMARY_PAIR } from '@/lib/finance/currency';
 import { determineBand } from '@/lib/strategy/bands';
+import { findPairConfig, getPairConfigs } from '@/lib/strategy/pairs';
 import { checkCircuitBreaker } from '@/lib/strategy/circuit-breaker';
+import { getExpenses } from '@/lib/spending/expenses';
+import { totalSpent } from '@/lib/spending/ledger';
 import type { CircuitBreakerResult } from '@/lib/strategy/circuit-breaker';
 import {
   checkAndCreateBandChangeAlert,
   checkRecalibrationDue,
   createAlert,
+  createAnomalyAlerts,
   getUnacknowledgedAlerts,
 } from '@/lib/alerts';
 import type { AlertRecord } from '@/lib/alerts';
-import type { RateInfo, BandResult, ConversionRecord } from '@/types';
+import type { BandResult, ConversionRecord } from '@/types';
 
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    let rateInfo: RateInfo | null = null;
-    let fallback = false;
-
-    try {
-      rateInfo = await fetchCurrentRate();
-      cacheRate(db, rateInfo);
-    } catch {
-      rateInfo = getLatestCachedRate(db);
-      fallback = true;
+    const settingsRows = db.select().from(settings).all();
+    const config = settingsRows[0];
+
+    const pairConfig = config
+      ? findPairConfig(getPairConfigs(db), request.nextUrl.searchParams.get('pair'))
+      : null;
+
+    if (config && !pairConfig) {
+      return NextResponse.json(
+        { error: 'Unknown currency pair' },
+        { status: 404 }
+      );
     }
 
+    const pair = pairConfig?.pair ?? PRIMARY_PAIR;
+    const { rate: rateInfo, fallback, providerFailures, anomalies } =
+      await getCurrentRate(db, config, { pair });
+
     if (!rateInfo) {
       return NextResponse.json(
         { error: 'No rate data available' },
@@ -36,22 +47,22 @@ export async function GET(): Promise<NextResponse> {
       );
     }
 
-    const settingsRows = db.select().from(settings).all();
-    const config = settingsRows[0];
-
     let band: BandResult | null = null;
     let circuitBreaker: CircuitBreakerResult | null = null;
     let unacknowledgedAlerts: AlertRecord[] = [];
 
-    if (config) {
-      band = determineBand(rateInfo.rate, {
-        aggressiveAbove: config.aggressive_above,
-        normalAbove: config.normal_above,
-        holdAbove: config.hold_above,
-      });
+    if (pairConfig) {
+      band = determineBand(rateInfo.rate, pairConfig.ladder);
+    }
 
+    // Alerts and the circuit breaker watch the primary pair only
+    if (config && band && pairConfig?.id === null) {
       // Check for band change alert
-      checkAndCreateBandChangeAlert(band.band, rateInfo.rate);
+      checkAndCreateBandChangeAlert(band);
+
+      // Unusual moves and suspect provider data found when the rate was
+      // fetched; the fallback rate is already in rate_history and has none
+      createAnomalyAlerts(anomalies, rateInfo.rate);
 
       // Check circuit breaker
       const allConversions = db
@@ -62,7 +73,8 @@ export async function GET(): Promise<NextResponse> {
       circuitBreaker = checkCircuitBreaker(
         allConversions,
         rateInfo.rate,
-        config
+        config,
+        totalSpent(getExpenses(db), PRIMARY_PAIR.quote)
       );
 
       // Create circuit breaker alert if triggered and no recent unacknowledged one
@@ -109,18 +121,22 @@ export async function GET(): Promise<NextResponse> {
         if (!hasUnacknowledged) {
           createAlert(
             'recalibrate',
-            'Band thresholds may need review. Consider recalibrating your strategy.'
+            'Band thresholds may need review. See the proposed thresholds under Settings.'
           );
         }
       }
+    }
 
+    if (config) {
       unacknowledgedAlerts = getUnacknowledgedAlerts();
     }
 
     return NextResponse.json({
+      pair: pairKey(pair),
       rate: rateInfo,
       band,
       fallback,
+      providerFailures,
       circuitBreaker,
       alerts: unacknowledgedAlerts,
     });
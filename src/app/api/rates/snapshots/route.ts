@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { getSnapshotsForDate, rollupSnapshots } from '@/lib/rates/snapshots';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = request.nextUrl;
+    const date = searchParams.get('date') ?? new Date().toISOString().split('T')[0];
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'Date must be YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const snapshots = getSnapshotsForDate(db, date);
+    const rollup = rollupSnapshots(snapshots);
+
+    return NextResponse.json({
+      date,
+      snapshots,
+      ohlc: rollup
+        ? { open: rollup.open, high: rollup.high, low: rollup.low, close: rollup.close, count: rollup.count }
+        : null,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch rate snapshots';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
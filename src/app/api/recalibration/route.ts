@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db/client';
+import { settings } from '@/lib/db/schema';
+import { getRateHistory } from '@/lib/rates/history';
+import { acknowledgeAlertsOfType } from '@/lib/alerts';
+import { getPairConfigs, saveBandTiers } from '@/lib/strategy/pairs';
+import { recalibrate } from '@/lib/strategy/recalibration';
+import { bandLadderSchema, recalibrationAcceptSchema, recalibrationQuerySchema } from '@/lib/validators';
+
+/** Tier floors proposed from percentiles of past rates, next to the current ones. */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const result = recalibrationQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { days, percentiles } = result.data;
+    const [pairConfig] = getPairConfigs(db);
+
+    if (percentiles && percentiles.length !== pairConfig.ladder.length - 1) {
+      return NextResponse.json(
+        { error: `Give one percentile per tier above the lowest (${pairConfig.ladder.length - 1})` },
+        { status: 400 }
+      );
+    }
+
+    const recalibration = recalibrate(getRateHistory(db, days), config, pairConfig, percentiles);
+
+    if (!recalibration) {
+      return NextResponse.json(
+        { error: 'Not enough rate history to propose thresholds' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(recalibration);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to propose thresholds';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Accept tier floors: save them, stamp the review date and clear the reminder. */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = recalibrationAcceptSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { floors } = result.data;
+    const [pairConfig] = getPairConfigs(db);
+    const unknown = Object.keys(floors).filter((key) => !pairConfig.ladder.some((t) => t.key === key));
+
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown tier: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const ladder = bandLadderSchema.safeParse({
+      tiers: pairConfig.ladder.map((t) => ({ ...t, floor: floors[t.key] ?? t.floor })),
+    });
+
+    if (!ladder.success) {
+      return NextResponse.json(
+        { errors: ladder.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // New floors and the review stamp land together or not at all
+    const updated = db.transaction(() => {
+      saveBandTiers(db, pairConfig.pair, ladder.data.tiers);
+
+      const row = db
+        .update(settings)
+        .set({
+          last_band_review: new Date().toISOString().split('T')[0],
+          updated_at: new Date().toISOString(),
+        })
+        .where(eq(settings.id, 1))
+        .returning()
+        .get();
+
+      if (!row) throw new Error('Settings not configured');
+      return row;
+    });
+
+    acknowledgeAlertsOfType('recalibrate');
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to update tier floors';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
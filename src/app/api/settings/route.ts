@@ -6,11 +6,6 @@ import { settingsSchema } from '@/lib/validators';
 
 const SETTINGS_DEFAULTS = {
   id: 1,
-  aggressive_above: 200,
-  normal_above: 190,
-  hold_above: 175,
-  cap_aggressive_gbp: 200000,
-  cap_normal_gbp: 100000,
   total_gbp_savings_pence: 5000000,
   max_fx_exposure_pct: 80,
   monthly_jpy_expenses: 250000,
@@ -23,6 +18,13 @@ const SETTINGS_DEFAULTS = {
   scenario_base_rate: 190,
   scenario_worst_rate: 170,
   review_interval_days: 90,
+  rate_providers: 'frankfurter,ecb',
+  stale_after_hours: 12,
+  stale_hard_limit_hours: 72,
+  anomaly_std_devs: 3,
+  anomaly_window_days: 20,
+  anomaly_max_jump_pct: 5,
+  sizing_mode: 'stepped',
 } as const;
 
 export async function GET(): Promise<NextResponse> {
@@ -62,11 +64,6 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
     const data = result.data;
 
     const updatePayload = {
-      aggressive_above: data.aggressive_above,
-      normal_above: data.normal_above,
-      hold_above: data.hold_above,
-      cap_aggressive_gbp: data.cap_aggressive_gbp,
-      cap_normal_gbp: data.cap_normal_gbp,
       total_gbp_savings_pence: data.total_gbp_savings_pence,
       max_fx_exposure_pct: data.max_fx_exposure_pct,
       monthly_jpy_expenses: data.monthly_jpy_expenses,
@@ -80,6 +77,14 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       scenario_worst_rate: data.scenario_worst_rate,
       review_interval_days: data.review_interval_days,
       last_band_review: data.last_band_review ?? null,
+      rate_providers: data.rate_providers,
+      manual_rate: data.manual_rate,
+      stale_after_hours: data.stale_after_hours,
+      stale_hard_limit_hours: data.stale_hard_limit_hours,
+      anomaly_std_devs: data.anomaly_std_devs,
+      anomaly_window_days: data.anomaly_window_days,
+      anomaly_max_jump_pct: data.anomaly_max_jump_pct,
+      sizing_mode: data.sizing_mode,
       updated_at: new Date().toISOString(),
     };
 
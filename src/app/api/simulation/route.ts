@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { settings, conversions } from '@/lib/db/schema';
+import { getCurrentRate } from '@/lib/rates/service';
+import { getRateHistory } from '@/lib/rates/history';
+import { getHoldings } from '@/lib/accounts/accounts';
+import { calculatePortfolioSummary } from '@/lib/finance/pnl';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { runSimulation } from '@/lib/strategy/simulation';
+import { simulationQuerySchema } from '@/lib/validators';
+import type { ConversionRecord } from '@/types';
+
+/**
+ * Simulated GBP/JPY paths fitted to the stored rate history, with the
+ * spread of outcomes for the savings still to convert and the yen held.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const result = simulationQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = db.select().from(settings).all()[0];
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { rate: rateInfo } = await getCurrentRate(db, config);
+
+    if (!rateInfo) {
+      return NextResponse.json(
+        { error: 'No rate data available' },
+        { status: 503 }
+      );
+    }
+
+    const allConversions = db.select().from(conversions).all() as ConversionRecord[];
+    const portfolio = calculatePortfolioSummary(allConversions, rateInfo.rate);
+    // Yen in the accounts or bought outside them, net of spending and transfer fees
+    const holdings = getHoldings(db, PRIMARY_PAIR, rateInfo.rate);
+
+    const simulation = runSimulation(
+      getRateHistory(db, result.data.historyDays ?? 365),
+      {
+        startDate: new Date().toISOString().split('T')[0],
+        startRate: rateInfo.rate,
+        remainingBase: Math.max(0, config.total_gbp_savings_pence - portfolio.netBaseDeployed),
+        heldQuote: Math.max(0, holdings?.quote.total ?? portfolio.totalQuoteAcquired),
+      },
+      PRIMARY_PAIR,
+      {
+        mode: result.data.mode ?? 'gbm',
+        horizonDays: result.data.horizonDays ?? 252,
+        paths: result.data.paths,
+        seed: result.data.seed,
+      }
+    );
+
+    if (!simulation) {
+      return NextResponse.json(
+        { error: 'Not enough rate history to simulate' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(simulation);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to run simulation';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { conversions } from '@/lib/db/schema';
+import { calculateTaxReport } from '@/lib/finance/tax';
+import { taxReportToCsv, taxReportToHtml } from '@/lib/finance/tax-report';
+import { taxReportQuerySchema } from '@/lib/validators';
+import type { ConversionRecord } from '@/types';
+
+/**
+ * Gains on every disposal in a tax year:
+ * ?system=uk|jp&taxYear=2025-2026&format=json|csv|html. For Japan,
+ * ?openingRate= costs pounds held before any recorded purchase.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const result = taxReportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { system, taxYear, format, openingRate } = result.data;
+    const allConversions = db.select().from(conversions).all() as ConversionRecord[];
+    const report = calculateTaxReport(allConversions, system, taxYear, { openingRate });
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Invalid tax year' },
+        { status: 400 }
+      );
+    }
+
+    if (format === 'json') {
+      return NextResponse.json(report);
+    }
+
+    const filename = `yen-tracker-tax-${system}-${taxYear}.${format}`;
+
+    return new NextResponse(
+      format === 'csv' ? taxReportToCsv(report) : taxReportToHtml(report),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'text/html; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      }
+    );
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to build tax report';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
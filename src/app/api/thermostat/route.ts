@@ -1,50 +1,51 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { settings, conversions } from '@/lib/db/schema';
-import { fetchCurrentRate } from '@/lib/rates/frankfurter';
-import { cacheRate, getLatestCachedRate } from '@/lib/rates/cache';
+import { getCurrentRate } from '@/lib/rates/service';
 import { determineBand } from '@/lib/strategy/bands';
+import { findPairConfig, getPairConfigs } from '@/lib/strategy/pairs';
 import { calculateThermostat } from '@/lib/strategy/thermostat';
-import type { RateInfo, BandResult, ConversionRecord } from '@/types';
+import { getPlannedInMonth } from '@/lib/plans/plans';
+import { calculate52WeekRange, getRateHistory } from '@/lib/rates/history';
+import type { BandResult, ConversionRecord } from '@/types';
 
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    // Fetch current rate (same pattern as /api/rates)
-    let rateInfo: RateInfo | null = null;
-    let fallback = false;
+    // Load settings
+    const settingsRows = db.select().from(settings).all();
+    const config = settingsRows[0];
 
-    try {
-      rateInfo = await fetchCurrentRate();
-      cacheRate(db, rateInfo);
-    } catch {
-      rateInfo = getLatestCachedRate(db);
-      fallback = true;
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Settings not configured' },
+        { status: 500 }
+      );
     }
 
-    if (!rateInfo) {
+    const pairConfig = findPairConfig(
+      getPairConfigs(db),
+      request.nextUrl.searchParams.get('pair')
+    );
+
+    if (!pairConfig) {
       return NextResponse.json(
-        { error: 'No rate data available' },
-        { status: 503 }
+        { error: 'Unknown currency pair' },
+        { status: 404 }
       );
     }
 
-    // Load settings
-    const settingsRows = db.select().from(settings).all();
-    const config = settingsRows[0];
+    // Current rate from the shared rate service
+    const { rate: rateInfo, fallback } = await getCurrentRate(db, config, { pair: pairConfig.pair });
 
-    if (!config) {
+    if (!rateInfo) {
       return NextResponse.json(
-        { error: 'Settings not configured' },
-        { status: 500 }
+        { error: 'No rate data available' },
+        { status: 503 }
       );
     }
 
     // Determine band
-    const band: BandResult = determineBand(rateInfo.rate, {
-      aggressiveAbove: config.aggressive_above,
-      normalAbove: config.normal_above,
-      holdAbove: config.hold_above,
-    });
+    const band: BandResult = determineBand(rateInfo.rate, pairConfig.ladder);
 
     // Load all conversions
     const allConversions: ConversionRecord[] = db
@@ -52,14 +53,28 @@ export async function GET(): Promise<NextResponse> {
       .from(conversions)
       .all() as ConversionRecord[];
 
-    // Calculate thermostat
+    // Calculate thermostat, holding back what recurring plans will convert.
+    // Rate history is only kept for the primary pair, so percentile sizing
+    // falls back to stepped for the others
+    const month = new Date().toISOString().slice(0, 7);
     const thermostat = calculateThermostat(
       band.band,
       config,
-      allConversions
+      pairConfig,
+      allConversions,
+      month,
+      rateInfo,
+      getPlannedInMonth(db, pairConfig.pair, month),
+      {
+        rate: rateInfo.rate,
+        range52Week: pairConfig.id === null
+          ? calculate52WeekRange(getRateHistory(db, 365), rateInfo.rate)
+          : null,
+      }
     );
 
     return NextResponse.json({
+      pair: pairConfig.key,
       thermostat,
       rate: rateInfo,
       band,
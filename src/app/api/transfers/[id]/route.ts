@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { deleteTransfer } from '@/lib/accounts/accounts';
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const numericId = Number(id);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { error: 'Invalid transfer ID' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = deleteTransfer(db, numericId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Transfer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(deleted);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to delete transfer';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { createTransfer, getTransfers, validateTransfer } from '@/lib/accounts/accounts';
+import type { TransferValues } from '@/lib/accounts/accounts';
+import { transferSchema } from '@/lib/validators';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    return NextResponse.json(getTransfers(db));
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to fetch transfers';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: unknown = await request.json();
+    const result = transferSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { errors: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const values: TransferValues = {
+      date: result.data.date,
+      from_account_id: result.data.fromAccountId,
+      to_account_id: result.data.toAccountId,
+      amount: result.data.amount,
+      fee: result.data.fee,
+      notes: result.data.notes ?? null,
+    };
+    const problem = validateTransfer(db, values);
+
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    return NextResponse.json(createTransfer(db, values), { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create transfer';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,16 +1,78 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
-import type { ConversionRecord } from '@/types';
-import { formatGBP, formatJPY, formatRate, calculateEffectiveRate } from '@/lib/finance/currency';
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import type { BandTier, ConversionRecord } from '@/types';
+import type { ConversionPage } from '@/lib/conversions/query';
+import { formatMoney, formatRate, fromMinorUnits, toMinorUnits } from '@/lib/finance/currency';
 import { getBandBadgeClasses, getBandLabel } from '@/lib/strategy/bands';
 import Link from 'next/link';
 import { ErrorRetry } from '@/components/ui/ErrorRetry';
+import { SnapshotStrip } from '@/components/rates/SnapshotStrip';
+import { RevisionHistory } from '@/components/conversions/RevisionHistory';
+import StatementImportPanel from '@/components/conversions/StatementImportPanel';
+import TrashPanel from '@/components/conversions/TrashPanel';
+import { useToast } from '@/hooks/useToast';
+import { Toast } from '@/components/ui/Toast';
 
-function directionLabel(direction: string): string {
-  return direction === 'GBP_TO_JPY' ? 'GBP \u2192 JPY' : 'JPY \u2192 GBP';
+function directionLabel(c: ConversionRecord): string {
+  return `${c.source_currency} \u2192 ${c.target_currency}`;
 }
 
+interface EditForm {
+  date: string;
+  sourceAmount: string;
+  targetAmount: string;
+  rate: string;
+  spotRate: string;
+  feePct: string;
+  provider: string;
+  notes: string;
+}
+
+function toEditForm(c: ConversionRecord): EditForm {
+  return {
+    date: c.date,
+    sourceAmount: fromMinorUnits(c.source_amount, c.source_currency).toString(),
+    targetAmount: fromMinorUnits(c.target_amount, c.target_currency).toString(),
+    rate: c.exchange_rate.toString(),
+    spotRate: c.spot_rate?.toString() ?? '',
+    feePct: c.fee_pct?.toString() ?? '',
+    provider: c.provider ?? 'WISE',
+    notes: c.notes ?? '',
+  };
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = {
+  from: '',
+  to: '',
+  direction: '',
+  provider: '',
+  band: '',
+  minAmount: '',
+  maxAmount: '',
+  q: '',
+  sort: 'date',
+  order: 'desc',
+};
+
+type Filters = typeof EMPTY_FILTERS;
+
+function toFilterParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params;
+}
+
+const filterInputClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+const editInputClass =
+  'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors';
+
 function getCurrentTaxYears(): { label: string; value: string }[] {
   const now = new Date();
   const year = now.getFullYear();
@@ -52,16 +114,35 @@ export default function ConversionsPage() {
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [deleting, setDeleting] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [editing, setEditing] = useState<{ id: number; form: EditForm } | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashVersion, setTrashVersion] = useState(0);
+  const [toast, setToast] = useToast(8000);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [ladder, setLadder] = useState<BandTier[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [exportTaxYear, setExportTaxYear] = useState(
     getCurrentTaxYears()[0].value
   );
 
-  const fetchConversions = useCallback(async () => {
+  const fetchConversions = useCallback(async (cursor?: string) => {
+    const params = toFilterParams(filters);
+    params.set('limit', String(PAGE_SIZE));
+    if (cursor) params.set('cursor', cursor);
+
     try {
-      const res = await fetch('/api/conversions');
+      const res = await fetch(`/api/conversions?${params}`);
       if (!res.ok) throw new Error('Failed to fetch conversions');
-      const data: ConversionRecord[] = await res.json();
-      setConversions(data);
+      const data: ConversionPage = await res.json();
+      setConversions((prev) =>
+        cursor && prev ? [...prev, ...data.conversions] : data.conversions
+      );
+      setNextCursor(data.nextCursor);
       setError(null);
     } catch (err) {
       setError(
@@ -70,12 +151,35 @@ export default function ConversionsPage() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [filters]);
 
+  // Debounced so typing in the notes search does not fire a request per key
   useEffect(() => {
-    fetchConversions();
+    const timeout = setTimeout(() => fetchConversions(), 300);
+    return () => clearTimeout(timeout);
   }, [fetchConversions]);
 
+  // Labels and colours for band badges and the band filter
+  useEffect(() => {
+    fetch('/api/bands')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((tiers: BandTier[]) => setLadder(tiers))
+      .catch(() => {
+        // badges fall back to the default tier labels
+      });
+  }, []);
+
+  function updateFilter(field: keyof Filters, value: string) {
+    setFilters((f) => ({ ...f, [field]: value }));
+  }
+
+  async function handleLoadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await fetchConversions(nextCursor);
+    setLoadingMore(false);
+  }
+
   async function handleDelete(id: number) {
     setDeleting(id);
     try {
@@ -83,6 +187,12 @@ export default function ConversionsPage() {
       if (!res.ok) throw new Error('Failed to delete conversion');
       setConversions((prev) => (prev ? prev.filter((c) => c.id !== id) : prev));
       setDeleteConfirm(null);
+      setTrashVersion((v) => v + 1);
+      setToast({
+        type: 'success',
+        message: 'Conversion moved to trash.',
+        action: { label: 'Undo', onClick: () => handleUndoDelete(id) },
+      });
     } catch {
       setError('Failed to delete conversion');
     } finally {
@@ -91,16 +201,92 @@ export default function ConversionsPage() {
     }
   }
 
-  function handleExport() {
-    const taxYearOptions = getCurrentTaxYears();
-    const selected = taxYearOptions.find((t) => t.value === exportTaxYear);
-    const taxSystem = selected?.label.startsWith('JP') ? 'jp' : 'uk';
-    window.open(
-      `/api/export?taxYear=${exportTaxYear}&taxSystem=${taxSystem}`,
-      '_blank'
+  async function handleUndoDelete(id: number) {
+    setToast(null);
+    try {
+      const res = await fetch(`/api/conversions/trash/${id}`, { method: 'POST' });
+      if (!res.ok) throw new Error('Failed to restore conversion');
+      setTrashVersion((v) => v + 1);
+      await fetchConversions();
+    } catch {
+      setToast({ type: 'error', message: 'Failed to restore conversion.' });
+    }
+  }
+
+  function replaceConversion(updated: ConversionRecord) {
+    setConversions((prev) =>
+      prev ? prev.map((c) => (c.id === updated.id ? updated : c)) : prev
     );
   }
 
+  function startEdit(c: ConversionRecord) {
+    setEditing({ id: c.id, form: toEditForm(c) });
+    setEditError(null);
+  }
+
+  function updateEdit(field: keyof EditForm, value: string) {
+    setEditing((prev) => (prev ? { ...prev, form: { ...prev.form, [field]: value } } : prev));
+  }
+
+  async function handleSaveEdit(c: ConversionRecord) {
+    if (!editing) return;
+    const { form } = editing;
+    setSavingEdit(true);
+    setEditError(null);
+
+    try {
+      const res = await fetch(`/api/conversions/${c.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: form.date,
+          sourceAmount: toMinorUnits(parseFloat(form.sourceAmount), c.source_currency),
+          targetAmount: toMinorUnits(parseFloat(form.targetAmount), c.target_currency),
+          rate: parseFloat(form.rate),
+          spotRate: form.spotRate ? parseFloat(form.spotRate) : undefined,
+          feePct: form.feePct ? parseFloat(form.feePct) : undefined,
+          provider: form.provider,
+          notes: form.notes,
+        }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | (ConversionRecord & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok || !body) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to save conversion'
+        );
+      }
+
+      replaceConversion(body);
+      setEditing(null);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to save conversion');
+    } finally {
+      setSavingEdit(false);
+    }
+  }
+
+  function selectedTaxSystem(): 'uk' | 'jp' {
+    const selected = getCurrentTaxYears().find((t) => t.value === exportTaxYear);
+    return selected?.label.startsWith('JP') ? 'jp' : 'uk';
+  }
+
+  function handleExport() {
+    const params = toFilterParams(filters);
+    params.set('taxYear', exportTaxYear);
+    params.set('taxSystem', selectedTaxSystem());
+    window.open(`/api/export?${params}`, '_blank');
+  }
+
+  function handleTaxReport(format: 'csv' | 'html') {
+    const params = new URLSearchParams({ system: selectedTaxSystem(), taxYear: exportTaxYear, format });
+    window.open(`/api/tax?${params}`, '_blank');
+  }
+
+  const filtersActive = toFilterParams({ ...filters, sort: '', order: '' }).toString() !== '';
+
   if (error && !conversions) {
     return (
       <ErrorRetry
@@ -120,6 +306,18 @@ export default function ConversionsPage() {
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
         <h1 className="text-2xl font-bold">Conversion History</h1>
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowImport((v) => !v)}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            {showImport ? 'Close Import' : 'Import Statement'}
+          </button>
+          <button
+            onClick={() => setShowTrash((v) => !v)}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            {showTrash ? 'Close Trash' : 'Trash'}
+          </button>
           <select
             value={exportTaxYear}
             onChange={(e) => setExportTaxYear(e.target.value)}
@@ -137,9 +335,127 @@ export default function ConversionsPage() {
           >
             Export CSV
           </button>
+          <button
+            onClick={() => handleTaxReport('html')}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            Tax Report
+          </button>
+          <button
+            onClick={() => handleTaxReport('csv')}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            Tax CSV
+          </button>
         </div>
       </div>
 
+      {toast && <Toast toast={toast} />}
+
+      {showImport && <StatementImportPanel onImported={() => fetchConversions()} />}
+
+      {showTrash && <TrashPanel version={trashVersion} onRestored={() => fetchConversions()} />}
+
+      <div className="bg-gray-900 rounded-xl border border-gray-800 p-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+        <input
+          type="date"
+          aria-label="From date"
+          value={filters.from}
+          onChange={(e) => updateFilter('from', e.target.value)}
+          className={filterInputClass}
+        />
+        <input
+          type="date"
+          aria-label="To date"
+          value={filters.to}
+          onChange={(e) => updateFilter('to', e.target.value)}
+          className={filterInputClass}
+        />
+        <select
+          aria-label="Direction"
+          value={filters.direction}
+          onChange={(e) => updateFilter('direction', e.target.value)}
+          className={filterInputClass}
+        >
+          <option value="">All directions</option>
+          <option value="GBP_TO_JPY">GBP {'\u2192'} JPY</option>
+          <option value="JPY_TO_GBP">JPY {'\u2192'} GBP</option>
+        </select>
+        <select
+          aria-label="Provider"
+          value={filters.provider}
+          onChange={(e) => updateFilter('provider', e.target.value)}
+          className={filterInputClass}
+        >
+          <option value="">All providers</option>
+          <option value="WISE">WISE</option>
+          <option value="REVOLUT">REVOLUT</option>
+          <option value="OTHER">OTHER</option>
+        </select>
+        <select
+          aria-label="Band"
+          value={filters.band}
+          onChange={(e) => updateFilter('band', e.target.value)}
+          className={filterInputClass}
+        >
+          <option value="">All bands</option>
+          {ladder.map((tier) => (
+            <option key={tier.key} value={tier.key}>{tier.label}</option>
+          ))}
+          <option value="NONE">No band</option>
+        </select>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Min amount"
+          aria-label="Minimum amount (source currency)"
+          value={filters.minAmount}
+          onChange={(e) => updateFilter('minAmount', e.target.value)}
+          className={filterInputClass}
+        />
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Max amount"
+          aria-label="Maximum amount (source currency)"
+          value={filters.maxAmount}
+          onChange={(e) => updateFilter('maxAmount', e.target.value)}
+          className={filterInputClass}
+        />
+        <input
+          type="search"
+          placeholder="Search notes"
+          aria-label="Search notes"
+          value={filters.q}
+          onChange={(e) => updateFilter('q', e.target.value)}
+          className={filterInputClass}
+        />
+        <select
+          aria-label="Sort by"
+          value={`${filters.sort}:${filters.order}`}
+          onChange={(e) => {
+            const [sort, order] = e.target.value.split(':');
+            setFilters((f) => ({ ...f, sort, order }));
+          }}
+          className={filterInputClass}
+        >
+          <option value="date:desc">Newest first</option>
+          <option value="date:asc">Oldest first</option>
+          <option value="amount:desc">Largest first</option>
+          <option value="amount:asc">Smallest first</option>
+          <option value="rate:desc">Best rate first</option>
+          <option value="rate:asc">Worst rate first</option>
+        </select>
+        <button
+          onClick={() => setFilters(EMPTY_FILTERS)}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          Clear Filters
+        </button>
+      </div>
+
       {loading ? (
         <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 animate-pulse">
           <div className="space-y-4">
@@ -161,10 +477,10 @@ export default function ConversionsPage() {
                     Direction
                   </th>
                   <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    GBP
+                    From
                   </th>
                   <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    JPY
+                    To
                   </th>
                   <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Eff. Rate
@@ -191,86 +507,228 @@ export default function ConversionsPage() {
               </thead>
               <tbody className="divide-y divide-gray-800/50">
                 {conversions.map((c) => {
-                  const effRate = calculateEffectiveRate(c.jpy_amount, c.gbp_amount);
+                  const effRate = c.exchange_rate;
                   const spotRate = c.spot_rate;
                   const spread = spotRate != null ? effRate - spotRate : null;
+                  const form = editing?.id === c.id ? editing.form : null;
                   return (
-                    <tr
-                      key={c.id}
-                      className="hover:bg-gray-800/30 transition-colors"
-                    >
-                      <td className="px-4 py-3 font-mono text-gray-300">
-                        {c.date}
-                      </td>
-                      <td className="px-4 py-3 text-gray-300">
-                        {directionLabel(c.direction)}
-                      </td>
-                      <td className="px-4 py-3 text-right font-mono text-gray-100">
-                        {formatGBP(c.gbp_amount)}
-                      </td>
-                      <td className="px-4 py-3 text-right font-mono text-gray-100">
-                        {formatJPY(c.jpy_amount)}
-                      </td>
-                      <td className="px-4 py-3 text-right font-mono text-gray-100">
-                        {formatRate(effRate)}
-                      </td>
-                      <td className="px-4 py-3 text-right font-mono text-gray-500">
-                        {spotRate != null ? formatRate(spotRate) : '--'}
-                      </td>
-                      <td className="px-4 py-3 text-right font-mono">
-                        {spread != null && Math.abs(spread) >= 0.01 ? (
-                          <span className={`text-xs ${spread > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                            {spread > 0 ? '+' : ''}{spread.toFixed(2)}
-                          </span>
-                        ) : (
-                          <span className="text-gray-600">--</span>
-                        )}
-                      </td>
-                      <td className="px-4 py-3 text-gray-400">
-                        {c.provider ?? '--'}
-                      </td>
-                      <td className="px-4 py-3">
-                        <span
-                          className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${getBandBadgeClasses(c.band_at_time)}`}
-                        >
-                          {getBandLabel(c.band_at_time)}
-                        </span>
-                      </td>
-                      <td className="px-4 py-3 text-gray-500 max-w-[200px] truncate">
-                        {c.notes ?? ''}
-                      </td>
-                      <td className="px-4 py-3 text-right">
-                        {deleteConfirm === c.id ? (
-                          <div className="flex items-center justify-end gap-2">
+                    <Fragment key={c.id}>
+                      <tr className="hover:bg-gray-800/30 transition-colors">
+                        <td className="px-4 py-3 font-mono text-gray-300">
+                          {form ? (
+                            <input
+                              type="date"
+                              value={form.date}
+                              onChange={(e) => updateEdit('date', e.target.value)}
+                              className={editInputClass}
+                            />
+                          ) : (
                             <button
-                              onClick={() => handleDelete(c.id)}
-                              disabled={deleting === c.id}
-                              className="px-2 py-1 bg-red-600 hover:bg-red-500 disabled:bg-gray-700 rounded text-xs font-medium transition-colors"
+                              onClick={() => setExpanded(expanded === c.id ? null : c.id)}
+                              className="hover:text-blue-400 transition-colors"
+                              title="Show intraday rates and edit history"
                             >
-                              {deleting === c.id ? '...' : 'Confirm'}
+                              {expanded === c.id ? '▾' : '▸'} {c.date}
                             </button>
-                            <button
-                              onClick={() => setDeleteConfirm(null)}
-                              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs font-medium transition-colors"
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">
+                          {directionLabel(c)}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-100">
+                          {form ? (
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={form.sourceAmount}
+                              onChange={(e) => updateEdit('sourceAmount', e.target.value)}
+                              className={`${editInputClass} w-28 text-right`}
+                            />
+                          ) : (
+                            formatMoney(c.source_amount, c.source_currency)
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-100">
+                          {form ? (
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={form.targetAmount}
+                              onChange={(e) => updateEdit('targetAmount', e.target.value)}
+                              className={`${editInputClass} w-32 text-right`}
+                            />
+                          ) : (
+                            formatMoney(c.target_amount, c.target_currency)
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-100">
+                          {form ? (
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={form.rate}
+                              onChange={(e) => updateEdit('rate', e.target.value)}
+                              className={`${editInputClass} w-24 text-right`}
+                            />
+                          ) : (
+                            formatRate(effRate)
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-500">
+                          {form ? (
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={form.spotRate}
+                              onChange={(e) => updateEdit('spotRate', e.target.value)}
+                              className={`${editInputClass} w-24 text-right`}
+                            />
+                          ) : spotRate != null ? (
+                            formatRate(spotRate)
+                          ) : (
+                            '--'
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono">
+                          {form ? (
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={form.feePct}
+                              onChange={(e) => updateEdit('feePct', e.target.value)}
+                              title="Fee %"
+                              placeholder="Fee %"
+                              className={`${editInputClass} w-20 text-right`}
+                            />
+                          ) : spread != null && Math.abs(spread) >= 0.01 ? (
+                            <span className={`text-xs ${spread > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {spread > 0 ? '+' : ''}{spread.toFixed(2)}
+                            </span>
+                          ) : (
+                            <span className="text-gray-600">--</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-400">
+                          {form ? (
+                            <select
+                              value={form.provider}
+                              onChange={(e) => updateEdit('provider', e.target.value)}
+                              className={editInputClass}
                             >
-                              Cancel
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => setDeleteConfirm(c.id)}
-                            className="px-2 py-1 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded text-xs font-medium transition-colors"
+                              <option value="WISE">WISE</option>
+                              <option value="REVOLUT">REVOLUT</option>
+                              <option value="OTHER">OTHER</option>
+                            </select>
+                          ) : (
+                            c.provider ?? '--'
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${getBandBadgeClasses(c.band_at_time, ladder)}`}
                           >
-                            Delete
-                          </button>
-                        )}
-                      </td>
-                    </tr>
+                            {getBandLabel(c.band_at_time, ladder)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-500 max-w-[200px] truncate">
+                          {form ? (
+                            <input
+                              type="text"
+                              value={form.notes}
+                              onChange={(e) => updateEdit('notes', e.target.value)}
+                              className={`${editInputClass} w-40 font-sans`}
+                            />
+                          ) : (
+                            c.notes ?? ''
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {form ? (
+                            <div className="flex items-center justify-end gap-2">
+                              <button
+                                onClick={() => handleSaveEdit(c)}
+                                disabled={savingEdit}
+                                className="px-2 py-1 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 rounded text-xs font-medium transition-colors"
+                              >
+                                {savingEdit ? '...' : 'Save'}
+                              </button>
+                              <button
+                                onClick={() => setEditing(null)}
+                                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs font-medium transition-colors"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : deleteConfirm === c.id ? (
+                            <div className="flex items-center justify-end gap-2">
+                              <button
+                                onClick={() => handleDelete(c.id)}
+                                disabled={deleting === c.id}
+                                className="px-2 py-1 bg-red-600 hover:bg-red-500 disabled:bg-gray-700 rounded text-xs font-medium transition-colors"
+                              >
+                                {deleting === c.id ? '...' : 'Confirm'}
+                              </button>
+                              <button
+                                onClick={() => setDeleteConfirm(null)}
+                                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs font-medium transition-colors"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center justify-end gap-1">
+                              <button
+                                onClick={() => startEdit(c)}
+                                className="px-2 py-1 text-gray-500 hover:text-gray-200 hover:bg-gray-800 rounded text-xs font-medium transition-colors"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => setDeleteConfirm(c.id)}
+                                className="px-2 py-1 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded text-xs font-medium transition-colors"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                      {form && editError && (
+                        <tr>
+                          <td colSpan={11} className="px-4 pb-3 text-sm text-red-400">
+                            {editError}
+                          </td>
+                        </tr>
+                      )}
+                      {expanded === c.id && !form && (
+                        <tr className="bg-gray-950/40">
+                          <td colSpan={11} className="px-4 py-3 space-y-4">
+                            <SnapshotStrip date={c.date} loggedAt={c.created_at} />
+                            <RevisionHistory conversion={c} onReverted={replaceConversion} ladder={ladder} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   );
                 })}
               </tbody>
             </table>
           </div>
+          {nextCursor && (
+            <div className="border-t border-gray-800 p-3 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 text-sm text-gray-400 hover:text-gray-200 disabled:text-gray-600 transition-colors"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : filtersActive ? (
+        <div className="bg-gray-900 rounded-xl border border-gray-800 p-12 text-center">
+          <p className="text-gray-500 text-lg">No conversions match these filters.</p>
         </div>
       ) : (
         <div className="bg-gray-900 rounded-xl border border-gray-800 p-12 text-center">
@@ -14,6 +14,7 @@ export const metadata: Metadata = {
 const navLinks = [
   { href: '/', label: 'Dashboard' },
   { href: '/conversions', label: 'Conversions' },
+  { href: '/spending', label: 'Spending' },
   { href: '/projections', label: 'Projections' },
   { href: '/settings', label: 'Settings' },
 ];
@@ -2,22 +2,37 @@
 
 import { useCallback, useEffect, useState } from 'react';
 import type {
-  ConversionDirection,
+  AccountBalance,
   ConversionRecord,
+  ExpenseRecord,
+  PairConfig,
   Provider,
   RatesResponse,
   Settings,
+  SpendingResponse,
   ThermostatResponse,
   ThermostatResult,
 } from '@/types';
-import { formatGBP, formatJPY, formatRate, calculateEffectiveRate } from '@/lib/finance/currency';
-import { getBandFullClasses, getBandLabel } from '@/lib/strategy/bands';
+import type { ConversionPage } from '@/lib/conversions/query';
+import { CURRENCIES, formatMoney, formatRate, pairKey, PRIMARY_PAIR, toMinorUnits } from '@/lib/finance/currency';
+import { getBandBarClass, getBandFullClasses, getBandLabel } from '@/lib/strategy/bands';
 import { calculatePortfolioSummary } from '@/lib/finance/pnl';
+import { calculateHoldings } from '@/lib/accounts/balances';
 import { useToast } from '@/hooks/useToast';
 import { Toast } from '@/components/ui/Toast';
 import { ErrorRetry } from '@/components/ui/ErrorRetry';
 import { SkeletonCard } from '@/components/ui/SkeletonCard';
 import { StatCard } from '@/components/ui/StatCard';
+import LimitOrdersPanel from '@/components/orders/LimitOrdersPanel';
+import PlansPanel from '@/components/plans/PlansPanel';
+import LotsPanel from '@/components/lots/LotsPanel';
+import AccountsPanel from '@/components/accounts/AccountsPanel';
+
+function formatAge(seconds: number): string {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))}m`;
+  if (seconds < 172_800) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86_400)}d`;
+}
 
 export default function DashboardPage() {
   const [rates, setRates] = useState<RatesResponse | null>(null);
@@ -26,25 +41,36 @@ export default function DashboardPage() {
   );
   const [settings, setSettings] = useState<Settings | null>(null);
   const [thermostat, setThermostat] = useState<ThermostatResult | null>(null);
+  const [pairs, setPairs] = useState<PairConfig[]>([]);
+  const [balances, setBalances] = useState<AccountBalance[]>([]);
+  const [expenses, setExpenses] = useState<ExpenseRecord[]>([]);
+  const [selectedPair, setSelectedPair] = useState(pairKey(PRIMARY_PAIR));
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
 
-  // Quick convert form state
-  const [direction, setDirection] = useState<ConversionDirection>('GBP_TO_JPY');
-  const [gbpPounds, setGbpPounds] = useState('');
-  const [jpyAmount, setJpyAmount] = useState('');
+  // Quick convert form state (amounts in major units; forward = base -> quote)
+  const [forward, setForward] = useState(true);
+  const [baseAmount, setBaseAmount] = useState('');
+  const [quoteAmount, setQuoteAmount] = useState('');
   const [provider, setProvider] = useState<Provider>('WISE');
   const [notes, setNotes] = useState('');
+  const [sourceAccountId, setSourceAccountId] = useState('');
+  const [targetAccountId, setTargetAccountId] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [toast, setToast] = useToast();
 
   const fetchData = useCallback(async () => {
     try {
-      const [ratesRes, conversionsRes, settingsRes, thermostatRes] = await Promise.all([
-        fetch('/api/rates'),
+      const pairParam = `pair=${encodeURIComponent(selectedPair)}`;
+      const [ratesRes, conversionsRes, settingsRes, thermostatRes, pairsRes, accountsRes, expensesRes] = await Promise.all([
+        fetch(`/api/rates?${pairParam}`),
         fetch('/api/conversions'),
         fetch('/api/settings'),
-        fetch('/api/thermostat'),
+        fetch(`/api/thermostat?${pairParam}`),
+        fetch('/api/pairs'),
+        fetch('/api/accounts'),
+        fetch('/api/expenses'),
       ]);
 
       if (!ratesRes.ok || !conversionsRes.ok || !settingsRes.ok) {
@@ -53,26 +79,39 @@ export default function DashboardPage() {
 
       const [ratesData, conversionsData, settingsData] = await Promise.all([
         ratesRes.json() as Promise<RatesResponse>,
-        conversionsRes.json() as Promise<ConversionRecord[]>,
+        conversionsRes.json() as Promise<ConversionPage>,
         settingsRes.json() as Promise<Settings>,
       ]);
 
       setRates(ratesData);
-      setConversions(conversionsData);
+      setConversions(conversionsData.conversions);
       setSettings(settingsData);
+      setRefreshCount((n) => n + 1);   // the rates fetch may have triggered limit orders
 
       if (thermostatRes.ok) {
         const thermostatData = await thermostatRes.json() as ThermostatResponse;
         setThermostat(thermostatData.thermostat);
       }
 
+      if (pairsRes.ok) {
+        setPairs(await pairsRes.json() as PairConfig[]);
+      }
+
+      if (accountsRes.ok) {
+        setBalances(await accountsRes.json() as AccountBalance[]);
+      }
+
+      if (expensesRes.ok) {
+        setExpenses((await expensesRes.json() as SpendingResponse).expenses);
+      }
+
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch data');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [selectedPair]);
 
   useEffect(() => {
     fetchData();
@@ -80,25 +119,51 @@ export default function DashboardPage() {
     return () => clearInterval(interval);
   }, [fetchData]);
 
+  const pairConfig = pairs.find((p) => p.key === selectedPair) ?? null;
+  const pair = pairConfig?.pair ?? PRIMARY_PAIR;
+  // The current tier's cap when buying, otherwise the lowest buy tier's
+  const buyTiers = pairConfig?.ladder.filter((t) => t.direction === 'BUY') ?? [];
+  const capTier = rates?.band.tier.direction === 'BUY'
+    ? rates.band.tier
+    : buyTiers[buyTiers.length - 1] ?? null;
+
   // Compute effective rate from manual amounts
-  const parsedPounds = parseFloat(gbpPounds);
-  const parsedJpy = parseFloat(jpyAmount);
+  const parsedBase = parseFloat(baseAmount);
+  const parsedQuote = parseFloat(quoteAmount);
   const effectiveRate =
-    !isNaN(parsedPounds) && !isNaN(parsedJpy) && parsedPounds > 0 && parsedJpy > 0
-      ? parsedJpy / parsedPounds
+    !isNaN(parsedBase) && !isNaN(parsedQuote) && parsedBase > 0 && parsedQuote > 0
+      ? parsedQuote / parsedBase
       : null;
 
+  // Accounts that can take each side of the quick conversion
+  const sourceCurrency = forward ? pair.base : pair.quote;
+  const targetCurrency = forward ? pair.quote : pair.base;
+  const sourceAccounts = balances.filter((b) => !b.account.archived && b.account.currency === sourceCurrency);
+  const targetAccounts = balances.filter((b) => !b.account.archived && b.account.currency === targetCurrency);
+
+  function handlePairChange(key: string) {
+    setSelectedPair(key);
+    setBaseAmount('');
+    setQuoteAmount('');
+    setSourceAccountId('');
+    setTargetAccountId('');
+    setLoading(true);
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!rates || submitting) return;
 
-    const pounds = parseFloat(gbpPounds);
-    const jpy = parseFloat(jpyAmount);
-    if (isNaN(pounds) || isNaN(jpy) || pounds <= 0 || jpy <= 0) {
+    const base = parseFloat(baseAmount);
+    const quote = parseFloat(quoteAmount);
+    if (isNaN(base) || isNaN(quote) || base <= 0 || quote <= 0) {
       setToast({ type: 'error', message: 'Please enter valid amounts.' });
       return;
     }
 
+    const baseMinor = toMinorUnits(base, pair.base);
+    const quoteMinor = toMinorUnits(quote, pair.quote);
+
     setSubmitting(true);
     try {
       const today = new Date().toISOString().split('T')[0];
@@ -107,14 +172,17 @@ export default function DashboardPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           date: today,
-          direction,
-          gbpPence: Math.round(pounds * 100),
-          jpyAmount: Math.round(jpy),
-          rate: jpy / pounds,
+          sourceCurrency,
+          targetCurrency,
+          sourceAmount: forward ? baseMinor : quoteMinor,
+          targetAmount: forward ? quoteMinor : baseMinor,
+          rate: quote / base,
           spotRate: rates.rate.rate,
           provider,
           bandAtTime: rates.band?.band ?? null,
           notes: notes || undefined,
+          sourceAccountId: sourceAccountId ? Number(sourceAccountId) : undefined,
+          targetAccountId: targetAccountId ? Number(targetAccountId) : undefined,
         }),
       });
 
@@ -126,8 +194,8 @@ export default function DashboardPage() {
       }
 
       setToast({ type: 'success', message: 'Conversion logged successfully.' });
-      setGbpPounds('');
-      setJpyAmount('');
+      setBaseAmount('');
+      setQuoteAmount('');
       setNotes('');
       // Refresh all data
       await fetchData();
@@ -155,16 +223,41 @@ export default function DashboardPage() {
     );
   }
 
+  // With accounts or spending recorded, value what is held rather than everything ever bought
+  const holdings =
+    conversions && rates && (balances.length > 0 || expenses.length > 0)
+      ? calculateHoldings(balances, conversions, pair, rates.rate.rate, expenses)
+      : null;
   const portfolio =
     conversions && rates
-      ? calculatePortfolioSummary(conversions, rates.rate.rate)
+      ? calculatePortfolioSummary(conversions, rates.rate.rate, pair, holdings?.convertedQuote)
       : null;
+  const formatBase = (minor: number) => formatMoney(minor, pair.base);
 
   return (
     <div className="space-y-8">
       {/* Toast */}
       {toast && <Toast toast={toast} />}
 
+      {/* Pair Switcher */}
+      {pairs.length > 1 && (
+        <div className="flex items-center gap-2">
+          {pairs.map((p) => (
+            <button
+              key={p.key}
+              onClick={() => handlePairChange(p.key)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-mono transition-colors ${
+                p.key === selectedPair
+                  ? 'bg-gray-800 text-gray-100 border border-gray-700'
+                  : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {p.key}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Rate & Band Section */}
       {loading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -175,7 +268,7 @@ export default function DashboardPage() {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Rate Display */}
           <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
-            <div className="text-sm text-gray-500 mb-1">GBP / JPY</div>
+            <div className="text-sm text-gray-500 mb-1">{pair.base} / {pair.quote}</div>
             <div className="text-5xl font-mono font-bold tracking-tight">
               {formatRate(rates.rate.rate)}
             </div>
@@ -183,9 +276,25 @@ export default function DashboardPage() {
               <span className="text-gray-500">{rates.rate.date}</span>
               <span className="text-gray-700">|</span>
               <span className="text-gray-500">{rates.rate.source}</span>
+              {rates.providerFailures?.length > 0 && !rates.fallback && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-400 text-xs border border-blue-500/30">
+                  Failover &mdash; {rates.providerFailures.map((f) => f.provider).join(', ')} unavailable
+                </span>
+              )}
+              {rates.fallback && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-500/20 text-gray-400 text-xs border border-gray-500/30">
+                  Offline &mdash; cached rate fetched {formatAge(rates.rate.ageSeconds ?? 0)} ago
+                </span>
+              )}
               {rates.rate.isStale && (
-                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400 text-xs border border-amber-500/30">
-                  Markets closed &mdash; showing {rates.rate.date} rate
+                <span
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border ${
+                    rates.rate.beyondHardLimit
+                      ? 'bg-red-500/20 text-red-400 border-red-500/30'
+                      : 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+                  }`}
+                >
+                  {rates.rate.staleReason ?? `Showing ${rates.rate.date} rate`}
                 </span>
               )}
             </div>
@@ -196,9 +305,9 @@ export default function DashboardPage() {
             <div>
               <div className="text-sm text-gray-500 mb-2">Strategy Band</div>
               <span
-                className={`inline-block px-3 py-1 rounded-full text-sm font-semibold border ${getBandFullClasses(rates.band.band)}`}
+                className={`inline-block px-3 py-1 rounded-full text-sm font-semibold border ${getBandFullClasses(rates.band.band, rates.band.ladder)}`}
               >
-                {getBandLabel(rates.band.band)}
+                {getBandLabel(rates.band.band, rates.band.ladder)}
               </span>
             </div>
             <p className="text-sm text-gray-400 mt-4">
@@ -218,36 +327,36 @@ export default function DashboardPage() {
               <label className="text-xs text-gray-500">Direction</label>
               <button
                 type="button"
-                onClick={() =>
-                  setDirection((d) =>
-                    d === 'GBP_TO_JPY' ? 'JPY_TO_GBP' : 'GBP_TO_JPY'
-                  )
-                }
+                onClick={() => {
+                  setForward((f) => !f);
+                  setSourceAccountId('');
+                  setTargetAccountId('');
+                }}
                 className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm font-mono border border-gray-700 transition-colors whitespace-nowrap"
               >
-                {direction === 'GBP_TO_JPY'
-                  ? 'GBP \u2192 JPY'
-                  : 'JPY \u2192 GBP'}
+                {forward
+                  ? `${pair.base} \u2192 ${pair.quote}`
+                  : `${pair.quote} \u2192 ${pair.base}`}
               </button>
             </div>
 
-            {/* GBP Amount */}
+            {/* Base Amount */}
             <div className="flex flex-col gap-1 flex-1">
               <label className="text-xs text-gray-500">
-                GBP (\u00a3 pounds)
+                {pair.base}
               </label>
               <input
                 type="number"
-                step="0.01"
+                step={1 / toMinorUnits(1, pair.base)}
                 min="0"
-                value={gbpPounds}
+                value={baseAmount}
                 onChange={(e) => {
-                  setGbpPounds(e.target.value);
-                  if (direction === 'JPY_TO_GBP') return;
+                  setBaseAmount(e.target.value);
+                  if (!forward) return;
                   if (rates && e.target.value) {
                     const v = parseFloat(e.target.value);
                     if (!isNaN(v)) {
-                      setJpyAmount(Math.round(v * rates.rate.rate).toString());
+                      setQuoteAmount((v * rates.rate.rate).toFixed(CURRENCIES[pair.quote].minorDigits));
                     }
                   }
                 }}
@@ -256,23 +365,23 @@ export default function DashboardPage() {
               />
             </div>
 
-            {/* JPY Amount */}
+            {/* Quote Amount */}
             <div className="flex flex-col gap-1 flex-1">
               <label className="text-xs text-gray-500">
-                JPY (\u00a5)
+                {pair.quote}
               </label>
               <input
                 type="number"
-                step="1"
+                step={1 / toMinorUnits(1, pair.quote)}
                 min="0"
-                value={jpyAmount}
+                value={quoteAmount}
                 onChange={(e) => {
-                  setJpyAmount(e.target.value);
-                  if (direction === 'GBP_TO_JPY') return;
+                  setQuoteAmount(e.target.value);
+                  if (forward) return;
                   if (rates && e.target.value) {
                     const v = parseFloat(e.target.value);
                     if (!isNaN(v) && rates.rate.rate > 0) {
-                      setGbpPounds((v / rates.rate.rate).toFixed(2));
+                      setBaseAmount((v / rates.rate.rate).toFixed(CURRENCIES[pair.base].minorDigits));
                     }
                   }
                 }}
@@ -295,6 +404,38 @@ export default function DashboardPage() {
               </select>
             </div>
 
+            {/* Accounts */}
+            {(sourceAccounts.length > 0 || targetAccounts.length > 0) && (
+              <>
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs text-gray-500">From Account</label>
+                  <select
+                    value={sourceAccountId}
+                    onChange={(e) => setSourceAccountId(e.target.value)}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors"
+                  >
+                    <option value="">None</option>
+                    {sourceAccounts.map((b) => (
+                      <option key={b.account.id} value={b.account.id}>{b.account.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs text-gray-500">To Account</label>
+                  <select
+                    value={targetAccountId}
+                    onChange={(e) => setTargetAccountId(e.target.value)}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors"
+                  >
+                    <option value="">None</option>
+                    {targetAccounts.map((b) => (
+                      <option key={b.account.id} value={b.account.id}>{b.account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
             {/* Notes */}
             <div className="flex flex-col gap-1 flex-1">
               <label className="text-xs text-gray-500">Notes (optional)</label>
@@ -329,17 +470,40 @@ export default function DashboardPage() {
             </div>
           )}
           {/* Budget Warning */}
-          {thermostat && direction === 'GBP_TO_JPY' && gbpPounds &&
-            !isNaN(parsedPounds) && parsedPounds > 0 &&
-            Math.round(parsedPounds * 100) > thermostat.remainingBudget &&
+          {thermostat && forward && baseAmount &&
+            !isNaN(parsedBase) && parsedBase > 0 &&
+            toMinorUnits(parsedBase, pair.base) > thermostat.remainingBudget &&
             thermostat.monthlyCap > 0 && (
               <div className="mt-3 px-4 py-2.5 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-400 text-sm">
-                This conversion ({formatGBP(Math.round(parsedPounds * 100))}) would exceed your monthly remaining budget of {formatGBP(thermostat.remainingBudget)}
+                This conversion ({formatBase(toMinorUnits(parsedBase, pair.base))}) would exceed your monthly remaining budget of {formatBase(thermostat.remainingBudget)}
               </div>
             )}
         </form>
       </div>
 
+      {/* Limit Orders */}
+      <LimitOrdersPanel
+        pair={pair}
+        currentRate={rates?.rate.rate ?? null}
+        refreshKey={refreshCount}
+        onFilled={() => {
+          setToast({ type: 'success', message: 'Limit order logged as a conversion.' });
+          fetchData();
+        }}
+      />
+
+      {/* Recurring Plans */}
+      <PlansPanel
+        pair={pair}
+        currentRate={rates?.rate.rate ?? null}
+        refreshKey={refreshCount}
+        onConfirmed={() => {
+          setToast({ type: 'success', message: 'Plan run logged as a conversion.' });
+          fetchData();
+        }}
+        onChanged={fetchData}
+      />
+
       {/* Monthly Budget (Thermostat) */}
       {loading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -371,11 +535,9 @@ export default function DashboardPage() {
               <div className="w-full bg-gray-800 rounded-full h-3 mb-2">
                 <div
                   className={`h-3 rounded-full transition-all ${
-                    thermostat.band === 'AGGRESSIVE_BUY'
-                      ? 'bg-emerald-500'
-                      : thermostat.band === 'NORMAL_BUY'
-                        ? 'bg-blue-500'
-                        : 'bg-gray-600'
+                    thermostat.monthlyCap > 0
+                      ? getBandBarClass(thermostat.band, pairConfig?.ladder)
+                      : 'bg-gray-600'
                   }`}
                   style={{
                     width: thermostat.monthlyCap > 0
@@ -386,13 +548,21 @@ export default function DashboardPage() {
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-400">
-                  {formatGBP(thermostat.convertedThisMonth)} of {formatGBP(thermostat.monthlyCap)} used
+                  {formatBase(thermostat.convertedThisMonth)} of {formatBase(thermostat.monthlyCap)} used
+                  {thermostat.plannedThisMonth > 0 && <>, {formatBase(thermostat.plannedThisMonth)} planned</>}
                 </span>
                 <span className="text-gray-500">
-                  {formatGBP(thermostat.remainingBudget)} remaining
+                  {formatBase(thermostat.remainingBudget)} remaining
                 </span>
               </div>
               <p className="text-sm text-gray-400 mt-3">{thermostat.suggestion}</p>
+              {thermostat.sizing.steps.length > 0 && (
+                <ol className="mt-2 space-y-1 text-xs text-gray-500 list-decimal list-inside">
+                  {thermostat.sizing.steps.map((step) => (
+                    <li key={step}>{step}</li>
+                  ))}
+                </ol>
+              )}
             </div>
 
             {/* FX Exposure */}
@@ -440,13 +610,25 @@ export default function DashboardPage() {
         ) : portfolio ? (
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <StatCard
-              label="Total GBP Converted"
-              value={formatGBP(portfolio.totalGbpConverted)}
+              label={`Total ${pair.base} Converted`}
+              value={formatBase(portfolio.totalBaseConverted)}
             />
             <StatCard
-              label="Total JPY Acquired"
-              value={formatJPY(portfolio.totalJpyAcquired)}
+              label={`Total ${pair.quote} Acquired`}
+              value={formatMoney(portfolio.totalQuoteAcquired, pair.quote)}
             />
+            {holdings && (
+              <StatCard
+                label={`${pair.quote} Held`}
+                value={formatMoney(portfolio.heldQuote, pair.quote)}
+              />
+            )}
+            {portfolio.consumedQuote > 0 && (
+              <StatCard
+                label={`${pair.quote} Spent or Lost to Fees`}
+                value={formatMoney(portfolio.consumedQuote, pair.quote)}
+              />
+            )}
             <StatCard
               label="Weighted Avg Rate"
               value={
@@ -457,16 +639,16 @@ export default function DashboardPage() {
               mono
             />
             <StatCard
-              label="Current Value (GBP)"
-              value={formatGBP(portfolio.currentValueGbp)}
+              label={`Current Value (${pair.base})`}
+              value={formatBase(portfolio.currentValueBase)}
             />
             <StatCard
               label="Unrealised P&L"
-              value={formatGBP(portfolio.unrealisedPnlGbp)}
+              value={formatBase(portfolio.unrealisedPnlBase)}
               color={
-                portfolio.unrealisedPnlGbp > 0
+                portfolio.unrealisedPnlBase > 0
                   ? 'text-emerald-400'
-                  : portfolio.unrealisedPnlGbp < 0
+                  : portfolio.unrealisedPnlBase < 0
                     ? 'text-red-400'
                     : undefined
               }
@@ -488,14 +670,10 @@ export default function DashboardPage() {
               value={portfolio.conversionCount.toString()}
               mono
             />
-            {settings && (
+            {capTier && (
               <StatCard
-                label="Monthly Cap"
-                value={
-                  rates?.band.band === 'AGGRESSIVE_BUY'
-                    ? formatGBP(settings.cap_aggressive_gbp)
-                    : formatGBP(settings.cap_normal_gbp)
-                }
+                label={`Monthly Cap (${capTier.label})`}
+                value={formatBase(capTier.monthlyCap)}
               />
             )}
           </div>
@@ -505,6 +683,12 @@ export default function DashboardPage() {
           </div>
         )}
       </div>
+
+      {/* Accounts */}
+      <AccountsPanel pair={pair} balances={balances} holdings={holdings} onChanged={fetchData} />
+
+      {/* Lots & Realised P&L */}
+      <LotsPanel pair={pair} refreshKey={refreshCount} />
     </div>
   );
 }
@@ -2,7 +2,8 @@
 
 import { useCallback, useEffect, useState } from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Bar,
   Line,
   XAxis,
   YAxis,
@@ -16,11 +17,14 @@ import type {
   RateHistoryPoint,
   RateRange,
   ScenarioResult,
-  StrategyResult,
 } from '@/types';
-import { formatJPY, formatRate } from '@/lib/finance/currency';
+import { formatJPY, formatMoney, formatRate } from '@/lib/finance/currency';
+import type { FeeReport } from '@/lib/finance/fees';
+import type { IndicatorPoint, IndicatorsResult } from '@/lib/rates/indicators';
 import { ErrorRetry } from '@/components/ui/ErrorRetry';
 import { SkeletonCard } from '@/components/ui/SkeletonCard';
+import BacktestPanel from '@/components/strategy/BacktestPanel';
+import SimulationPanel from '@/components/strategy/SimulationPanel';
 
 // ── Main Page ─────────────────────────────────────────────────────────
 
@@ -99,7 +103,6 @@ export default function ProjectionsPage() {
   const {
     scenarios,
     breakEvenRate,
-    strategyComparison,
     nisaProjection,
     rateHistory,
     range52Week,
@@ -127,18 +130,11 @@ export default function ProjectionsPage() {
         </div>
       </div>
 
-      {/* Section 3: Strategy Comparison */}
-      <div>
-        <h2 className="text-lg font-semibold mb-4">Strategy Comparison</h2>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          <StrategyCard strategy={strategyComparison.lumpSum} />
-          <StrategyCard strategy={strategyComparison.monthlyDrip} />
-          <StrategyCard
-            strategy={strategyComparison.thermostat}
-            highlighted
-          />
-        </div>
-      </div>
+      {/* Spread of outcomes simulated from past volatility */}
+      <SimulationPanel />
+
+      {/* Section 3: Backtest of the strategies over past rates */}
+      <BacktestPanel />
 
       {/* Section 4: NISA Projection */}
       <NisaSection projection={nisaProjection} />
@@ -151,6 +147,9 @@ export default function ProjectionsPage() {
         history={rateHistory}
         breakEvenRate={breakEvenRate}
       />
+
+      {/* Section 7: Fees & Spreads */}
+      <FeeSection />
     </div>
   );
 }
@@ -336,65 +335,6 @@ function ScenarioCard({
   );
 }
 
-// ── Section 3: Strategy Card ──────────────────────────────────────────
-
-function StrategyCard({
-  strategy,
-  highlighted = false,
-}: {
-  strategy: StrategyResult;
-  highlighted?: boolean;
-}) {
-  const riskColorMap: Record<string, string> = {
-    High: 'bg-red-500/20 text-red-400 border-red-500/30',
-    Medium: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
-    Low: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
-  };
-
-  return (
-    <div
-      className={`bg-gray-900 rounded-xl border p-6 ${
-        highlighted
-          ? 'border-emerald-500/50 ring-1 ring-emerald-500/20'
-          : 'border-gray-800'
-      }`}
-    >
-      <div className="flex items-center justify-between mb-3">
-        <h3 className="font-semibold text-gray-100">{strategy.label}</h3>
-        <span
-          className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold border ${
-            riskColorMap[strategy.riskLevel] ?? riskColorMap['Medium']
-          }`}
-        >
-          {strategy.riskLevel} Risk
-        </span>
-      </div>
-      <p className="text-sm text-gray-500 mb-4">{strategy.description}</p>
-      <div className="space-y-2">
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-500">Total JPY</span>
-          <span className="font-mono font-semibold text-gray-200">
-            {formatJPY(strategy.totalJpy)}
-          </span>
-        </div>
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-500">Effective Avg Rate</span>
-          <span className="font-mono font-semibold text-gray-200">
-            {formatRate(strategy.avgRate)}
-          </span>
-        </div>
-      </div>
-      {highlighted && (
-        <div className="mt-4 pt-3 border-t border-emerald-500/20">
-          <span className="text-xs font-semibold text-emerald-400">
-            Active Strategy
-          </span>
-        </div>
-      )}
-    </div>
-  );
-}
-
 // ── Section 4: NISA Projection ────────────────────────────────────────
 
 function NisaSection({ projection }: { projection: NisaProjection }) {
@@ -514,7 +454,7 @@ function RangeSection({ range }: { range: RateRange | null }) {
       <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
         <h2 className="text-lg font-semibold mb-4">52-Week Range</h2>
         <p className="text-gray-500 text-sm">
-          Rate history will build up over time as you use the app.
+          Rate history will build up over time as you use the app, or backfill it from Settings.
         </p>
       </div>
     );
@@ -580,6 +520,101 @@ function RangeSection({ range }: { range: RateRange | null }) {
 
 // ── Section 6: Rate History Chart ─────────────────────────────────────
 
+interface CandlePoint extends RateHistoryPoint {
+  open: number;
+  high: number;
+  low: number;
+  range: [number, number];
+}
+
+/** Days without intraday snapshots have only a close; draw them as a flat candle. */
+function toCandles(history: RateHistoryPoint[]): CandlePoint[] {
+  return history.map((h) => {
+    const open = h.open ?? h.rate;
+    const high = h.high ?? Math.max(open, h.rate);
+    const low = h.low ?? Math.min(open, h.rate);
+    return { ...h, open, high, low, range: [low, high] };
+  });
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandlePoint;
+}
+
+function Candle({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) return null;
+  const { open, high, low, rate: close } = payload;
+  // The bar spans high (top, y) to low (bottom, y + height); map prices into it.
+  const toY = (value: number) =>
+    high === low ? y : y + ((high - value) / (high - low)) * height;
+  const colour = close >= open ? '#10b981' : '#ef4444';
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(toY(Math.min(open, close)) - bodyTop, 1);
+  const centre = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centre} x2={centre} y1={y} y2={y + height} stroke={colour} />
+      <rect
+        x={x + width * 0.2}
+        y={bodyTop}
+        width={Math.max(width * 0.6, 1)}
+        height={bodyHeight}
+        fill={colour}
+      />
+    </g>
+  );
+}
+
+type Overlay = 'sma20' | 'sma50' | 'sma200' | 'ema20' | 'ema50' | 'ema200' | 'bollinger';
+
+const OVERLAYS: { key: Overlay; label: string; color: string }[] = [
+  { key: 'sma20', label: 'SMA 20', color: '#f59e0b' },
+  { key: 'sma50', label: 'SMA 50', color: '#a855f7' },
+  { key: 'sma200', label: 'SMA 200', color: '#ec4899' },
+  { key: 'ema20', label: 'EMA 20', color: '#fbbf24' },
+  { key: 'ema50', label: 'EMA 50', color: '#c084fc' },
+  { key: 'ema200', label: 'EMA 200', color: '#f472b6' },
+  { key: 'bollinger', label: 'Bollinger', color: '#6b7280' },
+];
+
+function IndicatorSummaryRow({ latest }: { latest: IndicatorsResult['latest'] }) {
+  if (!latest) return null;
+
+  const rsiNote =
+    latest.rsi === null ? '' : latest.rsi >= 70 ? ' (overbought)' : latest.rsi <= 30 ? ' (oversold)' : '';
+  const vsSma200 =
+    latest.sma200 !== null ? ((latest.rate - latest.sma200) / latest.sma200) * 100 : null;
+
+  const items = [
+    { label: 'RSI 14', value: latest.rsi !== null ? `${latest.rsi.toFixed(0)}${rsiNote}` : '--' },
+    {
+      label: 'Z-score (50d)',
+      value: latest.zScore !== null ? `${latest.zScore >= 0 ? '+' : ''}${latest.zScore.toFixed(2)}\u03C3` : '--',
+    },
+    { label: 'Volatility (20d, ann.)', value: latest.volatility !== null ? `${latest.volatility.toFixed(1)}%` : '--' },
+    {
+      label: 'vs SMA 200',
+      value: vsSma200 !== null ? `${vsSma200 >= 0 ? '+' : ''}${vsSma200.toFixed(1)}%` : '--',
+    },
+  ];
+
+  return (
+    <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+      {items.map((item) => (
+        <div key={item.label}>
+          <div className="text-xs text-gray-500">{item.label}</div>
+          <div className="text-sm font-mono text-gray-200">{item.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function RateHistoryChart({
   history,
   breakEvenRate,
@@ -587,19 +622,54 @@ function RateHistoryChart({
   history: RateHistoryPoint[];
   breakEvenRate: number;
 }) {
+  const [mode, setMode] = useState<'line' | 'candles'>('line');
+  const [indicators, setIndicators] = useState<IndicatorsResult | null>(null);
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+
+  useEffect(() => {
+    fetch('/api/rates/indicators?days=365')
+      .then((res) => (res.ok ? (res.json() as Promise<IndicatorsResult>) : null))
+      .then(setIndicators)
+      .catch(() => {
+        // indicators are optional - the chart still renders without them
+      });
+  }, []);
+
+  function toggleOverlay(key: Overlay) {
+    setOverlays((current) =>
+      current.includes(key) ? current.filter((o) => o !== key) : [...current, key]
+    );
+  }
+
   if (history.length === 0) {
     return (
       <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
         <h2 className="text-lg font-semibold mb-4">Rate History</h2>
         <p className="text-gray-500 text-sm">
-          Rate history will build up over time as you use the app.
+          Rate history will build up over time as you use the app, or backfill it from Settings.
         </p>
       </div>
     );
   }
 
   // Determine Y-axis domain with padding
-  const rates = history.map((h) => h.rate);
+  const byDate = new Map<string, IndicatorPoint>(
+    (indicators?.series ?? []).map((point) => [point.date, point])
+  );
+  const candles = toCandles(history).map((c) => {
+    const point = byDate.get(c.date);
+    return point ? { ...point, ...c } : c;
+  });
+  const overlayKeys = overlays.flatMap((o): (keyof IndicatorPoint)[] =>
+    o === 'bollinger' ? ['bollingerUpper', 'bollingerLower'] : [o]
+  );
+  const rates = candles.flatMap((h) => [
+    h.low,
+    h.high,
+    ...overlayKeys
+      .map((key) => byDate.get(h.date)?.[key])
+      .filter((v): v is number => typeof v === 'number'),
+  ]);
   const minRate = Math.min(...rates);
   const maxRate = Math.max(...rates);
   const padding = (maxRate - minRate) * 0.1 || 2;
@@ -608,10 +678,45 @@ function RateHistoryChart({
 
   return (
     <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
-      <h2 className="text-lg font-semibold mb-4">Rate History</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Rate History</h2>
+        <div className="flex gap-1 text-xs">
+          {(['line', 'candles'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 rounded-lg font-medium transition-colors ${
+                mode === m
+                  ? 'bg-gray-700 text-gray-100'
+                  : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {m === 'line' ? 'Line' : 'Candles'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {indicators && (
+        <div className="flex flex-wrap gap-1 mb-3 text-xs">
+          {OVERLAYS.map((o) => (
+            <button
+              key={o.key}
+              onClick={() => toggleOverlay(o.key)}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${
+                overlays.includes(o.key)
+                  ? 'border-gray-600 text-gray-100'
+                  : 'border-gray-800 text-gray-500 hover:text-gray-300'
+              }`}
+              style={overlays.includes(o.key) ? { borderColor: o.color } : undefined}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="h-72">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={history}>
+          <ComposedChart data={candles}>
             <XAxis
               dataKey="date"
               stroke="#4b5563"
@@ -636,10 +741,11 @@ function RateHistoryChart({
                 fontSize: '0.875rem',
               }}
               labelStyle={{ color: '#9ca3af' }}
-              formatter={(value: number | undefined) => [
-                formatRate(value ?? 0),
-                'GBP/JPY',
-              ]}
+              formatter={(value: number | [number, number] | undefined, name) =>
+                Array.isArray(value)
+                  ? [`${formatRate(value[0])} – ${formatRate(value[1])}`, 'Low – High']
+                  : [formatRate(value ?? 0), name === 'rate' ? 'GBP/JPY' : String(name)]
+              }
             />
             {breakEvenRate > 0 && (
               <ReferenceLine
@@ -661,22 +767,234 @@ function RateHistoryChart({
                 }}
               />
             )}
-            <Line
-              type="monotone"
-              dataKey="rate"
-              stroke="#3b82f6"
-              strokeWidth={2}
-              dot={false}
-              activeDot={{
-                r: 4,
-                fill: '#3b82f6',
-                stroke: '#1e40af',
-                strokeWidth: 2,
-              }}
-            />
-          </LineChart>
+            {mode === 'candles' ? (
+              <Bar
+                dataKey="range"
+                isAnimationActive={false}
+                shape={(props: unknown) => <Candle {...(props as CandleShapeProps)} />}
+              />
+            ) : (
+              <Line
+                type="monotone"
+                dataKey="rate"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+                activeDot={{
+                  r: 4,
+                  fill: '#3b82f6',
+                  stroke: '#1e40af',
+                  strokeWidth: 2,
+                }}
+              />
+            )}
+            {overlays.includes('bollinger') && (
+              <>
+                <Line dataKey="bollingerUpper" name="Bollinger upper" stroke="#6b7280" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                <Line dataKey="bollingerLower" name="Bollinger lower" stroke="#6b7280" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+              </>
+            )}
+            {OVERLAYS.filter((o) => o.key !== 'bollinger' && overlays.includes(o.key)).map((o) => (
+              <Line
+                key={o.key}
+                dataKey={o.key}
+                name={o.label}
+                stroke={o.color}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
+      <IndicatorSummaryRow latest={indicators?.latest ?? null} />
+    </div>
+  );
+}
+
+// ── Section 7: Fees & Spreads ─────────────────────────────────────────
+
+const PROVIDER_COLORS: Record<string, string> = {
+  WISE: '#10b981',
+  REVOLUT: '#3b82f6',
+  OTHER: '#f59e0b',
+};
+
+function FeeSection() {
+  const [report, setReport] = useState<FeeReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/fees')
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error ?? 'Failed to load fees');
+        setReport(json as FeeReport);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load fees'));
+  }, []);
+
+  if (error) {
+    return (
+      <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
+        <h2 className="text-lg font-semibold mb-4">Fees & Spreads</h2>
+        <p className="text-sm text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  if (!report) return <SkeletonCard className="h-48" />;
+
+  if (report.conversions.length === 0) {
+    return (
+      <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
+        <h2 className="text-lg font-semibold mb-4">Fees & Spreads</h2>
+        <p className="text-gray-500 text-sm">
+          Log conversions with a spot rate to see what each provider really costs.
+        </p>
+      </div>
+    );
+  }
+
+  const { totals, providers, monthly, comparison } = report;
+  const gbp = (pence: number) => formatMoney(pence, 'GBP');
+
+  // One row per month with a cost column per provider
+  const providerNames = providers.map((p) => p.provider);
+  const byMonth = new Map<string, Record<string, number | string>>();
+  for (const m of monthly) {
+    const row = byMonth.get(m.month) ?? { month: m.month };
+    row[m.provider] = m.costPct;
+    byMonth.set(m.month, row);
+  }
+  const chartData = Array.from(byMonth.values());
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Fees & Spreads</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Cost of each conversion against the spot rate logged with it: the stated fee plus the
+          spread hidden in the rate.
+          {report.withoutSpot > 0 && ` ${report.withoutSpot} conversions without a spot rate are left out.`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <div className="text-xs text-gray-500 mb-1">Total cost</div>
+          <div className="text-xl font-mono font-bold text-gray-100">{gbp(totals.costBase)}</div>
+          <div className="text-xs font-mono text-gray-500">{formatJPY(totals.costQuote)}</div>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <div className="text-xs text-gray-500 mb-1">Average cost</div>
+          <div className="text-xl font-mono font-bold text-gray-100">{totals.costPct.toFixed(2)}%</div>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <div className="text-xs text-gray-500 mb-1">Stated fees</div>
+          <div className="text-xl font-mono font-bold text-gray-100">{gbp(totals.feeBase)}</div>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <div className="text-xs text-gray-500 mb-1">Hidden spread</div>
+          <div className="text-xl font-mono font-bold text-amber-400">{gbp(totals.spreadBase)}</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-800">
+              <th className="text-left py-2 font-medium">Provider</th>
+              <th className="text-right py-2 font-medium">Conversions</th>
+              <th className="text-right py-2 font-medium">Volume</th>
+              <th className="text-right py-2 font-medium">Fee</th>
+              <th className="text-right py-2 font-medium">Spread</th>
+              <th className="text-right py-2 font-medium">Total</th>
+              <th className="text-right py-2 font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {providers.map((p) => (
+              <tr key={p.provider} className="border-b border-gray-800/50 hover:bg-gray-800/30">
+                <td className="py-2 text-gray-300">{p.provider}</td>
+                <td className="py-2 text-right font-mono text-gray-400">{p.conversions}</td>
+                <td className="py-2 text-right font-mono text-gray-400">{gbp(p.volumeBase)}</td>
+                <td className="py-2 text-right font-mono text-gray-400">{p.feePct.toFixed(2)}%</td>
+                <td className="py-2 text-right font-mono text-gray-400">{p.spreadPct.toFixed(2)}%</td>
+                <td className="py-2 text-right font-mono font-semibold text-gray-200">{p.costPct.toFixed(2)}%</td>
+                <td className="py-2 text-right font-mono text-gray-200">{gbp(p.costBase)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {comparison.length > 1 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-400 mb-3">If every conversion had gone through</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {comparison.map((c) => (
+              <div key={c.provider} className="bg-gray-800/50 rounded-lg p-4">
+                <div className="text-xs text-gray-500 mb-1">
+                  {c.provider} at {c.costPct.toFixed(2)}%
+                </div>
+                <div className="text-xl font-mono font-bold text-gray-100">{gbp(c.costBase)}</div>
+                <div className={`text-xs font-mono ${c.differenceBase <= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {c.differenceBase <= 0
+                    ? `${gbp(-c.differenceBase)} less than you paid`
+                    : `${gbp(c.differenceBase)} more than you paid`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {chartData.length > 1 && (
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <XAxis
+                dataKey="month"
+                stroke="#4b5563"
+                tick={{ fill: '#6b7280', fontSize: 12 }}
+                tickLine={false}
+                axisLine={{ stroke: '#374151' }}
+              />
+              <YAxis
+                stroke="#4b5563"
+                tick={{ fill: '#6b7280', fontSize: 12 }}
+                tickLine={false}
+                axisLine={{ stroke: '#374151' }}
+                tickFormatter={(v: number) => `${v.toFixed(1)}%`}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#111827',
+                  border: '1px solid #374151',
+                  borderRadius: '0.75rem',
+                  color: '#e5e7eb',
+                  fontSize: '0.875rem',
+                }}
+                labelStyle={{ color: '#9ca3af' }}
+                formatter={(value: number | undefined, name) => [`${(value ?? 0).toFixed(2)}%`, String(name)]}
+              />
+              {providerNames.map((name) => (
+                <Line
+                  key={name}
+                  dataKey={name}
+                  name={name}
+                  stroke={PROVIDER_COLORS[name] ?? '#9ca3af'}
+                  strokeWidth={2}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,13 +1,25 @@
 'use client';
 
 import { useCallback, useEffect, useState } from 'react';
-import type { Settings } from '@/types';
+import type { Settings, SizingMode } from '@/types';
 import { penceToPounds, poundsToPence } from '@/lib/finance/currency';
 import { settingsSchema } from '@/lib/validators';
 import { useToast } from '@/hooks/useToast';
 import { Toast } from '@/components/ui/Toast';
 import { ErrorRetry } from '@/components/ui/ErrorRetry';
 import { FieldInput } from '@/components/ui/FieldInput';
+import BackfillPanel from '@/components/rates/BackfillPanel';
+import PairsPanel from '@/components/pairs/PairsPanel';
+import BandLadderPanel from '@/components/strategy/BandLadderPanel';
+import RateImportPanel from '@/components/rates/RateImportPanel';
+import RecalibrationPanel from '@/components/strategy/RecalibrationPanel';
+
+const SIZING_MODE_LABELS: Record<SizingMode, string> = {
+  stepped: 'Stepped (tier caps)',
+  linear: 'Linear',
+  exponential: 'Exponential',
+  percentile: '52-week percentile',
+};
 
 function penceToPoundsDisplay(pence: number): string {
   return penceToPounds(pence).toFixed(2);
@@ -24,13 +36,10 @@ export default function SettingsPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useToast();
+  // Bumped to reload the ladder after a recalibration changes its floors
+  const [ladderVersion, setLadderVersion] = useState(0);
 
   // Form state (strings for controlled inputs)
-  const [aggressiveAbove, setAggressiveAbove] = useState('');
-  const [normalAbove, setNormalAbove] = useState('');
-  const [holdAbove, setHoldAbove] = useState('');
-  const [capAggressive, setCapAggressive] = useState('');
-  const [capNormal, setCapNormal] = useState('');
   const [totalSavings, setTotalSavings] = useState('');
   const [maxExposure, setMaxExposure] = useState('');
   const [monthlyExpenses, setMonthlyExpenses] = useState('');
@@ -38,19 +47,22 @@ export default function SettingsPage() {
   const [nisaMonthly, setNisaMonthly] = useState('');
   const [nisaReturn, setNisaReturn] = useState('');
   const [circuitBreaker, setCircuitBreaker] = useState('');
+  const [sizingMode, setSizingMode] = useState<SizingMode>('stepped');
   const [safetyNetMonths, setSafetyNetMonths] = useState('');
   const [scenarioBest, setScenarioBest] = useState('');
   const [scenarioBase, setScenarioBase] = useState('');
   const [scenarioWorst, setScenarioWorst] = useState('');
   const [reviewInterval, setReviewInterval] = useState('');
   const [lastReview, setLastReview] = useState('');
+  const [rateProviders, setRateProviders] = useState('');
+  const [manualRate, setManualRate] = useState('');
+  const [staleAfter, setStaleAfter] = useState('');
+  const [staleHardLimit, setStaleHardLimit] = useState('');
+  const [anomalyStdDevs, setAnomalyStdDevs] = useState('');
+  const [anomalyWindow, setAnomalyWindow] = useState('');
+  const [anomalyMaxJump, setAnomalyMaxJump] = useState('');
 
   const populateForm = useCallback((s: Settings) => {
-    setAggressiveAbove(s.aggressive_above.toString());
-    setNormalAbove(s.normal_above.toString());
-    setHoldAbove(s.hold_above.toString());
-    setCapAggressive(penceToPoundsDisplay(s.cap_aggressive_gbp));
-    setCapNormal(penceToPoundsDisplay(s.cap_normal_gbp));
     setTotalSavings(penceToPoundsDisplay(s.total_gbp_savings_pence));
     setMaxExposure(s.max_fx_exposure_pct.toString());
     setMonthlyExpenses(s.monthly_jpy_expenses.toString());
@@ -58,12 +70,20 @@ export default function SettingsPage() {
     setNisaMonthly(s.nisa_monthly_jpy.toString());
     setNisaReturn(s.nisa_return_pct.toString());
     setCircuitBreaker(penceToPoundsDisplay(s.circuit_breaker_loss_pence));
+    setSizingMode(s.sizing_mode);
     setSafetyNetMonths(s.gbp_safety_net_months.toString());
     setScenarioBest(s.scenario_best_rate.toString());
     setScenarioBase(s.scenario_base_rate.toString());
     setScenarioWorst(s.scenario_worst_rate.toString());
     setReviewInterval(s.review_interval_days.toString());
     setLastReview(s.last_band_review ?? '');
+    setRateProviders(s.rate_providers);
+    setManualRate(s.manual_rate?.toString() ?? '');
+    setStaleAfter(s.stale_after_hours.toString());
+    setStaleHardLimit(s.stale_hard_limit_hours.toString());
+    setAnomalyStdDevs(s.anomaly_std_devs.toString());
+    setAnomalyWindow(s.anomaly_window_days.toString());
+    setAnomalyMaxJump(s.anomaly_max_jump_pct.toString());
   }, []);
 
   const fetchSettings = useCallback(async () => {
@@ -93,11 +113,6 @@ export default function SettingsPage() {
 
     try {
       const body = {
-        aggressive_above: parseFloat(aggressiveAbove),
-        normal_above: parseFloat(normalAbove),
-        hold_above: parseFloat(holdAbove),
-        cap_aggressive_gbp: parsePoundsToPence(capAggressive),
-        cap_normal_gbp: parsePoundsToPence(capNormal),
         total_gbp_savings_pence: parsePoundsToPence(totalSavings),
         max_fx_exposure_pct: parseInt(maxExposure, 10),
         monthly_jpy_expenses: parseInt(monthlyExpenses, 10),
@@ -105,12 +120,20 @@ export default function SettingsPage() {
         nisa_monthly_jpy: parseInt(nisaMonthly, 10),
         nisa_return_pct: parseFloat(nisaReturn),
         circuit_breaker_loss_pence: parsePoundsToPence(circuitBreaker),
+        sizing_mode: sizingMode,
         gbp_safety_net_months: parseInt(safetyNetMonths, 10),
         scenario_best_rate: parseFloat(scenarioBest),
         scenario_base_rate: parseFloat(scenarioBase),
         scenario_worst_rate: parseFloat(scenarioWorst),
         review_interval_days: parseInt(reviewInterval, 10),
         last_band_review: lastReview || null,
+        rate_providers: rateProviders.split(',').map((p) => p.trim()).filter(Boolean).join(','),
+        manual_rate: manualRate ? parseFloat(manualRate) : null,
+        stale_after_hours: parseInt(staleAfter, 10),
+        stale_hard_limit_hours: parseInt(staleHardLimit, 10),
+        anomaly_std_devs: parseFloat(anomalyStdDevs),
+        anomaly_window_days: parseInt(anomalyWindow, 10),
+        anomaly_max_jump_pct: parseFloat(anomalyMaxJump),
       };
 
       // Client-side validation before sending to server
@@ -176,11 +199,6 @@ export default function SettingsPage() {
     );
   }
 
-  // Band number line values
-  const ha = parseFloat(holdAbove) || 0;
-  const na = parseFloat(normalAbove) || 0;
-  const aa = parseFloat(aggressiveAbove) || 0;
-
   return (
     <div className="space-y-6">
       {/* Toast */}
@@ -188,91 +206,9 @@ export default function SettingsPage() {
 
       <h1 className="text-2xl font-bold">Settings</h1>
 
-      <form onSubmit={handleSave} className="space-y-8">
-        {/* Band Thresholds */}
-        <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
-          <h2 className="text-lg font-semibold">Band Thresholds</h2>
-          <p className="text-sm text-gray-500">GBP/JPY rate thresholds that determine the current strategy band. Rates above Aggressive trigger maximum buying; between Normal and Aggressive is standard buying; between Hold and Normal means wait; below Hold enters the reverse zone.</p>
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-            <FieldInput
-              label="Aggressive Buy Above"
-              value={aggressiveAbove}
-              onChange={setAggressiveAbove}
-              type="number"
-              step="0.01"
-              hint="Default: 200"
-            />
-            <FieldInput
-              label="Normal Buy Above"
-              value={normalAbove}
-              onChange={setNormalAbove}
-              type="number"
-              step="0.01"
-              hint="Default: 190"
-            />
-            <FieldInput
-              label="Hold Above"
-              value={holdAbove}
-              onChange={setHoldAbove}
-              type="number"
-              step="0.01"
-              hint="Default: 175"
-            />
-          </div>
-
-          {/* Visual number line */}
-          <div className="mt-4">
-            <div className="text-xs text-gray-500 mb-2">Band Zones</div>
-            <div className="flex items-center h-8 rounded-lg overflow-hidden text-xs font-medium">
-              <div className="flex-1 bg-red-500/30 text-red-400 flex items-center justify-center px-2 truncate">
-                REVERSE
-              </div>
-              <div className="flex-shrink-0 bg-gray-700 text-gray-300 px-2 py-1 text-xs font-mono">
-                {ha.toFixed(1)}
-              </div>
-              <div className="flex-1 bg-amber-500/30 text-amber-400 flex items-center justify-center px-2 truncate">
-                HOLD
-              </div>
-              <div className="flex-shrink-0 bg-gray-700 text-gray-300 px-2 py-1 text-xs font-mono">
-                {na.toFixed(1)}
-              </div>
-              <div className="flex-1 bg-blue-500/30 text-blue-400 flex items-center justify-center px-2 truncate">
-                NORMAL BUY
-              </div>
-              <div className="flex-shrink-0 bg-gray-700 text-gray-300 px-2 py-1 text-xs font-mono">
-                {aa.toFixed(1)}
-              </div>
-              <div className="flex-1 bg-emerald-500/30 text-emerald-400 flex items-center justify-center px-2 truncate">
-                AGGRESSIVE BUY
-              </div>
-            </div>
-          </div>
-        </section>
-
-        {/* Monthly Caps */}
-        <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
-          <h2 className="text-lg font-semibold">Monthly Caps</h2>
-          <p className="text-sm text-gray-500">Maximum GBP to convert per month in each band. The aggressive cap applies when the rate is above the aggressive threshold; the normal cap applies otherwise.</p>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <FieldInput
-              label="Aggressive Cap (GBP \u00a3)"
-              value={capAggressive}
-              onChange={setCapAggressive}
-              type="number"
-              step="0.01"
-              hint="Default: \u00a32,000"
-            />
-            <FieldInput
-              label="Normal Cap (GBP \u00a3)"
-              value={capNormal}
-              onChange={setCapNormal}
-              type="number"
-              step="0.01"
-              hint="Default: \u00a31,000"
-            />
-          </div>
-        </section>
+      <BandLadderPanel key={ladderVersion} />
 
+      <form onSubmit={handleSave} className="space-y-8">
         {/* Personal Finance */}
         <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
           <h2 className="text-lg font-semibold">Personal Finance</h2>
@@ -353,6 +289,28 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Thermostat Sizing */}
+        <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Thermostat Sizing</h2>
+          <p className="text-sm text-gray-500">How the monthly cap follows the rate. Stepped uses each tier&apos;s cap; the other modes grow a share of the largest cap from the hold floor, reaching all of it at the highest buy floor or the top of the 52-week range.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="sizing-mode" className="text-xs text-gray-500">Sizing Mode</label>
+              <select
+                id="sizing-mode"
+                value={sizingMode}
+                onChange={(e) => setSizingMode(e.target.value as SizingMode)}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors"
+              >
+                {(Object.keys(SIZING_MODE_LABELS) as SizingMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{SIZING_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-600">Default: Stepped</span>
+            </div>
+          </div>
+        </section>
+
         {/* Scenarios */}
         <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
           <h2 className="text-lg font-semibold">Scenarios</h2>
@@ -388,7 +346,7 @@ export default function SettingsPage() {
         {/* Review */}
         <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
           <h2 className="text-lg font-semibold">Review Schedule</h2>
-          <p className="text-sm text-gray-500">How often to review and potentially adjust band thresholds. The last review date tracks when thresholds were last evaluated.</p>
+          <p className="text-sm text-gray-500">How often to review and potentially adjust the band ladder. The last review date tracks when tier floors were last evaluated.</p>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <FieldInput
               label="Review Interval (days)"
@@ -407,6 +365,76 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Rate Providers */}
+        <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Rate Providers</h2>
+          <p className="text-sm text-gray-500">Providers are tried in order until one answers; the cached rate is only used if they all fail. Put manual first to override live rates, and use file to read a local fixture. Weekends and ECB holidays do not count towards staleness.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FieldInput
+              label="Provider Order"
+              value={rateProviders}
+              onChange={setRateProviders}
+              hint="Comma-separated: frankfurter, ecb, manual, file"
+            />
+            <FieldInput
+              label="Manual Rate"
+              value={manualRate}
+              onChange={setManualRate}
+              type="number"
+              step="0.01"
+              hint="Used by the manual provider. Leave blank to disable."
+            />
+            <FieldInput
+              label="Stale After (hours)"
+              value={staleAfter}
+              onChange={setStaleAfter}
+              type="number"
+              step="1"
+              hint="Hours a newer business-day rate can be missing before warning. Default: 12"
+            />
+            <FieldInput
+              label="Hard Staleness Limit (hours)"
+              value={staleHardLimit}
+              onChange={setStaleHardLimit}
+              type="number"
+              step="1"
+              hint="Beyond this the thermostat won't suggest converting. Default: 72"
+            />
+          </div>
+        </section>
+
+        {/* Anomaly Alerts */}
+        <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Anomaly Alerts</h2>
+          <p className="text-sm text-gray-500">Alert on unusually large daily moves, new 52-week highs and lows, and provider quotes that jump away from the cached rate (usually bad data). Each fires at most once per business day.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FieldInput
+              label="Move Threshold (std devs)"
+              value={anomalyStdDevs}
+              onChange={setAnomalyStdDevs}
+              type="number"
+              step="0.1"
+              hint="Day-over-day move vs recent volatility. Default: 3"
+            />
+            <FieldInput
+              label="Volatility Window (days)"
+              value={anomalyWindow}
+              onChange={setAnomalyWindow}
+              type="number"
+              step="1"
+              hint="Business days of history used for volatility. Default: 20"
+            />
+            <FieldInput
+              label="Provider Jump Limit (%)"
+              value={anomalyMaxJump}
+              onChange={setAnomalyMaxJump}
+              type="number"
+              step="0.1"
+              hint="Flag a fetched rate this far from the cached one. Default: 5"
+            />
+          </div>
+        </section>
+
         {/* Save Button */}
         <div className="flex justify-end">
           <button
@@ -418,6 +446,21 @@ export default function SettingsPage() {
           </button>
         </div>
       </form>
+
+      <RecalibrationPanel
+        onAccepted={(s) => {
+          setSettings(s);
+          populateForm(s);
+          setLadderVersion((v) => v + 1);
+          setToast({ type: 'success', message: 'Tier floors updated and review date recorded.' });
+        }}
+      />
+
+      <PairsPanel />
+
+      <BackfillPanel />
+
+      <RateImportPanel />
     </div>
   );
 }
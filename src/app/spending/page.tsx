@@ -0,0 +1,344 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AccountBalance, SpendingResponse } from '@/types';
+import { formatMoney, toMinorUnits } from '@/lib/finance/currency';
+import ExpenseImportPanel from '@/components/spending/ExpenseImportPanel';
+import { ErrorRetry } from '@/components/ui/ErrorRetry';
+import { SkeletonCard } from '@/components/ui/SkeletonCard';
+import { StatCard } from '@/components/ui/StatCard';
+
+const inputClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+const RECENT_LIMIT = 50;
+
+// ── Main Page ─────────────────────────────────────────────────────────
+
+export default function SpendingPage() {
+  const [data, setData] = useState<SpendingResponse | null>(null);
+  const [balances, setBalances] = useState<AccountBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Manual entry form state (amount in major units)
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState('');
+  const [description, setDescription] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [expensesRes, accountsRes] = await Promise.all([
+        fetch('/api/expenses'),
+        fetch('/api/accounts'),
+      ]);
+      if (!expensesRes.ok) {
+        const body = await expensesRes.json().catch(() => null);
+        throw new Error((body as { error?: string } | null)?.error ?? 'Failed to fetch spending');
+      }
+      setData((await expensesRes.json()) as SpendingResponse);
+      if (accountsRes.ok) {
+        setBalances((await accountsRes.json()) as AccountBalance[]);
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch spending');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  async function send(url: string, init: RequestInit, failure: string): Promise<boolean> {
+    setBusy(true);
+    setFormError(null);
+    try {
+      const res = await fetch(url, init);
+      const body = (await res.json().catch(() => null)) as
+        | { error?: string; errors?: { message: string }[] }
+        | null;
+      if (!res.ok) {
+        throw new Error(body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? failure);
+      }
+      await fetchData();
+      return true;
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!data) return;
+    const parsed = parseFloat(amount);
+    if (isNaN(parsed) || parsed <= 0) {
+      setFormError('Enter an amount.');
+      return;
+    }
+    const added = await send(
+      '/api/expenses',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date,
+          currency: data.currency,
+          amount: toMinorUnits(parsed, data.currency),
+          accountId: accountId ? Number(accountId) : null,
+          category: category || undefined,
+          description: description || undefined,
+        }),
+      },
+      'Failed to add expense'
+    );
+    if (added) {
+      setAmount('');
+      setDescription('');
+    }
+  }
+
+  // ── Error state ───────────────────────────────────────────────────
+
+  if (error && !data) {
+    return (
+      <ErrorRetry
+        title="Failed to load spending"
+        message={error}
+        onRetry={() => {
+          setLoading(true);
+          setError(null);
+          fetchData();
+        }}
+      />
+    );
+  }
+
+  // ── Loading state ─────────────────────────────────────────────────
+
+  if (loading) {
+    return (
+      <div className="space-y-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <SkeletonCard />
+          <SkeletonCard />
+          <SkeletonCard />
+          <SkeletonCard />
+        </div>
+        <SkeletonCard className="h-48" />
+        <SkeletonCard className="h-64" />
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const { currency, budget, monthly, expenses } = data;
+  const money = (minor: number) => formatMoney(minor, currency);
+  const thisMonth = new Date().toISOString().slice(0, 7);
+  const current = monthly.find((m) => m.month === thisMonth);
+  const spentThisMonth = current?.spent ?? 0;
+  const accounts = balances.filter((b) => !b.account.archived && b.account.currency === currency).map((b) => b.account);
+  const accountName = (id: number) => balances.find((b) => b.account.id === id)?.account.name ?? `#${id}`;
+  const categories = [...new Set(expenses.map((e) => e.category).filter((c): c is string => c !== null))].sort();
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold">Spending</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          {currency} spent no longer counts as held, so the dashboard reports P&amp;L only on what remains.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <StatCard label="Spent This Month" value={money(spentThisMonth)} />
+        <StatCard label="Monthly Budget" value={money(budget)} />
+        <StatCard
+          label="Left This Month"
+          value={money(budget - spentThisMonth)}
+          color={budget - spentThisMonth < 0 ? 'text-red-400' : 'text-emerald-400'}
+        />
+        <StatCard label={`Total ${currency} Spent`} value={money(data.totalSpent)} />
+      </div>
+
+      {/* Manual entry */}
+      <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Add Expense</h2>
+        <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex flex-col gap-1">
+            <label htmlFor="expense-date" className="text-xs text-gray-500">Date</label>
+            <input
+              id="expense-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="expense-amount" className="text-xs text-gray-500">Amount ({currency})</label>
+            <input
+              id="expense-amount"
+              type="number"
+              min="0"
+              step={1 / toMinorUnits(1, currency)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="expense-category" className="text-xs text-gray-500">Category (optional)</label>
+            <input
+              id="expense-category"
+              type="text"
+              list="expense-categories"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className={inputClass}
+            />
+            <datalist id="expense-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="expense-description" className="text-xs text-gray-500">Description (optional)</label>
+            <input
+              id="expense-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          {accounts.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <label htmlFor="expense-account" className="text-xs text-gray-500">Paid From</label>
+              <select
+                id="expense-account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">No account</option>
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={busy || !amount}
+            className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+          >
+            Add Expense
+          </button>
+        </form>
+        {formError && <p className="text-sm text-red-400">{formError}</p>}
+      </section>
+
+      {/* Monthly vs budget */}
+      <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Monthly Spending vs Budget</h2>
+        {monthly.length === 0 ? (
+          <p className="text-sm text-gray-500">No spending recorded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {monthly.map((m) => {
+              const pct = m.budget > 0 ? Math.min(100, (m.spent / m.budget) * 100) : 100;
+              const over = m.remaining < 0;
+              return (
+                <div key={m.month} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-mono text-gray-300">{m.month}</span>
+                    <span className="text-gray-400">
+                      <span className="font-mono text-gray-200">{money(m.spent)}</span> of {money(m.budget)}{' '}
+                      {'\u00B7'}{' '}
+                      <span className={over ? 'text-red-400' : 'text-emerald-400'}>
+                        {over ? `${money(-m.remaining)} over` : `${money(m.remaining)} left`}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${over ? 'bg-red-500' : 'bg-emerald-500'}`}
+                      style={{ width: `${pct}%` }}
+                    />
+                  </div>
+                  {Object.keys(m.byCategory).length > 1 && (
+                    <div className="text-xs text-gray-500">
+                      {Object.entries(m.byCategory)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([c, spent]) => `${c || 'Uncategorised'} ${money(spent)}`)
+                        .join(' \u00B7 ')}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {/* Recent expenses */}
+      {expenses.length > 0 && (
+        <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Recent Expenses</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="text-left py-2">Date</th>
+                  <th className="text-left py-2">Description</th>
+                  <th className="text-left py-2">Category</th>
+                  <th className="text-left py-2">Account</th>
+                  <th className="text-right py-2">Amount</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800/50">
+                {expenses.slice(0, RECENT_LIMIT).map((e) => (
+                  <tr key={e.id}>
+                    <td className="py-2 font-mono text-gray-300">{e.date}</td>
+                    <td className="py-2 text-gray-400">{e.description ?? '-'}</td>
+                    <td className="py-2 text-gray-500">{e.category ?? '-'}</td>
+                    <td className="py-2 text-gray-500">{e.account_id !== null ? accountName(e.account_id) : '-'}</td>
+                    <td className="py-2 text-right font-mono text-gray-200">{formatMoney(e.amount, e.currency)}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => send(`/api/expenses/${e.id}`, { method: 'DELETE' }, 'Failed to delete expense')}
+                        disabled={busy}
+                        className="px-2 py-0.5 text-xs text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {expenses.length > RECENT_LIMIT && (
+              <p className="text-xs text-gray-500 mt-2">and {expenses.length - RECENT_LIMIT} older expenses</p>
+            )}
+          </div>
+        </section>
+      )}
+
+      <ExpenseImportPanel currency={currency} accounts={accounts} onImported={fetchData} />
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AccountBalance, AccountKind, CurrencyCode, CurrencyPair, TransferRecord } from '@/types';
+import type { PairHoldings } from '@/lib/accounts/balances';
+import { CURRENCY_CODES, formatMoney, toMinorUnits } from '@/lib/finance/currency';
+
+const inputClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+const KIND_LABELS: Record<AccountKind, string> = {
+  WISE: 'Wise',
+  BANK: 'Bank',
+  CASH: 'Cash',
+  OTHER: 'Other',
+};
+
+/**
+ * Balances per account, what the dashboard's pair actually holds, and forms
+ * to add accounts and move money between them. Balances come from the
+ * dashboard so the portfolio summary values the same holdings.
+ */
+export default function AccountsPanel({
+  pair,
+  balances,
+  holdings,
+  onChanged,
+}: {
+  pair: CurrencyPair;
+  balances: AccountBalance[];
+  holdings: PairHoldings | null;
+  onChanged: () => void;
+}) {
+  const [transfers, setTransfers] = useState<TransferRecord[]>([]);
+  const [form, setForm] = useState<'account' | 'transfer' | null>(null);
+  const [name, setName] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(pair.quote);
+  const [kind, setKind] = useState<AccountKind>('BANK');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [fee, setFee] = useState('');
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTransfers = useCallback(async () => {
+    try {
+      const res = await fetch('/api/transfers');
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to load transfers');
+      setTransfers(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transfers');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers, balances]);
+
+  const active = balances.filter((b) => !b.account.archived);
+  const accountName = (id: number) => balances.find((b) => b.account.id === id)?.account.name ?? `#${id}`;
+  const from = active.find((b) => b.account.id === Number(fromId))?.account ?? null;
+
+  async function send(url: string, init: RequestInit, failure: string): Promise<boolean> {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const body = (await res.json().catch(() => null)) as
+        | { error?: string; errors?: { message: string }[] }
+        | null;
+      if (!res.ok) {
+        throw new Error(body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? failure);
+      }
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCreateAccount(e: React.FormEvent) {
+    e.preventDefault();
+    const created = await send(
+      '/api/accounts',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          currency,
+          kind,
+          openingBalance: toMinorUnits(parseFloat(openingBalance) || 0, currency),
+        }),
+      },
+      'Failed to add account'
+    );
+    if (created) {
+      setName('');
+      setOpeningBalance('');
+      setForm(null);
+    }
+  }
+
+  async function handleTransfer(e: React.FormEvent) {
+    e.preventDefault();
+    const parsed = parseFloat(amount);
+    if (!from || isNaN(parsed) || parsed <= 0) {
+      setError('Choose the accounts and enter an amount.');
+      return;
+    }
+    const created = await send(
+      '/api/transfers',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date,
+          fromAccountId: from.id,
+          toAccountId: Number(toId),
+          amount: toMinorUnits(parsed, from.currency),
+          fee: toMinorUnits(parseFloat(fee) || 0, from.currency),
+          notes: notes || undefined,
+        }),
+      },
+      'Failed to record transfer'
+    );
+    if (created) {
+      setAmount('');
+      setFee('');
+      setNotes('');
+      setForm(null);
+    }
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Accounts</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setForm((f) => (f === 'account' ? null : 'account'))}
+            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs font-medium transition-colors"
+          >
+            {form === 'account' ? 'Close' : 'Add Account'}
+          </button>
+          {active.length > 1 && (
+            <button
+              onClick={() => setForm((f) => (f === 'transfer' ? null : 'transfer'))}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs font-medium transition-colors"
+            >
+              {form === 'transfer' ? 'Close' : 'Transfer'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {holdings && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <div className="text-xs text-gray-500 mb-1">{pair.quote} Held</div>
+            <div className="text-lg font-mono text-gray-200">{formatMoney(holdings.quote.total, pair.quote)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">{pair.quote} Not in an Account</div>
+            <div className="text-lg font-mono text-gray-400">{formatMoney(holdings.quote.unassigned, pair.quote)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">{pair.quote} Value ({pair.base})</div>
+            <div className="text-lg font-mono text-gray-200">{formatMoney(holdings.quoteValueBase, pair.base)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Total Value ({pair.base})</div>
+            <div className="text-lg font-mono text-gray-200">{formatMoney(holdings.totalValueBase, pair.base)}</div>
+          </div>
+        </div>
+      )}
+
+      {form === 'account' && (
+        <form onSubmit={handleCreateAccount} className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="account-name" className="text-xs text-gray-500">Name</label>
+            <input
+              id="account-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Wise JPY"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="account-currency" className="text-xs text-gray-500">Currency</label>
+            <select
+              id="account-currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+              className={inputClass}
+            >
+              {CURRENCY_CODES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="account-kind" className="text-xs text-gray-500">Type</label>
+            <select
+              id="account-kind"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as AccountKind)}
+              className={inputClass}
+            >
+              {(Object.keys(KIND_LABELS) as AccountKind[]).map((k) => (
+                <option key={k} value={k}>{KIND_LABELS[k]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="account-opening" className="text-xs text-gray-500">Opening Balance ({currency})</label>
+            <input
+              id="account-opening"
+              type="number"
+              step={1 / toMinorUnits(1, currency)}
+              value={openingBalance}
+              onChange={(e) => setOpeningBalance(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !name}
+            className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+          >
+            Add Account
+          </button>
+        </form>
+      )}
+
+      {form === 'transfer' && (
+        <form onSubmit={handleTransfer} className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex flex-col gap-1">
+            <label htmlFor="transfer-from" className="text-xs text-gray-500">From</label>
+            <select
+              id="transfer-from"
+              value={fromId}
+              onChange={(e) => {
+                setFromId(e.target.value);
+                setToId('');
+              }}
+              className={inputClass}
+            >
+              <option value="">Choose...</option>
+              {active.map((b) => (
+                <option key={b.account.id} value={b.account.id}>{b.account.name} ({b.account.currency})</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="transfer-to" className="text-xs text-gray-500">To</label>
+            <select
+              id="transfer-to"
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              disabled={!from}
+              className={inputClass}
+            >
+              <option value="">Choose...</option>
+              {active
+                .filter((b) => from && b.account.currency === from.currency && b.account.id !== from.id)
+                .map((b) => (
+                  <option key={b.account.id} value={b.account.id}>{b.account.name}</option>
+                ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="transfer-amount" className="text-xs text-gray-500">Amount Received</label>
+            <input
+              id="transfer-amount"
+              type="number"
+              min="0"
+              step={from ? 1 / toMinorUnits(1, from.currency) : 'any'}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="transfer-fee" className="text-xs text-gray-500">Fee</label>
+            <input
+              id="transfer-fee"
+              type="number"
+              min="0"
+              step={from ? 1 / toMinorUnits(1, from.currency) : 'any'}
+              value={fee}
+              onChange={(e) => setFee(e.target.value)}
+              className={`${inputClass} font-mono w-28`}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="transfer-date" className="text-xs text-gray-500">Date</label>
+            <input
+              id="transfer-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="transfer-notes" className="text-xs text-gray-500">Notes (optional)</label>
+            <input
+              id="transfer-notes"
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !toId}
+            className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+          >
+            Record Transfer
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {balances.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No accounts yet. Add the places you hold money to track balances instead of assuming everything bought is still held.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-800/50">
+          {balances.map((b) => (
+            <div key={b.account.id} className="py-2.5 flex items-center justify-between gap-3 text-sm">
+              <div className={b.account.archived ? 'text-gray-600' : 'text-gray-300'}>
+                {b.account.name}
+                <span className="ml-2 text-xs text-gray-500">
+                  {KIND_LABELS[b.account.kind]} {'\u00B7'} {b.account.currency}
+                  {b.fees > 0 && <> {'\u00B7'} {formatMoney(b.fees, b.account.currency)} in fees</>}
+                  {b.account.archived ? <> {'\u00B7'} archived</> : null}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`font-mono ${b.balance < 0 ? 'text-red-400' : 'text-gray-200'}`}>
+                  {formatMoney(b.balance, b.account.currency)}
+                </span>
+                <button
+                  onClick={() =>
+                    send(
+                      `/api/accounts/${b.account.id}`,
+                      {
+                        method: 'PATCH',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ archived: !b.account.archived }),
+                      },
+                      'Failed to update account'
+                    )
+                  }
+                  disabled={busy}
+                  className="px-2 py-1 text-gray-500 hover:text-gray-300 hover:bg-gray-800 rounded text-xs font-medium transition-colors"
+                >
+                  {b.account.archived ? 'Unarchive' : 'Archive'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {transfers.length > 0 && (
+        <div className="text-xs text-gray-500 space-y-1">
+          <div className="text-gray-400 font-medium">Recent Transfers</div>
+          {transfers.slice(0, 5).map((t) => {
+            const code = balances.find((b) => b.account.id === t.to_account_id)?.account.currency ?? pair.quote;
+            return (
+              <div key={t.id} className="flex items-center justify-between gap-3">
+                <span>
+                  {t.date} {accountName(t.from_account_id)} {'\u2192'} {accountName(t.to_account_id)}{' '}
+                  <span className="font-mono text-gray-300">{formatMoney(t.amount, code)}</span>
+                  {t.fee > 0 && <> (fee {formatMoney(t.fee, code)})</>}
+                </span>
+                <button
+                  onClick={() => send(`/api/transfers/${t.id}`, { method: 'DELETE' }, 'Failed to delete transfer')}
+                  disabled={busy}
+                  className="px-2 py-0.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
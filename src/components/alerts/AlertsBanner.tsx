@@ -17,6 +17,8 @@ const typeStyles: Record<string, { dot: string; label: string }> = {
   circuit_breaker: { dot: 'bg-red-400', label: 'Circuit Breaker' },
   reverse_zone: { dot: 'bg-amber-400', label: 'Reverse Zone' },
   recalibrate: { dot: 'bg-gray-400', label: 'Recalibrate' },
+  anomaly: { dot: 'bg-purple-400', label: 'Anomaly' },
+  limit_order: { dot: 'bg-emerald-400', label: 'Limit Order' },
 };
 
 function getTypeStyle(type: string) {
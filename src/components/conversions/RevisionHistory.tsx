@@ -0,0 +1,147 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { BandTier, ConversionRecord } from '@/types';
+import type { ConversionRevision, ConversionValues } from '@/lib/conversions/revisions';
+import { formatMoney, formatRate } from '@/lib/finance/currency';
+import { parseTimestamp } from '@/lib/rates/staleness';
+import { getBandLabel } from '@/lib/strategy/bands';
+
+const FIELD_LABELS: Record<keyof ConversionValues, string> = {
+  date: 'Date',
+  source_currency: 'From currency',
+  target_currency: 'To currency',
+  source_amount: 'From',
+  target_amount: 'To',
+  exchange_rate: 'Rate',
+  spot_rate: 'Spot',
+  fee_pct: 'Fee %',
+  provider: 'Provider',
+  band_at_time: 'Band',
+  notes: 'Notes',
+  source_account_id: 'From account',
+  target_account_id: 'To account',
+};
+
+function formatField(c: ConversionRecord, field: keyof ConversionValues, ladder: BandTier[]): string {
+  const value = c[field];
+  if (value == null || value === '') return '--';
+  switch (field) {
+    case 'source_amount':
+      return formatMoney(c.source_amount, c.source_currency);
+    case 'target_amount':
+      return formatMoney(c.target_amount, c.target_currency);
+    case 'exchange_rate':
+    case 'spot_rate':
+      return formatRate(value as number);
+    case 'band_at_time':
+      return getBandLabel(c.band_at_time, ladder);
+    case 'source_account_id':
+    case 'target_account_id':
+      return `#${value}`;
+    default:
+      return String(value);
+  }
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(parseTimestamp(iso)).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Past versions of a conversion, newest first. Each entry shows the fields
+ * that edit changed (before and after) and can be restored.
+ */
+export function RevisionHistory({
+  conversion,
+  onReverted,
+  ladder = [],
+}: {
+  conversion: ConversionRecord;
+  onReverted: (updated: ConversionRecord) => void;
+  ladder?: BandTier[];
+}) {
+  const [revisions, setRevisions] = useState<ConversionRevision[] | null>(null);
+  const [reverting, setReverting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/conversions/${conversion.id}/revisions`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to load revisions');
+      setRevisions(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    }
+  }, [conversion.id]);
+
+  // Reload whenever the conversion itself changes (edit or revert)
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, conversion]);
+
+  async function handleRevert(revisionId: number) {
+    setReverting(revisionId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/conversions/${conversion.id}/revisions/${revisionId}`, {
+        method: 'POST',
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to revert conversion');
+      onReverted(json as ConversionRecord);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert conversion');
+    } finally {
+      setReverting(null);
+    }
+  }
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!revisions) return <p className="text-sm text-gray-500">Loading edit history...</p>;
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">Not edited since it was logged.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500 uppercase tracking-wider">Edit History</p>
+      {revisions.map((r, i) => {
+        // The version this edit produced is the next newer snapshot, or the current row
+        const after = i === 0 ? conversion : revisions[i - 1].snapshot;
+        return (
+          <div key={r.id} className="flex items-start justify-between gap-4 text-sm">
+            <div>
+              <span className="text-gray-400">{formatTimestamp(r.revised_at)}</span>
+              <ul className="text-xs text-gray-500 mt-0.5">
+                {r.changed_fields.map((field) => (
+                  <li key={field}>
+                    {FIELD_LABELS[field] ?? field}:{' '}
+                    <span className="font-mono text-red-400/80">{formatField(r.snapshot, field, ladder)}</span>
+                    {' \u2192 '}
+                    <span className="font-mono text-emerald-400/80">{formatField(after, field, ladder)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRevert(r.id)}
+              disabled={reverting !== null}
+              className="px-2 py-1 text-gray-400 hover:text-gray-200 hover:bg-gray-800 disabled:text-gray-600 rounded text-xs font-medium transition-colors whitespace-nowrap"
+            >
+              {reverting === r.id ? 'Reverting...' : 'Revert to before'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import Papa from 'papaparse';
+import type {
+  ColumnMapping,
+  StatementFormat,
+  StatementPreview,
+  StatementProvider,
+} from '@/lib/conversions/statements';
+import { formatMoney, formatRate } from '@/lib/finance/currency';
+
+const FORMATS: { value: StatementFormat; label: string }[] = [
+  { value: 'wise', label: 'Wise transaction history' },
+  { value: 'revolut', label: 'Revolut account statement' },
+  { value: 'generic', label: 'Other (map columns)' },
+];
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; optional?: boolean }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'sourceCurrency', label: 'From Currency' },
+  { key: 'sourceAmount', label: 'From Amount' },
+  { key: 'targetCurrency', label: 'To Currency' },
+  { key: 'targetAmount', label: 'To Amount' },
+  { key: 'fee', label: 'Fee (optional)', optional: true },
+];
+
+const EMPTY_MAPPING: ColumnMapping = {
+  date: '',
+  sourceCurrency: '',
+  sourceAmount: '',
+  targetCurrency: '',
+  targetAmount: '',
+};
+
+const selectClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+export default function StatementImportPanel({ onImported }: { onImported: () => void }) {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [format, setFormat] = useState<StatementFormat>('wise');
+  const [provider, setProvider] = useState<StatementProvider>('OTHER');
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [preview, setPreview] = useState<StatementPreview | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+    if (!file) return;
+
+    const text = await file.text();
+    const headers = Papa.parse<string[]>(text, { preview: 1 }).data[0]?.map((h) => h.trim()) ?? [];
+
+    setFileName(file.name);
+    setCsv(text);
+    setColumns(headers);
+    if (headers.includes('Source amount (after fees)')) setFormat('wise');
+    else if (headers.includes('Started Date')) setFormat('revolut');
+    else setFormat('generic');
+  }
+
+  async function submit(mode: 'preview' | 'commit') {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/conversions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csv,
+          format,
+          mapping: format === 'generic' ? { ...mapping, fee: mapping.fee || undefined } : undefined,
+          provider: format === 'generic' ? provider : undefined,
+          mode,
+          includeDuplicates,
+        }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | (StatementPreview & { inserted?: number; skipped?: number; error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to import statement'
+        );
+      }
+
+      if (mode === 'preview') {
+        setPreview(body);
+        setMessage(null);
+      } else {
+        setPreview(null);
+        setMessage(`Imported ${body?.inserted ?? 0} conversions, skipped ${body?.skipped ?? 0}.`);
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import statement');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const importable = preview
+    ? preview.rows.filter((r) => includeDuplicates || !r.duplicate).length
+    : 0;
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">Import Statement</h2>
+      <p className="text-sm text-gray-500">
+        Load a Wise or Revolut CSV export. GBP/JPY exchanges become conversions with the fee and the
+        day&apos;s spot rate filled in; everything else in the statement is ignored.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="statement-file" className="text-xs text-gray-500">CSV File</label>
+          <input
+            id="statement-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="text-sm text-gray-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border file:border-gray-700 file:bg-gray-800 file:text-gray-200 file:text-sm"
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="statement-format" className="text-xs text-gray-500">Format</label>
+          <select
+            id="statement-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as StatementFormat)}
+            className={selectClass}
+          >
+            {FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>{f.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {fileName && format === 'generic' && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {MAPPING_FIELDS.map(({ key, label, optional }) => (
+            <div key={key} className="flex flex-col gap-1">
+              <label htmlFor={`mapping-${key}`} className="text-xs text-gray-500">{label}</label>
+              <select
+                id={`mapping-${key}`}
+                value={mapping[key] ?? ''}
+                onChange={(e) => setMapping((m) => ({ ...m, [key]: e.target.value }))}
+                className={selectClass}
+              >
+                <option value="">{optional ? 'None' : 'Choose column'}</option>
+                {columns.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="flex flex-col gap-1">
+            <label htmlFor="statement-provider" className="text-xs text-gray-500">Provider</label>
+            <select
+              id="statement-provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as StatementProvider)}
+              className={selectClass}
+            >
+              <option value="WISE">WISE</option>
+              <option value="REVOLUT">REVOLUT</option>
+              <option value="OTHER">OTHER</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {message && <p className="text-sm text-emerald-400">{message}</p>}
+
+      {fileName && (
+        <button
+          type="button"
+          onClick={() => submit('preview')}
+          disabled={busy}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Reading...' : 'Preview Import'}
+        </button>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-400">
+            {preview.rows.length} conversions found, {preview.duplicates} already logged,{' '}
+            {preview.ignored} other rows ignored
+            {preview.errors.length > 0 && `, ${preview.errors.length} unreadable`}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5 max-h-24 overflow-y-auto">
+              {preview.errors.map((e) => (
+                <li key={`${e.line}-${e.message}`}>Line {e.line}: {e.message}</li>
+              ))}
+            </ul>
+          )}
+
+          {preview.rows.length > 0 && (
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="text-left py-2">Date</th>
+                    <th className="text-right py-2">From</th>
+                    <th className="text-right py-2">To</th>
+                    <th className="text-right py-2">Rate</th>
+                    <th className="text-right py-2">Spot</th>
+                    <th className="text-right py-2">Fee</th>
+                    <th className="text-right py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800/50">
+                  {preview.rows.map(({ line, duplicate, values: v }) => (
+                    <tr key={line} className={duplicate ? 'text-gray-600' : 'text-gray-300'}>
+                      <td className="py-1.5 font-mono">{v.date}</td>
+                      <td className="py-1.5 text-right font-mono">{formatMoney(v.source_amount, v.source_currency)}</td>
+                      <td className="py-1.5 text-right font-mono">{formatMoney(v.target_amount, v.target_currency)}</td>
+                      <td className="py-1.5 text-right font-mono">{formatRate(v.exchange_rate)}</td>
+                      <td className="py-1.5 text-right font-mono">{v.spot_rate != null ? formatRate(v.spot_rate) : '--'}</td>
+                      <td className="py-1.5 text-right font-mono">{v.fee_pct?.toFixed(2)}%</td>
+                      <td className={`py-1.5 text-right text-xs ${duplicate ? 'text-amber-400' : 'text-emerald-400'}`}>
+                        {duplicate ? 'Duplicate' : 'New'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center gap-4">
+            {preview.duplicates > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={includeDuplicates}
+                  onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                />
+                Import duplicates too
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={() => submit('commit')}
+              disabled={busy || importable === 0}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+            >
+              {busy ? 'Importing...' : `Import ${importable} Conversions`}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
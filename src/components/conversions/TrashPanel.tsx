@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ConversionRecord } from '@/types';
+import { formatMoney } from '@/lib/finance/currency';
+import { parseTimestamp } from '@/lib/rates/staleness';
+
+function formatDeletedAt(iso: string): string {
+  return new Date(parseTimestamp(iso)).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Deleted conversions. They are left out of every total until restored, and
+ * purging one removes it and its edit history for good. `version` changes
+ * whenever the page deletes or restores something, to reload the list.
+ */
+export default function TrashPanel({
+  version,
+  onRestored,
+}: {
+  version: number;
+  onRestored: () => void;
+}) {
+  const [trash, setTrash] = useState<ConversionRecord[] | null>(null);
+  const [busy, setBusy] = useState<number | 'all' | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const res = await fetch('/api/conversions/trash');
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to load trash');
+      setTrash(json);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash, version]);
+
+  async function act(target: number | 'all', url: string, method: 'POST' | 'DELETE', failure: string) {
+    setBusy(target);
+    setError(null);
+    try {
+      const res = await fetch(url, { method });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error ?? failure);
+      }
+      if (method === 'POST') onRestored();
+      await fetchTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(null);
+      setConfirmEmpty(false);
+    }
+  }
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Trash</h2>
+          <p className="text-sm text-gray-500">
+            Deleted conversions do not count towards your totals, caps or circuit breaker.
+          </p>
+        </div>
+        {trash && trash.length > 0 && (
+          confirmEmpty ? (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => act('all', '/api/conversions/trash', 'DELETE', 'Failed to empty trash')}
+                disabled={busy !== null}
+                className="px-3 py-1.5 bg-red-600 hover:bg-red-500 disabled:bg-gray-700 rounded-lg text-xs font-medium transition-colors"
+              >
+                {busy === 'all' ? '...' : `Delete ${trash.length} Forever`}
+              </button>
+              <button
+                onClick={() => setConfirmEmpty(false)}
+                className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmEmpty(true)}
+              className="px-3 py-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg text-xs font-medium transition-colors"
+            >
+              Empty Trash
+            </button>
+          )
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!trash ? (
+        !error && <p className="text-sm text-gray-500">Loading trash...</p>
+      ) : trash.length === 0 ? (
+        <p className="text-sm text-gray-500">The trash is empty.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+              <th className="text-left py-2">Date</th>
+              <th className="text-right py-2">From</th>
+              <th className="text-right py-2">To</th>
+              <th className="text-left py-2 pl-4">Notes</th>
+              <th className="text-left py-2">Deleted</th>
+              <th className="text-right py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800/50">
+            {trash.map((c) => (
+              <tr key={c.id} className="text-gray-400">
+                <td className="py-2 font-mono">{c.date}</td>
+                <td className="py-2 text-right font-mono">{formatMoney(c.source_amount, c.source_currency)}</td>
+                <td className="py-2 text-right font-mono">{formatMoney(c.target_amount, c.target_currency)}</td>
+                <td className="py-2 pl-4 max-w-[200px] truncate">{c.notes || '--'}</td>
+                <td className="py-2 text-xs">{c.deleted_at ? formatDeletedAt(c.deleted_at) : '--'}</td>
+                <td className="py-2 text-right">
+                  <div className="flex items-center justify-end gap-1">
+                    <button
+                      onClick={() => act(c.id, `/api/conversions/trash/${c.id}`, 'POST', 'Failed to restore conversion')}
+                      disabled={busy !== null}
+                      className="px-2 py-1 text-gray-400 hover:text-emerald-400 hover:bg-emerald-500/10 disabled:text-gray-600 rounded text-xs font-medium transition-colors"
+                    >
+                      {busy === c.id ? '...' : 'Restore'}
+                    </button>
+                    <button
+                      onClick={() => act(c.id, `/api/conversions/trash/${c.id}`, 'DELETE', 'Failed to purge conversion')}
+                      disabled={busy !== null}
+                      className="px-2 py-1 text-gray-500 hover:text-red-400 hover:bg-red-500/10 disabled:text-gray-600 rounded text-xs font-medium transition-colors"
+                    >
+                      Delete Forever
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
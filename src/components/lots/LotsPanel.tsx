@@ -0,0 +1,292 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import type { CurrencyCode, CurrencyPair } from '@/types';
+import type { Disposal, LotMethod, LotReport } from '@/lib/finance/lots';
+import { CURRENCIES, formatMoney, formatRate, fromMinorUnits, pairKey, toMinorUnits } from '@/lib/finance/currency';
+
+const inputClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+const METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: 'FIFO',
+  average: 'Average Cost',
+  specific: 'Specific Lot',
+};
+
+function pnlColor(value: number): string {
+  return value > 0 ? 'text-emerald-400' : value < 0 ? 'text-red-400' : 'text-gray-300';
+}
+
+/**
+ * Realised P&L from reversals matched against earlier purchases, and the
+ * open lots left with their own cost basis. Under the specific-lot method
+ * each reversal can be pointed at the lots it drew on.
+ */
+export default function LotsPanel({ pair, refreshKey }: { pair: CurrencyPair; refreshKey: number }) {
+  const [method, setMethod] = useState<LotMethod>('fifo');
+  const [report, setReport] = useState<LotReport | null>(null);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [chosen, setChosen] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/lots?pair=${encodeURIComponent(pairKey(pair))}&method=${method}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to load lots');
+      setReport(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load lots');
+    }
+  }, [pair, method]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport, refreshKey]);
+
+  const formatBase = (minor: number) => formatMoney(minor, pair.base);
+  const formatQuote = (minor: number) => formatMoney(minor, pair.quote);
+  const quoteDigits = CURRENCIES[pair.quote as CurrencyCode].minorDigits;
+
+  function startEditing(d: Disposal) {
+    setEditing(d.conversionId);
+    setChosen(
+      Object.fromEntries(
+        d.matches.map((m) => [m.lotId, fromMinorUnits(m.quote, pair.quote).toFixed(quoteDigits)])
+      )
+    );
+  }
+
+  async function saveChoice(disposalId: number, assignments: { lotId: number; quote: number }[]) {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/lots/${disposalId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assignments }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | { error?: string; errors?: { message: string }[] }
+        | null;
+      if (!res.ok) {
+        throw new Error(body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to save lots');
+      }
+      setEditing(null);
+      await fetchReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lots');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleSave(disposalId: number) {
+    const assignments = Object.entries(chosen)
+      .map(([lotId, value]) => ({ lotId: Number(lotId), quote: toMinorUnits(parseFloat(value) || 0, pair.quote) }))
+      .filter((a) => a.quote > 0);
+    saveChoice(disposalId, assignments);
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Lots &amp; Realised P&amp;L</h2>
+        <div className="flex gap-1">
+          {(Object.keys(METHOD_LABELS) as LotMethod[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => {
+                setMethod(m);
+                setEditing(null);
+              }}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                method === m
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {METHOD_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!report ? (
+        <p className="text-sm text-gray-500">Loading lots...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Realised P&amp;L</div>
+              <div className={`text-lg font-mono ${pnlColor(report.realisedPnl)}`}>{formatBase(report.realisedPnl)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Unrealised on Open Lots</div>
+              <div className={`text-lg font-mono ${pnlColor(report.unrealisedPnl)}`}>{formatBase(report.unrealisedPnl)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Open {pair.quote}</div>
+              <div className="text-lg font-mono text-gray-300">{formatQuote(report.openQuote)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Open Cost Rate</div>
+              <div className="text-lg font-mono text-gray-300">
+                {report.averageCostRate > 0 ? formatRate(report.averageCostRate) : '--'}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-400 mb-2">Open Lots</h3>
+            {report.openLots.length === 0 ? (
+              <p className="text-sm text-gray-500">No open lots.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium">Rate</th>
+                      <th className="py-2 pr-4 font-medium text-right">Remaining</th>
+                      <th className="py-2 pr-4 font-medium text-right">Cost Basis</th>
+                      <th className="py-2 pr-4 font-medium text-right">Value Now</th>
+                      <th className="py-2 font-medium text-right">Unrealised</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800/50">
+                    {report.openLots.map((lot) => (
+                      <tr key={lot.conversionId}>
+                        <td className="py-2 pr-4 text-gray-300">{lot.date}</td>
+                        <td className="py-2 pr-4 font-mono text-gray-300">{formatRate(lot.rate)}</td>
+                        <td className="py-2 pr-4 font-mono text-right text-gray-300">
+                          {formatQuote(lot.remainingQuote)}
+                          {lot.remainingQuote < lot.quote && (
+                            <span className="text-gray-500"> / {formatQuote(lot.quote)}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-right text-gray-300">{formatBase(lot.remainingCost)}</td>
+                        <td className="py-2 pr-4 font-mono text-right text-gray-300">{formatBase(lot.currentValue)}</td>
+                        <td className={`py-2 font-mono text-right ${pnlColor(lot.unrealisedPnl)}`}>{formatBase(lot.unrealisedPnl)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-400 mb-2">Reversals</h3>
+            {report.disposals.length === 0 ? (
+              <p className="text-sm text-gray-500">No {pair.quote} {'\u2192'} {pair.base} conversions yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium">Rate</th>
+                      <th className="py-2 pr-4 font-medium text-right">Sold</th>
+                      <th className="py-2 pr-4 font-medium text-right">Proceeds</th>
+                      <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                      <th className="py-2 pr-4 font-medium text-right">Realised</th>
+                      <th className="py-2 pr-4 font-medium text-right">Cumulative</th>
+                      {method === 'specific' && <th className="py-2 font-medium" />}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800/50">
+                    {report.disposals.map((d) => (
+                      <Fragment key={d.conversionId}>
+                        <tr>
+                          <td className="py-2 pr-4 text-gray-300">{d.date}</td>
+                          <td className="py-2 pr-4 font-mono text-gray-300">{formatRate(d.rate)}</td>
+                          <td className="py-2 pr-4 font-mono text-right text-gray-300">
+                            {formatQuote(d.quoteSold)}
+                            {d.unmatchedQuote > 0 && (
+                              <span className="block text-xs text-amber-400">
+                                {formatQuote(d.unmatchedQuote)} not from a lot
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 font-mono text-right text-gray-300">{formatBase(d.proceeds)}</td>
+                          <td className="py-2 pr-4 font-mono text-right text-gray-300">{formatBase(d.cost)}</td>
+                          <td className={`py-2 pr-4 font-mono text-right ${pnlColor(d.realisedPnl)}`}>{formatBase(d.realisedPnl)}</td>
+                          <td className={`py-2 pr-4 font-mono text-right ${pnlColor(d.cumulativeRealisedPnl)}`}>
+                            {formatBase(d.cumulativeRealisedPnl)}
+                          </td>
+                          {method === 'specific' && (
+                            <td className="py-2 text-right">
+                              <button
+                                onClick={() => (editing === d.conversionId ? setEditing(null) : startEditing(d))}
+                                className="px-2 py-1 text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded text-xs font-medium transition-colors whitespace-nowrap"
+                              >
+                                {editing === d.conversionId ? 'Close' : 'Choose Lots'}
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                        {method === 'specific' && editing === d.conversionId && (
+                          <tr>
+                            <td colSpan={8} className="py-3">
+                              <div className="bg-gray-800/50 rounded-lg p-4 space-y-3">
+                                <p className="text-xs text-gray-500">
+                                  {pair.quote} to draw from each earlier purchase. Anything not covered comes from the oldest lots.
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                  {report.lots
+                                    .filter((lot) => lot.date <= d.date)
+                                    .map((lot) => (
+                                      <label key={lot.conversionId} className="flex items-center gap-2 text-xs text-gray-400">
+                                        <span className="flex-1">
+                                          {lot.date} at {formatRate(lot.rate)}
+                                          <span className="block text-gray-500">{formatQuote(lot.quote)}</span>
+                                        </span>
+                                        <input
+                                          type="number"
+                                          min="0"
+                                          step={1 / toMinorUnits(1, pair.quote)}
+                                          value={chosen[lot.conversionId] ?? ''}
+                                          onChange={(e) => setChosen((c) => ({ ...c, [lot.conversionId]: e.target.value }))}
+                                          className={`${inputClass} font-mono w-32`}
+                                        />
+                                      </label>
+                                    ))}
+                                </div>
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={() => handleSave(d.conversionId)}
+                                    disabled={saving}
+                                    className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 rounded-lg text-xs font-medium transition-colors"
+                                  >
+                                    {saving ? 'Saving...' : 'Save'}
+                                  </button>
+                                  <button
+                                    onClick={() => saveChoice(d.conversionId, [])}
+                                    disabled={saving}
+                                    className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700 rounded-lg text-xs font-medium transition-colors"
+                                  >
+                                    Reset to FIFO
+                                  </button>
+                                </div>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
@@ -0,0 +1,334 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CurrencyCode, CurrencyPair, LimitOrderCondition, LimitOrderRecord, Provider } from '@/types';
+import { CURRENCIES, formatMoney, formatRate, fromMinorUnits, toMinorUnits } from '@/lib/finance/currency';
+
+const inputClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+const STATUS_STYLES: Record<LimitOrderRecord['status'], string> = {
+  PENDING: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  TRIGGERED: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  FILLED: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
+  EXPIRED: 'bg-gray-500/20 text-gray-500 border-gray-500/30',
+  CANCELLED: 'bg-gray-500/20 text-gray-500 border-gray-500/30',
+};
+
+// What a triggered order would receive at its trigger rate, in major units
+function expectedTarget(order: LimitOrderRecord, pair: CurrencyPair): string {
+  const rate = order.triggered_rate ?? order.target_rate;
+  const source = fromMinorUnits(order.amount, order.source_currency);
+  const target = order.source_currency === pair.base ? source * rate : source / rate;
+  return target.toFixed(CURRENCIES[order.target_currency as CurrencyCode].minorDigits);
+}
+
+/**
+ * Orders to convert once the rate crosses a target, for the dashboard's pair.
+ * The rates endpoint triggers them; `refreshKey` changes after each rate
+ * fetch so newly triggered orders show up. A triggered order is filled in one
+ * click, with the received amount prefilled from its trigger rate.
+ */
+export default function LimitOrdersPanel({
+  pair,
+  currentRate,
+  refreshKey,
+  onFilled,
+}: {
+  pair: CurrencyPair;
+  currentRate: number | null;
+  refreshKey: number;
+  onFilled: () => void;
+}) {
+  const [orders, setOrders] = useState<LimitOrderRecord[]>([]);
+  const [forward, setForward] = useState(true);
+  const [amount, setAmount] = useState('');
+  const [condition, setCondition] = useState<LimitOrderCondition>('ABOVE');
+  const [targetRate, setTargetRate] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [notes, setNotes] = useState('');
+  const [received, setReceived] = useState<Record<number, string>>({});
+  const [provider, setProvider] = useState<Provider>('WISE');
+  const [busy, setBusy] = useState<number | 'create' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const res = await fetch('/api/orders');
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to load limit orders');
+      setOrders(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load limit orders');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders, refreshKey]);
+
+  const source = forward ? pair.base : pair.quote;
+  const target = forward ? pair.quote : pair.base;
+  const inPair = (o: LimitOrderRecord) =>
+    [o.source_currency, o.target_currency].sort().join() === [pair.base, pair.quote].sort().join();
+  const open = orders.filter((o) => inPair(o) && (o.status === 'PENDING' || o.status === 'TRIGGERED'));
+  const recent = orders.filter((o) => inPair(o) && !open.includes(o)).slice(0, 5);
+
+  function toggleDirection() {
+    setForward((f) => !f);
+    // Buying the quote currency usually waits for a higher rate, reverting for a lower one
+    setCondition((c) => (c === 'ABOVE' ? 'BELOW' : 'ABOVE'));
+  }
+
+  async function send(key: number | 'create', url: string, init: RequestInit, failure: string) {
+    setBusy(key);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const body = (await res.json().catch(() => null)) as
+        | { error?: string; errors?: { message: string }[] }
+        | null;
+      if (!res.ok) {
+        throw new Error(body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? failure);
+      }
+      await fetchOrders();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    const parsedRate = parseFloat(targetRate);
+    if (isNaN(parsedAmount) || parsedAmount <= 0 || isNaN(parsedRate) || parsedRate <= 0) {
+      setError('Enter an amount and a target rate.');
+      return;
+    }
+
+    const created = await send(
+      'create',
+      '/api/orders',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceCurrency: source,
+          targetCurrency: target,
+          amount: toMinorUnits(parsedAmount, source),
+          condition,
+          targetRate: parsedRate,
+          expiresOn: expiresOn || undefined,
+          notes: notes || undefined,
+        }),
+      },
+      'Failed to create limit order'
+    );
+    if (created) {
+      setAmount('');
+      setTargetRate('');
+      setExpiresOn('');
+      setNotes('');
+    }
+  }
+
+  async function handleFill(order: LimitOrderRecord) {
+    const value = parseFloat(received[order.id] ?? expectedTarget(order, pair));
+    if (isNaN(value) || value <= 0) {
+      setError('Enter the amount received.');
+      return;
+    }
+
+    const filled = await send(
+      order.id,
+      `/api/orders/${order.id}/fill`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetAmount: toMinorUnits(value, order.target_currency),
+          provider,
+        }),
+      },
+      'Failed to log conversion'
+    );
+    if (filled) onFilled();
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Limit Orders</h2>
+        {currentRate !== null && (
+          <span className="text-sm text-gray-500">
+            {pair.base}/{pair.quote} now <span className="font-mono text-gray-300">{formatRate(currentRate)}</span>
+          </span>
+        )}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-3 md:items-end">
+        <div className="flex flex-col gap-1">
+          <label className="text-xs text-gray-500">Direction</label>
+          <button
+            type="button"
+            onClick={toggleDirection}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm font-mono border border-gray-700 transition-colors whitespace-nowrap"
+          >
+            {`${source} \u2192 ${target}`}
+          </button>
+        </div>
+        <div className="flex flex-col gap-1 flex-1">
+          <label htmlFor="order-amount" className="text-xs text-gray-500">Amount ({source})</label>
+          <input
+            id="order-amount"
+            type="number"
+            step={1 / toMinorUnits(1, source)}
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="order-condition" className="text-xs text-gray-500">When rate is</label>
+          <select
+            id="order-condition"
+            value={condition}
+            onChange={(e) => setCondition(e.target.value as LimitOrderCondition)}
+            className={inputClass}
+          >
+            <option value="ABOVE">at or above</option>
+            <option value="BELOW">at or below</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-1 flex-1">
+          <label htmlFor="order-rate" className="text-xs text-gray-500">Target Rate</label>
+          <input
+            id="order-rate"
+            type="number"
+            step="0.01"
+            min="0"
+            value={targetRate}
+            onChange={(e) => setTargetRate(e.target.value)}
+            placeholder={currentRate !== null ? formatRate(currentRate) : ''}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="order-expires" className="text-xs text-gray-500">Expires (optional)</label>
+          <input
+            id="order-expires"
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex flex-col gap-1 flex-1">
+          <label htmlFor="order-notes" className="text-xs text-gray-500">Notes (optional)</label>
+          <input
+            id="order-notes"
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy !== null}
+          className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+        >
+          {busy === 'create' ? 'Placing...' : 'Place Order'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {open.length === 0 ? (
+        <p className="text-sm text-gray-500">No open orders for {pair.base}/{pair.quote}.</p>
+      ) : (
+        <div className="divide-y divide-gray-800/50">
+          {open.map((o) => (
+            <div key={o.id} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div className="text-sm">
+                <span className={`inline-block px-2 py-0.5 mr-2 rounded-full text-xs font-semibold border ${STATUS_STYLES[o.status]}`}>
+                  {o.status === 'TRIGGERED' ? 'Triggered' : 'Pending'}
+                </span>
+                <span className="font-mono text-gray-200">{formatMoney(o.amount, o.source_currency)}</span>
+                <span className="text-gray-400">
+                  {' \u2192 '}{o.target_currency} when {o.condition === 'ABOVE' ? '\u2265' : '\u2264'}{' '}
+                </span>
+                <span className="font-mono text-gray-200">{formatRate(o.target_rate)}</span>
+                {o.status === 'TRIGGERED' && o.triggered_rate !== null && (
+                  <span className="text-gray-500"> (hit {formatRate(o.triggered_rate)})</span>
+                )}
+                {o.status === 'PENDING' && o.expires_on && (
+                  <span className="text-gray-500"> until {o.expires_on}</span>
+                )}
+                {o.notes && <span className="block text-xs text-gray-500 mt-0.5">{o.notes}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {o.status === 'TRIGGERED' && (
+                  <>
+                    <input
+                      type="number"
+                      aria-label={`${o.target_currency} received`}
+                      min="0"
+                      step={1 / toMinorUnits(1, o.target_currency)}
+                      value={received[o.id] ?? expectedTarget(o, pair)}
+                      onChange={(e) => setReceived((r) => ({ ...r, [o.id]: e.target.value }))}
+                      className={`${inputClass} font-mono w-32`}
+                    />
+                    <select
+                      aria-label="Provider"
+                      value={provider}
+                      onChange={(e) => setProvider(e.target.value as Provider)}
+                      className={inputClass}
+                    >
+                      <option value="WISE">Wise</option>
+                      <option value="REVOLUT">Revolut</option>
+                      <option value="OTHER">Other</option>
+                    </select>
+                    <button
+                      onClick={() => handleFill(o)}
+                      disabled={busy !== null}
+                      className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 rounded-lg text-xs font-medium transition-colors whitespace-nowrap"
+                    >
+                      {busy === o.id ? 'Logging...' : 'Log Conversion'}
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => send(o.id, `/api/orders/${o.id}`, { method: 'DELETE' }, 'Failed to cancel order')}
+                  disabled={busy !== null}
+                  className="px-2 py-1 text-gray-500 hover:text-red-400 hover:bg-red-500/10 disabled:text-gray-600 rounded text-xs font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="text-xs text-gray-500 space-y-1">
+          {recent.map((o) => (
+            <div key={o.id}>
+              <span className={`inline-block px-1.5 py-0.5 mr-2 rounded-full border ${STATUS_STYLES[o.status]}`}>
+                {o.status.charAt(0) + o.status.slice(1).toLowerCase()}
+              </span>
+              {formatMoney(o.amount, o.source_currency)} {'\u2192'} {o.target_currency} at{' '}
+              {o.condition === 'ABOVE' ? '\u2265' : '\u2264'} {formatRate(o.target_rate)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
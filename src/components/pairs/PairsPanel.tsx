@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CurrencyCode, PairConfig } from '@/types';
+import { CURRENCY_CODES, formatMoney, formatRate } from '@/lib/finance/currency';
+import { DEFAULT_LADDER } from '@/lib/strategy/bands';
+import { BandLadderEditor, toTierInput, type TierRow } from '@/components/strategy/BandLadderEditor';
+import BandLadderPanel from '@/components/strategy/BandLadderPanel';
+
+// The default tiers with their rates and caps left for the new pair
+const NEW_LADDER: TierRow[] = DEFAULT_LADDER.map((t) => ({
+  key: t.key,
+  label: t.label,
+  floor: t.direction === 'REVERSE' ? '0' : '',
+  color: t.color,
+  monthlyCap: '',
+  direction: t.direction,
+}));
+
+const EMPTY_FORM = {
+  base: 'EUR' as CurrencyCode,
+  quote: 'JPY' as CurrencyCode,
+  rows: NEW_LADDER,
+};
+
+export default function PairsPanel() {
+  const [pairs, setPairs] = useState<PairConfig[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [ladderKey, setLadderKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPairs = useCallback(async () => {
+    try {
+      const res = await fetch('/api/pairs');
+      if (res.ok) {
+        setPairs((await res.json()) as PairConfig[]);
+      }
+    } catch {
+      // silently fail - the list is reloaded after every change
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  async function handleAdd() {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/pairs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          base_currency: form.base,
+          quote_currency: form.quote,
+          tiers: form.rows.map((r) => toTierInput(r, form.base)),
+        }),
+      });
+
+      if (!res.ok) {
+        const body = (await res.json().catch(() => null)) as
+          | { error?: string; errors?: { message: string }[] }
+          | null;
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to add pair'
+        );
+      }
+
+      setForm(EMPTY_FORM);
+      await fetchPairs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add pair');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(config: PairConfig) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/pairs/${config.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete pair');
+      if (ladderKey === config.key) setLadderKey(null);
+      await fetchPairs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete pair');
+    }
+  }
+
+  const extraPairs = pairs.filter((p) => p.id != null);
+  const editing = extraPairs.find((p) => p.key === ladderKey);
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">Currency Pairs</h2>
+      <p className="text-sm text-gray-500">
+        GBP/JPY uses the band ladder above. Add other pairs to track them on the dashboard, each
+        with its own ladder (caps are in the base currency).
+      </p>
+
+      {extraPairs.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+              <th className="text-left py-2">Pair</th>
+              <th className="text-right py-2">Floors</th>
+              <th className="text-right py-2">Top Cap</th>
+              <th className="text-right py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800/50">
+            {extraPairs.map((p) => (
+              <tr key={p.key}>
+                <td className="py-2 font-mono text-gray-300">{p.key}</td>
+                <td className="py-2 text-right font-mono text-gray-400">
+                  {p.ladder.map((t) => formatRate(t.floor)).join(' / ')}
+                </td>
+                <td className="py-2 text-right font-mono text-gray-400">
+                  {formatMoney(Math.max(0, ...p.ladder.map((t) => t.monthlyCap)), p.pair.base)}
+                </td>
+                <td className="py-2 text-right space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setLadderKey(ladderKey === p.key ? null : p.key)}
+                    className="px-2 py-1 text-gray-400 hover:text-gray-200 rounded text-xs font-medium transition-colors"
+                  >
+                    {ladderKey === p.key ? 'Close Ladder' : 'Edit Ladder'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(p)}
+                    className="px-2 py-1 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded text-xs font-medium transition-colors"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && <BandLadderPanel key={editing.key} pair={editing.pair} onSaved={fetchPairs} />}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(['base', 'quote'] as const).map((side) => (
+          <div key={side} className="flex flex-col gap-1">
+            <label htmlFor={`pair-${side}`} className="text-xs text-gray-500">
+              {side === 'base' ? 'Base Currency' : 'Quote Currency'}
+            </label>
+            <select
+              id={`pair-${side}`}
+              value={form[side]}
+              onChange={(e) => setForm((f) => ({ ...f, [side]: e.target.value as CurrencyCode }))}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors"
+            >
+              {CURRENCY_CODES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <BandLadderEditor
+        rows={form.rows}
+        currency={form.base}
+        onChange={(rows) => setForm((f) => ({ ...f, rows }))}
+      />
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={saving}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+        >
+          {saving ? 'Saving...' : 'Add Pair'}
+        </button>
+      </div>
+    </section>
+  );
+}
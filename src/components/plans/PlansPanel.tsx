@@ -0,0 +1,388 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  CurrencyCode,
+  CurrencyPair,
+  PlansResponse,
+  Provider,
+  RecurringPlanRecord,
+  ScheduledRun,
+  ScheduledRunStatus,
+} from '@/types';
+import { CURRENCIES, formatMoney, fromMinorUnits, toMinorUnits } from '@/lib/finance/currency';
+
+const inputClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors';
+
+const STATUS_STYLES: Record<ScheduledRunStatus, string> = {
+  MISSED: 'bg-red-500/20 text-red-400 border-red-500/30',
+  DUE: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  UPCOMING: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  CONFIRMED: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
+  SKIPPED: 'bg-gray-500/20 text-gray-500 border-gray-500/30',
+};
+
+const PROVIDER_LABELS: Record<Provider, string> = {
+  WISE: 'Wise',
+  REVOLUT: 'Revolut',
+  OTHER: 'Other',
+};
+
+// What a run would receive at the current rate, in major units
+function expectedTarget(plan: RecurringPlanRecord, pair: CurrencyPair, rate: number | null): string {
+  if (rate === null) return '';
+  const source = fromMinorUnits(plan.amount, plan.source_currency);
+  const target = plan.source_currency === pair.base ? source * rate : source / rate;
+  return target.toFixed(CURRENCIES[plan.target_currency as CurrencyCode].minorDigits);
+}
+
+function ordinal(day: number): string {
+  if (day >= 11 && day <= 13) return `${day}th`;
+  return `${day}${['th', 'st', 'nd', 'rd'][day % 10] ?? 'th'}`;
+}
+
+/**
+ * Fixed monthly conversions for the dashboard's pair, whatever the band.
+ * Missed and due runs are confirmed with the amount actually received, which
+ * logs the conversion, or skipped; the next run of each plan is shown too.
+ */
+export default function PlansPanel({
+  pair,
+  currentRate,
+  refreshKey,
+  onConfirmed,
+  onChanged,
+}: {
+  pair: CurrencyPair;
+  currentRate: number | null;
+  refreshKey: number;
+  onConfirmed: () => void;
+  onChanged: () => void;
+}) {
+  const [data, setData] = useState<PlansResponse>({ plans: [], runs: [] });
+  const [adding, setAdding] = useState(false);
+  const [forward, setForward] = useState(true);
+  const [amount, setAmount] = useState('');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [provider, setProvider] = useState<Provider>('WISE');
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState('');
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const res = await fetch('/api/plans');
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? 'Failed to load recurring plans');
+      setData(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recurring plans');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans, refreshKey]);
+
+  const source = forward ? pair.base : pair.quote;
+  const target = forward ? pair.quote : pair.base;
+  const plans = data.plans.filter(
+    (p) => [p.source_currency, p.target_currency].sort().join() === [pair.base, pair.quote].sort().join()
+  );
+  const planById = new Map(plans.map((p) => [p.id, p]));
+  const runs = data.runs.filter((r) => planById.has(r.planId));
+  const outstanding = runs.filter((r) => r.status === 'MISSED' || r.status === 'DUE');
+  const upcoming = plans
+    .map((p) => runs.find((r) => r.planId === p.id && r.status === 'UPCOMING'))
+    .filter((r): r is ScheduledRun => r !== undefined);
+  const runKey = (r: ScheduledRun) => `${r.planId}:${r.date}`;
+
+  async function send(key: string, url: string, init: RequestInit, failure: string) {
+    setBusy(key);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const body = (await res.json().catch(() => null)) as
+        | { error?: string; errors?: { message: string }[] }
+        | null;
+      if (!res.ok) {
+        throw new Error(body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? failure);
+      }
+      await fetchPlans();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Enter an amount.');
+      return;
+    }
+
+    const created = await send(
+      'create',
+      '/api/plans',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceCurrency: source,
+          targetCurrency: target,
+          amount: toMinorUnits(parsedAmount, source),
+          dayOfMonth: Number(dayOfMonth),
+          provider,
+          startDate,
+          notes: notes || undefined,
+        }),
+      },
+      'Failed to create recurring plan'
+    );
+    if (created) {
+      setAmount('');
+      setNotes('');
+      setAdding(false);
+      onChanged();
+    }
+  }
+
+  async function handleRun(run: ScheduledRun, status: 'CONFIRMED' | 'SKIPPED') {
+    const plan = planById.get(run.planId);
+    if (!plan) return;
+
+    let targetAmount: number | undefined;
+    if (status === 'CONFIRMED') {
+      const value = parseFloat(received[runKey(run)] ?? expectedTarget(plan, pair, currentRate));
+      if (isNaN(value) || value <= 0) {
+        setError('Enter the amount received.');
+        return;
+      }
+      targetAmount = toMinorUnits(value, plan.target_currency);
+    }
+
+    const recorded = await send(
+      runKey(run),
+      `/api/plans/${plan.id}/runs`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scheduledDate: run.date,
+          status,
+          targetAmount,
+          spotRate: status === 'CONFIRMED' ? currentRate ?? undefined : undefined,
+        }),
+      },
+      status === 'CONFIRMED' ? 'Failed to confirm run' : 'Failed to skip run'
+    );
+    if (!recorded) return;
+    if (status === 'CONFIRMED') onConfirmed();
+    else onChanged();
+  }
+
+  function describePlan(plan: RecurringPlanRecord): string {
+    return `${formatMoney(plan.amount, plan.source_currency)} \u2192 ${plan.target_currency} on the ${ordinal(plan.day_of_month)}`;
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Recurring Plans</h2>
+        <button
+          onClick={() => setAdding((a) => !a)}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs font-medium transition-colors"
+        >
+          {adding ? 'Close' : 'Add Plan'}
+        </button>
+      </div>
+
+      {adding && (
+        <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Direction</label>
+            <button
+              type="button"
+              onClick={() => setForward((f) => !f)}
+              className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm font-mono border border-gray-700 transition-colors whitespace-nowrap"
+            >
+              {`${source} \u2192 ${target}`}
+            </button>
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="plan-amount" className="text-xs text-gray-500">Amount ({source})</label>
+            <input
+              id="plan-amount"
+              type="number"
+              step={1 / toMinorUnits(1, source)}
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="plan-day" className="text-xs text-gray-500">Day of Month</label>
+            <input
+              id="plan-day"
+              type="number"
+              min="1"
+              max="31"
+              value={dayOfMonth}
+              onChange={(e) => setDayOfMonth(e.target.value)}
+              className={`${inputClass} font-mono w-20`}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="plan-provider" className="text-xs text-gray-500">Provider</label>
+            <select
+              id="plan-provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as Provider)}
+              className={inputClass}
+            >
+              {(Object.keys(PROVIDER_LABELS) as Provider[]).map((p) => (
+                <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="plan-start" className="text-xs text-gray-500">Starting</label>
+            <input
+              id="plan-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label htmlFor="plan-notes" className="text-xs text-gray-500">Notes (optional)</label>
+            <input
+              id="plan-notes"
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busy !== null}
+            className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+          >
+            {busy === 'create' ? 'Saving...' : 'Add Plan'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {plans.length === 0 ? (
+        <p className="text-sm text-gray-500">No recurring plans for {pair.base}/{pair.quote}.</p>
+      ) : (
+        <>
+          {outstanding.length + upcoming.length > 0 && (
+            <div className="divide-y divide-gray-800/50">
+              {[...outstanding, ...upcoming].map((run) => {
+                const plan = planById.get(run.planId);
+                if (!plan) return null;
+                const key = runKey(run);
+                return (
+                  <div key={key} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    <div className="text-sm">
+                      <span className={`inline-block px-2 py-0.5 mr-2 rounded-full text-xs font-semibold border ${STATUS_STYLES[run.status]}`}>
+                        {run.status.charAt(0) + run.status.slice(1).toLowerCase()}
+                      </span>
+                      <span className="font-mono text-gray-300">{run.date}</span>
+                      <span className="text-gray-400"> {describePlan(plan)}</span>
+                    </div>
+                    {run.status !== 'UPCOMING' && (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          aria-label={`${plan.target_currency} received`}
+                          min="0"
+                          step={1 / toMinorUnits(1, plan.target_currency)}
+                          value={received[key] ?? expectedTarget(plan, pair, currentRate)}
+                          onChange={(e) => setReceived((r) => ({ ...r, [key]: e.target.value }))}
+                          className={`${inputClass} font-mono w-32`}
+                        />
+                        <button
+                          onClick={() => handleRun(run, 'CONFIRMED')}
+                          disabled={busy !== null}
+                          className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 rounded-lg text-xs font-medium transition-colors whitespace-nowrap"
+                        >
+                          {busy === key ? 'Logging...' : 'Confirm'}
+                        </button>
+                        <button
+                          onClick={() => handleRun(run, 'SKIPPED')}
+                          disabled={busy !== null}
+                          className="px-2 py-1 text-gray-500 hover:text-gray-300 hover:bg-gray-800 disabled:text-gray-600 rounded text-xs font-medium transition-colors"
+                        >
+                          Skip
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500 space-y-1">
+            {plans.map((p) => (
+              <div key={p.id} className="flex items-center justify-between gap-3">
+                <span className={p.active ? '' : 'text-gray-600'}>
+                  {describePlan(p)} via {PROVIDER_LABELS[p.provider]} from {p.start_date}
+                  {p.end_date && <> to {p.end_date}</>}
+                  {!p.active && <> {'\u00B7'} paused</>}
+                  {p.notes && <> {'\u00B7'} {p.notes}</>}
+                </span>
+                <span className="flex gap-1">
+                  <button
+                    onClick={async () => {
+                      const updated = await send(
+                        `plan:${p.id}`,
+                        `/api/plans/${p.id}`,
+                        {
+                          method: 'PATCH',
+                          headers: { 'Content-Type': 'application/json' },
+                          body: JSON.stringify({ active: !p.active }),
+                        },
+                        'Failed to update plan'
+                      );
+                      if (updated) onChanged();
+                    }}
+                    disabled={busy !== null}
+                    className="px-2 py-0.5 text-gray-500 hover:text-gray-300 hover:bg-gray-800 rounded transition-colors"
+                  >
+                    {p.active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={async () => {
+                      const deleted = await send(`plan:${p.id}`, `/api/plans/${p.id}`, { method: 'DELETE' }, 'Failed to delete plan');
+                      if (deleted) onChanged();
+                    }}
+                    disabled={busy !== null}
+                    className="px-2 py-0.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { BackfillProgress } from '@/lib/rates/backfill';
+
+export default function BackfillPanel() {
+  const [progress, setProgress] = useState<BackfillProgress | null>(null);
+  const [days, setDays] = useState('365');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      const res = await fetch('/api/rates/backfill');
+      if (res.ok) {
+        setProgress((await res.json()) as BackfillProgress);
+      }
+    } catch {
+      // silently fail - progress is polled again while running
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [fetchProgress]);
+
+  const running = progress?.status === 'running';
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(fetchProgress, 1_000);
+    return () => clearInterval(interval);
+  }, [running, fetchProgress]);
+
+  async function handleStart() {
+    setError(null);
+    const to = new Date();
+    const from = new Date();
+    from.setDate(from.getDate() - (parseInt(days, 10) || 365));
+
+    try {
+      const res = await fetch('/api/rates/backfill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from: from.toISOString().split('T')[0],
+          to: to.toISOString().split('T')[0],
+        }),
+      });
+      const body = (await res.json()) as BackfillProgress & { error?: string };
+      if (!res.ok) throw new Error(body.error ?? 'Failed to start backfill');
+      setProgress(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start backfill');
+    }
+  }
+
+  const pct =
+    progress && progress.totalChunks > 0
+      ? (progress.completedChunks / progress.totalChunks) * 100
+      : progress?.status === 'completed' ? 100 : 0;
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">Rate History</h2>
+      <p className="text-sm text-gray-500">Fill gaps in the stored GBP/JPY history from Frankfurter. Only missing business days are fetched, so it is safe to run again.</p>
+      <div className="flex items-end gap-4">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="backfill-days" className="text-xs text-gray-500">Days to cover</label>
+          <input
+            id="backfill-days"
+            type="number"
+            step="1"
+            min="1"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={running}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          {running ? 'Backfilling...' : 'Backfill History'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {progress && progress.status !== 'idle' && (
+        <div>
+          <div className="w-full bg-gray-800 rounded-full h-2 mb-2">
+            <div
+              className={`h-2 rounded-full transition-all ${progress.status === 'failed' ? 'bg-red-500' : 'bg-emerald-500'}`}
+              style={{ width: `${pct}%` }}
+            />
+          </div>
+          <div className="text-sm text-gray-400">
+            {progress.from} to {progress.to}: {progress.completedChunks} of {progress.totalChunks} chunks,{' '}
+            {progress.inserted} of {progress.missingDays} missing days filled
+            {progress.unavailable.length > 0 && ` (${progress.unavailable.length} unavailable)`}
+          </div>
+          {progress.error && <p className="text-sm text-red-400 mt-1">{progress.error}</p>}
+        </div>
+      )}
+    </section>
+  );
+}
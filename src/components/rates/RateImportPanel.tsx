@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import Papa from 'papaparse';
+import type { ConflictMode, RateImportPreview, RateImportResult } from '@/lib/rates/import';
+import { formatRate } from '@/lib/finance/currency';
+import { FieldInput } from '@/components/ui/FieldInput';
+
+const PREVIEW_LIMIT = 50;
+
+const STATUS_STYLES: Record<string, string> = {
+  new: 'text-emerald-400',
+  conflict: 'text-amber-400',
+  unchanged: 'text-gray-500',
+};
+
+export default function RateImportPanel() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [dateColumn, setDateColumn] = useState('');
+  const [rateColumn, setRateColumn] = useState('');
+  const [inverted, setInverted] = useState(false);
+  const [source, setSource] = useState('csv_import');
+  const [onConflict, setOnConflict] = useState<ConflictMode>('skip');
+  const [preview, setPreview] = useState<RateImportPreview | null>(null);
+  const [result, setResult] = useState<RateImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    if (!file) return;
+
+    const text = await file.text();
+    const headers = Papa.parse<string[]>(text, { preview: 1 }).data[0]?.map((h) => h.trim()) ?? [];
+
+    setFileName(file.name);
+    setCsv(text);
+    setColumns(headers);
+    setDateColumn(headers.find((h) => /date/i.test(h)) ?? headers[0] ?? '');
+    setRateColumn(headers.find((h) => !/date/i.test(h)) ?? headers[1] ?? '');
+  }
+
+  async function submit(mode: 'preview' | 'commit') {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/rates/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, dateColumn, rateColumn, inverted, source, mode, onConflict }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | (RateImportPreview & RateImportResult & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to import rates'
+        );
+      }
+
+      if (mode === 'preview') {
+        setPreview(body);
+        setResult(null);
+      } else {
+        setResult(body);
+        setPreview(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import rates');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const conflicts = preview?.rows.filter((r) => r.status === 'conflict') ?? [];
+  const selectClass =
+    'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors';
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">Import Rate History</h2>
+      <p className="text-sm text-gray-500">
+        Load GBP/JPY closes from a CSV download (Bank of England, ECB or similar). Preview the rows
+        first to see which dates already have a stored rate.
+      </p>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="import-file" className="text-xs text-gray-500">CSV File</label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="text-sm text-gray-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border file:border-gray-700 file:bg-gray-800 file:text-gray-200 file:text-sm"
+        />
+      </div>
+
+      {fileName && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          {([
+            ['import-date-column', 'Date Column', dateColumn, setDateColumn],
+            ['import-rate-column', 'Rate Column', rateColumn, setRateColumn],
+          ] as const).map(([id, label, value, setValue]) => (
+            <div key={id} className="flex flex-col gap-1">
+              <label htmlFor={id} className="text-xs text-gray-500">{label}</label>
+              <select id={id} value={value} onChange={(e) => setValue(e.target.value)} className={selectClass}>
+                {columns.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <FieldInput id="import-source" label="Source Tag" value={source} onChange={setSource} />
+          <label className="flex items-center gap-2 text-sm text-gray-400 py-2">
+            <input type="checkbox" checked={inverted} onChange={(e) => setInverted(e.target.checked)} />
+            Rates are JPY/GBP (invert)
+          </label>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {fileName && (
+        <button
+          type="button"
+          onClick={() => submit('preview')}
+          disabled={busy || !dateColumn || !rateColumn}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Reading...' : 'Preview Import'}
+        </button>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-400">
+            {preview.counts.new} new, {preview.counts.conflict} conflicting, {preview.counts.unchanged} unchanged
+            {preview.errors.length > 0 && `, ${preview.errors.length} unreadable`}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5 max-h-24 overflow-y-auto">
+              {preview.errors.slice(0, PREVIEW_LIMIT).map((e) => (
+                <li key={e.line}>Line {e.line}: {e.message}</li>
+              ))}
+            </ul>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="text-left py-2">Date</th>
+                    <th className="text-right py-2">Stored</th>
+                    <th className="text-right py-2">Source</th>
+                    <th className="text-right py-2">File</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800/50">
+                  {conflicts.slice(0, PREVIEW_LIMIT).map((r) => (
+                    <tr key={r.date}>
+                      <td className="py-1.5 font-mono text-gray-300">{r.date}</td>
+                      <td className="py-1.5 text-right font-mono text-gray-400">
+                        {r.existingRate != null ? formatRate(r.existingRate) : '-'}
+                      </td>
+                      <td className="py-1.5 text-right text-gray-500">{r.existingSource}</td>
+                      <td className={`py-1.5 text-right font-mono ${STATUS_STYLES[r.status]}`}>{formatRate(r.rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {conflicts.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-1">and {conflicts.length - PREVIEW_LIMIT} more conflicts</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-end gap-4">
+            {conflicts.length > 0 && (
+              <div className="flex flex-col gap-1">
+                <label htmlFor="import-conflict" className="text-xs text-gray-500">On Conflict</label>
+                <select
+                  id="import-conflict"
+                  value={onConflict}
+                  onChange={(e) => setOnConflict(e.target.value as ConflictMode)}
+                  className={selectClass}
+                >
+                  <option value="skip">Keep stored rate</option>
+                  <option value="overwrite">Overwrite with file</option>
+                </select>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => submit('commit')}
+              disabled={busy || preview.counts.new + preview.counts.conflict === 0}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+            >
+              {busy ? 'Importing...' : 'Import Rates'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <p className="text-sm text-emerald-400">
+          Imported {result.inserted} new rates, overwrote {result.overwritten}, skipped {result.skipped}.
+        </p>
+      )}
+    </section>
+  );
+}
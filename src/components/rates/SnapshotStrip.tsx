@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RateSnapshotsResponse } from '@/types';
+import { formatRate } from '@/lib/finance/currency';
+import { parseTimestamp } from '@/lib/rates/staleness';
+
+function formatTime(timestamp: string): string {
+  return new Date(parseTimestamp(timestamp)).toISOString().slice(11, 16);
+}
+
+/**
+ * Intraday quotes for the day a conversion was made, with the move of each
+ * quote relative to the one closest to when the conversion was logged.
+ */
+export function SnapshotStrip({ date, loggedAt }: { date: string; loggedAt: string }) {
+  const [data, setData] = useState<RateSnapshotsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/rates/snapshots?date=${date}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error ?? 'Failed to load snapshots');
+        if (!cancelled) setData(json);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [date]);
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!data) return <p className="text-sm text-gray-500">Loading intraday rates...</p>;
+  if (data.snapshots.length === 0) {
+    return <p className="text-sm text-gray-500">No intraday quotes were recorded on {date}.</p>;
+  }
+
+  const logged = parseTimestamp(loggedAt);
+  const nearest = data.snapshots.reduce((best, s) =>
+    Math.abs(parseTimestamp(s.fetched_at) - logged) < Math.abs(parseTimestamp(best.fetched_at) - logged)
+      ? s
+      : best
+  );
+
+  return (
+    <div className="space-y-2">
+      {data.ohlc && (
+        <p className="text-xs text-gray-500">
+          O {formatRate(data.ohlc.open)} · H {formatRate(data.ohlc.high)} · L{' '}
+          {formatRate(data.ohlc.low)} · C {formatRate(data.ohlc.close)} · logged at{' '}
+          {formatTime(loggedAt)} UTC
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {data.snapshots.map((s) => {
+          const move = s.rate - nearest.rate;
+          return (
+            <div
+              key={s.id}
+              className={`px-2 py-1 rounded text-xs font-mono ${
+                s.id === nearest.id
+                  ? 'bg-blue-500/20 text-blue-300 border border-blue-500/40'
+                  : 'bg-gray-800 text-gray-300'
+              }`}
+              title={s.source}
+            >
+              {formatTime(s.fetched_at)} {formatRate(s.rate)}
+              {s.id !== nearest.id && Math.abs(move) >= 0.01 && (
+                <span className={move > 0 ? 'text-emerald-400' : 'text-red-400'}>
+                  {' '}
+                  {move > 0 ? '+' : ''}
+                  {move.toFixed(2)}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import Papa from 'papaparse';
+import type { AccountRecord } from '@/types';
+import type { ParsedExpenseCsv } from '@/lib/spending/ledger';
+import { formatMoney } from '@/lib/finance/currency';
+
+const PREVIEW_LIMIT = 50;
+
+const selectClass =
+  'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors';
+
+/** Bulk expenses from a bank or card CSV, previewed before anything is saved. */
+export default function ExpenseImportPanel({
+  currency,
+  accounts,
+  onImported,
+}: {
+  currency: string;
+  accounts: AccountRecord[];
+  onImported: () => void;
+}) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [dateColumn, setDateColumn] = useState('');
+  const [amountColumn, setAmountColumn] = useState('');
+  const [descriptionColumn, setDescriptionColumn] = useState('');
+  const [categoryColumn, setCategoryColumn] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [preview, setPreview] = useState<ParsedExpenseCsv | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    setPreview(null);
+    setImported(null);
+    setError(null);
+    if (!file) return;
+
+    const text = await file.text();
+    const headers = Papa.parse<string[]>(text, { preview: 1 }).data[0]?.map((h) => h.trim()) ?? [];
+
+    setFileName(file.name);
+    setCsv(text);
+    setColumns(headers);
+    setDateColumn(headers.find((h) => /date/i.test(h)) ?? headers[0] ?? '');
+    setAmountColumn(headers.find((h) => /amount|value|debit/i.test(h)) ?? headers[1] ?? '');
+    setDescriptionColumn(headers.find((h) => /desc|memo|merchant|payee/i.test(h)) ?? '');
+    setCategoryColumn(headers.find((h) => /categ/i.test(h)) ?? '');
+  }
+
+  async function submit(mode: 'preview' | 'commit') {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/expenses/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csv,
+          dateColumn,
+          amountColumn,
+          descriptionColumn: descriptionColumn || undefined,
+          categoryColumn: categoryColumn || undefined,
+          currency,
+          accountId: accountId ? Number(accountId) : null,
+          mode,
+        }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | (ParsedExpenseCsv & { imported?: number; error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to import expenses'
+        );
+      }
+
+      if (mode === 'preview') {
+        setPreview(body);
+        setImported(null);
+      } else {
+        setImported(body?.imported ?? 0);
+        setPreview(null);
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import expenses');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const columnSelects = [
+    ['expense-date-column', 'Date Column', dateColumn, setDateColumn, false],
+    ['expense-amount-column', 'Amount Column', amountColumn, setAmountColumn, false],
+    ['expense-description-column', 'Description Column', descriptionColumn, setDescriptionColumn, true],
+    ['expense-category-column', 'Category Column', categoryColumn, setCategoryColumn, true],
+  ] as const;
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">Import Spending</h2>
+      <p className="text-sm text-gray-500">
+        Load {currency} spending from a bank or card export. Amounts are read in {currency} and their sign is
+        ignored, so remove any incoming payments from the file first.
+      </p>
+
+      <div className="flex flex-col gap-1">
+        <label htmlFor="expense-import-file" className="text-xs text-gray-500">CSV File</label>
+        <input
+          id="expense-import-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="text-sm text-gray-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border file:border-gray-700 file:bg-gray-800 file:text-gray-200 file:text-sm"
+        />
+      </div>
+
+      {fileName && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          {columnSelects.map(([id, label, value, setValue, optional]) => (
+            <div key={id} className="flex flex-col gap-1">
+              <label htmlFor={id} className="text-xs text-gray-500">{label}</label>
+              <select id={id} value={value} onChange={(e) => setValue(e.target.value)} className={selectClass}>
+                {optional && <option value="">None</option>}
+                {columns.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="flex flex-col gap-1">
+            <label htmlFor="expense-import-account" className="text-xs text-gray-500">Paid From</label>
+            <select
+              id="expense-import-account"
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">No account</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {fileName && (
+        <button
+          type="button"
+          onClick={() => submit('preview')}
+          disabled={busy || !dateColumn || !amountColumn}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Reading...' : 'Preview Import'}
+        </button>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-400">
+            {preview.rows.length} expenses totalling {formatMoney(preview.total, currency)}
+            {preview.errors.length > 0 && `, ${preview.errors.length} unreadable`}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5 max-h-24 overflow-y-auto">
+              {preview.errors.slice(0, PREVIEW_LIMIT).map((e) => (
+                <li key={e.line}>Line {e.line}: {e.message}</li>
+              ))}
+            </ul>
+          )}
+
+          {preview.rows.length > 0 && (
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="text-left py-2">Date</th>
+                    <th className="text-left py-2">Description</th>
+                    <th className="text-left py-2">Category</th>
+                    <th className="text-right py-2">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800/50">
+                  {preview.rows.slice(0, PREVIEW_LIMIT).map((r) => (
+                    <tr key={r.line}>
+                      <td className="py-1.5 font-mono text-gray-300">{r.date}</td>
+                      <td className="py-1.5 text-gray-400">{r.description ?? '-'}</td>
+                      <td className="py-1.5 text-gray-500">{r.category ?? '-'}</td>
+                      <td className="py-1.5 text-right font-mono text-gray-200">{formatMoney(r.amount, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-1">and {preview.rows.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={() => submit('commit')}
+            disabled={busy || preview.rows.length === 0}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+          >
+            {busy ? 'Importing...' : 'Import Spending'}
+          </button>
+        </div>
+      )}
+
+      {imported !== null && (
+        <p className="text-sm text-emerald-400">Imported {imported} expenses.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,380 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Papa from 'papaparse';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { BacktestResult, BacktestRun, BacktestStrategy, PairConfig } from '@/types';
+import { formatMoney, formatRate, fromMinorUnits, parsePairKey, toMinorUnits } from '@/lib/finance/currency';
+import { FieldInput } from '@/components/ui/FieldInput';
+import { SkeletonCard } from '@/components/ui/SkeletonCard';
+
+const PERIODS = [
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+  { days: 1825, label: '5 years' },
+];
+
+const STRATEGY_COLORS: Record<BacktestStrategy, string> = {
+  thermostat: '#34d399',
+  lumpSum: '#f59e0b',
+  dca: '#60a5fa',
+};
+
+const STRATEGIES: BacktestStrategy[] = ['thermostat', 'lumpSum', 'dca'];
+
+type Source = 'history' | 'csv';
+
+export default function BacktestPanel() {
+  const [source, setSource] = useState<Source>('history');
+  const [days, setDays] = useState(365);
+  const [budget, setBudget] = useState('');
+  const [pairs, setPairs] = useState<PairConfig[]>([]);
+  const [pairKey, setPairKey] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [dateColumn, setDateColumn] = useState('');
+  const [rateColumn, setRateColumn] = useState('');
+  const [inverted, setInverted] = useState(false);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedPair = pairs.find((p) => p.key === pairKey) ?? pairs[0];
+  const base = (source === 'csv' ? selectedPair?.pair.base : pairs[0]?.pair.base) ?? 'GBP';
+
+  const load = useCallback(async (url: string, init?: RequestInit) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch(url, init);
+      const body = (await res.json().catch(() => null)) as
+        | (BacktestResult & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok || !body) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to run backtest'
+        );
+      }
+      setResult(body);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to run backtest');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/pairs')
+      .then(async (res) => {
+        if (res.ok) setPairs((await res.json()) as PairConfig[]);
+      })
+      .catch(() => {
+        // the primary pair is still backtested from stored history
+      });
+    load('/api/backtest');
+  }, [load]);
+
+  function run() {
+    const budgetMinor = budget ? toMinorUnits(Number(budget), base) : undefined;
+
+    if (source === 'history') {
+      load(`/api/backtest?days=${days}${budgetMinor ? `&budget=${budgetMinor}` : ''}`);
+      return;
+    }
+    load('/api/backtest', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ csv, dateColumn, rateColumn, inverted, pair: selectedPair?.key, budget: budgetMinor }),
+    });
+  }
+
+  async function handleFile(file: File | undefined) {
+    setError(null);
+    if (!file) return;
+
+    const text = await file.text();
+    const headers = Papa.parse<string[]>(text, { preview: 1 }).data[0]?.map((h) => h.trim()) ?? [];
+
+    setFileName(file.name);
+    setCsv(text);
+    setColumns(headers);
+    setDateColumn(headers.find((h) => /date/i.test(h)) ?? headers[0] ?? '');
+    setRateColumn(headers.find((h) => !/date/i.test(h)) ?? headers[1] ?? '');
+  }
+
+  const selectClass =
+    'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors';
+
+  const resultPair = result ? parsePairKey(result.pair) : null;
+  const baseCode = resultPair?.base ?? base;
+  const quoteCode = resultPair?.quote ?? 'JPY';
+  const chartData = result?.equity.map((p) => ({
+    date: p.date,
+    thermostat: fromMinorUnits(p.thermostat, baseCode),
+    lumpSum: fromMinorUnits(p.lumpSum, baseCode),
+    dca: fromMinorUnits(p.dca, baseCode),
+  }));
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Backtest</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Replays your bands, caps and exposure limit day by day over past rates, next to converting
+          the whole budget on the first day and an equal share each month.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="backtest-source" className="text-xs text-gray-500">Rates</label>
+          <select
+            id="backtest-source"
+            value={source}
+            onChange={(e) => setSource(e.target.value as Source)}
+            className={selectClass}
+          >
+            <option value="history">Stored history</option>
+            <option value="csv">CSV file</option>
+          </select>
+        </div>
+        {source === 'history' ? (
+          <div className="flex flex-col gap-1">
+            <label htmlFor="backtest-period" className="text-xs text-gray-500">Period</label>
+            <select
+              id="backtest-period"
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className={selectClass}
+            >
+              {PERIODS.map((p) => (
+                <option key={p.days} value={p.days}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <label htmlFor="backtest-pair" className="text-xs text-gray-500">Pair</label>
+            <select
+              id="backtest-pair"
+              value={selectedPair?.key ?? ''}
+              onChange={(e) => setPairKey(e.target.value)}
+              className={selectClass}
+            >
+              {pairs.map((p) => (
+                <option key={p.key} value={p.key}>{p.key}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <FieldInput
+          id="backtest-budget"
+          label={`Budget (${base})`}
+          type="number"
+          min="0"
+          value={budget}
+          onChange={setBudget}
+          hint="Blank uses your exposure limit"
+        />
+        <button
+          type="button"
+          onClick={run}
+          disabled={busy || (source === 'csv' && (!csv || !dateColumn || !rateColumn))}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Running...' : 'Run Backtest'}
+        </button>
+      </div>
+
+      {source === 'csv' && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          <div className="flex flex-col gap-1">
+            <label htmlFor="backtest-file" className="text-xs text-gray-500">CSV File</label>
+            <input
+              id="backtest-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="text-sm text-gray-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border file:border-gray-700 file:bg-gray-800 file:text-gray-200 file:text-sm"
+            />
+          </div>
+          {fileName && (
+            <>
+              {([
+                ['backtest-date-column', 'Date Column', dateColumn, setDateColumn],
+                ['backtest-rate-column', 'Rate Column', rateColumn, setRateColumn],
+              ] as const).map(([id, label, value, setValue]) => (
+                <div key={id} className="flex flex-col gap-1">
+                  <label htmlFor={id} className="text-xs text-gray-500">{label}</label>
+                  <select id={id} value={value} onChange={(e) => setValue(e.target.value)} className={selectClass}>
+                    {columns.map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <label className="flex items-center gap-2 text-sm text-gray-400 py-2">
+                <input type="checkbox" checked={inverted} onChange={(e) => setInverted(e.target.checked)} />
+                Rates are quoted inverted
+              </label>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!result && busy && <SkeletonCard className="h-48" />}
+
+      {result && chartData && (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.pair} from {result.from} to {result.to} ({result.days} rates), budget{' '}
+            {formatMoney(result.budget, baseCode)}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {STRATEGIES.map((s) => (
+              <RunCard key={s} run={result[s]} baseCode={baseCode} quoteCode={quoteCode} />
+            ))}
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <XAxis
+                  dataKey="date"
+                  stroke="#4b5563"
+                  tick={{ fill: '#6b7280', fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={{ stroke: '#374151' }}
+                  minTickGap={40}
+                />
+                <YAxis
+                  stroke="#4b5563"
+                  tick={{ fill: '#6b7280', fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={{ stroke: '#374151' }}
+                  domain={['auto', 'auto']}
+                  tickFormatter={(v: number) => v.toLocaleString('en-GB', { maximumFractionDigits: 0 })}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#111827',
+                    border: '1px solid #374151',
+                    borderRadius: '0.75rem',
+                    color: '#e5e7eb',
+                    fontSize: '0.875rem',
+                  }}
+                  labelStyle={{ color: '#9ca3af' }}
+                  formatter={(value: number | undefined, name) => [
+                    formatMoney(toMinorUnits(value ?? 0, baseCode), baseCode),
+                    String(name),
+                  ]}
+                />
+                {STRATEGIES.map((s) => (
+                  <Line
+                    key={s}
+                    dataKey={s}
+                    name={result[s].label}
+                    stroke={STRATEGY_COLORS[s]}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <MonthlyLog result={result} baseCode={baseCode} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function RunCard({ run, baseCode, quoteCode }: { run: BacktestRun; baseCode: string; quoteCode: string }) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 space-y-1">
+      <div className="text-xs font-semibold" style={{ color: STRATEGY_COLORS[run.strategy] }}>
+        {run.label}
+      </div>
+      <div className="text-xl font-mono font-bold text-gray-100">{formatMoney(run.quoteAcquired, quoteCode)}</div>
+      <div className="text-xs text-gray-500">
+        {formatMoney(run.baseDeployed, baseCode)} converted at{' '}
+        <span className="font-mono text-gray-300">{run.avgRate > 0 ? formatRate(run.avgRate) : '-'}</span> average
+      </div>
+      <div className="text-xs text-gray-500">
+        Max drawdown{' '}
+        <span className="font-mono text-red-400">
+          {formatMoney(run.maxDrawdown, baseCode)} ({run.maxDrawdownPct.toFixed(1)}%)
+        </span>
+      </div>
+      <div className="text-xs text-gray-500">
+        Ends worth <span className="font-mono text-gray-300">{formatMoney(run.finalValue, baseCode)}</span>
+      </div>
+    </div>
+  );
+}
+
+function MonthlyLog({ result, baseCode }: { result: BacktestResult; baseCode: string }) {
+  const months = result.thermostat.months.map((m, i) => ({
+    thermostat: m,
+    lumpSum: result.lumpSum.months[i],
+    dca: result.dca.months[i],
+  }));
+
+  return (
+    <div className="overflow-x-auto">
+      <h3 className="text-sm font-medium text-gray-400 mb-3">Monthly trade log</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500 border-b border-gray-800">
+            <th className="text-left py-2 font-medium">Month</th>
+            <th className="text-right py-2 font-medium">Close</th>
+            <th className="text-right py-2 font-medium">Thermostat</th>
+            <th className="text-right py-2 font-medium">Avg rate</th>
+            <th className="text-right py-2 font-medium">Lump sum</th>
+            <th className="text-right py-2 font-medium">DCA</th>
+            <th className="text-right py-2 font-medium">DCA rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {months.map(({ thermostat, lumpSum, dca }) => (
+            <tr key={thermostat.month} className="border-b border-gray-800/50 hover:bg-gray-800/30">
+              <td className="py-2 font-mono text-gray-300">{thermostat.month}</td>
+              <td className="py-2 text-right font-mono text-gray-400">{formatRate(thermostat.closeRate)}</td>
+              <td className="py-2 text-right font-mono text-gray-200">
+                {thermostat.trades > 0 ? formatMoney(thermostat.baseAmount, baseCode) : '-'}
+              </td>
+              <td className="py-2 text-right font-mono text-gray-400">
+                {thermostat.avgRate !== null ? formatRate(thermostat.avgRate) : '-'}
+              </td>
+              <td className="py-2 text-right font-mono text-gray-400">
+                {lumpSum?.trades ? formatMoney(lumpSum.baseAmount, baseCode) : '-'}
+              </td>
+              <td className="py-2 text-right font-mono text-gray-400">
+                {dca?.trades ? formatMoney(dca.baseAmount, baseCode) : '-'}
+              </td>
+              <td className="py-2 text-right font-mono text-gray-400">
+                {dca?.avgRate != null ? formatRate(dca.avgRate) : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import type { BandColor, BandDirection, BandTier, CurrencyCode } from '@/types';
+import { CURRENCIES, fromMinorUnits, toMinorUnits } from '@/lib/finance/currency';
+import { BAND_COLORS, BAND_DIRECTIONS, getBandBadgeClasses, sortLadder } from '@/lib/strategy/bands';
+
+// Strings for controlled inputs; caps in major units of the base currency
+export interface TierRow {
+  key?: string;
+  label: string;
+  floor: string;
+  color: BandColor;
+  monthlyCap: string;
+  direction: BandDirection;
+}
+
+const DIRECTION_LABELS: Record<BandDirection, string> = {
+  BUY: 'Buy',
+  HOLD: 'Hold',
+  REVERSE: 'Reverse',
+};
+
+export function toTierRow(tier: BandTier, currency: CurrencyCode): TierRow {
+  return {
+    key: tier.key,
+    label: tier.label,
+    floor: tier.floor.toString(),
+    color: tier.color,
+    monthlyCap: fromMinorUnits(tier.monthlyCap, currency).toString(),
+    direction: tier.direction,
+  };
+}
+
+export function toTierInput(row: TierRow, currency: CurrencyCode): Omit<BandTier, 'key'> & { key?: string } {
+  return {
+    key: row.key,
+    label: row.label.trim(),
+    floor: parseFloat(row.floor) || 0,
+    color: row.color,
+    monthlyCap: row.direction === 'BUY' ? toMinorUnits(parseFloat(row.monthlyCap) || 0, currency) : 0,
+    direction: row.direction,
+  };
+}
+
+/** Rows of a band ladder with a zone preview; the caller loads and saves them. */
+export function BandLadderEditor({
+  rows,
+  currency,
+  onChange,
+}: {
+  rows: TierRow[];
+  currency: CurrencyCode;
+  onChange: (rows: TierRow[]) => void;
+}) {
+  function update(index: number, field: keyof TierRow, value: string) {
+    onChange(rows.map((r, i) => (i === index ? { ...r, [field]: value } : r)));
+  }
+
+  function addTier() {
+    onChange([...rows, { label: '', floor: '', color: 'gray', monthlyCap: '0', direction: 'HOLD' }]);
+  }
+
+  function removeTier(index: number) {
+    onChange(rows.filter((_, i) => i !== index));
+  }
+
+  const inputClass =
+    'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors';
+
+  // Lowest tier on the left, as on a number line
+  const zones = sortLadder(rows.map((r, i) => ({ ...toTierInput(r, currency), key: r.key ?? `new-${i}` }))).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+              <th className="text-left py-2 pr-2">Label</th>
+              <th className="text-left py-2 pr-2">Floor</th>
+              <th className="text-left py-2 pr-2">Direction</th>
+              <th className="text-left py-2 pr-2">Colour</th>
+              <th className="text-left py-2 pr-2">Monthly Cap ({CURRENCIES[currency].symbol})</th>
+              <th className="text-right py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800/50">
+            {rows.map((row, i) => (
+              <tr key={row.key ?? `new-${i}`}>
+                <td className="py-2 pr-2">
+                  <input aria-label="Tier label" value={row.label} onChange={(e) => update(i, 'label', e.target.value)} className={inputClass} />
+                </td>
+                <td className="py-2 pr-2">
+                  <input aria-label="Tier floor" type="number" step="0.01" min="0" value={row.floor} onChange={(e) => update(i, 'floor', e.target.value)} className={inputClass} />
+                </td>
+                <td className="py-2 pr-2">
+                  <select aria-label="Tier direction" value={row.direction} onChange={(e) => update(i, 'direction', e.target.value)} className={inputClass}>
+                    {BAND_DIRECTIONS.map((d) => (
+                      <option key={d} value={d}>{DIRECTION_LABELS[d]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 pr-2">
+                  <select aria-label="Tier colour" value={row.color} onChange={(e) => update(i, 'color', e.target.value)} className={inputClass}>
+                    {BAND_COLORS.map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    aria-label="Tier monthly cap"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={row.direction === 'BUY' ? row.monthlyCap : ''}
+                    disabled={row.direction !== 'BUY'}
+                    onChange={(e) => update(i, 'monthlyCap', e.target.value)}
+                    className={`${inputClass} disabled:text-gray-600`}
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeTier(i)}
+                    disabled={rows.length <= 2}
+                    className="px-2 py-1 text-red-400 hover:text-red-300 disabled:text-gray-600 rounded text-xs font-medium transition-colors"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {zones.length > 0 && (
+        <div>
+          <div className="text-xs text-gray-500 mb-2">Band Zones</div>
+          <div className="flex items-center h-8 rounded-lg overflow-hidden text-xs font-medium">
+            {zones.map((tier, i) => (
+              <div key={tier.key} className="contents">
+                {i > 0 && (
+                  <div className="flex-shrink-0 bg-gray-700 text-gray-300 px-2 py-1 text-xs font-mono">
+                    {tier.floor.toFixed(1)}
+                  </div>
+                )}
+                <div className={`flex-1 h-full flex items-center justify-center px-2 truncate ${getBandBadgeClasses(tier.key, [tier])}`}>
+                  {tier.label.toUpperCase() || '\u2014'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={addTier}
+        disabled={rows.length >= 12}
+        className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+      >
+        Add Tier
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { BandTier, CurrencyPair } from '@/types';
+import { isPrimaryPair, pairKey, PRIMARY_PAIR } from '@/lib/finance/currency';
+import { BandLadderEditor, toTierInput, toTierRow, type TierRow } from '@/components/strategy/BandLadderEditor';
+
+export default function BandLadderPanel({
+  pair = PRIMARY_PAIR,
+  onSaved,
+}: {
+  pair?: CurrencyPair;
+  onSaved?: () => void;
+}) {
+  const [rows, setRows] = useState<TierRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const key = pairKey(pair);
+  const url = `/api/bands?pair=${encodeURIComponent(key)}`;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error('Failed to load band ladder');
+      setRows(((await res.json()) as BandTier[]).map((t) => toTierRow(t, pair.base)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load band ladder');
+    }
+  }, [url, pair.base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function handleChange(next: TierRow[]) {
+    setSaved(false);
+    setRows(next);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tiers: rows.map((r) => toTierInput(r, pair.base)) }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | (BandTier[] & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok || !body) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to save band ladder'
+        );
+      }
+      setRows(body.map((t) => toTierRow(t, pair.base)));
+      setSaved(true);
+      onSaved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save band ladder');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">{isPrimaryPair(pair) ? 'Band Ladder' : `${key} Band Ladder`}</h2>
+      <p className="text-sm text-gray-500">
+        {key} tiers, each covering rates from its floor up to the next tier. Buy tiers convert up
+        to their monthly cap; hold tiers wait; reverse tiers suggest converting back. Rates below
+        the lowest floor fall in the lowest tier.
+      </p>
+
+      <BandLadderEditor rows={rows} currency={pair.base} onChange={handleChange} />
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {saved && <p className="text-sm text-emerald-400">Band ladder saved.</p>}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Ladder'}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { RecalibrationResult, Settings, ThresholdEvaluation } from '@/types';
+import { formatMoney, formatRate } from '@/lib/finance/currency';
+import { FieldInput } from '@/components/ui/FieldInput';
+
+export default function RecalibrationPanel({ onAccepted }: { onAccepted: (settings: Settings) => void }) {
+  // One per tier above the lowest, filled in from the first proposal
+  const [percentiles, setPercentiles] = useState<string[]>([]);
+  const [result, setResult] = useState<RecalibrationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (query: string) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/recalibration?${query}`);
+      const body = (await res.json().catch(() => null)) as
+        | (RecalibrationResult & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok || !body) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to propose thresholds'
+        );
+      }
+      setResult(body);
+      setPercentiles(body.percentiles.map(String));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to propose thresholds');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load('');
+  }, [load]);
+
+  async function accept(evaluation: ThresholdEvaluation) {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/recalibration', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          floors: Object.fromEntries(evaluation.ladder.map((t) => [t.key, t.floor])),
+        }),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | (Settings & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok || !body) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to update tier floors'
+        );
+      }
+      onAccepted(body);
+      await load(query());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tier floors');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function query(): string {
+    return percentiles.length > 0 ? new URLSearchParams({ percentiles: percentiles.join(',') }).toString() : '';
+  }
+
+  // Tiers in the same order in both evaluations: highest floor first
+  const tiers = result?.current.ladder ?? [];
+
+  const rows: [string, (e: ThresholdEvaluation) => string][] = result
+    ? [
+        ...tiers.slice(0, -1).map((tier, i): [string, (e: ThresholdEvaluation) => string] => [
+          `${tier.label} from`,
+          (e) => formatRate(e.ladder[i].floor),
+        ]),
+        ...tiers.map((tier): [string, (e: ThresholdEvaluation) => string] => [
+          `Days in ${tier.label}`,
+          (e) => `${e.bandDays[tier.key] ?? 0} (${(((e.bandDays[tier.key] ?? 0) / result.days) * 100).toFixed(0)}%)`,
+        ]),
+        ['Backtest converted', (e) => formatMoney(e.baseDeployed, 'GBP')],
+        ['Backtest received', (e) => formatMoney(e.quoteAcquired, 'JPY')],
+        ['Average rate', (e) => (e.avgRate > 0 ? formatRate(e.avgRate) : '-')],
+        ['Conversions', (e) => String(e.trades)],
+      ]
+    : [];
+
+  const unchanged =
+    result !== null &&
+    result.proposed.ladder.every((t, i) => t.floor === result.current.ladder[i]?.floor);
+
+  return (
+    <section className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-4">
+      <h2 className="text-lg font-semibold">Recalibrate Bands</h2>
+      <p className="text-sm text-gray-500">
+        Proposes a floor for each tier from where past rates sat: with the default four tiers,
+        aggressive in the top 20%, normal in the top half and reverse in the bottom 20%. Compare the
+        days each ladder would have spent in each tier and what the thermostat would have converted,
+        then accept to save the floors and mark the bands as reviewed today.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+        {tiers.slice(0, -1).map((tier, i) => (
+          <FieldInput
+            key={tier.key}
+            id={`recalibrate-${tier.key.toLowerCase()}`}
+            label={`${tier.label} Percentile`}
+            type="number"
+            min="1"
+            max="99"
+            value={percentiles[i] ?? ''}
+            onChange={(v) => setPercentiles((current) => current.map((p, j) => (j === i ? v : p)))}
+          />
+        ))}
+        <button
+          type="button"
+          onClick={() => load(query())}
+          disabled={busy}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Working...' : 'Propose'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {result && (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.days} rates from {result.from} to {result.to}. Last reviewed{' '}
+            {result.lastReview ?? 'never'}.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-800">
+                  <th className="text-left py-2 font-medium" />
+                  <th className="text-right py-2 font-medium">Current</th>
+                  <th className="text-right py-2 font-medium">Proposed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(([label, value]) => (
+                  <tr key={label} className="border-b border-gray-800/50">
+                    <td className="py-2 text-gray-400">{label}</td>
+                    <td className="py-2 text-right font-mono text-gray-300">{value(result.current)}</td>
+                    <td className="py-2 text-right font-mono text-gray-100">{value(result.proposed)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => accept(result.current)}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 border border-gray-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              Keep Current
+            </button>
+            <button
+              type="button"
+              onClick={() => accept(result.proposed)}
+              disabled={busy || unchanged}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+            >
+              Accept Proposal
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
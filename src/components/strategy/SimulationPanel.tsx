@@ -0,0 +1,267 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { PercentileBand, SimulationMode, SimulationPoint, SimulationResult } from '@/types';
+import { formatMoney, formatRate, fromMinorUnits, parsePairKey, toMinorUnits } from '@/lib/finance/currency';
+import { FieldInput } from '@/components/ui/FieldInput';
+import { SkeletonCard } from '@/components/ui/SkeletonCard';
+
+const HORIZONS = [
+  { days: 63, label: '3 months' },
+  { days: 126, label: '6 months' },
+  { days: 252, label: '1 year' },
+  { days: 504, label: '2 years' },
+];
+
+type Metric = 'rate' | 'savingsQuote' | 'holdingsBase';
+
+export default function SimulationPanel() {
+  const [mode, setMode] = useState<SimulationMode>('gbm');
+  const [horizonDays, setHorizonDays] = useState(252);
+  const [seed, setSeed] = useState('1');
+  const [metric, setMetric] = useState<Metric>('rate');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (query: string) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/simulation?${query}`);
+      const body = (await res.json().catch(() => null)) as
+        | (SimulationResult & { error?: string; errors?: { message: string }[] })
+        | null;
+
+      if (!res.ok || !body) {
+        throw new Error(
+          body?.error ?? body?.errors?.map((e) => e.message).join(', ') ?? 'Failed to run simulation'
+        );
+      }
+      setResult(body);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to run simulation');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load('mode=gbm&horizonDays=252&seed=1');
+  }, [load]);
+
+  function run() {
+    const params = new URLSearchParams({ mode, horizonDays: String(horizonDays) });
+    if (seed) params.set('seed', seed);
+    load(params.toString());
+  }
+
+  const selectClass =
+    'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors';
+
+  const pair = result ? parsePairKey(result.pair) : null;
+  const base = pair?.base ?? 'GBP';
+  const quote = pair?.quote ?? 'JPY';
+
+  // The chart plots major units
+  const metricCode = metric === 'savingsQuote' ? quote : metric === 'holdingsBase' ? base : null;
+  const toMajor = (v: number) => (metricCode ? fromMinorUnits(v, metricCode) : v);
+  const formatMajor = (v: number) => (metricCode ? formatMoney(toMinorUnits(v, metricCode), metricCode) : formatRate(v));
+  const chartData = result?.points.map((p: SimulationPoint) => {
+    const b = p[metric];
+    return {
+      date: p.date,
+      outer: [toMajor(b.p5), toMajor(b.p95)],
+      inner: [toMajor(b.p25), toMajor(b.p75)],
+      median: toMajor(b.p50),
+    };
+  });
+  const last = result?.points[result.points.length - 1];
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Simulated Outcomes</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Thousands of possible rate paths fitted to past volatility, either as a random walk
+          (geometric Brownian motion) or by replaying past daily moves in random order. The bands
+          show the middle 50% and 90% of outcomes.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="simulation-mode" className="text-xs text-gray-500">Model</label>
+          <select
+            id="simulation-mode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SimulationMode)}
+            className={selectClass}
+          >
+            <option value="gbm">Random walk</option>
+            <option value="bootstrap">Past moves</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="simulation-horizon" className="text-xs text-gray-500">Horizon</label>
+          <select
+            id="simulation-horizon"
+            value={horizonDays}
+            onChange={(e) => setHorizonDays(Number(e.target.value))}
+            className={selectClass}
+          >
+            {HORIZONS.map((h) => (
+              <option key={h.days} value={h.days}>{h.label}</option>
+            ))}
+          </select>
+        </div>
+        <FieldInput id="simulation-seed" label="Seed" type="number" min="0" value={seed} onChange={setSeed} />
+        <div className="flex flex-col gap-1">
+          <label htmlFor="simulation-metric" className="text-xs text-gray-500">Show</label>
+          <select
+            id="simulation-metric"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as Metric)}
+            className={selectClass}
+          >
+            <option value="rate">Rate</option>
+            <option value="savingsQuote">Remaining savings in {quote}</option>
+            <option value="holdingsBase">Holdings in {base}</option>
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={run}
+          disabled={busy}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-gray-500 rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Simulating...' : 'Simulate'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!result && busy && <SkeletonCard className="h-48" />}
+
+      {result && last && chartData && (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.paths.toLocaleString('en-GB')} paths from {formatRate(result.startRate)}, fitted to{' '}
+            {result.returns} daily returns with {result.volatility.toFixed(1)}% annual volatility
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <BandCard title={`Rate on ${last.date}`} band={last.rate} format={formatRate} />
+            <BandCard
+              title={`Remaining ${formatMoney(result.remainingBase, base)} in ${quote}`}
+              band={last.savingsQuote}
+              format={(v) => formatMoney(v, quote)}
+            />
+            <BandCard
+              title={`${formatMoney(result.heldQuote, quote)} held, in ${base}`}
+              band={last.holdingsBase}
+              format={(v) => formatMoney(v, base)}
+            />
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <XAxis
+                  dataKey="date"
+                  stroke="#4b5563"
+                  tick={{ fill: '#6b7280', fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={{ stroke: '#374151' }}
+                  minTickGap={40}
+                />
+                <YAxis
+                  stroke="#4b5563"
+                  tick={{ fill: '#6b7280', fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={{ stroke: '#374151' }}
+                  domain={['auto', 'auto']}
+                  tickFormatter={(v: number) => v.toLocaleString('en-GB', { maximumFractionDigits: metricCode ? 0 : 2 })}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#111827',
+                    border: '1px solid #374151',
+                    borderRadius: '0.75rem',
+                    color: '#e5e7eb',
+                    fontSize: '0.875rem',
+                  }}
+                  labelStyle={{ color: '#9ca3af' }}
+                  formatter={(value, name) => [
+                    Array.isArray(value)
+                      ? value.map((v) => formatMajor(Number(v))).join(' \u2013 ')
+                      : formatMajor(Number(value)),
+                    String(name),
+                  ]}
+                />
+                <Area
+                  dataKey="outer"
+                  name={'5th\u201395th'}
+                  stroke="none"
+                  fill="#34d399"
+                  fillOpacity={0.12}
+                  isAnimationActive={false}
+                />
+                <Area
+                  dataKey="inner"
+                  name={'25th\u201375th'}
+                  stroke="none"
+                  fill="#34d399"
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="median"
+                  name="Median"
+                  stroke="#34d399"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function BandCard({
+  title,
+  band,
+  format,
+}: {
+  title: string;
+  band: PercentileBand;
+  format: (v: number) => string;
+}) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4">
+      <div className="text-xs text-gray-500 mb-1">{title}</div>
+      <div className="text-xl font-mono font-bold text-gray-100">{format(band.p50)}</div>
+      <div className="text-xs font-mono text-gray-500">
+        50%: {format(band.p25)} {'\u2013'} {format(band.p75)}
+      </div>
+      <div className="text-xs font-mono text-gray-500">
+        90%: {format(band.p5)} {'\u2013'} {format(band.p95)}
+      </div>
+    </div>
+  );
+}
@@ -25,6 +25,15 @@ export function Toast({ toast }: { toast: ToastType }) {
       }`}
     >
       {toast.message}
+      {toast.action && (
+        <button
+          type="button"
+          onClick={toast.action.onClick}
+          className="ml-3 underline underline-offset-2 hover:opacity-80"
+        >
+          {toast.action.label}
+        </button>
+      )}
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react';
 export interface Toast {
   type: 'success' | 'error';
   message: string;
+  action?: { label: string; onClick: () => void };   // e.g. Undo
 }
 
 export function useToast(duration = 4000) {
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { calculatePortfolioSummary } from '@/lib/finance/pnl';
+import { getExpenses } from '@/lib/spending/expenses';
+import { totalSpent } from '@/lib/spending/ledger';
+import { conversions, expenses } from '@/lib/db/schema';
+import {
+  createAccount,
+  createTransfer,
+  deleteTransfer,
+  getAccountBalances,
+  getHoldings,
+  updateAccount,
+  validateConversionAccounts,
+  validateTransfer,
+} from '@/lib/accounts/accounts';
+import { toConversionValues } from '@/lib/conversions/revisions';
+
+function seed() {
+  const db = createTestDb();
+  const wiseGbp = createAccount(db, { name: 'Wise GBP', currency: 'GBP', kind: 'WISE', opening_balance: 500000 });
+  const wiseJpy = createAccount(db, { name: 'Wise JPY', currency: 'JPY', kind: 'WISE', opening_balance: 0 });
+  const bank = createAccount(db, { name: 'MUFG', currency: 'JPY', kind: 'BANK', opening_balance: 0 });
+  return { db, wiseGbp, wiseJpy, bank };
+}
+
+describe('validateConversionAccounts', () => {
+  it('requires each account to hold the currency on its side', () => {
+    const { db, wiseGbp, wiseJpy } = seed();
+    const values = {
+      source_currency: 'GBP',
+      target_currency: 'JPY',
+      source_account_id: wiseGbp.id,
+      target_account_id: wiseJpy.id,
+    };
+
+    expect(validateConversionAccounts(db, values)).toBeNull();
+    expect(validateConversionAccounts(db, { ...values, source_account_id: null, target_account_id: null })).toBeNull();
+    expect(validateConversionAccounts(db, { ...values, target_account_id: wiseGbp.id })).toBe(
+      'Target account Wise GBP holds GBP, not JPY'
+    );
+    expect(validateConversionAccounts(db, { ...values, source_account_id: 99 })).toBe('Source account not found');
+  });
+});
+
+describe('transfers', () => {
+  it('moves money between accounts in one currency', () => {
+    const { db, wiseGbp, wiseJpy, bank } = seed();
+    db.insert(conversions)
+      .values({
+        ...toConversionValues({
+          date: '2024-01-10',
+          sourceCurrency: 'GBP',
+          targetCurrency: 'JPY',
+          sourceAmount: 100000,
+          targetAmount: 190000,
+          rate: 190,
+        }),
+        source_account_id: wiseGbp.id,
+        target_account_id: wiseJpy.id,
+      })
+      .run();
+
+    const transfer = {
+      date: '2024-01-15',
+      from_account_id: wiseJpy.id,
+      to_account_id: bank.id,
+      amount: 100000,
+      fee: 500,
+      notes: null,
+    };
+    expect(validateTransfer(db, transfer)).toBeNull();
+    expect(validateTransfer(db, { ...transfer, to_account_id: wiseGbp.id })).toMatch(/one currency/);
+
+    const created = createTransfer(db, transfer);
+    const balances = () => Object.fromEntries(getAccountBalances(db).map((b) => [b.account.name, b.balance]));
+    expect(balances()).toEqual({ 'Wise GBP': 400000, 'Wise JPY': 89500, MUFG: 100000 });
+
+    expect(deleteTransfer(db, created.id)?.id).toBe(created.id);
+    expect(deleteTransfer(db, created.id)).toBeNull();
+    expect(balances()['Wise JPY']).toBe(190000);
+  });
+
+  it('keeps archived accounts in the balances', () => {
+    const { db, wiseGbp } = seed();
+    expect(updateAccount(db, wiseGbp.id, { archived: 1 })?.archived).toBe(1);
+    expect(updateAccount(db, 99, { archived: 1 })).toBeNull();
+    expect(getAccountBalances(db).find((b) => b.account.id === wiseGbp.id)?.balance).toBe(500000);
+  });
+});
+
+describe('getHoldings', () => {
+  it('is null until an account or expense is recorded', () => {
+    expect(getHoldings(createTestDb(), PRIMARY_PAIR, 200)).toBeNull();
+  });
+
+  it('values the accounts and keeps opening balances out of the quote bought', () => {
+    const { db, wiseGbp, wiseJpy } = seed();
+    createAccount(db, { name: 'Cash', currency: 'JPY', kind: 'CASH', opening_balance: 20000 });
+    db.insert(conversions)
+      .values({
+        ...toConversionValues({
+          date: '2024-01-10',
+          sourceCurrency: 'GBP',
+          targetCurrency: 'JPY',
+          sourceAmount: 100000,
+          targetAmount: 190000,
+          rate: 190,
+        }),
+        source_account_id: wiseGbp.id,
+        target_account_id: wiseJpy.id,
+      })
+      .run();
+
+    expect(getHoldings(db, PRIMARY_PAIR, 200)).toMatchObject({
+      base: { total: 400000 },
+      quote: { total: 210000 },
+      convertedQuote: 190000,
+    });
+  });
+
+  it('takes transfer fees out of the yen held, unlike yen bought less yen spent', () => {
+    const { db, wiseGbp, wiseJpy, bank } = seed();
+    db.insert(conversions)
+      .values({
+        ...toConversionValues({
+          date: '2024-01-10',
+          sourceCurrency: 'GBP',
+          targetCurrency: 'JPY',
+          sourceAmount: 100000,
+          targetAmount: 190000,
+          rate: 190,
+        }),
+        source_account_id: wiseGbp.id,
+        target_account_id: wiseJpy.id,
+      })
+      .run();
+    createTransfer(db, { date: '2024-01-15', from_account_id: wiseJpy.id, to_account_id: bank.id, amount: 100000, fee: 500, notes: null });
+    db.insert(expenses).values({ date: '2024-01-20', currency: 'JPY', amount: 30000, account_id: bank.id }).run();
+
+    const portfolio = calculatePortfolioSummary(db.select().from(conversions).all(), 200);
+    expect(portfolio.totalQuoteAcquired - totalSpent(getExpenses(db), 'JPY')).toBe(160000);
+    expect(getHoldings(db, PRIMARY_PAIR, 200)?.quote.total).toBe(159500);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAccountBalances, calculateHoldings } from '@/lib/accounts/balances';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import type { AccountRecord, ConversionRecord, ExpenseRecord, TransferRecord } from '@/types';
+
+function mockAccount(overrides: Partial<AccountRecord>): AccountRecord {
+  return {
+    id: 1,
+    name: 'Wise JPY',
+    currency: 'JPY',
+    kind: 'WISE',
+    opening_balance: 0,
+    archived: 0,
+    created_at: '2024-01-01T00:00:00',
+    ...overrides,
+  };
+}
+
+function mockConversion(overrides: Partial<ConversionRecord>): ConversionRecord {
+  return {
+    id: 1,
+    date: '2024-01-10',
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: 100000,     // £1000
+    target_amount: 190000,     // ¥190,000
+    exchange_rate: 190,
+    spot_rate: null,
+    fee_pct: 0,
+    provider: 'WISE',
+    band_at_time: null,
+    notes: null,
+    source_account_id: null,
+    target_account_id: null,
+    created_at: '2024-01-10T00:00:00',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+function mockTransfer(overrides: Partial<TransferRecord>): TransferRecord {
+  return {
+    id: 1,
+    date: '2024-01-15',
+    from_account_id: 1,
+    to_account_id: 2,
+    amount: 50000,
+    fee: 0,
+    notes: null,
+    created_at: '2024-01-15T00:00:00',
+    ...overrides,
+  };
+}
+
+function mockExpense(overrides: Partial<ExpenseRecord>): ExpenseRecord {
+  return {
+    id: 1,
+    date: '2024-01-20',
+    currency: 'JPY',
+    amount: 30000,
+    account_id: null,
+    category: null,
+    description: null,
+    created_at: '2024-01-20T00:00:00',
+    ...overrides,
+  };
+}
+
+const ACCOUNTS = [
+  mockAccount({ id: 1, name: 'Wise JPY' }),
+  mockAccount({ id: 2, name: 'MUFG', kind: 'BANK' }),
+  mockAccount({ id: 3, name: 'Wise GBP', currency: 'GBP', opening_balance: 500000 }),
+];
+
+describe('calculateAccountBalances', () => {
+  it('adds conversions and transfers to the opening balance, charging fees to the sender', () => {
+    const balances = calculateAccountBalances(
+      ACCOUNTS,
+      [
+        mockConversion({ id: 1, source_account_id: 3, target_account_id: 1 }),
+        mockConversion({ id: 2, source_account_id: 3, target_account_id: 1, deleted_at: '2024-02-01 10:00:00' }),
+      ],
+      [mockTransfer({ amount: 50000, fee: 800 })]
+    );
+    const byId = Object.fromEntries(balances.map((b) => [b.account.id, b]));
+
+    expect(byId[1].balance).toBe(190000 - 50800);
+    expect(byId[1]).toMatchObject({ conversionsIn: 190000, transfersOut: 50800, fees: 800 });
+    expect(byId[2].balance).toBe(50000);
+    expect(byId[3].balance).toBe(400000);
+  });
+});
+
+describe('calculateHoldings', () => {
+  it('counts account balances plus quote bought outside any account', () => {
+    const conversions = [
+      mockConversion({ id: 1, source_account_id: 3, target_account_id: 1 }),
+      mockConversion({ id: 2 }),                                  // before accounts were set up
+      mockConversion({
+        id: 3,
+        source_currency: 'JPY',
+        target_currency: 'GBP',
+        source_amount: 40000,
+        target_amount: 20000,
+      }),
+    ];
+    const balances = calculateAccountBalances(ACCOUNTS, conversions, []);
+    const holdings = calculateHoldings(balances, conversions, PRIMARY_PAIR, 200);
+
+    expect(holdings.quote).toEqual({ currency: 'JPY', inAccounts: 190000, unassigned: 150000, total: 340000 });
+    // Pounds outside the accounts were never tracked
+    expect(holdings.base.total).toBe(400000);
+    expect(holdings.quoteValueBase).toBe(170000);
+    expect(holdings.totalValueBase).toBe(570000);
+  });
+});
+
+describe('spending', () => {
+  it('takes expenses out of the paying account, or out of unassigned yen', () => {
+    const conversions = [
+      mockConversion({ id: 1, source_account_id: 3, target_account_id: 1 }),
+      mockConversion({ id: 2 }),
+    ];
+    const expenses = [
+      mockExpense({ id: 1, account_id: 1, amount: 40000 }),
+      mockExpense({ id: 2, amount: 30000 }),
+    ];
+    const balances = calculateAccountBalances(ACCOUNTS, conversions, [], expenses);
+    const holdings = calculateHoldings(balances, conversions, PRIMARY_PAIR, 200, expenses);
+
+    expect(balances.find((b) => b.account.id === 1)).toMatchObject({ balance: 150000, spent: 40000 });
+    expect(holdings.quote).toEqual({ currency: 'JPY', inAccounts: 150000, unassigned: 160000, total: 310000 });
+  });
+});
+
+describe('opening balances', () => {
+  it('are held but leave the quote bought by conversions alone', () => {
+    const accounts = [mockAccount({ id: 1, opening_balance: 100000 }), ACCOUNTS[2]];
+    const conversions = [mockConversion({ id: 1, source_account_id: 3, target_account_id: 1 })];
+    const balances = calculateAccountBalances(accounts, conversions, []);
+    const holdings = calculateHoldings(balances, conversions, PRIMARY_PAIR, 200);
+
+    expect(holdings.quote.total).toBe(290000);
+    expect(holdings.convertedQuote).toBe(190000);
+    expect(holdings.quoteValueBase).toBe(145000);
+  });
+
+  it('are spent after the quote bought by conversions', () => {
+    const accounts = [mockAccount({ id: 1, opening_balance: 100000 }), ACCOUNTS[2]];
+    const conversions = [mockConversion({ id: 1, source_account_id: 3, target_account_id: 1 })];
+    const expenses = [mockExpense({ id: 1, account_id: 1, amount: 250000 })];
+    const balances = calculateAccountBalances(accounts, conversions, [], expenses);
+    const holdings = calculateHoldings(balances, conversions, PRIMARY_PAIR, 200, expenses);
+
+    expect(holdings.quote.total).toBe(40000);
+    expect(holdings.convertedQuote).toBe(0);
+  });
+});
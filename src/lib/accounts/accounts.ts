@@ -0,0 +1,127 @@
+import { asc, desc, eq, inArray } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { accounts, conversions, expenses, transfers } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { calculateAccountBalances, calculateHoldings } from '@/lib/accounts/balances';
+import type { PairHoldings } from '@/lib/accounts/balances';
+import type { ConversionValues } from '@/lib/conversions/revisions';
+import type {
+  AccountBalance,
+  AccountRecord,
+  ConversionRecord,
+  CurrencyPair,
+  ExpenseRecord,
+  TransferRecord,
+} from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type AccountValues = Pick<AccountRecord, 'name' | 'currency' | 'kind' | 'opening_balance'>;
+
+export type TransferValues = Omit<TransferRecord, 'id' | 'created_at'>;
+
+export function createAccount(db: DB, values: AccountValues): AccountRecord {
+  return db.insert(accounts).values(values).returning().get() as AccountRecord;
+}
+
+export function getAccount(db: DB, id: number): AccountRecord | null {
+  return (db.select().from(accounts).where(eq(accounts.id, id)).get() as AccountRecord | undefined) ?? null;
+}
+
+/** Every account, archived ones included, by currency then name. */
+export function getAccounts(db: DB): AccountRecord[] {
+  return db.select().from(accounts).orderBy(asc(accounts.currency), asc(accounts.name)).all() as AccountRecord[];
+}
+
+/** Returns null if there is no such account. The currency never changes. */
+export function updateAccount(
+  db: DB,
+  id: number,
+  values: Partial<Pick<AccountRecord, 'name' | 'kind' | 'opening_balance' | 'archived'>>
+): AccountRecord | null {
+  return (
+    (db.update(accounts).set(values).where(eq(accounts.id, id)).returning().get() as AccountRecord | undefined) ??
+    null
+  );
+}
+
+/** Every transfer, newest first. */
+export function getTransfers(db: DB): TransferRecord[] {
+  return db.select().from(transfers).orderBy(desc(transfers.date), desc(transfers.id)).all() as TransferRecord[];
+}
+
+/**
+ * Check a transfer: both accounts must exist and hold the same currency.
+ * Returns the problem, or null if valid.
+ */
+export function validateTransfer(db: DB, values: TransferValues): string | null {
+  const [from, to] = [getAccount(db, values.from_account_id), getAccount(db, values.to_account_id)];
+  if (!from || !to) return 'Account not found';
+  if (from.currency !== to.currency) {
+    return 'Transfers must stay in one currency; log a conversion to change currency';
+  }
+  return null;
+}
+
+export function createTransfer(db: DB, values: TransferValues): TransferRecord {
+  return db.insert(transfers).values(values).returning().get() as TransferRecord;
+}
+
+/** Returns null if there is no such transfer. */
+export function deleteTransfer(db: DB, id: number): TransferRecord | null {
+  return (db.delete(transfers).where(eq(transfers.id, id)).returning().get() as TransferRecord | undefined) ?? null;
+}
+
+/**
+ * Check the accounts on a conversion: each must exist and hold the currency
+ * on that side. Returns the problem, or null if valid.
+ */
+export function validateConversionAccounts(
+  db: DB,
+  values: Pick<ConversionValues, 'source_currency' | 'target_currency' | 'source_account_id' | 'target_account_id'>
+): string | null {
+  const ids = [values.source_account_id, values.target_account_id].filter((id): id is number => id !== null);
+  if (ids.length === 0) return null;
+
+  const found = db.select().from(accounts).where(inArray(accounts.id, ids)).all() as AccountRecord[];
+  const sides: [number | null, string, string][] = [
+    [values.source_account_id, values.source_currency, 'Source'],
+    [values.target_account_id, values.target_currency, 'Target'],
+  ];
+  for (const [id, currency, label] of sides) {
+    if (id === null) continue;
+    const account = found.find((a) => a.id === id);
+    if (!account) return `${label} account not found`;
+    if (account.currency !== currency) return `${label} account ${account.name} holds ${account.currency}, not ${currency}`;
+  }
+  return null;
+}
+
+/** Balances of every account from the full history. */
+export function getAccountBalances(db: DB): AccountBalance[] {
+  return calculateAccountBalances(
+    getAccounts(db),
+    db.select().from(conversions).all() as ConversionRecord[],
+    getTransfers(db),
+    db.select().from(expenses).all() as ExpenseRecord[]
+  );
+}
+
+/**
+ * What is held in each currency of the pair, as on the dashboard. Null until
+ * an account or an expense is recorded, when everything ever bought is taken
+ * to be held.
+ */
+export function getHoldings(db: DB, pair: CurrencyPair, currentRate: number): PairHoldings | null {
+  const balances = getAccountBalances(db);
+  const allExpenses = db.select().from(expenses).all() as ExpenseRecord[];
+  if (balances.length === 0 && allExpenses.length === 0) return null;
+
+  return calculateHoldings(
+    balances,
+    db.select().from(conversions).all() as ConversionRecord[],
+    pair,
+    currentRate,
+    allExpenses
+  );
+}
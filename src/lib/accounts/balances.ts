@@ -0,0 +1,143 @@
+import type { AccountBalance, AccountRecord, ConversionRecord, CurrencyPair, ExpenseRecord, TransferRecord } from '@/types';
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/currency';
+
+/** What is held in one currency: account balances plus conversions not yet attached to an account. */
+export interface CurrencyHolding {
+  currency: string;
+  inAccounts: number;
+  unassigned: number;
+  total: number;
+}
+
+export interface PairHoldings {
+  base: CurrencyHolding;
+  quote: CurrencyHolding;
+  convertedQuote: number;   // the quote holding less opening balances: what is left of the quote bought, for P&L
+  quoteValueBase: number;   // the quote holding at the current rate
+  totalValueBase: number;
+}
+
+/**
+ * Each account's balance: its opening balance, plus conversions into it and
+ * transfers in, less conversions out of it, transfers out and their fees,
+ * and expenses paid from it. Conversions in the trash are skipped.
+ */
+export function calculateAccountBalances(
+  accounts: AccountRecord[],
+  conversions: ConversionRecord[],
+  transfers: TransferRecord[],
+  expenses: ExpenseRecord[] = []
+): AccountBalance[] {
+  const balances = new Map<number, AccountBalance>(
+    accounts.map((account) => [
+      account.id,
+      {
+        account,
+        balance: account.opening_balance,
+        conversionsIn: 0,
+        conversionsOut: 0,
+        transfersIn: 0,
+        transfersOut: 0,
+        fees: 0,
+        spent: 0,
+      },
+    ])
+  );
+
+  for (const c of conversions) {
+    if (c.deleted_at) continue;
+    const from = c.source_account_id !== null ? balances.get(c.source_account_id) : undefined;
+    const to = c.target_account_id !== null ? balances.get(c.target_account_id) : undefined;
+    if (from) from.conversionsOut += c.source_amount;
+    if (to) to.conversionsIn += c.target_amount;
+  }
+
+  for (const t of transfers) {
+    const from = balances.get(t.from_account_id);
+    const to = balances.get(t.to_account_id);
+    if (from) {
+      from.transfersOut += t.amount + t.fee;
+      from.fees += t.fee;
+    }
+    if (to) to.transfersIn += t.amount;
+  }
+
+  for (const e of expenses) {
+    const from = e.account_id !== null ? balances.get(e.account_id) : undefined;
+    if (from) from.spent += e.amount;
+  }
+
+  return [...balances.values()].map((b) => ({
+    ...b,
+    balance: b.account.opening_balance + b.conversionsIn - b.conversionsOut + b.transfersIn - b.transfersOut - b.spent,
+  }));
+}
+
+/**
+ * Net amount of `currency` moved by conversions with no account on that
+ * side: money bought before accounts were set up, still counted as held.
+ */
+function unassignedFlow(conversions: ConversionRecord[], currency: string): number {
+  let total = 0;
+  for (const c of conversions) {
+    if (c.deleted_at) continue;
+    if (c.target_currency === currency && c.target_account_id === null) total += c.target_amount;
+    if (c.source_currency === currency && c.source_account_id === null) total -= c.source_amount;
+  }
+  return total;
+}
+
+/** Amount of `currency` spent by expenses not paid from any account. */
+function unassignedSpending(expenses: ExpenseRecord[], currency: string): number {
+  return expenses
+    .filter((e) => e.currency === currency && e.account_id === null)
+    .reduce((s, e) => s + e.amount, 0);
+}
+
+function holding(
+  balances: AccountBalance[],
+  currency: string,
+  unassigned: number
+): CurrencyHolding {
+  const inAccounts = balances
+    .filter((b) => b.account.currency === currency)
+    .reduce((s, b) => s + b.balance, 0);
+  return { currency, inAccounts, unassigned, total: inAccounts + unassigned };
+}
+
+/**
+ * What is actually held in each currency of the pair, and its value in the
+ * base currency at `currentRate`. Quote bought by conversions with no account
+ * still counts as held until spent by an expense with no account; base is
+ * only what the accounts hold, since savings spent from outside any account
+ * were never tracked. Opening balances were not bought at any rate, so
+ * `convertedQuote` leaves them out, as if spending came from converted
+ * money first.
+ */
+export function calculateHoldings(
+  balances: AccountBalance[],
+  conversions: ConversionRecord[],
+  pair: CurrencyPair,
+  currentRate: number,
+  expenses: ExpenseRecord[] = []
+): PairHoldings {
+  const base = holding(balances, pair.base, 0);
+  const quote = holding(
+    balances,
+    pair.quote,
+    unassignedFlow(conversions, pair.quote) - unassignedSpending(expenses, pair.quote)
+  );
+  const opening = balances
+    .filter((b) => b.account.currency === pair.quote)
+    .reduce((s, b) => s + b.account.opening_balance, 0);
+  const quoteValueBase = currentRate > 0
+    ? toMinorUnits(fromMinorUnits(quote.total, pair.quote) / currentRate, pair.base)
+    : 0;
+  return {
+    base,
+    quote,
+    convertedQuote: Math.max(0, quote.total - opening),
+    quoteValueBase,
+    totalValueBase: base.total + quoteValueBase,
+  };
+}
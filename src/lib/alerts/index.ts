@@ -1,7 +1,8 @@
-import { eq, desc } from 'drizzle-orm';
+import { and, eq, desc } from 'drizzle-orm';
 import { db } from '@/lib/db/client';
 import { alerts } from '@/lib/db/schema';
-import type { AlertType, Band } from '@/types';
+import type { Anomaly } from '@/lib/rates/anomalies';
+import type { AlertType, BandResult } from '@/types';
 
 export interface AlertRecord {
   id: number;
@@ -9,6 +10,7 @@ export interface AlertRecord {
   message: string;
   rate: number | null;
   band: string | null;
+  dedupe_key: string | null;
   acknowledged: number;
   created_at: string;
 }
@@ -17,7 +19,8 @@ export function createAlert(
   type: AlertType,
   message: string,
   rate?: number,
-  band?: string
+  band?: string,
+  dedupeKey?: string
 ): AlertRecord {
   return db
     .insert(alerts)
@@ -26,6 +29,7 @@ export function createAlert(
       message,
       rate: rate ?? null,
       band: band ?? null,
+      dedupe_key: dedupeKey ?? null,
     })
     .returning()
     .get() as AlertRecord;
@@ -63,14 +67,21 @@ export function acknowledgeAllAlerts(): void {
     .run();
 }
 
+export function acknowledgeAlertsOfType(type: AlertType): void {
+  db.update(alerts)
+    .set({ acknowledged: 1 })
+    .where(and(eq(alerts.type, type), eq(alerts.acknowledged, 0)))
+    .run();
+}
+
 /**
  * Check if a band change alert should be created.
  * Only create if the most recent band_change alert has a different band.
+ * Moving into a reverse tier also raises a reverse_zone alert.
  */
-export function checkAndCreateBandChangeAlert(
-  currentBand: Band,
-  currentRate: number
-): AlertRecord | null {
+export function checkAndCreateBandChangeAlert(band: BandResult): AlertRecord | null {
+  const { tier, rate: currentRate } = band;
+
   const lastBandAlert = db
     .select()
     .from(alerts)
@@ -79,25 +90,50 @@ export function checkAndCreateBandChangeAlert(
     .limit(1)
     .all();
 
-  if (lastBandAlert.length > 0 && lastBandAlert[0].band === currentBand) {
+  if (lastBandAlert.length > 0 && lastBandAlert[0].band === tier.key) {
     return null; // same band, no alert needed
   }
 
-  const bandLabels: Record<Band, string> = {
-    AGGRESSIVE_BUY: 'Aggressive Buy',
-    NORMAL_BUY: 'Normal Buy',
-    HOLD: 'Hold',
-    REVERSE: 'Reverse Zone',
-  };
+  if (tier.direction === 'REVERSE') {
+    createAlert(
+      'reverse_zone',
+      `Rate ${currentRate.toFixed(2)} entered ${tier.label}. Consider converting back if needed.`,
+      currentRate,
+      tier.key
+    );
+  }
 
   return createAlert(
     'band_change',
-    `Band changed to ${bandLabels[currentBand]} at rate ${currentRate.toFixed(2)}`,
+    `Band changed to ${tier.label} at rate ${currentRate.toFixed(2)}`,
     currentRate,
-    currentBand
+    tier.key
   );
 }
 
+/**
+ * Create an anomaly alert for each detected anomaly, unless one with the same
+ * key (kind + business date) already exists, acknowledged or not.
+ */
+export function createAnomalyAlerts(anomalies: Anomaly[], currentRate: number): AlertRecord[] {
+  const created: AlertRecord[] = [];
+
+  for (const anomaly of anomalies) {
+    const existing = db
+      .select()
+      .from(alerts)
+      .where(and(eq(alerts.type, 'anomaly'), eq(alerts.dedupe_key, anomaly.key)))
+      .limit(1)
+      .all();
+
+    if (existing.length > 0) continue;
+
+    created.push(createAlert('anomaly', anomaly.message, currentRate, undefined, anomaly.key));
+  }
+
+  return created;
+}
+
 /**
  * Check if a recalibration reminder is due based on settings.
  */
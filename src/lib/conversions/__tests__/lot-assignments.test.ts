@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { conversions } from '@/lib/db/schema';
+import { toConversionValues } from '@/lib/conversions/revisions';
+import {
+  getLotAssignments,
+  setLotAssignments,
+  validateLotAssignments,
+} from '@/lib/conversions/lot-assignments';
+import { purgeConversions, trashConversion } from '@/lib/conversions/trash';
+import type { ConversionRecord } from '@/types';
+
+function seed() {
+  const db = createTestDb();
+  const [lot, later, disposal] = db
+    .insert(conversions)
+    .values([
+      toConversionValues({
+        date: '2024-01-05',
+        sourceCurrency: 'GBP',
+        targetCurrency: 'JPY',
+        sourceAmount: 100000,
+        targetAmount: 185000,
+        rate: 185,
+      }),
+      toConversionValues({
+        date: '2024-04-05',
+        sourceCurrency: 'GBP',
+        targetCurrency: 'JPY',
+        sourceAmount: 100000,
+        targetAmount: 195000,
+        rate: 195,
+      }),
+      toConversionValues({
+        date: '2024-03-05',
+        sourceCurrency: 'JPY',
+        targetCurrency: 'GBP',
+        sourceAmount: 90000,
+        targetAmount: 50000,
+        rate: 180,
+      }),
+    ])
+    .returning()
+    .all() as ConversionRecord[];
+  return { db, lot, later, disposal };
+}
+
+describe('validateLotAssignments', () => {
+  it('accepts earlier purchases in the opposite direction', () => {
+    const { db, lot, disposal } = seed();
+    expect(validateLotAssignments(db, disposal, [{ lotId: lot.id, quote: 90000 }])).toBeNull();
+    expect(validateLotAssignments(db, disposal, [])).toBeNull();
+  });
+
+  it('rejects later, reversed, repeated or excessive choices', () => {
+    const { db, lot, later, disposal } = seed();
+
+    expect(validateLotAssignments(db, disposal, [{ lotId: later.id, quote: 1000 }])).toMatch(/not an earlier purchase/);
+    expect(validateLotAssignments(db, disposal, [{ lotId: disposal.id, quote: 1000 }])).toMatch(/not an earlier purchase/);
+    expect(
+      validateLotAssignments(db, disposal, [
+        { lotId: lot.id, quote: 1000 },
+        { lotId: lot.id, quote: 1000 },
+      ])
+    ).toMatch(/only be chosen once/);
+    expect(validateLotAssignments(db, disposal, [{ lotId: lot.id, quote: 90001 }])).toMatch(/more than/);
+  });
+});
+
+describe('setLotAssignments', () => {
+  it('replaces the choice for a reversal, and purging either side drops it', () => {
+    const { db, lot, disposal } = seed();
+
+    setLotAssignments(db, disposal.id, [{ lotId: lot.id, quote: 50000 }]);
+    expect(setLotAssignments(db, disposal.id, [{ lotId: lot.id, quote: 90000 }])).toEqual([
+      { disposalId: disposal.id, lotId: lot.id, quote: 90000 },
+    ]);
+    expect(getLotAssignments(db)).toHaveLength(1);
+
+    trashConversion(db, lot.id);
+    purgeConversions(db);
+    expect(getLotAssignments(db)).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createTestDb } from '@/lib/db/testing';
+import { conversions } from '@/lib/db/schema';
+import { decodeCursor, encodeCursor, queryConversions } from '@/lib/conversions/query';
+
+function seed() {
+  const db = createTestDb();
+  const base = { exchange_rate: 185, provider: 'WISE', band_at_time: 'NORMAL_BUY' };
+  db.insert(conversions).values([
+    { ...base, date: '2024-01-05', source_amount: 100000, target_amount: 18500000, notes: 'January top-up' },
+    { ...base, date: '2024-02-05', source_amount: 50000, target_amount: 9400000, exchange_rate: 188, provider: 'REVOLUT' },
+    { ...base, date: '2024-02-05', source_amount: 20000, target_amount: 3800000, exchange_rate: 190, band_at_time: null, notes: '100% rent' },
+    { ...base, date: '2024-03-01', source_currency: 'JPY', target_currency: 'GBP', source_amount: 1900000, target_amount: 10000, exchange_rate: 190 },
+    { ...base, date: '2024-03-10', source_currency: 'EUR', target_currency: 'JPY', source_amount: 30000, target_amount: 4800000, exchange_rate: 160 },
+  ]).run();
+  return db;
+}
+
+const ids = (page: { conversions: { id: number }[] }) => page.conversions.map((c) => c.id);
+
+describe('queryConversions', () => {
+  it('returns everything newest first, breaking date ties by id', () => {
+    const page = queryConversions(seed());
+    expect(ids(page)).toEqual([5, 4, 3, 2, 1]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('filters by date range, direction, provider and band', () => {
+    const db = seed();
+
+    expect(ids(queryConversions(db, { from: '2024-02-01', to: '2024-03-01' }))).toEqual([4, 3, 2]);
+    expect(ids(queryConversions(db, { direction: 'JPY_TO_GBP' }))).toEqual([4]);
+    expect(ids(queryConversions(db, { provider: 'REVOLUT' }))).toEqual([2]);
+    expect(ids(queryConversions(db, { band: 'NONE' }))).toEqual([3]);
+    expect(ids(queryConversions(db, { band: 'NORMAL_BUY', direction: 'GBP_TO_JPY' }))).toEqual([2, 1]);
+  });
+
+  it('compares amounts in major units of the source currency', () => {
+    const db = seed();
+    // 300 EUR, 500 GBP and 1000 GBP, but not 19,000 JPY
+    expect(ids(queryConversions(db, { minAmount: 250, maxAmount: 1000 }))).toEqual([5, 2, 1]);
+    expect(ids(queryConversions(db, { minAmount: 10000 }))).toEqual([4]);
+  });
+
+  it('searches notes case-insensitively, treating wildcards literally', () => {
+    const db = seed();
+    expect(ids(queryConversions(db, { q: 'january' }))).toEqual([1]);
+    expect(ids(queryConversions(db, { q: '100%' }))).toEqual([3]);
+    expect(ids(queryConversions(db, { q: '_' }))).toEqual([]);
+  });
+
+  it('pages through results with a cursor in the requested order', () => {
+    const db = seed();
+
+    const first = queryConversions(db, { sort: 'rate', order: 'asc', limit: 2 });
+    expect(ids(first)).toEqual([5, 1]);
+
+    const second = queryConversions(db, { sort: 'rate', order: 'asc', limit: 2, cursor: first.nextCursor! });
+    expect(ids(second)).toEqual([2, 3]);
+
+    const third = queryConversions(db, { sort: 'rate', order: 'asc', limit: 2, cursor: second.nextCursor! });
+    expect(ids(third)).toEqual([4]);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('rejects a malformed cursor', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(encodeCursor('2024-01-05', 3))).toEqual({ value: '2024-01-05', id: 3 });
+    expect(() => queryConversions(seed(), { cursor: 'bad' })).toThrow('Invalid cursor');
+  });
+
+  it('leaves out conversions in the trash', () => {
+    const db = seed();
+    db.update(conversions).set({ deleted_at: '2024-04-01 09:00:00' }).where(eq(conversions.id, 3)).run();
+
+    expect(ids(queryConversions(db))).toEqual([5, 4, 2, 1]);
+    expect(ids(queryConversions(db, { band: 'NONE' }))).toEqual([]);
+  });
+});
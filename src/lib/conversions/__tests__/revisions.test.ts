@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { conversionRevisions, conversions } from '@/lib/db/schema';
+import { validateConversionAccounts } from '@/lib/accounts/accounts';
+import {
+  getConversion,
+  getConversionRevisions,
+  getRevisionValues,
+  toConversionInput,
+  toConversionValues,
+  updateConversion,
+} from '@/lib/conversions/revisions';
+import { trashConversion } from '@/lib/conversions/trash';
+import { conversionSchema } from '@/lib/validators';
+import type { ConversionInput } from '@/lib/validators';
+
+const INPUT: ConversionInput = {
+  date: '2024-01-05',
+  sourceCurrency: 'GBP',
+  targetCurrency: 'JPY',
+  sourceAmount: 100000,
+  targetAmount: 185000,
+  rate: 185,
+  spotRate: 185.5,
+  feePct: 0.4,
+  provider: 'WISE',
+  bandAtTime: 'NORMAL_BUY',
+};
+
+function seed() {
+  const db = createTestDb();
+  const row = db
+    .insert(conversions)
+    .values({ ...toConversionValues(INPUT), created_at: '2024-01-05 09:00:00' })
+    .returning()
+    .get();
+  return { db, id: row.id };
+}
+
+describe('toConversionInput', () => {
+  it('round-trips through the conversion schema', () => {
+    const { db, id } = seed();
+    const parsed = conversionSchema.parse(toConversionInput(getConversion(db, id)!));
+    expect(toConversionValues(parsed)).toEqual(toConversionValues(INPUT));
+  });
+});
+
+describe('updateConversion', () => {
+  it('records the prior version and keeps created_at and the band', () => {
+    const { db, id } = seed();
+
+    const updated = updateConversion(db, id, toConversionValues({ ...INPUT, sourceAmount: 10000, targetAmount: 18500 }));
+
+    expect(updated).toMatchObject({ source_amount: 10000, target_amount: 18500, band_at_time: 'NORMAL_BUY' });
+    expect(updated?.created_at).toBe('2024-01-05 09:00:00');
+
+    const [revision] = getConversionRevisions(db, id);
+    expect(revision.changed_fields).toEqual(['source_amount', 'target_amount']);
+    expect(revision.snapshot.source_amount).toBe(100000);
+  });
+
+  it('writes no revision when nothing changed', () => {
+    const { db, id } = seed();
+    updateConversion(db, id, toConversionValues(INPUT));
+    expect(getConversionRevisions(db, id)).toEqual([]);
+  });
+
+  it('returns null for a missing conversion', () => {
+    const { db } = seed();
+    expect(updateConversion(db, 999, toConversionValues(INPUT))).toBeNull();
+  });
+});
+
+describe('getRevisionValues', () => {
+  function revert(db: ReturnType<typeof seed>['db'], id: number, revisionId: number) {
+    const values = getRevisionValues(db, id, revisionId);
+    return values && updateConversion(db, id, toConversionValues(conversionSchema.parse(toConversionInput(values))));
+  }
+
+  it('restores a revision and records the version it replaced', () => {
+    const { db, id } = seed();
+    updateConversion(db, id, toConversionValues({ ...INPUT, notes: 'typo' }));
+    updateConversion(db, id, toConversionValues({ ...INPUT, notes: 'typo', rate: 190 }));
+
+    const oldest = getConversionRevisions(db, id).at(-1)!;
+    const reverted = revert(db, id, oldest.id);
+
+    expect(reverted).toMatchObject({ notes: null, exchange_rate: 185 });
+
+    const revisions = getConversionRevisions(db, id);
+    expect(revisions).toHaveLength(3);
+    expect(revisions[0].changed_fields).toEqual(['exchange_rate', 'notes']);
+    expect(revisions[0].snapshot.exchange_rate).toBe(190);
+  });
+
+  it('fills fields missing from a snapshot taken before accounts with null', () => {
+    const { db, id } = seed();
+    const { source_account_id: _source, target_account_id: _target, ...snapshot } = {
+      ...getConversion(db, id)!,
+      exchange_rate: 184,
+    };
+    const revision = db
+      .insert(conversionRevisions)
+      .values({ conversion_id: id, snapshot: JSON.stringify(snapshot), changed_fields: 'exchange_rate' })
+      .returning()
+      .get();
+
+    const values = getRevisionValues(db, id, revision.id)!;
+    expect(values).toMatchObject({ exchange_rate: 184, source_account_id: null, target_account_id: null });
+    expect(validateConversionAccounts(db, values)).toBeNull();
+
+    revert(db, id, revision.id);
+    expect(getConversionRevisions(db, id)[0].changed_fields).toEqual(['exchange_rate']);
+  });
+
+  it('ignores a revision belonging to another conversion', () => {
+    const { db, id } = seed();
+    updateConversion(db, id, toConversionValues({ ...INPUT, notes: 'edited' }));
+    const [revision] = getConversionRevisions(db, id);
+
+    expect(getRevisionValues(db, id + 1, revision.id)).toBeNull();
+  });
+
+  it('leaves a trashed conversion alone', () => {
+    const { db, id } = seed();
+    updateConversion(db, id, toConversionValues({ ...INPUT, notes: 'edited' }));
+    const [revision] = getConversionRevisions(db, id);
+    trashConversion(db, id);
+
+    expect(getRevisionValues(db, id, revision.id)).toBeNull();
+  });
+});
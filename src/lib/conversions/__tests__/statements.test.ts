@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { conversions, rateHistory } from '@/lib/db/schema';
+import {
+  commitStatementImport,
+  parseStatement,
+  previewStatementImport,
+} from '@/lib/conversions/statements';
+
+const WISE = `ID,Status,Direction,Created on,Finished on,Source fee amount,Source fee currency,Target fee amount,Target fee currency,Source name,Source amount (after fees),Source currency,Target name,Target amount (after fees),Target currency,Exchange rate,Reference,Batch
+TRANSFER-1,COMPLETED,NEUTRAL,2024-01-05 09:12:33,2024-01-05 09:12:34,4.50,GBP,,,Me,995.50,GBP,Me,"184,167",JPY,185.0,,
+TRANSFER-2,CANCELLED,NEUTRAL,2024-01-06 10:00:00,,1.00,GBP,,,Me,99.00,GBP,Me,18315,JPY,185.0,,
+TRANSFER-3,COMPLETED,OUT,2024-01-07 10:00:00,2024-01-07 10:00:01,0.50,GBP,,,Me,50.00,GBP,Shop,50.00,GBP,1,,
+TRANSFER-4,COMPLETED,NEUTRAL,2024-01-08 11:00:00,2024-01-08 11:00:01,500,JPY,,,Me,94500,JPY,Me,500.00,GBP,0.00529,,
+`;
+
+const REVOLUT = `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+EXCHANGE,Current,2024-02-01 08:00:00,2024-02-01 08:00:00,Exchanged to JPY,-500.00,2.50,GBP,COMPLETED,1497.50
+EXCHANGE,Current,2024-02-01 08:00:00,2024-02-01 08:00:00,Exchanged from GBP,93000,0,JPY,COMPLETED,93000
+CARD_PAYMENT,Current,2024-02-02 12:00:00,2024-02-02 12:00:00,Coffee,-3.20,0,GBP,COMPLETED,1494.30
+EXCHANGE,Current,2024-02-03 08:00:00,2024-02-03 08:00:00,Exchanged to EUR,-100.00,0,GBP,COMPLETED,1394.30
+EXCHANGE,Current,2024-02-03 08:00:00,2024-02-03 08:00:00,Exchanged from GBP,116.00,0,EUR,COMPLETED,116.00
+EXCHANGE,Current,2024-02-04 08:00:00,2024-02-04 08:00:00,Exchanged to JPY,-10.00,0,GBP,COMPLETED,1384.30
+`;
+
+describe('parseStatement', () => {
+  it('reads completed GBP/JPY exchanges from a Wise export, including the fee in the amount spent', () => {
+    const parsed = parseStatement(WISE, 'wise');
+
+    expect(parsed.ignored).toBe(2);
+    expect(parsed.conversions).toEqual([
+      expect.objectContaining({ date: '2024-01-05', sourceCurrency: 'GBP', sourceAmount: 100000, targetAmount: 184167, fee: 450, reference: 'TRANSFER-1' }),
+      expect.objectContaining({ date: '2024-01-08', sourceCurrency: 'JPY', sourceAmount: 95000, targetAmount: 50000, fee: 500 }),
+    ]);
+  });
+
+  it('pairs the two legs of a Revolut exchange and reports unmatched legs', () => {
+    const parsed = parseStatement(REVOLUT, 'revolut');
+
+    expect(parsed.conversions).toEqual([
+      expect.objectContaining({ line: 2, date: '2024-02-01', sourceAmount: 50250, targetAmount: 93000, fee: 250 }),
+    ]);
+    expect(parsed.ignored).toBe(3);
+    expect(parsed.errors).toEqual([{ line: 7, message: 'Unmatched exchange started 2024-02-04 08:00:00' }]);
+  });
+
+  it('maps generic columns and takes absolute amounts', () => {
+    const csv = 'When,From,Paid,To,Got,Cost\n05/01/2024,gbp,-100.00,jpy,18400,0.60\n';
+    const parsed = parseStatement(csv, 'generic', {
+      date: 'When',
+      sourceCurrency: 'From',
+      sourceAmount: 'Paid',
+      targetCurrency: 'To',
+      targetAmount: 'Got',
+      fee: 'Cost',
+    });
+
+    expect(parsed.conversions).toEqual([
+      expect.objectContaining({ date: '2024-01-05', sourceCurrency: 'GBP', sourceAmount: 10060, targetAmount: 18400, fee: 60 }),
+    ]);
+  });
+
+  it('counts blank lines when reporting Wise lines', () => {
+    const [header, first, , , last] = WISE.trim().split('\n');
+    const parsed = parseStatement(['', header, first, '', '', last].join('\n'), 'wise');
+
+    expect(parsed.conversions.map((c) => [c.line, c.reference])).toEqual([
+      [3, 'TRANSFER-1'],
+      [6, 'TRANSFER-4'],
+    ]);
+  });
+
+  it('counts blank lines when reporting Revolut lines', () => {
+    const [header, debit, credit, , , , unmatched] = REVOLUT.trim().split('\n');
+    const parsed = parseStatement(['', '', header, debit, '', credit, '', unmatched].join('\n'), 'revolut');
+
+    expect(parsed.conversions.map((c) => c.line)).toEqual([4]);
+    expect(parsed.errors).toEqual([{ line: 8, message: 'Unmatched exchange started 2024-02-04 08:00:00' }]);
+  });
+
+  it('counts blank lines when reporting generic lines', () => {
+    const csv = '\nWhen,From,Paid,To,Got\n05/01/2024,gbp,100,jpy,18400\n\nnot a date,gbp,100,jpy,18400\n';
+    const parsed = parseStatement(csv, 'generic', {
+      date: 'When',
+      sourceCurrency: 'From',
+      sourceAmount: 'Paid',
+      targetCurrency: 'To',
+      targetAmount: 'Got',
+    });
+
+    expect(parsed.conversions.map((c) => c.line)).toEqual([3]);
+    expect(parsed.errors).toEqual([{ line: 5, message: 'Unreadable date' }]);
+  });
+
+  it('reports missing columns', () => {
+    expect(parseStatement('a,b\n1,2\n', 'wise').errors[0].message).toBe('Column "ID" not found');
+  });
+});
+
+describe('previewStatementImport / commitStatementImport', () => {
+  function seed() {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-04', rate: 185.3, fetched_at: '2024-01-04T17:00:00Z' }).run();
+    return db;
+  }
+
+  it('fills rate, spot rate, fee and provider', () => {
+    const db = seed();
+    const preview = previewStatementImport(db, parseStatement(WISE, 'wise'), 'WISE');
+    const [gbpToJpy, jpyToGbp] = preview.rows.map((r) => r.values);
+
+    expect(gbpToJpy).toMatchObject({ spot_rate: 185.3, fee_pct: 0.45, provider: 'WISE' });
+    expect(gbpToJpy.exchange_rate).toBeCloseTo(184.167);
+    expect(gbpToJpy.notes).toContain('TRANSFER-1');
+    // JPY -> GBP is still quoted as JPY per GBP
+    expect(jpyToGbp.exchange_rate).toBeCloseTo(190);
+  });
+
+  it('flags rows already stored and skips them on commit', () => {
+    const db = seed();
+    const first = previewStatementImport(db, parseStatement(WISE, 'wise'), 'WISE');
+    expect(commitStatementImport(db, first)).toEqual({ inserted: 2, skipped: 0 });
+
+    const again = previewStatementImport(db, parseStatement(WISE, 'wise'), 'WISE');
+    expect(again.duplicates).toBe(2);
+    expect(commitStatementImport(db, again)).toEqual({ inserted: 0, skipped: 2 });
+    expect(db.select().from(conversions).all()).toHaveLength(2);
+  });
+
+  it('flags a row repeated within the same file', () => {
+    const db = seed();
+    const lines = WISE.trim().split('\n');
+    const preview = previewStatementImport(db, parseStatement([...lines, lines[1]].join('\n'), 'wise'), 'WISE');
+
+    expect(preview.rows.map((r) => r.duplicate)).toEqual([false, false, true]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { conversionRevisions, conversions, limitOrders } from '@/lib/db/schema';
+import { getConversion, toConversionValues, updateConversion } from '@/lib/conversions/revisions';
+import {
+  getTrashedConversions,
+  purgeConversions,
+  restoreConversion,
+  trashConversion,
+} from '@/lib/conversions/trash';
+import type { ConversionInput } from '@/lib/validators';
+
+const INPUT: ConversionInput = {
+  date: '2024-01-05',
+  sourceCurrency: 'GBP',
+  targetCurrency: 'JPY',
+  sourceAmount: 100000,
+  targetAmount: 185000,
+  rate: 185,
+};
+
+function seed() {
+  const db = createTestDb();
+  const [first, second] = db
+    .insert(conversions)
+    .values([toConversionValues(INPUT), toConversionValues({ ...INPUT, date: '2024-02-05' })])
+    .returning()
+    .all();
+  return { db, first: first.id, second: second.id };
+}
+
+describe('trashConversion', () => {
+  it('marks the conversion deleted and can be undone', () => {
+    const { db, first } = seed();
+
+    const trashed = trashConversion(db, first);
+    expect(trashed?.deleted_at).toEqual(expect.any(String));
+    expect(getTrashedConversions(db).map((c) => c.id)).toEqual([first]);
+
+    const restored = restoreConversion(db, first);
+    expect(restored?.deleted_at).toBeNull();
+    expect(getTrashedConversions(db)).toEqual([]);
+  });
+
+  it('returns null for a missing or already trashed conversion', () => {
+    const { db, first } = seed();
+    trashConversion(db, first);
+
+    expect(trashConversion(db, first)).toBeNull();
+    expect(trashConversion(db, 999)).toBeNull();
+    expect(restoreConversion(db, 999)).toBeNull();
+  });
+});
+
+describe('purgeConversions', () => {
+  it('removes trashed conversions with their revisions and leaves the rest', () => {
+    const { db, first, second } = seed();
+    updateConversion(db, first, toConversionValues({ ...INPUT, notes: 'edited' }));
+    updateConversion(db, second, toConversionValues({ ...INPUT, date: '2024-02-05', notes: 'edited' }));
+    trashConversion(db, first);
+
+    expect(purgeConversions(db, [first, second])).toBe(1);
+
+    expect(getConversion(db, first)).toBeNull();
+    expect(getConversion(db, second)).not.toBeNull();
+    expect(db.select().from(conversionRevisions).all().map((r) => r.conversion_id)).toEqual([second]);
+  });
+
+  it('unlinks limit orders filled by a purged conversion', () => {
+    const { db, first, second } = seed();
+    const order = { source_currency: 'GBP', target_currency: 'JPY', amount: 100000, condition: 'ABOVE', target_rate: 185, status: 'FILLED' };
+    db.insert(limitOrders).values([{ ...order, conversion_id: first }, { ...order, conversion_id: second }]).run();
+    trashConversion(db, first);
+
+    purgeConversions(db);
+
+    expect(db.select().from(limitOrders).all().map((o) => [o.status, o.conversion_id])).toEqual([
+      ['FILLED', null],
+      ['FILLED', second],
+    ]);
+  });
+
+  it('empties the whole trash when no ids are given', () => {
+    const { db, first, second } = seed();
+    trashConversion(db, first);
+    trashConversion(db, second);
+
+    expect(purgeConversions(db)).toBe(2);
+    expect(purgeConversions(db)).toBe(0);
+    expect(db.select().from(conversions).all()).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { eq, inArray } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { conversions, lotAssignments } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import type { LotAssignment } from '@/lib/finance/lots';
+import type { ConversionRecord } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+function toAssignment(row: typeof lotAssignments.$inferSelect): LotAssignment {
+  return { disposalId: row.disposal_id, lotId: row.lot_id, quote: row.quote_amount };
+}
+
+/** Every chosen lot, in the order it was chosen. */
+export function getLotAssignments(db: DB): LotAssignment[] {
+  return db.select().from(lotAssignments).orderBy(lotAssignments.id).all().map(toAssignment);
+}
+
+/**
+ * Check lots chosen for a reversal: each must be a live purchase in the
+ * opposite direction made no later than the reversal, and together they may
+ * not cover more than it sold. Returns the problem, or null if valid.
+ */
+export function validateLotAssignments(
+  db: DB,
+  disposal: ConversionRecord,
+  assignments: Omit<LotAssignment, 'disposalId'>[]
+): string | null {
+  const ids = [...new Set(assignments.map((a) => a.lotId))];
+  if (ids.length !== assignments.length) return 'Each lot can only be chosen once';
+
+  const total = assignments.reduce((s, a) => s + a.quote, 0);
+  if (total > disposal.source_amount) return 'Chosen lots cover more than the conversion sold';
+  if (ids.length === 0) return null;
+
+  const lots = db.select().from(conversions).where(inArray(conversions.id, ids)).all() as ConversionRecord[];
+  for (const id of ids) {
+    const lot = lots.find((l) => l.id === id);
+    if (
+      !lot ||
+      lot.deleted_at ||
+      lot.source_currency !== disposal.target_currency ||
+      lot.target_currency !== disposal.source_currency ||
+      lot.date > disposal.date
+    ) {
+      return `Conversion #${id} is not an earlier purchase this conversion can draw on`;
+    }
+  }
+  return null;
+}
+
+/** Replace the lots chosen for a reversal; an empty list goes back to FIFO. */
+export function setLotAssignments(
+  db: DB,
+  disposalId: number,
+  assignments: Omit<LotAssignment, 'disposalId'>[]
+): LotAssignment[] {
+  return db.transaction((tx) => {
+    tx.delete(lotAssignments).where(eq(lotAssignments.disposal_id, disposalId)).run();
+    if (assignments.length === 0) return [];
+    return tx
+      .insert(lotAssignments)
+      .values(assignments.map((a) => ({ disposal_id: disposalId, lot_id: a.lotId, quote_amount: a.quote })))
+      .returning()
+      .all()
+      .map(toAssignment);
+  });
+}
@@ -0,0 +1,146 @@
+import { and, asc, desc, eq, gte, isNull, lte, or, sql } from 'drizzle-orm';
+import type { SQL, SQLWrapper } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { conversions } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { CURRENCIES, CURRENCY_CODES } from '@/lib/finance/currency';
+import type { ConversionRecord } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export const MAX_PAGE_SIZE = 500;
+
+export type ConversionSortField = 'date' | 'amount' | 'rate' | 'created';
+
+export interface ConversionFilters {
+  from?: string;
+  to?: string;
+  direction?: string;     // e.g. 'GBP_TO_JPY', as in the CSV export
+  provider?: string;
+  band?: string;          // a Band, or 'NONE' for conversions logged without one
+  minAmount?: number;     // major units of the source currency
+  maxAmount?: number;
+  q?: string;             // substring of notes, case-insensitive
+}
+
+export interface ConversionQuery extends ConversionFilters {
+  sort?: ConversionSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;         // omit for every matching row
+  cursor?: string;
+}
+
+export interface ConversionPage {
+  conversions: ConversionRecord[];
+  nextCursor: string | null;
+}
+
+// Source amount in major units, so one range works across currencies
+const sourceAmountMajor = sql`(${conversions.source_amount} * 1.0 / CASE ${conversions.source_currency} ${sql.join(
+  CURRENCY_CODES.map((code) => sql`WHEN ${code} THEN ${10 ** CURRENCIES[code].minorDigits}`),
+  sql` `
+)} ELSE 100 END)`;
+
+const SORT_COLUMNS: Record<ConversionSortField, SQLWrapper> = {
+  date: conversions.date,
+  amount: sourceAmountMajor,
+  rate: conversions.exchange_rate,
+  created: conversions.created_at,
+};
+
+export function parseDirection(direction: string): { source: string; target: string } | null {
+  const match = /^([A-Z]{3})_TO_([A-Z]{3})$/.exec(direction);
+  return match ? { source: match[1], target: match[2] } : null;
+}
+
+/** The WHERE clause for a set of filters. Conversions in the trash never match. */
+export function buildConversionFilter(filters: ConversionFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [isNull(conversions.deleted_at)];
+
+  if (filters.from) conditions.push(gte(conversions.date, filters.from));
+  if (filters.to) conditions.push(lte(conversions.date, filters.to));
+
+  const direction = filters.direction ? parseDirection(filters.direction) : null;
+  if (direction) {
+    conditions.push(eq(conversions.source_currency, direction.source));
+    conditions.push(eq(conversions.target_currency, direction.target));
+  }
+
+  if (filters.provider) conditions.push(eq(conversions.provider, filters.provider));
+  if (filters.band) {
+    conditions.push(filters.band === 'NONE' ? isNull(conversions.band_at_time) : eq(conversions.band_at_time, filters.band));
+  }
+
+  if (filters.minAmount !== undefined) conditions.push(sql`${sourceAmountMajor} >= ${filters.minAmount}`);
+  if (filters.maxAmount !== undefined) conditions.push(sql`${sourceAmountMajor} <= ${filters.maxAmount}`);
+
+  if (filters.q) {
+    const pattern = `%${filters.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    conditions.push(sql`${conversions.notes} LIKE ${pattern} ESCAPE '\\'`);
+  }
+
+  return and(...conditions);
+}
+
+export function encodeCursor(value: string | number, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { value: string | number; id: number } | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      (typeof parsed[0] === 'string' || typeof parsed[0] === 'number') &&
+      typeof parsed[1] === 'number'
+    ) {
+      return { value: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // fall through - a malformed cursor is reported by the caller
+  }
+  return null;
+}
+
+/**
+ * Filtered, sorted conversions with keyset pagination. Rows are ordered by the
+ * sort field then id, and the cursor holds both for the last row returned, so
+ * pages stay stable while conversions are added. Throws on a malformed cursor.
+ */
+export function queryConversions(db: DB, query: ConversionQuery = {}): ConversionPage {
+  const sortField = query.sort ?? 'date';
+  const column = SORT_COLUMNS[sortField];
+  const descending = (query.order ?? 'desc') === 'desc';
+
+  const conditions = [buildConversionFilter(query)];
+
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor) throw new Error('Invalid cursor');
+
+    const after = descending
+      ? or(sql`${column} < ${cursor.value}`, and(sql`${column} = ${cursor.value}`, sql`${conversions.id} < ${cursor.id}`))
+      : or(sql`${column} > ${cursor.value}`, and(sql`${column} = ${cursor.value}`, sql`${conversions.id} > ${cursor.id}`));
+    conditions.push(after);
+  }
+
+  const direction = descending ? desc : asc;
+  const limit = query.limit !== undefined ? Math.min(Math.max(query.limit, 1), MAX_PAGE_SIZE) : undefined;
+
+  const base = db
+    .select({ row: conversions, sortValue: sql<string | number>`${column}` })
+    .from(conversions)
+    .where(and(...conditions))
+    .orderBy(direction(column), direction(conversions.id));
+
+  const rows = limit !== undefined ? base.limit(limit + 1).all() : base.all();
+  const hasMore = limit !== undefined && rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    conversions: page.map((r) => r.row as ConversionRecord),
+    nextCursor: hasMore && last ? encodeCursor(last.sortValue, last.row.id) : null,
+  };
+}
@@ -0,0 +1,144 @@
+import { and, desc, eq } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { conversionRevisions, conversions } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import type { ConversionInput } from '@/lib/validators';
+import type { ConversionRecord } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type ConversionValues = Omit<ConversionRecord, 'id' | 'created_at' | 'deleted_at'>;
+
+export interface ConversionRevision {
+  id: number;
+  conversion_id: number;
+  snapshot: ConversionRecord;     // the conversion as it was before this revision
+  changed_fields: (keyof ConversionValues)[];
+  revised_at: string;
+}
+
+const EDITABLE_FIELDS: (keyof ConversionValues)[] = [
+  'date',
+  'source_currency',
+  'target_currency',
+  'source_amount',
+  'target_amount',
+  'exchange_rate',
+  'spot_rate',
+  'fee_pct',
+  'provider',
+  'band_at_time',
+  'notes',
+  'source_account_id',
+  'target_account_id',
+];
+
+/** Column values for a complete conversion, with the defaults used for new ones. */
+export function toConversionValues(data: ConversionInput): ConversionValues {
+  return {
+    date: data.date,
+    source_currency: data.sourceCurrency,
+    target_currency: data.targetCurrency,
+    source_amount: data.sourceAmount,
+    target_amount: data.targetAmount,
+    exchange_rate: data.rate,
+    spot_rate: data.spotRate ?? null,
+    fee_pct: data.feePct ?? 0,
+    provider: data.provider ?? 'WISE',
+    band_at_time: data.bandAtTime ?? null,
+    notes: data.notes ?? null,
+    source_account_id: data.sourceAccountId ?? null,
+    target_account_id: data.targetAccountId ?? null,
+  };
+}
+
+/** The inverse of toConversionValues, for merging a partial update before validation. */
+export function toConversionInput(row: ConversionValues): Record<string, unknown> {
+  return {
+    date: row.date,
+    sourceCurrency: row.source_currency,
+    targetCurrency: row.target_currency,
+    sourceAmount: row.source_amount,
+    targetAmount: row.target_amount,
+    rate: row.exchange_rate,
+    spotRate: row.spot_rate ?? undefined,
+    feePct: row.fee_pct ?? undefined,
+    provider: row.provider ?? undefined,
+    notes: row.notes ?? undefined,
+    bandAtTime: row.band_at_time,
+    sourceAccountId: row.source_account_id,
+    targetAccountId: row.target_account_id,
+  };
+}
+
+export function getConversion(db: DB, id: number): ConversionRecord | null {
+  return (db.select().from(conversions).where(eq(conversions.id, id)).get() as ConversionRecord | undefined) ?? null;
+}
+
+/**
+ * Apply new values to a conversion, first saving the current version as a
+ * revision. created_at is never touched. Returns null if the conversion does
+ * not exist; an update that changes nothing writes no revision.
+ */
+export function updateConversion(db: DB, id: number, values: ConversionValues): ConversionRecord | null {
+  return db.transaction((tx) => {
+    const current = tx.select().from(conversions).where(eq(conversions.id, id)).get() as
+      | ConversionRecord
+      | undefined;
+    if (!current) return null;
+
+    const changed = EDITABLE_FIELDS.filter((field) => current[field] !== values[field]);
+    if (changed.length === 0) return current;
+
+    tx.insert(conversionRevisions)
+      .values({
+        conversion_id: id,
+        snapshot: JSON.stringify(current),
+        changed_fields: changed.join(','),
+      })
+      .run();
+
+    return tx
+      .update(conversions)
+      .set(values)
+      .where(eq(conversions.id, id))
+      .returning()
+      .get() as ConversionRecord;
+  });
+}
+
+/** Revisions of a conversion, newest first. */
+export function getConversionRevisions(db: DB, conversionId: number): ConversionRevision[] {
+  return db
+    .select()
+    .from(conversionRevisions)
+    .where(eq(conversionRevisions.conversion_id, conversionId))
+    .orderBy(desc(conversionRevisions.id))
+    .all()
+    .map((row) => ({
+      ...row,
+      snapshot: JSON.parse(row.snapshot) as ConversionRecord,
+      changed_fields: row.changed_fields.split(',') as (keyof ConversionValues)[],
+    }));
+}
+
+/**
+ * The values saved in a revision, for restoring the conversion to that
+ * version; validate them as an edit before saving. Fields added since the
+ * snapshot was taken come back as null. Returns null if the conversion is
+ * missing or in the trash, or the revision does not belong to it.
+ */
+export function getRevisionValues(db: DB, conversionId: number, revisionId: number): ConversionValues | null {
+  const conversion = getConversion(db, conversionId);
+  if (!conversion || conversion.deleted_at) return null;
+
+  const revision = db
+    .select()
+    .from(conversionRevisions)
+    .where(and(eq(conversionRevisions.id, revisionId), eq(conversionRevisions.conversion_id, conversionId)))
+    .get();
+  if (!revision) return null;
+
+  const snapshot = JSON.parse(revision.snapshot) as Partial<ConversionRecord>;
+  return Object.fromEntries(EDITABLE_FIELDS.map((f) => [f, snapshot[f] ?? null])) as ConversionValues;
+}
@@ -0,0 +1,361 @@
+import { and, desc, inArray, isNull, lte } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { conversions, rateHistory } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { fromMinorUnits, getPairLegs, PRIMARY_PAIR, toMinorUnits } from '@/lib/finance/currency';
+import { parseCsvRecords, parseImportDate } from '@/lib/rates/import';
+import type { ConversionValues } from '@/lib/conversions/revisions';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type StatementFormat = 'wise' | 'revolut' | 'generic';
+export type StatementProvider = 'WISE' | 'REVOLUT' | 'OTHER';
+
+/** Header names for the generic format. Amounts may be signed; fee is in the source currency. */
+export interface ColumnMapping {
+  date: string;
+  sourceCurrency: string;
+  sourceAmount: string;
+  targetCurrency: string;
+  targetAmount: string;
+  fee?: string;
+}
+
+export interface StatementConversion {
+  line: number;             // first line of the file the exchange came from
+  date: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  sourceAmount: number;     // minor units, fees included
+  targetAmount: number;     // minor units received
+  fee: number;              // minor units of the source currency
+  reference: string | null;
+}
+
+export interface StatementError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedStatement {
+  conversions: StatementConversion[];
+  errors: StatementError[];
+  ignored: number;          // rows that are not GBP/JPY exchanges (card spend, top-ups, other pairs)
+}
+
+export interface StatementPreviewRow {
+  line: number;
+  duplicate: boolean;       // same date, currencies and amounts as a stored conversion or an earlier row
+  values: ConversionValues;
+}
+
+export interface StatementPreview {
+  rows: StatementPreviewRow[];
+  errors: StatementError[];
+  ignored: number;
+  duplicates: number;
+}
+
+const FORMAT_PROVIDERS: Record<StatementFormat, StatementProvider> = {
+  wise: 'WISE',
+  revolut: 'REVOLUT',
+  generic: 'OTHER',
+};
+
+// Exports from Wise (transaction history) and Revolut (account statement)
+const WISE_COLUMNS = ['ID', 'Status', 'Created on', 'Source fee amount', 'Source amount (after fees)', 'Source currency', 'Target amount (after fees)', 'Target currency'];
+const REVOLUT_COLUMNS = ['Type', 'Started Date', 'Description', 'Amount', 'Fee', 'Currency', 'State'];
+
+function readNumber(value: string | undefined): number {
+  return parseFloat((value ?? '').replace(/[,\s]/g, ''));
+}
+
+/** Dates, with or without a time, in any format the rate importer accepts. */
+function readDate(value: string | undefined): string | null {
+  const trimmed = (value ?? '').trim();
+  return parseImportDate(trimmed) ?? parseImportDate(trimmed.split(/[ T]/)[0]);
+}
+
+function isPrimaryExchange(source: string, target: string): boolean {
+  return (
+    (source === PRIMARY_PAIR.base && target === PRIMARY_PAIR.quote) ||
+    (source === PRIMARY_PAIR.quote && target === PRIMARY_PAIR.base)
+  );
+}
+
+function missingColumns(fields: string[], headerLine: number, required: string[]): StatementError[] {
+  return required
+    .filter((column) => !fields.includes(column))
+    .map((column) => ({ line: headerLine, message: `Column "${column}" not found` }));
+}
+
+function toConversion(
+  line: number,
+  date: string | null,
+  source: string,
+  target: string,
+  sourceMajor: number,
+  targetMajor: number,
+  feeMajor: number,
+  reference: string | null
+): StatementConversion | StatementError {
+  if (!date) return { line, message: 'Unreadable date' };
+  if (!Number.isFinite(sourceMajor) || !Number.isFinite(targetMajor) || sourceMajor <= 0 || targetMajor <= 0) {
+    return { line, message: 'Missing or zero amount' };
+  }
+
+  return {
+    line,
+    date,
+    sourceCurrency: source,
+    targetCurrency: target,
+    sourceAmount: toMinorUnits(sourceMajor + (Number.isFinite(feeMajor) ? feeMajor : 0), source),
+    targetAmount: toMinorUnits(targetMajor, target),
+    fee: Number.isFinite(feeMajor) ? toMinorUnits(feeMajor, source) : 0,
+    reference,
+  };
+}
+
+function collect(results: (StatementConversion | StatementError | null)[]): Omit<ParsedStatement, 'ignored'> {
+  const parsed: Omit<ParsedStatement, 'ignored'> = { conversions: [], errors: [] };
+  for (const result of results) {
+    if (!result) continue;
+    if ('message' in result) parsed.errors.push(result);
+    else parsed.conversions.push(result);
+  }
+  return parsed;
+}
+
+/**
+ * Wise transaction history: one row per transfer. A conversion between our
+ * own balances is a completed row whose source and target currencies differ.
+ */
+function parseWise(csv: string): ParsedStatement {
+  const { records, fields, headerLine } = parseCsvRecords(csv);
+  const errors = missingColumns(fields, headerLine, WISE_COLUMNS);
+  if (errors.length > 0) return { conversions: [], errors, ignored: 0 };
+
+  let ignored = 0;
+  const results = records.map(({ line, values: r }) => {
+    const source = r['Source currency']?.trim();
+    const target = r['Target currency']?.trim();
+    if (r['Status']?.trim() !== 'COMPLETED' || !isPrimaryExchange(source, target)) {
+      ignored++;
+      return null;
+    }
+
+    // Fees can be charged in either currency; only source-side fees are part of the cost
+    const feeCurrency = r['Source fee currency']?.trim();
+    const fee = !feeCurrency || feeCurrency === source ? readNumber(r['Source fee amount']) : 0;
+
+    return toConversion(
+      line,
+      readDate(r['Created on']),
+      source,
+      target,
+      readNumber(r['Source amount (after fees)']),
+      readNumber(r['Target amount (after fees)']),
+      fee,
+      r['ID']?.trim() || null
+    );
+  });
+
+  return { ...collect(results), ignored };
+}
+
+/**
+ * Revolut account statement: an exchange is two EXCHANGE rows started at the
+ * same moment, a debit in the source currency (fee separate) and a credit in
+ * the target currency.
+ */
+function parseRevolut(csv: string): ParsedStatement {
+  const { records, fields, headerLine } = parseCsvRecords(csv);
+  const errors = missingColumns(fields, headerLine, REVOLUT_COLUMNS);
+  if (errors.length > 0) return { conversions: [], errors, ignored: 0 };
+
+  let ignored = 0;
+  const legs = new Map<string, { line: number; record: Record<string, string> }[]>();
+
+  records.forEach(({ line, values: r }) => {
+    if (r['Type']?.trim() !== 'EXCHANGE' || r['State']?.trim() !== 'COMPLETED') {
+      ignored++;
+      return;
+    }
+    const key = r['Started Date']?.trim() ?? '';
+    legs.set(key, [...(legs.get(key) ?? []), { line, record: r }]);
+  });
+
+  const results: (StatementConversion | StatementError | null)[] = [];
+  for (const [startedAt, pair] of legs) {
+    const debit = pair.find((l) => readNumber(l.record['Amount']) < 0);
+    const credit = pair.find((l) => readNumber(l.record['Amount']) > 0);
+
+    if (pair.length !== 2 || !debit || !credit) {
+      results.push({ line: pair[0].line, message: `Unmatched exchange started ${startedAt}` });
+      continue;
+    }
+
+    const source = debit.record['Currency'].trim();
+    const target = credit.record['Currency'].trim();
+    if (!isPrimaryExchange(source, target)) {
+      ignored += 2;
+      continue;
+    }
+
+    results.push(
+      toConversion(
+        Math.min(debit.line, credit.line),
+        readDate(startedAt),
+        source,
+        target,
+        Math.abs(readNumber(debit.record['Amount'])),
+        readNumber(credit.record['Amount']),
+        Math.abs(readNumber(debit.record['Fee'])),
+        null
+      )
+    );
+  }
+
+  const parsed = collect(results);
+  parsed.conversions.sort((a, b) => a.line - b.line);
+  return { ...parsed, ignored };
+}
+
+function parseGeneric(csv: string, mapping: ColumnMapping): ParsedStatement {
+  const { records, fields, headerLine } = parseCsvRecords(csv);
+  const columns = [mapping.date, mapping.sourceCurrency, mapping.sourceAmount, mapping.targetCurrency, mapping.targetAmount];
+  const errors = missingColumns(fields, headerLine, mapping.fee ? [...columns, mapping.fee] : columns);
+  if (errors.length > 0) return { conversions: [], errors, ignored: 0 };
+
+  let ignored = 0;
+  const results = records.map(({ line, values: r }) => {
+    const source = r[mapping.sourceCurrency]?.trim().toUpperCase();
+    const target = r[mapping.targetCurrency]?.trim().toUpperCase();
+    if (!isPrimaryExchange(source, target)) {
+      ignored++;
+      return null;
+    }
+
+    return toConversion(
+      line,
+      readDate(r[mapping.date]),
+      source,
+      target,
+      Math.abs(readNumber(r[mapping.sourceAmount])),
+      Math.abs(readNumber(r[mapping.targetAmount])),
+      mapping.fee ? Math.abs(readNumber(r[mapping.fee])) : 0,
+      null
+    );
+  });
+
+  return { ...collect(results), ignored };
+}
+
+/** Extract GBP/JPY exchanges from a statement. Other rows are counted as ignored. */
+export function parseStatement(csv: string, format: StatementFormat, mapping?: ColumnMapping): ParsedStatement {
+  switch (format) {
+    case 'wise':
+      return parseWise(csv);
+    case 'revolut':
+      return parseRevolut(csv);
+    case 'generic':
+      if (!mapping) {
+        return { conversions: [], errors: [{ line: 1, message: 'Column mapping is required' }], ignored: 0 };
+      }
+      return parseGeneric(csv, mapping);
+  }
+}
+
+function dedupeKey(c: Pick<ConversionValues, 'date' | 'source_currency' | 'target_currency' | 'source_amount' | 'target_amount'>): string {
+  return [c.date, c.source_currency, c.target_currency, c.source_amount, c.target_amount].join('|');
+}
+
+/** Latest stored close on or before `date`, as the spot rate for the day. */
+function getSpotRate(db: DB, date: string): number | null {
+  const row = db
+    .select({ rate: rateHistory.rate })
+    .from(rateHistory)
+    .where(lte(rateHistory.date, date))
+    .orderBy(desc(rateHistory.date))
+    .limit(1)
+    .get();
+  return row?.rate ?? null;
+}
+
+/**
+ * Turn parsed exchanges into conversion rows: the effective rate from the
+ * amounts (fees included), spot_rate from rate_history and the fee as a
+ * percentage of the amount spent. Rows matching a stored conversion (outside
+ * the trash), or an earlier row in the same file, are flagged as duplicates.
+ */
+export function previewStatementImport(
+  db: DB,
+  parsed: ParsedStatement,
+  provider: StatementProvider
+): StatementPreview {
+  const dates = Array.from(new Set(parsed.conversions.map((c) => c.date)));
+  const seen = new Set<string>();
+
+  for (let i = 0; i < dates.length; i += 500) {
+    const existing = db
+      .select()
+      .from(conversions)
+      .where(and(inArray(conversions.date, dates.slice(i, i + 500)), isNull(conversions.deleted_at)))
+      .all();
+    existing.forEach((c) => seen.add(dedupeKey(c)));
+  }
+
+  let duplicates = 0;
+  const rows = parsed.conversions.map((c): StatementPreviewRow => {
+    const values: ConversionValues = {
+      date: c.date,
+      source_currency: c.sourceCurrency,
+      target_currency: c.targetCurrency,
+      source_amount: c.sourceAmount,
+      target_amount: c.targetAmount,
+      exchange_rate: 0,
+      spot_rate: getSpotRate(db, c.date),
+      fee_pct: c.sourceAmount > 0 ? Math.round((c.fee / c.sourceAmount) * 10000) / 100 : 0,
+      provider,
+      band_at_time: null,
+      notes: c.reference ? `Imported from statement (${c.reference})` : 'Imported from statement',
+      source_account_id: null,
+      target_account_id: null,
+    };
+
+    // Rates are always quoted as JPY per GBP, whichever way the money moved
+    const legs = getPairLegs(values, PRIMARY_PAIR)!;
+    values.exchange_rate =
+      fromMinorUnits(legs.quote, PRIMARY_PAIR.quote) / fromMinorUnits(legs.base, PRIMARY_PAIR.base);
+
+    const key = dedupeKey(values);
+    const duplicate = seen.has(key);
+    if (duplicate) duplicates++;
+    seen.add(key);
+
+    return { line: c.line, duplicate, values };
+  });
+
+  return { rows, errors: parsed.errors, ignored: parsed.ignored, duplicates };
+}
+
+/** Insert the previewed rows in one transaction, skipping duplicates unless told otherwise. */
+export function commitStatementImport(
+  db: DB,
+  preview: StatementPreview,
+  includeDuplicates: boolean = false
+): { inserted: number; skipped: number } {
+  const toInsert = preview.rows.filter((r) => includeDuplicates || !r.duplicate);
+
+  db.transaction((tx) => {
+    for (const row of toInsert) {
+      tx.insert(conversions).values(row.values).run();
+    }
+  });
+
+  return { inserted: toInsert.length, skipped: preview.rows.length - toInsert.length };
+}
+
+export function getStatementProvider(format: StatementFormat, override?: StatementProvider): StatementProvider {
+  return override ?? FORMAT_PROVIDERS[format];
+}
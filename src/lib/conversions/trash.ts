@@ -0,0 +1,77 @@
+import { and, desc, eq, inArray, isNotNull, isNull, or, sql } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { conversionRevisions, conversions, limitOrders, lotAssignments, planRuns } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import type { ConversionRecord } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+/**
+ * Move a conversion to the trash. It keeps its revisions and can be restored
+ * until purged. Returns null if there is no such conversion outside the trash.
+ */
+export function trashConversion(db: DB, id: number): ConversionRecord | null {
+  return (
+    (db
+      .update(conversions)
+      .set({ deleted_at: sql`(datetime('now'))` })
+      .where(and(eq(conversions.id, id), isNull(conversions.deleted_at)))
+      .returning()
+      .get() as ConversionRecord | undefined) ?? null
+  );
+}
+
+/** Take a conversion out of the trash. Returns null if it is not in the trash. */
+export function restoreConversion(db: DB, id: number): ConversionRecord | null {
+  return (
+    (db
+      .update(conversions)
+      .set({ deleted_at: null })
+      .where(and(eq(conversions.id, id), isNotNull(conversions.deleted_at)))
+      .returning()
+      .get() as ConversionRecord | undefined) ?? null
+  );
+}
+
+/** Conversions in the trash, most recently deleted first. */
+export function getTrashedConversions(db: DB): ConversionRecord[] {
+  return db
+    .select()
+    .from(conversions)
+    .where(isNotNull(conversions.deleted_at))
+    .orderBy(desc(conversions.deleted_at), desc(conversions.id))
+    .all() as ConversionRecord[];
+}
+
+/**
+ * Permanently delete trashed conversions along with their revisions and any
+ * lots chosen by or from them, reopen plan runs they confirmed and unlink
+ * limit orders they filled; every trashed conversion when no ids are given. Conversions outside the trash
+ * are never touched. Returns the number deleted.
+ */
+export function purgeConversions(db: DB, ids?: number[]): number {
+  return db.transaction((tx) => {
+    const trashed = tx
+      .select({ id: conversions.id })
+      .from(conversions)
+      .where(
+        ids
+          ? and(isNotNull(conversions.deleted_at), inArray(conversions.id, ids))
+          : isNotNull(conversions.deleted_at)
+      )
+      .all()
+      .map((r) => r.id);
+    if (trashed.length === 0) return 0;
+
+    tx.delete(conversionRevisions).where(inArray(conversionRevisions.conversion_id, trashed)).run();
+    tx.delete(lotAssignments)
+      .where(or(inArray(lotAssignments.disposal_id, trashed), inArray(lotAssignments.lot_id, trashed)))
+      .run();
+    // A plan run confirmed by a purged conversion is outstanding again
+    tx.delete(planRuns).where(inArray(planRuns.conversion_id, trashed)).run();
+    // A filled order stays filled, without the conversion that filled it
+    tx.update(limitOrders).set({ conversion_id: null }).where(inArray(limitOrders.conversion_id, trashed)).run();
+    tx.delete(conversions).where(inArray(conversions.id, trashed)).run();
+    return trashed.length;
+  });
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateBandTiers, migrateConversionsToPairs } from '@/lib/db/migrations';
+
+function createLegacyDb(): Database.Database {
+  const sqlite = new Database(':memory:');
+  sqlite.exec(`
+    CREATE TABLE conversions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      date TEXT NOT NULL,
+      direction TEXT NOT NULL DEFAULT 'GBP_TO_JPY',
+      gbp_amount INTEGER NOT NULL,
+      jpy_amount INTEGER NOT NULL,
+      exchange_rate REAL NOT NULL
+    );
+    INSERT INTO conversions (date, direction, gbp_amount, jpy_amount, exchange_rate)
+      VALUES ('2024-01-05', 'GBP_TO_JPY', 100000, 190000, 190),
+             ('2024-02-05', 'JPY_TO_GBP', 50000, 92500, 185);
+  `);
+  return sqlite;
+}
+
+describe('migrateConversionsToPairs', () => {
+  it('maps existing rows to GBP/JPY source and target amounts', () => {
+    const sqlite = createLegacyDb();
+
+    expect(migrateConversionsToPairs(sqlite)).toBe(2);
+
+    const rows = sqlite
+      .prepare('SELECT * FROM conversions ORDER BY id')
+      .all() as Record<string, unknown>[];
+
+    expect(rows[0]).toMatchObject({
+      source_currency: 'GBP',
+      target_currency: 'JPY',
+      source_amount: 100000,
+      target_amount: 190000,
+    });
+    expect(rows[1]).toMatchObject({
+      source_currency: 'JPY',
+      target_currency: 'GBP',
+      source_amount: 92500,
+      target_amount: 50000,
+    });
+    expect(rows[0]).not.toHaveProperty('gbp_amount');
+    expect(rows[0]).not.toHaveProperty('direction');
+  });
+
+  it('is a no-op once migrated', () => {
+    const sqlite = createLegacyDb();
+    migrateConversionsToPairs(sqlite);
+
+    expect(migrateConversionsToPairs(sqlite)).toBe(0);
+  });
+});
+
+function createBandDb(): Database.Database {
+  const sqlite = new Database(':memory:');
+  sqlite.exec(`
+    CREATE TABLE settings (
+      id INTEGER PRIMARY KEY,
+      aggressive_above REAL NOT NULL,
+      normal_above REAL NOT NULL,
+      hold_above REAL NOT NULL,
+      cap_aggressive_gbp INTEGER NOT NULL,
+      cap_normal_gbp INTEGER NOT NULL,
+      review_interval_days INTEGER NOT NULL DEFAULT 90
+    );
+    CREATE TABLE currency_pairs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      base_currency TEXT NOT NULL,
+      quote_currency TEXT NOT NULL,
+      aggressive_above REAL NOT NULL,
+      normal_above REAL NOT NULL,
+      hold_above REAL NOT NULL,
+      cap_aggressive INTEGER NOT NULL,
+      cap_normal INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    INSERT INTO settings (id, aggressive_above, normal_above, hold_above, cap_aggressive_gbp, cap_normal_gbp)
+      VALUES (1, 205, 192, 178, 250000, 120000);
+    INSERT INTO currency_pairs (base_currency, quote_currency, aggressive_above, normal_above, hold_above, cap_aggressive, cap_normal)
+      VALUES ('EUR', 'JPY', 165, 160, 150, 300000, 150000);
+  `);
+  return sqlite;
+}
+
+function tiersOf(sqlite: Database.Database, base: string, quote: string) {
+  return sqlite
+    .prepare(
+      `SELECT key, floor, monthly_cap, direction FROM band_tiers
+       WHERE base_currency = ? AND quote_currency = ? ORDER BY floor DESC`
+    )
+    .all(base, quote);
+}
+
+describe('migrateBandTiers', () => {
+  it('seeds four tiers per pair from the settings and pair thresholds', () => {
+    const sqlite = createBandDb();
+
+    expect(migrateBandTiers(sqlite)).toBe(8);
+
+    expect(tiersOf(sqlite, 'GBP', 'JPY')).toEqual([
+      { key: 'AGGRESSIVE_BUY', floor: 205, monthly_cap: 250000, direction: 'BUY' },
+      { key: 'NORMAL_BUY', floor: 192, monthly_cap: 120000, direction: 'BUY' },
+      { key: 'HOLD', floor: 178, monthly_cap: 0, direction: 'HOLD' },
+      { key: 'REVERSE', floor: 0, monthly_cap: 0, direction: 'REVERSE' },
+    ]);
+    expect(tiersOf(sqlite, 'EUR', 'JPY')).toEqual([
+      { key: 'AGGRESSIVE_BUY', floor: 165, monthly_cap: 300000, direction: 'BUY' },
+      { key: 'NORMAL_BUY', floor: 160, monthly_cap: 150000, direction: 'BUY' },
+      { key: 'HOLD', floor: 150, monthly_cap: 0, direction: 'HOLD' },
+      { key: 'REVERSE', floor: 0, monthly_cap: 0, direction: 'REVERSE' },
+    ]);
+  });
+
+  it('drops the old threshold columns', () => {
+    const sqlite = createBandDb();
+    migrateBandTiers(sqlite);
+
+    const columns = (table: string) =>
+      (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+
+    expect(columns('settings')).toEqual(['id', 'review_interval_days']);
+    expect(columns('currency_pairs')).toEqual(['id', 'base_currency', 'quote_currency', 'created_at']);
+  });
+
+  it('keeps a ladder stored before tiers had a pair as GBP/JPY', () => {
+    const sqlite = createBandDb();
+    sqlite.exec(`
+      CREATE TABLE band_tiers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL UNIQUE,
+        label TEXT NOT NULL,
+        floor REAL NOT NULL,
+        color TEXT NOT NULL DEFAULT 'gray',
+        monthly_cap INTEGER NOT NULL DEFAULT 0,
+        direction TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO band_tiers (key, label, floor, color, monthly_cap, direction)
+        VALUES ('STRONG', 'Strong', 200, 'emerald', 300000, 'BUY'),
+               ('BACK', 'Back', 0, 'red', 0, 'REVERSE');
+    `);
+
+    expect(migrateBandTiers(sqlite)).toBe(4);
+
+    expect(tiersOf(sqlite, 'GBP', 'JPY')).toEqual([
+      { key: 'STRONG', floor: 200, monthly_cap: 300000, direction: 'BUY' },
+      { key: 'BACK', floor: 0, monthly_cap: 0, direction: 'REVERSE' },
+    ]);
+    expect(tiersOf(sqlite, 'EUR', 'JPY')).toHaveLength(4);
+  });
+
+  it('is a no-op once migrated', () => {
+    const sqlite = createBandDb();
+    migrateBandTiers(sqlite);
+
+    expect(migrateBandTiers(sqlite)).toBe(0);
+  });
+});
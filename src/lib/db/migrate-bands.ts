@@ -0,0 +1,18 @@
+import Database from 'better-sqlite3';
+import { migrateBandTiers } from '@/lib/db/migrations';
+
+function migrate(): void {
+  const sqlite = new Database('./data/yen-tracker.db');
+  const migrated = migrateBandTiers(sqlite);
+
+  if (migrated > 0) {
+    console.log(`Moved band thresholds into ${migrated} tiers.`);
+  } else {
+    console.log('No band thresholds left to move, nothing to migrate.');
+  }
+
+  console.log('Now run `npm run db:push` to bring the rest of the schema up to date.');
+  sqlite.close();
+}
+
+migrate();
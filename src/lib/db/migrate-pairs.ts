@@ -0,0 +1,18 @@
+import Database from 'better-sqlite3';
+import { migrateConversionsToPairs } from '@/lib/db/migrations';
+
+function migrate(): void {
+  const sqlite = new Database('./data/yen-tracker.db');
+  const migrated = migrateConversionsToPairs(sqlite);
+
+  if (migrated > 0) {
+    console.log(`Mapped ${migrated} conversions to GBP/JPY source/target amounts.`);
+  } else {
+    console.log('Conversions already use currency pairs, nothing to migrate.');
+  }
+
+  console.log('Now run `npm run db:push` to create the currency_pairs table.');
+  sqlite.close();
+}
+
+migrate();
@@ -0,0 +1,158 @@
+import type Database from 'better-sqlite3';
+
+function columnNames(sqlite: Database.Database, table: string): string[] {
+  return (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(
+    (c) => c.name
+  );
+}
+
+/**
+ * Map conversions from the GBP/JPY-only layout (direction, gbp_amount,
+ * jpy_amount) onto source/target currency codes and minor-unit amounts.
+ * Every existing row is GBP/JPY; pence and yen are already minor units.
+ *
+ * Run before `db:push`, which would otherwise drop the old columns unmapped.
+ * Safe to re-run: returns 0 once the old columns are gone.
+ */
+export function migrateConversionsToPairs(sqlite: Database.Database): number {
+  const columns = columnNames(sqlite, 'conversions');
+  if (!columns.includes('gbp_amount')) return 0;
+
+  return sqlite.transaction(() => {
+    for (const [name, type, fallback] of [
+      ['source_currency', 'TEXT', "'GBP'"],
+      ['target_currency', 'TEXT', "'JPY'"],
+      ['source_amount', 'INTEGER', '0'],
+      ['target_amount', 'INTEGER', '0'],
+    ]) {
+      if (!columns.includes(name)) {
+        sqlite.exec(`ALTER TABLE conversions ADD COLUMN ${name} ${type} NOT NULL DEFAULT ${fallback}`);
+      }
+    }
+
+    const { changes } = sqlite
+      .prepare(
+        `UPDATE conversions SET
+           source_currency = CASE direction WHEN 'JPY_TO_GBP' THEN 'JPY' ELSE 'GBP' END,
+           target_currency = CASE direction WHEN 'JPY_TO_GBP' THEN 'GBP' ELSE 'JPY' END,
+           source_amount = CASE direction WHEN 'JPY_TO_GBP' THEN jpy_amount ELSE gbp_amount END,
+           target_amount = CASE direction WHEN 'JPY_TO_GBP' THEN gbp_amount ELSE jpy_amount END`
+      )
+      .run();
+
+    for (const name of ['direction', 'gbp_amount', 'jpy_amount']) {
+      if (columns.includes(name)) {
+        sqlite.exec(`ALTER TABLE conversions DROP COLUMN ${name}`);
+      }
+    }
+
+    return changes;
+  })();
+}
+
+const BAND_TIERS_DDL = `
+  CREATE TABLE band_tiers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    key TEXT NOT NULL,
+    label TEXT NOT NULL,
+    floor REAL NOT NULL,
+    color TEXT NOT NULL DEFAULT 'gray',
+    monthly_cap INTEGER NOT NULL DEFAULT 0,
+    direction TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE UNIQUE INDEX band_tiers_pair_key ON band_tiers (base_currency, quote_currency, key);
+`;
+
+const LEGACY_SETTINGS_COLUMNS = ['aggressive_above', 'normal_above', 'hold_above', 'cap_aggressive_gbp', 'cap_normal_gbp'];
+const LEGACY_PAIR_COLUMNS = ['aggressive_above', 'normal_above', 'hold_above', 'cap_aggressive', 'cap_normal'];
+
+interface LegacyBands {
+  base: string;
+  quote: string;
+  aggressiveAbove: number;
+  normalAbove: number;
+  holdAbove: number;
+  capAggressive: number;
+  capNormal: number;
+}
+
+/**
+ * Move band thresholds and caps out of settings (GBP/JPY) and currency_pairs
+ * (every other pair) into band_tiers, as four tiers per pair: aggressive and
+ * normal buy, hold, and a reverse zone from zero. Keys match the bands
+ * already stored on conversions. Pairs that already have tiers keep them, and
+ * a band_tiers table from before tiers had a pair is kept as GBP/JPY's.
+ *
+ * Run before `db:push`, which would otherwise drop the old columns unmapped.
+ * Safe to re-run: returns 0 once the old columns are gone.
+ */
+export function migrateBandTiers(sqlite: Database.Database): number {
+  const settingsColumns = columnNames(sqlite, 'settings');
+  const pairColumns = columnNames(sqlite, 'currency_pairs');
+  const tierColumns = columnNames(sqlite, 'band_tiers');
+
+  return sqlite.transaction(() => {
+    if (tierColumns.length === 0) {
+      sqlite.exec(BAND_TIERS_DDL);
+    } else if (!tierColumns.includes('base_currency')) {
+      sqlite.exec('ALTER TABLE band_tiers RENAME TO band_tiers_unpaired');
+      sqlite.exec(BAND_TIERS_DDL);
+      sqlite.exec(
+        `INSERT INTO band_tiers (base_currency, quote_currency, key, label, floor, color, monthly_cap, direction, created_at)
+         SELECT 'GBP', 'JPY', key, label, floor, color, monthly_cap, direction, created_at FROM band_tiers_unpaired`
+      );
+      sqlite.exec('DROP TABLE band_tiers_unpaired');
+    }
+
+    const legacy: LegacyBands[] = [];
+    if (settingsColumns.includes('aggressive_above')) {
+      const row = sqlite
+        .prepare(
+          `SELECT aggressive_above AS aggressiveAbove, normal_above AS normalAbove, hold_above AS holdAbove,
+                  cap_aggressive_gbp AS capAggressive, cap_normal_gbp AS capNormal
+           FROM settings WHERE id = 1`
+        )
+        .get() as Omit<LegacyBands, 'base' | 'quote'> | undefined;
+      if (row) legacy.push({ base: 'GBP', quote: 'JPY', ...row });
+    }
+    if (pairColumns.includes('aggressive_above')) {
+      legacy.push(
+        ...(sqlite
+          .prepare(
+            `SELECT base_currency AS base, quote_currency AS quote, aggressive_above AS aggressiveAbove,
+                    normal_above AS normalAbove, hold_above AS holdAbove, cap_aggressive AS capAggressive,
+                    cap_normal AS capNormal
+             FROM currency_pairs`
+          )
+          .all() as LegacyBands[])
+      );
+    }
+
+    const hasTiers = sqlite.prepare('SELECT 1 FROM band_tiers WHERE base_currency = ? AND quote_currency = ? LIMIT 1');
+    const insert = sqlite.prepare(
+      `INSERT INTO band_tiers (base_currency, quote_currency, key, label, floor, color, monthly_cap, direction)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    let seeded = 0;
+    for (const b of legacy) {
+      if (hasTiers.get(b.base, b.quote)) continue;
+      insert.run(b.base, b.quote, 'AGGRESSIVE_BUY', 'Aggressive Buy', b.aggressiveAbove, 'emerald', b.capAggressive, 'BUY');
+      insert.run(b.base, b.quote, 'NORMAL_BUY', 'Normal Buy', b.normalAbove, 'blue', b.capNormal, 'BUY');
+      insert.run(b.base, b.quote, 'HOLD', 'Hold', b.holdAbove, 'amber', 0, 'HOLD');
+      insert.run(b.base, b.quote, 'REVERSE', 'Reverse Zone', 0, 'red', 0, 'REVERSE');
+      seeded += 4;
+    }
+
+    for (const name of LEGACY_SETTINGS_COLUMNS.filter((c) => settingsColumns.includes(c))) {
+      sqlite.exec(`ALTER TABLE settings DROP COLUMN ${name}`);
+    }
+    for (const name of LEGACY_PAIR_COLUMNS.filter((c) => pairColumns.includes(c))) {
+      sqlite.exec(`ALTER TABLE currency_pairs DROP COLUMN ${name}`);
+    }
+
+    return seeded;
+  })();
+}
@@ -1,28 +1,126 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 
 export const conversions = sqliteTable('conversions', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   date: text('date').notNull(),
-  direction: text('direction').notNull().default('GBP_TO_JPY'),
-  gbp_amount: integer('gbp_amount').notNull(),
-  jpy_amount: integer('jpy_amount').notNull(),
+  source_currency: text('source_currency').notNull().default('GBP'),
+  target_currency: text('target_currency').notNull().default('JPY'),
+  source_amount: integer('source_amount').notNull(),   // minor units
+  target_amount: integer('target_amount').notNull(),   // minor units
   exchange_rate: real('exchange_rate').notNull(),
   spot_rate: real('spot_rate'),
   fee_pct: real('fee_pct').default(0),
   provider: text('provider').default('WISE'),
   band_at_time: text('band_at_time'),
   notes: text('notes'),
+  source_account_id: integer('source_account_id'),   // account the source currency left
+  target_account_id: integer('target_account_id'),   // account the target currency arrived in
   created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+  deleted_at: text('deleted_at'),   // set while the conversion is in the trash
 });
 
+// Every prior version of a conversion, written before each edit or revert
+export const conversionRevisions = sqliteTable('conversion_revisions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  conversion_id: integer('conversion_id').notNull(),
+  snapshot: text('snapshot').notNull(),           // JSON of the full row before the change
+  changed_fields: text('changed_fields').notNull(), // comma-separated column names
+  revised_at: text('revised_at').notNull().default(sql`(datetime('now'))`),
+});
+
+// Where money is held: a Wise balance, a bank account, cash
+export const accounts = sqliteTable('accounts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  currency: text('currency').notNull(),
+  kind: text('kind').notNull().default('BANK'),              // WISE | BANK | CASH | OTHER
+  opening_balance: integer('opening_balance').notNull().default(0),   // minor units
+  archived: integer('archived').notNull().default(0),
+  created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+});
+
+// Money moved between two accounts in the same currency
+export const transfers = sqliteTable('transfers', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  date: text('date').notNull(),
+  from_account_id: integer('from_account_id').notNull(),
+  to_account_id: integer('to_account_id').notNull(),
+  amount: integer('amount').notNull(),   // minor units arriving in to_account
+  fee: integer('fee').notNull().default(0),   // charged to from_account on top of amount
+  notes: text('notes'),
+  created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+});
+
+// Money spent out of a currency holding, so it no longer counts as held
+export const expenses = sqliteTable('expenses', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  date: text('date').notNull(),
+  currency: text('currency').notNull().default('JPY'),
+  amount: integer('amount').notNull(),   // minor units spent
+  account_id: integer('account_id'),     // paid from this account, if tracked
+  category: text('category'),
+  description: text('description'),
+  created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+});
+
+// Lots chosen for a reversal under the specific-lot method
+export const lotAssignments = sqliteTable('lot_assignments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  disposal_id: integer('disposal_id').notNull(),   // the quote -> base conversion
+  lot_id: integer('lot_id').notNull(),             // the base -> quote conversion drawn on
+  quote_amount: integer('quote_amount').notNull(), // minor units of the quote currency
+});
+
+// Conversions waiting on a target rate; checked on every rate fetch
+export const limitOrders = sqliteTable('limit_orders', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  source_currency: text('source_currency').notNull(),
+  target_currency: text('target_currency').notNull(),
+  amount: integer('amount').notNull(),                 // minor units of source_currency
+  condition: text('condition').notNull(),              // ABOVE | BELOW
+  target_rate: real('target_rate').notNull(),
+  expires_on: text('expires_on'),
+  status: text('status').notNull().default('PENDING'),
+  triggered_rate: real('triggered_rate'),
+  triggered_at: text('triggered_at'),
+  conversion_id: integer('conversion_id'),
+  notes: text('notes'),
+  created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+});
+
+// A fixed conversion made every month whatever the band
+export const recurringPlans = sqliteTable('recurring_plans', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  source_currency: text('source_currency').notNull(),
+  target_currency: text('target_currency').notNull(),
+  amount: integer('amount').notNull(),                 // minor units of source_currency
+  day_of_month: integer('day_of_month').notNull(),     // 29-31 fall on the last day of shorter months
+  provider: text('provider').notNull().default('WISE'),
+  start_date: text('start_date').notNull(),
+  end_date: text('end_date'),
+  active: integer('active').notNull().default(1),
+  notes: text('notes'),
+  created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+});
+
+// A scheduled run of a plan that has been confirmed or skipped; runs with no
+// row are still upcoming, due or missed
+export const planRuns = sqliteTable(
+  'plan_runs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    plan_id: integer('plan_id').notNull(),
+    scheduled_date: text('scheduled_date').notNull(),
+    status: text('status').notNull(),                  // CONFIRMED | SKIPPED
+    conversion_id: integer('conversion_id'),           // the conversion that confirmed it
+    created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+  },
+  (table) => [uniqueIndex('plan_runs_plan_date').on(table.plan_id, table.scheduled_date)]
+);
+
 export const settings = sqliteTable('settings', {
   id: integer('id').primaryKey().default(1),
-  aggressive_above: real('aggressive_above').notNull().default(200),
-  normal_above: real('normal_above').notNull().default(190),
-  hold_above: real('hold_above').notNull().default(175),
-  cap_aggressive_gbp: integer('cap_aggressive_gbp').notNull().default(200000),
-  cap_normal_gbp: integer('cap_normal_gbp').notNull().default(100000),
   total_gbp_savings_pence: integer('total_gbp_savings_pence').notNull().default(5000000),
   max_fx_exposure_pct: integer('max_fx_exposure_pct').notNull().default(80),
   monthly_jpy_expenses: integer('monthly_jpy_expenses').notNull().default(250000),
@@ -36,22 +134,73 @@ export const settings = sqliteTable('settings', {
   scenario_worst_rate: real('scenario_worst_rate').notNull().default(170),
   last_band_review: text('last_band_review'),
   review_interval_days: integer('review_interval_days').notNull().default(90),
+  rate_providers: text('rate_providers').notNull().default('frankfurter,ecb'),
+  manual_rate: real('manual_rate'),
+  stale_after_hours: integer('stale_after_hours').notNull().default(12),
+  stale_hard_limit_hours: integer('stale_hard_limit_hours').notNull().default(72),
+  anomaly_std_devs: real('anomaly_std_devs').notNull().default(3),
+  anomaly_window_days: integer('anomaly_window_days').notNull().default(20),
+  anomaly_max_jump_pct: real('anomaly_max_jump_pct').notNull().default(5),
+  sizing_mode: text('sizing_mode', { enum: ['stepped', 'linear', 'exponential', 'percentile'] }).notNull().default('stepped'),
   updated_at: text('updated_at').notNull().default(sql`(datetime('now'))`),
 });
 
+// Each pair's band ladder; a rate falls in the tier with the highest floor at
+// or below it. Keys are stored on conversions and alerts, so they never change
+export const bandTiers = sqliteTable(
+  'band_tiers',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    base_currency: text('base_currency').notNull(),
+    quote_currency: text('quote_currency').notNull(),
+    key: text('key').notNull(),
+    label: text('label').notNull(),
+    floor: real('floor').notNull(),
+    color: text('color').notNull().default('gray'),
+    monthly_cap: integer('monthly_cap').notNull().default(0),   // minor units of base
+    direction: text('direction').notNull(),   // BUY | HOLD | REVERSE
+    created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+  },
+  (table) => [uniqueIndex('band_tiers_pair_key').on(table.base_currency, table.quote_currency, table.key)]
+);
+
+// Pairs tracked besides GBP/JPY, each with its own ladder in band_tiers
+export const currencyPairs = sqliteTable(
+  'currency_pairs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    base_currency: text('base_currency').notNull(),
+    quote_currency: text('quote_currency').notNull(),
+    created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
+  },
+  (table) => [uniqueIndex('currency_pairs_base_quote').on(table.base_currency, table.quote_currency)]
+);
+
 export const rateHistory = sqliteTable('rate_history', {
   date: text('date').primaryKey(),
-  rate: real('rate').notNull(),
+  rate: real('rate').notNull(),   // close
+  open: real('open'),
+  high: real('high'),
+  low: real('low'),
   source: text('source').notNull().default('frankfurter'),
   fetched_at: text('fetched_at').notNull().default(sql`(datetime('now'))`),
 });
 
+export const rateSnapshots = sqliteTable('rate_snapshots', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  date: text('date').notNull(),
+  rate: real('rate').notNull(),
+  source: text('source').notNull(),
+  fetched_at: text('fetched_at').notNull(),
+});
+
 export const alerts = sqliteTable('alerts', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   type: text('type').notNull(),
   message: text('message').notNull(),
   rate: real('rate'),
   band: text('band'),
+  dedupe_key: text('dedupe_key'),
   acknowledged: integer('acknowledged').notNull().default(0),
   created_at: text('created_at').notNull().default(sql`(datetime('now'))`),
 });
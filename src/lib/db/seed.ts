@@ -1,5 +1,8 @@
 import { db } from '@/lib/db/client';
 import { settings } from '@/lib/db/schema';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { DEFAULT_LADDER } from '@/lib/strategy/bands';
+import { getBandTiers, saveBandTiers } from '@/lib/strategy/pairs';
 
 async function seed(): Promise<void> {
   try {
@@ -14,6 +17,11 @@ async function seed(): Promise<void> {
       console.log('Settings already exist, skipping seed.');
     }
 
+    if (getBandTiers(db, PRIMARY_PAIR).length === 0) {
+      saveBandTiers(db, PRIMARY_PAIR, DEFAULT_LADDER);
+      console.log('Default band ladder inserted.');
+    }
+
     console.log('Seed complete.');
   } catch (error: unknown) {
     if (
@@ -0,0 +1,172 @@
+import Database from 'better-sqlite3';
+import { drizzle, type BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import * as schema from '@/lib/db/schema';
+
+/**
+ * DDL mirroring schema.ts, for tests that run against an in-memory database.
+ * Keep in sync when adding tables or columns.
+ */
+const TEST_DDL = `
+  CREATE TABLE conversions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date TEXT NOT NULL,
+    source_currency TEXT NOT NULL DEFAULT 'GBP',
+    target_currency TEXT NOT NULL DEFAULT 'JPY',
+    source_amount INTEGER NOT NULL,
+    target_amount INTEGER NOT NULL,
+    exchange_rate REAL NOT NULL,
+    spot_rate REAL,
+    fee_pct REAL DEFAULT 0,
+    provider TEXT DEFAULT 'WISE',
+    band_at_time TEXT,
+    notes TEXT,
+    source_account_id INTEGER,
+    target_account_id INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    deleted_at TEXT
+  );
+
+  CREATE TABLE conversion_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversion_id INTEGER NOT NULL,
+    snapshot TEXT NOT NULL,
+    changed_fields TEXT NOT NULL,
+    revised_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'BANK',
+    opening_balance INTEGER NOT NULL DEFAULT 0,
+    archived INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE transfers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date TEXT NOT NULL,
+    from_account_id INTEGER NOT NULL,
+    to_account_id INTEGER NOT NULL,
+    amount INTEGER NOT NULL,
+    fee INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE expenses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date TEXT NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'JPY',
+    amount INTEGER NOT NULL,
+    account_id INTEGER,
+    category TEXT,
+    description TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE lot_assignments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    disposal_id INTEGER NOT NULL,
+    lot_id INTEGER NOT NULL,
+    quote_amount INTEGER NOT NULL
+  );
+
+  CREATE TABLE limit_orders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_currency TEXT NOT NULL,
+    target_currency TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    condition TEXT NOT NULL,
+    target_rate REAL NOT NULL,
+    expires_on TEXT,
+    status TEXT NOT NULL DEFAULT 'PENDING',
+    triggered_rate REAL,
+    triggered_at TEXT,
+    conversion_id INTEGER,
+    notes TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE recurring_plans (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_currency TEXT NOT NULL,
+    target_currency TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    day_of_month INTEGER NOT NULL,
+    provider TEXT NOT NULL DEFAULT 'WISE',
+    start_date TEXT NOT NULL,
+    end_date TEXT,
+    active INTEGER NOT NULL DEFAULT 1,
+    notes TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE plan_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    plan_id INTEGER NOT NULL,
+    scheduled_date TEXT NOT NULL,
+    status TEXT NOT NULL,
+    conversion_id INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE UNIQUE INDEX plan_runs_plan_date ON plan_runs (plan_id, scheduled_date);
+
+  CREATE TABLE band_tiers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    key TEXT NOT NULL,
+    label TEXT NOT NULL,
+    floor REAL NOT NULL,
+    color TEXT NOT NULL DEFAULT 'gray',
+    monthly_cap INTEGER NOT NULL DEFAULT 0,
+    direction TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE UNIQUE INDEX band_tiers_pair_key ON band_tiers (base_currency, quote_currency, key);
+
+  CREATE TABLE currency_pairs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE UNIQUE INDEX currency_pairs_base_quote ON currency_pairs (base_currency, quote_currency);
+
+  CREATE TABLE rate_history (
+    date TEXT PRIMARY KEY,
+    rate REAL NOT NULL,
+    open REAL,
+    high REAL,
+    low REAL,
+    source TEXT NOT NULL DEFAULT 'frankfurter',
+    fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE rate_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date TEXT NOT NULL,
+    rate REAL NOT NULL,
+    source TEXT NOT NULL,
+    fetched_at TEXT NOT NULL
+  );
+
+  CREATE TABLE alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    message TEXT NOT NULL,
+    rate REAL,
+    band TEXT,
+    dedupe_key TEXT,
+    acknowledged INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+`;
+
+export function createTestDb(): BetterSQLite3Database<typeof schema> {
+  const sqlite = new Database(':memory:');
+  sqlite.exec(TEST_DDL);
+  return drizzle(sqlite, { schema });
+}
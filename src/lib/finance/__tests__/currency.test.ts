@@ -8,6 +8,10 @@ import {
   convertGbpToJpy,
   convertJpyToGbp,
   calculateEffectiveRate,
+  formatMoney,
+  getPairLegs,
+  parsePairKey,
+  toMinorUnits,
 } from '@/lib/finance/currency';
 
 describe('penceToPounds', () => {
@@ -98,3 +102,33 @@ describe('poundsToPence — edge cases', () => {
   });
 });
 
+describe('currency pairs', () => {
+  it('parses pair keys and rejects unknown or self pairs', () => {
+    expect(parsePairKey('eur/jpy')).toEqual({ base: 'EUR', quote: 'JPY' });
+    expect(parsePairKey('GBP/CHF')).toBeNull();
+    expect(parsePairKey('USD/USD')).toBeNull();
+    expect(parsePairKey(null)).toBeNull();
+  });
+
+  it('converts and formats minor units per currency', () => {
+    expect(toMinorUnits(12.34, 'EUR')).toBe(1234);
+    expect(toMinorUnits(1500.4, 'JPY')).toBe(1500);
+    expect(formatMoney(123456, 'USD')).toBe('$1,234.56');
+    expect(formatMoney(100000, 'GBP')).toBe(formatGBP(100000));
+    expect(formatMoney(190000, 'JPY')).toBe(formatJPY(190000));
+  });
+
+  it('reads a conversion from either side of a pair', () => {
+    const pair = { base: 'GBP', quote: 'JPY' } as const;
+
+    expect(
+      getPairLegs({ source_currency: 'GBP', target_currency: 'JPY', source_amount: 100000, target_amount: 190000 }, pair)
+    ).toEqual({ forward: true, base: 100000, quote: 190000 });
+    expect(
+      getPairLegs({ source_currency: 'JPY', target_currency: 'GBP', source_amount: 95000, target_amount: 50000 }, pair)
+    ).toEqual({ forward: false, base: 50000, quote: 95000 });
+    expect(
+      getPairLegs({ source_currency: 'EUR', target_currency: 'JPY', source_amount: 100000, target_amount: 160000 }, pair)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { calculateConversionCost, calculateFeeReport } from '@/lib/finance/fees';
+import type { ConversionRecord } from '@/types';
+
+function mockConversion(overrides: Partial<ConversionRecord>): ConversionRecord {
+  return {
+    id: 1,
+    date: '2024-01-10',
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: 100000,     // £1000
+    target_amount: 198000,     // ¥198,000
+    exchange_rate: 198,
+    spot_rate: 200,
+    fee_pct: 0.4,
+    provider: 'WISE',
+    band_at_time: null,
+    notes: null,
+    source_account_id: null,
+    target_account_id: null,
+    created_at: '2024-01-10T00:00:00',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+describe('calculateConversionCost', () => {
+  it('splits the cost against spot into the fee and the hidden spread', () => {
+    const cost = calculateConversionCost(mockConversion({}))!;
+
+    // ¥198,000 against ¥200,000 at spot: 1%, £10 or ¥2000, of which 0.4% is the fee
+    expect(cost.costPct).toBeCloseTo(1, 6);
+    expect(cost.costBase).toBe(1000);
+    expect(cost.costQuote).toBe(2000);
+    expect(cost.feeBase).toBe(400);
+    expect(cost.spreadBase).toBe(600);
+    expect(cost.spreadPct).toBeCloseTo(0.6, 6);
+  });
+
+  it('measures a JPY to GBP conversion against the yen given up', () => {
+    const cost = calculateConversionCost(
+      mockConversion({
+        source_currency: 'JPY',
+        target_currency: 'GBP',
+        source_amount: 200000,    // ¥200,000, worth £1000 at spot
+        target_amount: 98000,     // £980 received
+        fee_pct: 0,
+      })
+    )!;
+
+    expect(cost.forward).toBe(false);
+    expect(cost.costPct).toBeCloseTo(2, 6);
+    expect(cost.costBase).toBe(2000);
+    expect(cost.spotValueBase).toBe(100000);
+  });
+
+  it('returns null without a spot rate or outside the pair', () => {
+    expect(calculateConversionCost(mockConversion({ spot_rate: null }))).toBeNull();
+    expect(calculateConversionCost(mockConversion({ source_currency: 'EUR' }))).toBeNull();
+  });
+});
+
+describe('calculateFeeReport', () => {
+  const conversions = [
+    mockConversion({ id: 1 }),                                            // Wise, 1%
+    mockConversion({ id: 2, date: '2024-02-10', target_amount: 199000 }), // Wise, 0.5%
+    mockConversion({
+      id: 3,
+      date: '2024-02-15',
+      provider: 'REVOLUT',
+      source_amount: 200000,
+      target_amount: 392000,                                             // 2%
+      fee_pct: 0,
+    }),
+    mockConversion({ id: 4, spot_rate: null }),
+    mockConversion({ id: 5, deleted_at: '2024-03-01 10:00:00' }),
+  ];
+
+  it('totals costs and counts conversions it could not cost', () => {
+    const report = calculateFeeReport(conversions);
+
+    expect(report.pair).toBe('GBP/JPY');
+    expect(report.conversions.map((c) => c.id)).toEqual([1, 2, 3]);
+    expect(report.withoutSpot).toBe(1);
+    expect(report.totals.costBase).toBe(1000 + 500 + 4000);
+    // £55 on £4000 of spot value
+    expect(report.totals.costPct).toBeCloseTo(1.375, 6);
+  });
+
+  it('averages cost per provider and per month, weighted by value', () => {
+    const report = calculateFeeReport(conversions);
+
+    const wise = report.providers.find((p) => p.provider === 'WISE')!;
+    expect(wise.conversions).toBe(2);
+    expect(wise.costPct).toBeCloseTo(0.75, 6);
+    expect(wise.feePct).toBeCloseTo(0.4, 6);
+
+    expect(report.monthly.map((m) => [m.month, m.provider])).toEqual([
+      ['2024-01', 'WISE'],
+      ['2024-02', 'REVOLUT'],
+      ['2024-02', 'WISE'],
+    ]);
+  });
+
+  it('reprices the whole history at each provider, cheapest first', () => {
+    const report = calculateFeeReport(conversions);
+
+    expect(report.comparison.map((c) => c.provider)).toEqual(['WISE', 'REVOLUT']);
+    // £4000 of spot value at 0.75% and at 2%, against £55 actually paid
+    expect(report.comparison[0].costBase).toBe(3000);
+    expect(report.comparison[0].differenceBase).toBe(-2500);
+    expect(report.comparison[1].costBase).toBe(8000);
+    expect(report.comparison[1].differenceBase).toBe(2500);
+  });
+});
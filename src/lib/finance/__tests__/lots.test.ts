@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLots } from '@/lib/finance/lots';
+import type { ConversionRecord } from '@/types';
+
+function mockConversion(overrides: Partial<ConversionRecord>): ConversionRecord {
+  return {
+    id: 1,
+    date: '2024-01-10',
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: 100000,     // £1000
+    target_amount: 180000,     // ¥180,000
+    exchange_rate: 180,
+    spot_rate: null,
+    fee_pct: 0,
+    provider: 'WISE',
+    band_at_time: null,
+    notes: null,
+    source_account_id: null,
+    target_account_id: null,
+    created_at: '2024-01-10T00:00:00',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+function mockReversal(overrides: Partial<ConversionRecord>): ConversionRecord {
+  return mockConversion({
+    source_currency: 'JPY',
+    target_currency: 'GBP',
+    ...overrides,
+  });
+}
+
+// Two lots at 180 and 200, then ¥190,000 sold back for £1000 at 190
+const HISTORY = [
+  mockReversal({ id: 3, date: '2024-03-10', source_amount: 190000, target_amount: 100000, exchange_rate: 190 }),
+  mockConversion({ id: 2, date: '2024-02-10', target_amount: 200000, exchange_rate: 200 }),
+  mockConversion({ id: 1 }),
+];
+
+describe('calculateLots', () => {
+  it('matches a reversal against the oldest lots first', () => {
+    const report = calculateLots(HISTORY, 200, 'fifo');
+    const [disposal] = report.disposals;
+
+    // All of the first lot (£1000) and ¥10,000 of the second (£50)
+    expect(disposal.matches).toEqual([
+      { lotId: 1, quote: 180000, cost: 100000 },
+      { lotId: 2, quote: 10000, cost: 5000 },
+    ]);
+    expect(disposal.cost).toBe(105000);
+    expect(disposal.realisedPnl).toBe(-5000);
+    expect(report.realisedPnl).toBe(-5000);
+
+    expect(report.openLots.map((l) => [l.conversionId, l.remainingQuote, l.remainingCost])).toEqual([
+      [2, 190000, 95000],
+    ]);
+    // ¥190,000 is worth £950 at 200, exactly its cost
+    expect(report.openLots[0].currentValue).toBe(95000);
+    expect(report.unrealisedPnl).toBe(0);
+    expect(report.averageCostRate).toBeCloseTo(200, 6);
+  });
+
+  it('draws on every open lot pro rata at the average cost', () => {
+    const report = calculateLots(HISTORY, 200, 'average');
+
+    // Half of everything held, at £1 per ¥190
+    expect(report.disposals[0].cost).toBe(100000);
+    expect(report.disposals[0].realisedPnl).toBe(0);
+    expect(report.openLots.map((l) => [l.conversionId, l.remainingQuote, l.remainingCost])).toEqual([
+      [1, 90000, 50000],
+      [2, 100000, 50000],
+    ]);
+    expect(report.averageCostRate).toBeCloseTo(190, 6);
+  });
+
+  it('uses the chosen lots and falls back to FIFO for the rest', () => {
+    const chosen = calculateLots(HISTORY, 200, 'specific', [{ disposalId: 3, lotId: 2, quote: 190000 }]);
+    expect(chosen.disposals[0].matches).toEqual([{ lotId: 2, quote: 190000, cost: 95000 }]);
+    expect(chosen.realisedPnl).toBe(5000);
+    expect(chosen.openLots.map((l) => [l.conversionId, l.remainingQuote])).toEqual([
+      [1, 180000],
+      [2, 10000],
+    ]);
+
+    const partial = calculateLots(HISTORY, 200, 'specific', [{ disposalId: 3, lotId: 2, quote: 100000 }]);
+    expect(partial.disposals[0].matches).toEqual([
+      { lotId: 2, quote: 100000, cost: 50000 },
+      { lotId: 1, quote: 90000, cost: 50000 },
+    ]);
+
+    // Choices are ignored by the other methods
+    expect(calculateLots(HISTORY, 200, 'fifo', [{ disposalId: 3, lotId: 2, quote: 190000 }]).realisedPnl).toBe(-5000);
+  });
+
+  it('accumulates realised P&L across reversals', () => {
+    const report = calculateLots(
+      [
+        ...HISTORY,
+        mockReversal({ id: 4, date: '2024-04-10', source_amount: 95000, target_amount: 50000, exchange_rate: 190 }),
+      ],
+      200,
+      'fifo'
+    );
+
+    // The second reversal takes half of what is left of the £1000 lot at 200
+    expect(report.disposals.map((d) => d.realisedPnl)).toEqual([-5000, 2500]);
+    expect(report.disposals.map((d) => d.cumulativeRealisedPnl)).toEqual([-5000, -2500]);
+    expect(report.realisedPnl).toBe(-2500);
+  });
+
+  it('leaves quote sold beyond the open lots unmatched', () => {
+    const report = calculateLots(
+      [
+        mockReversal({ id: 1, date: '2024-01-01', source_amount: 100000, target_amount: 50000, exchange_rate: 200 }),
+        mockConversion({ id: 2, date: '2024-01-05', source_amount: 25000, target_amount: 50000, exchange_rate: 200 }),
+        mockReversal({ id: 3, date: '2024-01-20', source_amount: 100000, target_amount: 50000, exchange_rate: 200 }),
+      ],
+      200
+    );
+
+    expect(report.disposals[0]).toMatchObject({ unmatchedQuote: 100000, proceeds: 0, cost: 0, realisedPnl: 0 });
+    // Half came from the lot, so half the proceeds count
+    expect(report.disposals[1]).toMatchObject({ unmatchedQuote: 50000, proceeds: 25000, cost: 25000, realisedPnl: 0 });
+    expect(report.openLots).toEqual([]);
+    expect(report.averageCostRate).toBe(0);
+  });
+
+  it('ignores conversions in the trash', () => {
+    const report = calculateLots(
+      HISTORY.map((c) => (c.id === 3 ? { ...c, deleted_at: '2024-03-11 09:00:00' } : c)),
+      200
+    );
+
+    expect(report.disposals).toEqual([]);
+    expect(report.openQuote).toBe(380000);
+    expect(report.openCost).toBe(200000);
+  });
+});
@@ -6,16 +6,20 @@ function mockConversion(overrides: Partial<ConversionRecord>): ConversionRecord
   return {
     id: 1,
     date: '2024-01-01',
-    direction: 'GBP_TO_JPY',
-    gbp_amount: 100000,
-    jpy_amount: 190000,
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: 100000,
+    target_amount: 190000,
     exchange_rate: 190,
     spot_rate: null,
     fee_pct: null,
     provider: 'WISE',
     band_at_time: null,
     notes: null,
+    source_account_id: null,
+    target_account_id: null,
     created_at: '2024-01-01T00:00:00',
+    deleted_at: null,
     ...overrides,
   };
 }
@@ -23,32 +27,45 @@ function mockConversion(overrides: Partial<ConversionRecord>): ConversionRecord
 describe('calculatePortfolioSummary', () => {
   it('returns all zeros for empty conversions', () => {
     const summary = calculatePortfolioSummary([], 200);
-    expect(summary.totalGbpConverted).toBe(0);
-    expect(summary.netGbpDeployed).toBe(0);
-    expect(summary.totalJpyAcquired).toBe(0);
+    expect(summary.totalBaseConverted).toBe(0);
+    expect(summary.netBaseDeployed).toBe(0);
+    expect(summary.totalQuoteAcquired).toBe(0);
     expect(summary.weightedAvgRate).toBe(0);
-    expect(summary.currentValueGbp).toBe(0);
-    expect(summary.unrealisedPnlGbp).toBe(0);
+    expect(summary.currentValueBase).toBe(0);
+    expect(summary.unrealisedPnlBase).toBe(0);
     expect(summary.unrealisedPnlPct).toBe(0);
     expect(summary.conversionCount).toBe(0);
   });
 
   it('calculates P&L for a single GBP to JPY conversion', () => {
     const conversions = [mockConversion({})];
-    // £1000 at 190 = ¥190000. Current rate 200 => currentValueGbp = (190000/200)*100 = 95000
+    // £1000 at 190 = ¥190000. Current rate 200 => currentValueBase = (190000/200)*100 = 95000
     const summary = calculatePortfolioSummary(conversions, 200);
 
-    expect(summary.totalGbpConverted).toBe(100000);
-    expect(summary.netGbpDeployed).toBe(100000);
-    expect(summary.totalJpyAcquired).toBe(190000);
-    expect(summary.currentValueGbp).toBe(95000);
-    expect(summary.unrealisedPnlGbp).toBe(-5000);
+    expect(summary.totalBaseConverted).toBe(100000);
+    expect(summary.netBaseDeployed).toBe(100000);
+    expect(summary.totalQuoteAcquired).toBe(190000);
+    expect(summary.currentValueBase).toBe(95000);
+    expect(summary.unrealisedPnlBase).toBe(-5000);
+  });
+
+  it('values what is actually held when given', () => {
+    // ¥190,000 bought for £1,000, ¥100,000 still held: worth £500 at 200,
+    // and its share of the cost is 100/190 of £1,000
+    const summary = calculatePortfolioSummary([mockConversion({})], 200, undefined, 100000);
+
+    expect(summary.totalQuoteAcquired).toBe(190000);
+    expect(summary.heldQuote).toBe(100000);
+    expect(summary.consumedQuote).toBe(90000);
+    expect(summary.heldCostBase).toBe(52632);
+    expect(summary.currentValueBase).toBe(50000);
+    expect(summary.unrealisedPnlBase).toBe(-2632);
   });
 
   it('calculates weighted average rate across two conversions', () => {
     const conversions = [
-      mockConversion({ id: 1, gbp_amount: 100000, jpy_amount: 190000, exchange_rate: 190 }),
-      mockConversion({ id: 2, gbp_amount: 200000, jpy_amount: 400000, exchange_rate: 200 }),
+      mockConversion({ id: 1, source_amount: 100000, target_amount: 190000, exchange_rate: 190 }),
+      mockConversion({ id: 2, source_amount: 200000, target_amount: 400000, exchange_rate: 200 }),
     ];
     // weightedAvg = (190*100000 + 200*200000) / 300000 = 196.6667
     const summary = calculatePortfolioSummary(conversions, 200);
@@ -56,25 +73,63 @@ describe('calculatePortfolioSummary', () => {
     expect(summary.weightedAvgRate).toBeCloseTo(196.67, 1);
   });
 
-  it('handles mixed directions with netGbpDeployed', () => {
+  it('handles mixed directions with netBaseDeployed', () => {
     const conversions = [
-      mockConversion({ id: 1, direction: 'GBP_TO_JPY', gbp_amount: 100000, jpy_amount: 190000, exchange_rate: 190 }),
-      mockConversion({ id: 2, direction: 'JPY_TO_GBP', gbp_amount: 26300, jpy_amount: 50000, exchange_rate: 190 }),
+      mockConversion({ id: 1, source_amount: 100000, target_amount: 190000, exchange_rate: 190 }),
+      mockConversion({ id: 2, source_currency: 'JPY', target_currency: 'GBP', source_amount: 50000, target_amount: 26300, exchange_rate: 190 }),
     ];
     const summary = calculatePortfolioSummary(conversions, 190);
 
-    // totalJpyAcquired = 190000 - 50000 = 140000
-    expect(summary.totalJpyAcquired).toBe(140000);
-    // netGbpDeployed = 100000 - 26300 = 73700
-    expect(summary.netGbpDeployed).toBe(73700);
-    // currentValueGbp = (140000/190)*100 = 73684 (rounded)
-    expect(summary.currentValueGbp).toBe(Math.round((140000 / 190) * 100));
+    // totalQuoteAcquired = 190000 - 50000 = 140000
+    expect(summary.totalQuoteAcquired).toBe(140000);
+    // netBaseDeployed = 100000 - 26300 = 73700
+    expect(summary.netBaseDeployed).toBe(73700);
+    // currentValueBase = (140000/190)*100 = 73684 (rounded)
+    expect(summary.currentValueBase).toBe(Math.round((140000 / 190) * 100));
   });
 
   it('handles division by zero when currentRate is 0', () => {
     const conversions = [mockConversion({})];
     const summary = calculatePortfolioSummary(conversions, 0);
 
-    expect(summary.currentValueGbp).toBe(0);
+    expect(summary.currentValueBase).toBe(0);
+  });
+
+  it('only counts conversions in the requested pair', () => {
+    const conversions = [
+      mockConversion({ id: 1 }),
+      mockConversion({
+        id: 2,
+        source_currency: 'EUR',
+        target_currency: 'JPY',
+        source_amount: 100000,
+        target_amount: 160000,
+        exchange_rate: 160,
+      }),
+    ];
+
+    const gbpJpy = calculatePortfolioSummary(conversions, 190);
+    expect(gbpJpy.pair).toBe('GBP/JPY');
+    expect(gbpJpy.conversionCount).toBe(1);
+    expect(gbpJpy.totalQuoteAcquired).toBe(190000);
+
+    const eurJpy = calculatePortfolioSummary(conversions, 160, { base: 'EUR', quote: 'JPY' });
+    expect(eurJpy.conversionCount).toBe(1);
+    expect(eurJpy.totalBaseConverted).toBe(100000);
+    expect(eurJpy.weightedAvgRate).toBe(160);
+    // ¥160000 at 160 = €1000.00
+    expect(eurJpy.currentValueBase).toBe(100000);
+  });
+
+  it('ignores conversions in the trash', () => {
+    const conversions = [
+      mockConversion({ id: 1 }),
+      mockConversion({ id: 2, exchange_rate: 200, target_amount: 200000, deleted_at: '2024-02-01 10:00:00' }),
+    ];
+
+    const summary = calculatePortfolioSummary(conversions, 190);
+    expect(summary.conversionCount).toBe(1);
+    expect(summary.totalBaseConverted).toBe(100000);
+    expect(summary.weightedAvgRate).toBe(190);
   });
 });
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTaxReport, parseTaxYear } from '@/lib/finance/tax';
+import { taxReportToCsv, taxReportToHtml } from '@/lib/finance/tax-report';
+import type { ConversionRecord } from '@/types';
+
+function buyYen(id: number, date: string, pence: number, yen: number): ConversionRecord {
+  return {
+    id,
+    date,
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: pence,
+    target_amount: yen,
+    exchange_rate: yen / (pence / 100),
+    spot_rate: null,
+    fee_pct: 0,
+    provider: 'WISE',
+    band_at_time: null,
+    notes: null,
+    source_account_id: null,
+    target_account_id: null,
+    created_at: `${date}T00:00:00`,
+    deleted_at: null,
+  };
+}
+
+function sellYen(id: number, date: string, yen: number, pence: number): ConversionRecord {
+  return {
+    ...buyYen(id, date, pence, yen),
+    source_currency: 'JPY',
+    target_currency: 'GBP',
+    source_amount: yen,
+    target_amount: pence,
+  };
+}
+
+describe('parseTaxYear', () => {
+  it('runs UK years from 6 April and JP years by calendar', () => {
+    expect(parseTaxYear('2024-2025', 'uk')).toEqual({ start: '2024-04-06', end: '2025-04-05' });
+    expect(parseTaxYear('2024', 'jp')).toEqual({ start: '2024-01-01', end: '2024-12-31' });
+    expect(parseTaxYear('2024-2024', 'jp')).toEqual({ start: '2024-01-01', end: '2024-12-31' });
+    expect(parseTaxYear('2024', 'uk')).toBeNull();
+  });
+});
+
+describe('calculateTaxReport (UK)', () => {
+  const history = [
+    buyYen(1, '2024-05-01', 100000, 200000),     // pool: ¥200,000 for £1000
+    sellYen(2, '2024-06-10', 150000, 80000),     // ¥150,000 for £800
+    buyYen(3, '2024-06-10', 50000, 125000),      // same day, at 250
+    buyYen(4, '2024-06-25', 20000, 40000),       // within 30 days, at 200
+    sellYen(5, '2024-08-01', 107500, 50000),
+    sellYen(6, '2025-04-06', 10000, 5000),       // next tax year
+    buyYen(7, '2025-05-01', 10000, 20000),
+  ];
+
+  it('matches same-day, then 30-day acquisitions before the section 104 pool', () => {
+    const report = calculateTaxReport(history, 'uk', '2024-2025')!;
+    const [first, second] = report.disposals;
+
+    expect(first.matches).toEqual([
+      { rule: 'same-day', acquisitionId: 3, quantity: 125000, cost: 50000 },
+      { rule: '30-day', acquisitionId: 4, quantity: 25000, cost: 12500 },
+    ]);
+    expect(first.gain).toBe(80000 - 62500);
+
+    // The pool holds ¥215,000 for £1075, so half of it costs £537.50
+    expect(second.matches).toEqual([{ rule: 's104', acquisitionId: null, quantity: 107500, cost: 53750 }]);
+    expect(second.gain).toBe(-3750);
+  });
+
+  it('summarises the year and the pool at its end', () => {
+    const report = calculateTaxReport(history, 'uk', '2024-2025')!;
+
+    expect(report.asset).toBe('JPY');
+    expect(report.currency).toBe('GBP');
+    expect(report.disposals.map((d) => d.conversionId)).toEqual([2, 5]);
+    expect(report.summary).toEqual({
+      disposals: 2,
+      proceeds: 130000,
+      cost: 116250,
+      gains: 17500,
+      losses: 3750,
+      net: 13750,
+      unmatchedQuantity: 0,
+    });
+    expect(report.pool).toEqual({ quantity: 107500, cost: 53750 });
+  });
+});
+
+describe('calculateTaxReport (JP)', () => {
+  it('costs pounds sold at the moving average of earlier purchases, in yen', () => {
+    const report = calculateTaxReport(
+      [
+        sellYen(1, '2024-01-10', 300000, 150000),  // £1500 at 200
+        sellYen(2, '2024-02-10', 360000, 150000),  // £1500 at 240
+        buyYen(3, '2024-03-10', 100000, 230000),   // £1000 sold for ¥230,000
+        sellYen(4, '2024-04-10', 250000, 100000),  // £1000 at 250
+        buyYen(5, '2024-05-10', 150000, 330000),   // £1500 sold for ¥330,000
+      ],
+      'jp',
+      '2024'
+    )!;
+
+    expect(report.asset).toBe('GBP');
+    expect(report.currency).toBe('JPY');
+    expect(report.disposals.map((d) => [d.cost, d.gain])).toEqual([
+      [220000, 10000],
+      [345000, -15000],
+    ]);
+    expect(report.disposals[0].matches[0].rule).toBe('moving-average');
+    expect(report.summary.net).toBe(-5000);
+    expect(report.pool).toEqual({ quantity: 150000, cost: 345000 });
+  });
+
+  it('reports pounds with no recorded purchase unmatched unless an opening rate is given', () => {
+    const history = [buyYen(1, '2024-03-10', 100000, 200000)];
+
+    const unmatched = calculateTaxReport(history, 'jp', '2024')!;
+    expect(unmatched.disposals[0]).toMatchObject({ unmatchedQuantity: 100000, proceeds: 0, cost: 0, gain: 0 });
+
+    const opening = calculateTaxReport(history, 'jp', '2024', { openingRate: 180 })!;
+    expect(opening.disposals[0]).toMatchObject({ unmatchedQuantity: 0, cost: 180000, gain: 20000 });
+    expect(opening.disposals[0].matches[0].rule).toBe('opening');
+  });
+
+  it('returns null for an unreadable tax year', () => {
+    expect(calculateTaxReport([], 'jp', 'next')).toBeNull();
+  });
+});
+
+describe('tax report rendering', () => {
+  const report = calculateTaxReport(
+    [buyYen(1, '2024-05-01', 100000, 200000), sellYen(2, '2024-06-01', 100000, 52000)],
+    'uk',
+    '2024-2025'
+  )!;
+
+  it('writes a CSV row per disposal and a total', () => {
+    const lines = taxReportToCsv(report).split(/\r?\n/);
+
+    expect(lines[0]).toBe(
+      'Date,Conversion,Disposed (JPY),Proceeds (GBP),Cost (GBP),Gain (GBP),Matched,Unmatched (JPY)'
+    );
+    expect(lines[1]).toBe('2024-06-01,2,100000,520,500,20,"Section 104 pool: ¥100,000",0');
+    expect(lines[2]).toMatch(/^Total,/);
+  });
+
+  it('renders a standalone HTML page', () => {
+    const html = taxReportToHtml(report);
+
+    expect(html).toContain('<title>UK capital gains on JPY, tax year 2024-2025</title>');
+    expect(html).toContain('£20.00');
+  });
+});
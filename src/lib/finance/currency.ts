@@ -1,3 +1,5 @@
+import type { ConversionRecord, CurrencyCode, CurrencyPair } from '@/types';
+
 export function penceToPounds(pence: number): number {
   return Math.round(pence) / 100;
 }
@@ -30,3 +32,91 @@ export function convertJpyToGbp(jpy: number, rate: number): number {
 export function calculateEffectiveRate(jpyAmount: number, gbpPence: number): number {
   return gbpPence > 0 ? jpyAmount / (gbpPence / 100) : 0;
 }
+
+// ── Currency pairs ────────────────────────────────────────────────────
+
+interface CurrencyInfo {
+  symbol: string;
+  minorDigits: number;   // decimal places of the minor unit (pence = 2, yen = 0)
+  locale: string;
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  GBP: { symbol: '\u00A3', minorDigits: 2, locale: 'en-GB' },
+  JPY: { symbol: '\u00A5', minorDigits: 0, locale: 'ja-JP' },
+  EUR: { symbol: '\u20AC', minorDigits: 2, locale: 'en-IE' },
+  USD: { symbol: '$', minorDigits: 2, locale: 'en-US' },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+/** The pair the strategy was built around, listed first wherever pairs are. */
+export const PRIMARY_PAIR: CurrencyPair = { base: 'GBP', quote: 'JPY' };
+
+export function isCurrencyCode(code: string): code is CurrencyCode {
+  return (CURRENCY_CODES as string[]).includes(code);
+}
+
+export function pairKey(pair: CurrencyPair): string {
+  return `${pair.base}/${pair.quote}`;
+}
+
+/** Parse 'EUR/JPY'. Returns null for unknown codes or a currency paired with itself. */
+export function parsePairKey(key: string | null | undefined): CurrencyPair | null {
+  const [base, quote, ...rest] = (key ?? '').toUpperCase().split('/');
+  if (rest.length > 0 || !isCurrencyCode(base) || !isCurrencyCode(quote) || base === quote) {
+    return null;
+  }
+  return { base, quote };
+}
+
+export function isPrimaryPair(pair: CurrencyPair): boolean {
+  return pair.base === PRIMARY_PAIR.base && pair.quote === PRIMARY_PAIR.quote;
+}
+
+function minorFactor(code: string): number {
+  return 10 ** (isCurrencyCode(code) ? CURRENCIES[code].minorDigits : 2);
+}
+
+export function toMinorUnits(major: number, code: string): number {
+  return Math.round(major * minorFactor(code));
+}
+
+export function fromMinorUnits(minor: number, code: string): number {
+  return Math.round(minor) / minorFactor(code);
+}
+
+/** Format a minor-unit amount, e.g. formatMoney(12345, 'EUR') -> '€123.45'. */
+export function formatMoney(minor: number, code: string): string {
+  if (!isCurrencyCode(code)) {
+    return `${fromMinorUnits(minor, code).toFixed(2)} ${code}`;
+  }
+  const { symbol, minorDigits, locale } = CURRENCIES[code];
+  const major = fromMinorUnits(minor, code);
+  return `${symbol}${major.toLocaleString(locale, { minimumFractionDigits: minorDigits, maximumFractionDigits: minorDigits })}`;
+}
+
+export interface PairLegs {
+  forward: boolean;   // base -> quote (e.g. GBP -> JPY); false for quote -> base
+  base: number;       // minor units of the base currency
+  quote: number;      // minor units of the quote currency
+}
+
+/**
+ * A conversion's amounts as seen from `pair`, or null if the conversion is
+ * between other currencies.
+ */
+export function getPairLegs(
+  conversion: Pick<ConversionRecord, 'source_currency' | 'target_currency' | 'source_amount' | 'target_amount'>,
+  pair: CurrencyPair
+): PairLegs | null {
+  const { source_currency: source, target_currency: target } = conversion;
+
+  if (source === pair.base && target === pair.quote) {
+    return { forward: true, base: conversion.source_amount, quote: conversion.target_amount };
+  }
+  if (source === pair.quote && target === pair.base) {
+    return { forward: false, base: conversion.target_amount, quote: conversion.source_amount };
+  }
+  return null;
+}
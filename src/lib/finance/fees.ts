@@ -0,0 +1,190 @@
+import type { ConversionRecord, CurrencyPair } from '@/types';
+import { fromMinorUnits, getPairLegs, pairKey, PRIMARY_PAIR, toMinorUnits } from '@/lib/finance/currency';
+
+const UNKNOWN_PROVIDER = 'OTHER';
+
+/**
+ * What one conversion cost against the spot rate logged with it. Amounts are
+ * minor units: `...Base` in the pair's base currency, `...Quote` in the quote.
+ * The explicit fee is fee_pct of the amount spent; the spread is whatever
+ * the effective rate lost on top of it.
+ */
+export interface ConversionCost {
+  id: number;
+  date: string;
+  provider: string;
+  forward: boolean;
+  volumeBase: number;        // base currency spent or received
+  spotValueBase: number;     // what was given up, valued at spot
+  effectiveRate: number;
+  spotRate: number;
+  costPct: number;           // total cost as a percentage of the spot value
+  feePct: number;
+  spreadPct: number;
+  costBase: number;
+  costQuote: number;
+  feeBase: number;
+  spreadBase: number;
+}
+
+export interface CostTotals {
+  conversions: number;
+  volumeBase: number;
+  costBase: number;
+  costQuote: number;
+  feeBase: number;
+  spreadBase: number;
+  costPct: number;           // weighted by spot value
+}
+
+export interface ProviderCostSummary extends CostTotals {
+  provider: string;
+  feePct: number;
+  spreadPct: number;
+}
+
+export interface MonthlyProviderCost {
+  month: string;             // YYYY-MM
+  provider: string;
+  volumeBase: number;
+  costBase: number;
+  costPct: number;
+}
+
+/** The cost of the whole history had every conversion been made at one provider's average. */
+export interface ProviderComparison {
+  provider: string;
+  costPct: number;
+  costBase: number;
+  differenceBase: number;    // against what was actually paid; negative is a saving
+}
+
+export interface FeeReport {
+  pair: string;
+  conversions: ConversionCost[];
+  totals: CostTotals;
+  providers: ProviderCostSummary[];
+  monthly: MonthlyProviderCost[];
+  comparison: ProviderComparison[];
+  withoutSpot: number;       // conversions in the pair that could not be costed
+}
+
+/** Cost of a single conversion, or null if it is outside the pair or has no spot rate. */
+export function calculateConversionCost(
+  c: ConversionRecord,
+  pair: CurrencyPair = PRIMARY_PAIR
+): ConversionCost | null {
+  const legs = getPairLegs(c, pair);
+  if (!legs || c.spot_rate == null || c.spot_rate <= 0 || legs.base <= 0 || legs.quote <= 0) {
+    return null;
+  }
+
+  const base = fromMinorUnits(legs.base, pair.base);
+  const quote = fromMinorUnits(legs.quote, pair.quote);
+  const spot = c.spot_rate;
+
+  // Value lost against spot, measured in what was given up
+  const costPct = legs.forward ? (1 - quote / (base * spot)) * 100 : (1 - (base * spot) / quote) * 100;
+  // Cost in base: forward the spot value of the base spent, reverse the base
+  // the quote would have bought at spot
+  const spotValueBase = legs.forward ? base : quote / spot;
+  const costBaseMajor = (spotValueBase * costPct) / 100;
+  const feePct = c.fee_pct ?? 0;
+  const feeBaseMajor = (spotValueBase * feePct) / 100;
+
+  return {
+    id: c.id,
+    date: c.date,
+    provider: c.provider ?? UNKNOWN_PROVIDER,
+    forward: legs.forward,
+    volumeBase: legs.base,
+    spotValueBase: toMinorUnits(spotValueBase, pair.base),
+    effectiveRate: quote / base,
+    spotRate: spot,
+    costPct,
+    feePct,
+    spreadPct: costPct - feePct,
+    costBase: toMinorUnits(costBaseMajor, pair.base),
+    costQuote: toMinorUnits(costBaseMajor * spot, pair.quote),
+    feeBase: toMinorUnits(feeBaseMajor, pair.base),
+    spreadBase: toMinorUnits(costBaseMajor - feeBaseMajor, pair.base),
+  };
+}
+
+function sumCosts(costs: ConversionCost[]): CostTotals {
+  const totals = costs.reduce(
+    (t, c) => ({
+      conversions: t.conversions + 1,
+      volumeBase: t.volumeBase + c.volumeBase,
+      costBase: t.costBase + c.costBase,
+      costQuote: t.costQuote + c.costQuote,
+      feeBase: t.feeBase + c.feeBase,
+      spreadBase: t.spreadBase + c.spreadBase,
+      costPct: 0,
+    }),
+    { conversions: 0, volumeBase: 0, costBase: 0, costQuote: 0, feeBase: 0, spreadBase: 0, costPct: 0 }
+  );
+  totals.costPct = weightedPct(costs, (c) => c.costPct);
+  return totals;
+}
+
+function weightedPct(costs: ConversionCost[], pct: (c: ConversionCost) => number): number {
+  const value = costs.reduce((s, c) => s + c.spotValueBase, 0);
+  return value > 0 ? costs.reduce((s, c) => s + pct(c) * c.spotValueBase, 0) / value : 0;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Spread and fee analysis for every conversion in the pair that has a spot
+ * rate, skipping the trash. Provider and monthly averages are weighted by
+ * spot value. The comparison reprices the whole history at each provider's
+ * overall average cost, cheapest first.
+ */
+export function calculateFeeReport(
+  conversions: ConversionRecord[],
+  pair: CurrencyPair = PRIMARY_PAIR
+): FeeReport {
+  const costs: ConversionCost[] = [];
+  let withoutSpot = 0;
+
+  for (const c of conversions) {
+    if (c.deleted_at || !getPairLegs(c, pair)) continue;
+    const cost = calculateConversionCost(c, pair);
+    if (cost) costs.push(cost);
+    else withoutSpot++;
+  }
+  costs.sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+  const totals = sumCosts(costs);
+
+  const providers = Array.from(groupBy(costs, (c) => c.provider), ([provider, group]) => ({
+    provider,
+    ...sumCosts(group),
+    feePct: weightedPct(group, (c) => c.feePct),
+    spreadPct: weightedPct(group, (c) => c.spreadPct),
+  })).sort((a, b) => b.volumeBase - a.volumeBase);
+
+  const monthly = Array.from(groupBy(costs, (c) => `${c.date.slice(0, 7)}|${c.provider}`), ([key, group]) => {
+    const { volumeBase, costBase, costPct } = sumCosts(group);
+    const [month, provider] = key.split('|');
+    return { month, provider, volumeBase, costBase, costPct };
+  }).sort((a, b) => a.month.localeCompare(b.month) || a.provider.localeCompare(b.provider));
+
+  const spotValueTotal = costs.reduce((s, c) => s + c.spotValueBase, 0);
+  const comparison = providers
+    .map(({ provider, costPct }) => {
+      const costBase = Math.round((spotValueTotal * costPct) / 100);
+      return { provider, costPct, costBase, differenceBase: costBase - totals.costBase };
+    })
+    .sort((a, b) => a.costBase - b.costBase);
+
+  return { pair: pairKey(pair), conversions: costs, totals, providers, monthly, comparison, withoutSpot };
+}
@@ -0,0 +1,228 @@
+import type { ConversionRecord, CurrencyPair } from '@/types';
+import { fromMinorUnits, getPairLegs, pairKey, PRIMARY_PAIR, toMinorUnits } from '@/lib/finance/currency';
+
+/**
+ * How a reversal (quote -> base) is matched against earlier purchases:
+ * oldest lots first, every open lot pro rata at the pooled average cost, or
+ * lots chosen per reversal (anything left unchosen falls back to FIFO).
+ */
+export type LotMethod = 'fifo' | 'average' | 'specific';
+
+export const LOT_METHODS: LotMethod[] = ['fifo', 'average', 'specific'];
+
+/** Quote currency from one purchase put against one reversal, for the specific-lot method. */
+export interface LotAssignment {
+  disposalId: number;
+  lotId: number;
+  quote: number;   // minor units of the quote currency
+}
+
+/**
+ * A purchase of the quote currency. Amounts are minor units; cost is the base
+ * currency paid, so the cost basis of each remaining unit stays at `rate`.
+ */
+export interface Lot {
+  conversionId: number;
+  date: string;
+  rate: number;
+  quote: number;
+  cost: number;
+  remainingQuote: number;
+  remainingCost: number;
+}
+
+export interface OpenLot extends Lot {
+  currentValue: number;     // remaining quote at the current rate, in base
+  unrealisedPnl: number;
+}
+
+export interface LotMatch {
+  lotId: number;
+  quote: number;
+  cost: number;
+}
+
+export interface Disposal {
+  conversionId: number;
+  date: string;
+  rate: number;
+  quoteSold: number;
+  proceeds: number;         // base received for the matched part
+  cost: number;
+  realisedPnl: number;
+  cumulativeRealisedPnl: number;
+  unmatchedQuote: number;   // sold beyond what earlier purchases hold, e.g. salary
+  matches: LotMatch[];
+}
+
+export interface LotReport {
+  pair: string;
+  method: LotMethod;
+  lots: Lot[];              // every purchase, with what is left of it
+  openLots: OpenLot[];
+  disposals: Disposal[];
+  realisedPnl: number;
+  unrealisedPnl: number;
+  openQuote: number;
+  openCost: number;
+  averageCostRate: number;  // quote per base across open lots; 0 when nothing is held
+}
+
+// Take `quote` from a lot, charging its share of the remaining cost; a lot
+// emptied completely gives up whatever cost is left so rounding never strands pence
+function takeFromLot(lot: Lot, quote: number): LotMatch {
+  const taken = Math.min(quote, lot.remainingQuote);
+  const cost = taken === lot.remainingQuote
+    ? lot.remainingCost
+    : Math.round((lot.remainingCost * taken) / lot.remainingQuote);
+  lot.remainingQuote -= taken;
+  lot.remainingCost -= cost;
+  return { lotId: lot.conversionId, quote: taken, cost };
+}
+
+function matchFifo(lots: Lot[], quote: number): LotMatch[] {
+  const matches: LotMatch[] = [];
+  let left = quote;
+  for (const lot of lots) {
+    if (left === 0) break;
+    if (lot.remainingQuote === 0) continue;
+    const match = takeFromLot(lot, left);
+    left -= match.quote;
+    matches.push(match);
+  }
+  return matches;
+}
+
+function matchAverage(lots: Lot[], quote: number): LotMatch[] {
+  const open = lots.filter((l) => l.remainingQuote > 0);
+  const held = open.reduce((s, l) => s + l.remainingQuote, 0);
+  if (held === 0) return [];
+
+  const target = Math.min(quote, held);
+  if (target === held) return open.map((lot) => takeFromLot(lot, lot.remainingQuote));
+
+  // Every lot gives up the same fraction; the last takes the rounding remainder
+  const matches: LotMatch[] = [];
+  let left = target;
+  open.forEach((lot, i) => {
+    const share = i === open.length - 1
+      ? Math.min(left, lot.remainingQuote)
+      : Math.min(Math.round((lot.remainingQuote * target) / held), left);
+    if (share === 0) return;
+    const match = takeFromLot(lot, share);
+    left -= match.quote;
+    matches.push(match);
+  });
+  // Rounding can leave a unit or two; take it oldest first
+  if (left > 0) matches.push(...matchFifo(lots, left));
+  return matches;
+}
+
+function matchSpecific(lots: Lot[], quote: number, chosen: LotAssignment[]): LotMatch[] {
+  const matches: LotMatch[] = [];
+  let left = quote;
+  for (const assignment of chosen) {
+    const lot = lots.find((l) => l.conversionId === assignment.lotId);
+    if (!lot || lot.remainingQuote === 0 || left === 0) continue;
+    const match = takeFromLot(lot, Math.min(assignment.quote, left));
+    left -= match.quote;
+    matches.push(match);
+  }
+  if (left > 0) matches.push(...matchFifo(lots, left));
+  return matches;
+}
+
+/**
+ * Replay conversions in the pair in date order, opening a lot for each
+ * purchase of the quote currency and matching each reversal against the open
+ * lots. Realised P&L is the base received less the matched cost; quote sold
+ * beyond the open lots is reported unmatched and its share of the proceeds
+ * left out. Conversions in the trash are skipped.
+ */
+export function calculateLots(
+  conversions: ConversionRecord[],
+  currentRate: number,
+  method: LotMethod = 'fifo',
+  assignments: LotAssignment[] = [],
+  pair: CurrencyPair = PRIMARY_PAIR
+): LotReport {
+  const ordered = conversions
+    .filter((c) => !c.deleted_at)
+    .map((c) => ({ c, legs: getPairLegs(c, pair) }))
+    .filter((x): x is { c: ConversionRecord; legs: NonNullable<typeof x.legs> } => x.legs !== null)
+    .sort((a, b) => a.c.date.localeCompare(b.c.date) || a.c.id - b.c.id);
+
+  const lots: Lot[] = [];
+  const disposals: Disposal[] = [];
+  let realisedPnl = 0;
+
+  for (const { c, legs } of ordered) {
+    if (legs.forward) {
+      lots.push({
+        conversionId: c.id,
+        date: c.date,
+        rate: c.exchange_rate,
+        quote: legs.quote,
+        cost: legs.base,
+        remainingQuote: legs.quote,
+        remainingCost: legs.base,
+      });
+      continue;
+    }
+
+    const matches =
+      method === 'average'
+        ? matchAverage(lots, legs.quote)
+        : method === 'specific'
+          ? matchSpecific(lots, legs.quote, assignments.filter((a) => a.disposalId === c.id))
+          : matchFifo(lots, legs.quote);
+
+    const matchedQuote = matches.reduce((s, m) => s + m.quote, 0);
+    const cost = matches.reduce((s, m) => s + m.cost, 0);
+    const proceeds = matchedQuote === legs.quote
+      ? legs.base
+      : Math.round((legs.base * matchedQuote) / legs.quote);
+    const pnl = proceeds - cost;
+    realisedPnl += pnl;
+
+    disposals.push({
+      conversionId: c.id,
+      date: c.date,
+      rate: c.exchange_rate,
+      quoteSold: legs.quote,
+      proceeds,
+      cost,
+      realisedPnl: pnl,
+      cumulativeRealisedPnl: realisedPnl,
+      unmatchedQuote: legs.quote - matchedQuote,
+      matches,
+    });
+  }
+
+  const openLots = lots
+    .filter((l) => l.remainingQuote > 0)
+    .map((lot) => {
+      const currentValue = currentRate > 0
+        ? toMinorUnits(fromMinorUnits(lot.remainingQuote, pair.quote) / currentRate, pair.base)
+        : 0;
+      return { ...lot, currentValue, unrealisedPnl: currentValue - lot.remainingCost };
+    });
+
+  const openQuote = openLots.reduce((s, l) => s + l.remainingQuote, 0);
+  const openCost = openLots.reduce((s, l) => s + l.remainingCost, 0);
+
+  return {
+    pair: pairKey(pair),
+    method,
+    lots,
+    openLots,
+    disposals,
+    realisedPnl,
+    unrealisedPnl: openLots.reduce((s, l) => s + l.unrealisedPnl, 0),
+    openQuote,
+    openCost,
+    averageCostRate: openCost > 0
+      ? fromMinorUnits(openQuote, pair.quote) / fromMinorUnits(openCost, pair.base)
+      : 0,
+  };
+}
@@ -1,65 +1,100 @@
-import type { ConversionRecord, PortfolioSummary } from '@/types';
-
-export function calculateWeightedAvgRate(conversions: ConversionRecord[]): number {
-  const gbpToJpy = conversions.filter((c) => c.direction === 'GBP_TO_JPY');
-
-  if (gbpToJpy.length === 0) {
-    return 0;
-  }
+import type { ConversionRecord, CurrencyPair, PortfolioSummary } from '@/types';
+import { fromMinorUnits, getPairLegs, pairKey, PRIMARY_PAIR, toMinorUnits } from '@/lib/finance/currency';
 
+export function calculateWeightedAvgRate(
+  conversions: ConversionRecord[],
+  pair: CurrencyPair = PRIMARY_PAIR
+): number {
   let totalWeightedRate = 0;
-  let totalGbpAmount = 0;
+  let totalBaseAmount = 0;
+
+  for (const c of conversions) {
+    if (c.deleted_at) continue;
+    const legs = getPairLegs(c, pair);
+    if (!legs?.forward) continue;
 
-  for (const c of gbpToJpy) {
-    totalWeightedRate += c.exchange_rate * c.gbp_amount;
-    totalGbpAmount += c.gbp_amount;
+    totalWeightedRate += c.exchange_rate * legs.base;
+    totalBaseAmount += legs.base;
   }
 
-  if (totalGbpAmount === 0) {
+  if (totalBaseAmount === 0) {
     return 0;
   }
 
-  return totalWeightedRate / totalGbpAmount;
+  return totalWeightedRate / totalBaseAmount;
 }
 
+/**
+ * `heldQuote` is what is still held of the quote bought by conversions, net
+ * of spending and without opening balances (see calculateHoldings); without
+ * it everything ever bought is assumed to still be held.
+ * Quote that has been consumed takes its average share of the cost with it,
+ * so P&L is reported only on what remains.
+ */
 export function calculatePortfolioSummary(
   conversions: ConversionRecord[],
-  currentRate: number
+  currentRate: number,
+  pair: CurrencyPair = PRIMARY_PAIR,
+  heldQuote?: number
 ): PortfolioSummary {
-  const gbpToJpy = conversions.filter((c) => c.direction === 'GBP_TO_JPY');
-  const jpyToGbp = conversions.filter((c) => c.direction === 'JPY_TO_GBP');
+  let totalBaseConverted = 0;
+  let baseReceived = 0;
+  let quoteAcquired = 0;
+  let quoteReturned = 0;
+  let conversionCount = 0;
 
-  const totalGbpConverted = gbpToJpy.reduce((sum, c) => sum + c.gbp_amount, 0);
-  const gbpReceived = jpyToGbp.reduce((sum, c) => sum + c.gbp_amount, 0);
-  const netGbpDeployed = totalGbpConverted - gbpReceived;
+  for (const c of conversions) {
+    if (c.deleted_at) continue;
+    const legs = getPairLegs(c, pair);
+    if (!legs) continue;
 
-  const jpyAcquired = gbpToJpy.reduce((sum, c) => sum + c.jpy_amount, 0);
-  const jpyReturned = jpyToGbp.reduce((sum, c) => sum + c.jpy_amount, 0);
-  const totalJpyAcquired = jpyAcquired - jpyReturned;
+    conversionCount++;
+    if (legs.forward) {
+      totalBaseConverted += legs.base;
+      quoteAcquired += legs.quote;
+    } else {
+      baseReceived += legs.base;
+      quoteReturned += legs.quote;
+    }
+  }
 
-  const weightedAvgRate = calculateWeightedAvgRate(conversions);
+  const netBaseDeployed = totalBaseConverted - baseReceived;
+  const totalQuoteAcquired = quoteAcquired - quoteReturned;
 
-  // Convert total JPY back to GBP pence at current rate
-  const currentValueGbp =
-    currentRate > 0 ? Math.round((totalJpyAcquired / currentRate) * 100) : 0;
+  const weightedAvgRate = calculateWeightedAvgRate(conversions, pair);
 
-  const unrealisedPnlGbp = currentValueGbp - netGbpDeployed;
+  const held = heldQuote ?? totalQuoteAcquired;
+  const consumedQuote = Math.max(0, totalQuoteAcquired - held);
+  const heldCostBase =
+    totalQuoteAcquired > 0 && consumedQuote > 0
+      ? Math.round((netBaseDeployed * Math.max(0, held)) / totalQuoteAcquired)
+      : netBaseDeployed;
 
-  const unrealisedPnlPct =
-    netGbpDeployed > 0
-      ? (unrealisedPnlGbp / netGbpDeployed) * 100
+  // Convert quote holdings back to base at the current rate
+  const currentValueBase =
+    currentRate > 0
+      ? toMinorUnits(fromMinorUnits(held, pair.quote) / currentRate, pair.base)
       : 0;
 
-  const conversionCount = conversions.length;
+  const unrealisedPnlBase = currentValueBase - heldCostBase;
+
+  const unrealisedPnlPct =
+    heldCostBase > 0
+      ? (unrealisedPnlBase / heldCostBase) * 100
+      : 0;
 
   return {
-    totalGbpConverted,
-    netGbpDeployed,
-    totalJpyAcquired,
+    pair: pairKey(pair),
+    totalBaseConverted,
+    netBaseDeployed,
+    totalQuoteAcquired,
+    heldQuote: held,
+    consumedQuote,
+    heldCostBase,
     weightedAvgRate,
     currentRate,
-    currentValueGbp,
-    unrealisedPnlGbp,
+    currentValueBase,
+    unrealisedPnlBase,
     unrealisedPnlPct,
     conversionCount,
   };
@@ -0,0 +1,141 @@
+import Papa from 'papaparse';
+import { formatMoney, fromMinorUnits } from '@/lib/finance/currency';
+import type { TaxMatchRule, TaxReport } from '@/lib/finance/tax';
+
+const RULE_LABELS: Record<TaxMatchRule, string> = {
+  'same-day': 'Same day',
+  '30-day': '30 days',
+  s104: 'Section 104 pool',
+  'moving-average': 'Moving average',
+  opening: 'Opening balance',
+};
+
+export function taxReportTitle(report: TaxReport): string {
+  return report.system === 'uk'
+    ? `UK capital gains on ${report.asset}, tax year ${report.start.slice(0, 4)}-${report.end.slice(0, 4)}`
+    : `Japan miscellaneous income on ${report.asset} (moving average), ${report.start.slice(0, 4)}`;
+}
+
+function describeMatches(report: TaxReport, index: number): string {
+  return report.disposals[index].matches
+    .map((m) => {
+      const from = m.acquisitionId !== null ? ` #${m.acquisitionId}` : '';
+      return `${RULE_LABELS[m.rule]}${from}: ${formatMoney(m.quantity, report.asset)}`;
+    })
+    .join('; ');
+}
+
+/** One row per disposal in major units, then a total row. */
+export function taxReportToCsv(report: TaxReport): string {
+  const { asset, currency, summary } = report;
+  const major = (minor: number, code: string) => fromMinorUnits(minor, code);
+
+  const rows = report.disposals.map((d, i) => ({
+    Date: d.date,
+    Conversion: d.conversionId.toString(),
+    [`Disposed (${asset})`]: major(d.quantity, asset),
+    [`Proceeds (${currency})`]: major(d.proceeds, currency),
+    [`Cost (${currency})`]: major(d.cost, currency),
+    [`Gain (${currency})`]: major(d.gain, currency),
+    Matched: describeMatches(report, i),
+    [`Unmatched (${asset})`]: major(d.unmatchedQuantity, asset),
+  }));
+
+  rows.push({
+    Date: 'Total',
+    Conversion: '',
+    [`Disposed (${asset})`]: major(report.disposals.reduce((s, d) => s + d.quantity, 0), asset),
+    [`Proceeds (${currency})`]: major(summary.proceeds, currency),
+    [`Cost (${currency})`]: major(summary.cost, currency),
+    [`Gain (${currency})`]: major(summary.net, currency),
+    Matched: '',
+    [`Unmatched (${asset})`]: major(summary.unmatchedQuantity, asset),
+  });
+
+  return Papa.unparse(rows);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** A standalone page with the summary and every disposal, for printing or filing. */
+export function taxReportToHtml(report: TaxReport): string {
+  const { asset, currency, summary } = report;
+  const money = (minor: number, code: string) => escapeHtml(formatMoney(minor, code));
+  const title = escapeHtml(taxReportTitle(report));
+
+  const summaryRows: [string, string][] = [
+    ['Period', `${report.start} to ${report.end}`],
+    ['Disposals', summary.disposals.toString()],
+    ['Proceeds', money(summary.proceeds, currency)],
+    ['Allowable cost', money(summary.cost, currency)],
+    ['Gains', money(summary.gains, currency)],
+    ['Losses', money(summary.losses, currency)],
+    ['Net gain', money(summary.net, currency)],
+    [
+      report.system === 'uk' ? 'Section 104 pool at year end' : 'Holding at year end',
+      `${money(report.pool.quantity, asset)} costing ${money(report.pool.cost, currency)}`,
+    ],
+  ];
+
+  const disposalRows = report.disposals
+    .map(
+      (d, i) => `<tr>
+<td>${d.date}</td>
+<td>#${d.conversionId}</td>
+<td class="num">${money(d.quantity, asset)}</td>
+<td class="num">${money(d.proceeds, currency)}</td>
+<td class="num">${money(d.cost, currency)}</td>
+<td class="num">${money(d.gain, currency)}</td>
+<td>${escapeHtml(describeMatches(report, i))}${
+        d.unmatchedQuantity > 0 ? ` <strong>(${money(d.unmatchedQuantity, asset)} unmatched)</strong>` : ''
+      }</td>
+</tr>`
+    )
+    .join('\n');
+
+  const unmatchedNote =
+    summary.unmatchedQuantity > 0
+      ? `<p class="note">${money(summary.unmatchedQuantity, asset)} was disposed of beyond any recorded acquisition and is left out of the figures. Supply an opening rate to cost it.</p>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { border-collapse: collapse; width: 100%; margin-top: 1rem; font-size: 0.9rem; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.summary th { width: 16rem; }
+.note { color: #92400e; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<table class="summary">
+${summaryRows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${value}</td></tr>`).join('\n')}
+</table>
+${unmatchedNote}
+<h2>Disposals</h2>
+${
+  report.disposals.length === 0
+    ? '<p>No disposals in this period.</p>'
+    : `<table>
+<thead><tr><th>Date</th><th>Conversion</th><th class="num">Disposed</th><th class="num">Proceeds</th><th class="num">Cost</th><th class="num">Gain</th><th>Matched against</th></tr></thead>
+<tbody>
+${disposalRows}
+</tbody>
+</table>`
+}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,262 @@
+import type { ConversionRecord, CurrencyPair } from '@/types';
+import { fromMinorUnits, getPairLegs, pairKey, PRIMARY_PAIR, toMinorUnits } from '@/lib/finance/currency';
+import { addDays } from '@/lib/rates/calendar';
+
+/**
+ * uk: capital gains on the quote currency (yen) in the base currency, UK tax
+ * years from 6 April. jp: miscellaneous income on the base currency (pounds)
+ * in yen, calendar years.
+ */
+export type TaxSystem = 'uk' | 'jp';
+
+export type TaxMatchRule = 'same-day' | '30-day' | 's104' | 'moving-average' | 'opening';
+
+export interface TaxYearRange {
+  start: string;
+  end: string;
+}
+
+export interface TaxMatch {
+  rule: TaxMatchRule;
+  acquisitionId: number | null;   // null for the pool and the opening balance
+  quantity: number;
+  cost: number;
+}
+
+export interface TaxDisposal {
+  conversionId: number;
+  date: string;
+  quantity: number;               // minor units of the asset disposed of
+  proceeds: number;               // minor units of the reporting currency
+  cost: number;
+  gain: number;
+  unmatchedQuantity: number;      // disposed of beyond any recorded acquisition
+  matches: TaxMatch[];
+}
+
+export interface TaxSummary {
+  disposals: number;
+  proceeds: number;
+  cost: number;
+  gains: number;
+  losses: number;                 // positive
+  net: number;
+  unmatchedQuantity: number;
+}
+
+export interface TaxReport {
+  system: TaxSystem;
+  taxYear: string;
+  start: string;
+  end: string;
+  pair: string;
+  asset: string;                  // currency disposed of
+  currency: string;               // currency gains are measured in
+  disposals: TaxDisposal[];
+  summary: TaxSummary;
+  pool: { quantity: number; cost: number };   // pooled holding at the end of the year
+}
+
+/**
+ * "2025-2026" is the UK year from 6 April 2025 to 5 April 2026; a JP year is
+ * the calendar year ("2025", or "2025-2025" as the export picker sends it).
+ */
+export function parseTaxYear(taxYear: string, system: TaxSystem): TaxYearRange | null {
+  if (system === 'jp') {
+    const year = parseInt(taxYear, 10);
+    if (Number.isNaN(year)) return null;
+    return { start: `${year}-01-01`, end: `${year}-12-31` };
+  }
+
+  const parts = taxYear.split('-');
+  if (parts.length !== 2) return null;
+
+  const startYear = parseInt(parts[0], 10);
+  const endYear = parseInt(parts[1], 10);
+  if (Number.isNaN(startYear) || Number.isNaN(endYear)) return null;
+
+  return { start: `${startYear}-04-06`, end: `${endYear}-04-05` };
+}
+
+interface Holding {
+  quantity: number;
+  cost: number;
+}
+
+interface Acquisition extends Holding {
+  id: number;
+  date: string;
+}
+
+interface PendingDisposal {
+  id: number;
+  date: string;
+  quantity: number;
+  proceeds: number;
+  left: number;
+  matches: TaxMatch[];
+}
+
+// Take up to `quantity` from a holding at its average cost; emptying it takes
+// whatever cost is left so rounding never strands a unit
+function take(holding: Holding, quantity: number): Holding {
+  const taken = Math.min(quantity, holding.quantity);
+  const cost = taken === holding.quantity
+    ? holding.cost
+    : Math.round((holding.cost * taken) / holding.quantity);
+  holding.quantity -= taken;
+  holding.cost -= cost;
+  return { quantity: taken, cost };
+}
+
+function matchAgainst(
+  disposal: PendingDisposal,
+  acquisitions: Acquisition[],
+  rule: TaxMatchRule
+): void {
+  for (const acquisition of acquisitions) {
+    if (disposal.left === 0) return;
+    if (acquisition.quantity === 0) continue;
+    const taken = take(acquisition, disposal.left);
+    disposal.left -= taken.quantity;
+    disposal.matches.push({ rule, acquisitionId: acquisition.id, ...taken });
+  }
+}
+
+function summarise(disposals: TaxDisposal[]): TaxSummary {
+  const sum = (pick: (d: TaxDisposal) => number) => disposals.reduce((s, d) => s + pick(d), 0);
+  return {
+    disposals: disposals.length,
+    proceeds: sum((d) => d.proceeds),
+    cost: sum((d) => d.cost),
+    gains: sum((d) => Math.max(0, d.gain)),
+    losses: sum((d) => Math.max(0, -d.gain)),
+    net: sum((d) => d.gain),
+    unmatchedQuantity: sum((d) => d.unmatchedQuantity),
+  };
+}
+
+/**
+ * Gains on every disposal in a tax year. Each conversion in the pair is an
+ * acquisition or a disposal of the asset: for the UK, buying yen acquires it
+ * at the pounds paid and selling yen disposes of it for the pounds received;
+ * for Japan the same holds for pounds, measured in yen.
+ *
+ * UK disposals are matched against acquisitions on the same day, then those
+ * in the following 30 days (earliest first), then the section 104 pool at its
+ * average cost. Japanese disposals use the moving average of every earlier
+ * acquisition. Whatever the whole history cannot match is costed at
+ * `openingRate` (the pair rate, e.g. yen per pound) when given; otherwise it
+ * is reported unmatched and its share of the proceeds left out. Conversions
+ * in the trash are skipped.
+ */
+export function calculateTaxReport(
+  conversions: ConversionRecord[],
+  system: TaxSystem,
+  taxYear: string,
+  options: { pair?: CurrencyPair; openingRate?: number } = {}
+): TaxReport | null {
+  const range = parseTaxYear(taxYear, system);
+  if (!range) return null;
+
+  const pair = options.pair ?? PRIMARY_PAIR;
+  const asset = system === 'uk' ? pair.quote : pair.base;
+  const currency = system === 'uk' ? pair.base : pair.quote;
+
+  const acquisitions: Acquisition[] = [];
+  const disposals: PendingDisposal[] = [];
+
+  const ordered = conversions
+    .filter((c) => !c.deleted_at)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+  for (const c of ordered) {
+    const legs = getPairLegs(c, pair);
+    if (!legs) continue;
+    const quantity = system === 'uk' ? legs.quote : legs.base;
+    const amount = system === 'uk' ? legs.base : legs.quote;
+    // Buying the quote currency acquires yen for the UK and disposes of pounds for Japan
+    if (legs.forward === (system === 'uk')) {
+      acquisitions.push({ id: c.id, date: c.date, quantity, cost: amount });
+    } else {
+      disposals.push({ id: c.id, date: c.date, quantity, proceeds: amount, left: quantity, matches: [] });
+    }
+  }
+
+  // Identification rules claim acquisitions before anything reaches the pool
+  if (system === 'uk') {
+    for (const d of disposals) {
+      matchAgainst(d, acquisitions.filter((a) => a.date === d.date), 'same-day');
+    }
+    for (const d of disposals) {
+      const last = addDays(d.date, 30);
+      matchAgainst(d, acquisitions.filter((a) => a.date > d.date && a.date <= last), '30-day');
+    }
+  }
+
+  // Replay in date order, adding what is left of each acquisition to the pool
+  // before any disposal on the same day
+  const events = [
+    ...acquisitions.map((a) => ({ date: a.date, order: 0, acquisition: a, disposal: null })),
+    ...disposals.map((d) => ({ date: d.date, order: 1, acquisition: null, disposal: d })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+
+  const poolRule: TaxMatchRule = system === 'uk' ? 's104' : 'moving-average';
+  const pool: Holding = { quantity: 0, cost: 0 };
+  let poolAtEnd: Holding | null = null;
+
+  for (const { date, acquisition, disposal: d } of events) {
+    if (!poolAtEnd && date > range.end) poolAtEnd = { ...pool };
+    if (acquisition) {
+      pool.quantity += acquisition.quantity;
+      pool.cost += acquisition.cost;
+      continue;
+    }
+    if (!d) continue;
+    if (d.left > 0 && pool.quantity > 0) {
+      const taken = take(pool, d.left);
+      d.left -= taken.quantity;
+      d.matches.push({ rule: poolRule, acquisitionId: null, ...taken });
+    }
+    if (d.left > 0 && options.openingRate) {
+      const left = fromMinorUnits(d.left, asset);
+      const cost = toMinorUnits(
+        system === 'uk' ? left / options.openingRate : left * options.openingRate,
+        currency
+      );
+      d.matches.push({ rule: 'opening', acquisitionId: null, quantity: d.left, cost });
+      d.left = 0;
+    }
+  }
+
+  const inYear: TaxDisposal[] = disposals
+    .filter((d) => d.date >= range.start && d.date <= range.end)
+    .map((d) => {
+      const matched = d.quantity - d.left;
+      const proceeds = d.left === 0 ? d.proceeds : Math.round((d.proceeds * matched) / d.quantity);
+      const cost = d.matches.reduce((s, m) => s + m.cost, 0);
+      return {
+        conversionId: d.id,
+        date: d.date,
+        quantity: d.quantity,
+        proceeds,
+        cost,
+        gain: proceeds - cost,
+        unmatchedQuantity: d.left,
+        matches: d.matches,
+      };
+    });
+
+  return {
+    system,
+    taxYear,
+    start: range.start,
+    end: range.end,
+    pair: pairKey(pair),
+    asset,
+    currency,
+    disposals: inYear,
+    summary: summarise(inYear),
+    pool: poolAtEnd ?? pool,
+  };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { alerts } from '@/lib/db/schema';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { getPrimaryPairConfig } from '@/lib/strategy/pairs';
+import {
+  cancelLimitOrder,
+  createLimitOrder,
+  describeLimitOrder,
+  evaluateLimitOrders,
+  fillLimitOrder,
+  findOrderPair,
+  getLimitOrder,
+} from '@/lib/orders/limit-orders';
+import type { LimitOrderValues } from '@/lib/orders/limit-orders';
+
+const BUY: LimitOrderValues = {
+  source_currency: 'GBP',
+  target_currency: 'JPY',
+  amount: 200000,          // £2,000
+  condition: 'ABOVE',
+  target_rate: 205,
+  expires_on: null,
+  notes: null,
+};
+
+const REVERT: LimitOrderValues = {
+  source_currency: 'JPY',
+  target_currency: 'GBP',
+  amount: 300000,          // ¥300,000
+  condition: 'BELOW',
+  target_rate: 175,
+  expires_on: null,
+  notes: 'Top up GBP buffer',
+};
+
+describe('findOrderPair', () => {
+  it('matches a configured pair in either direction', () => {
+    const configs = [getPrimaryPairConfig()];
+
+    expect(findOrderPair(configs, BUY)?.key).toBe('GBP/JPY');
+    expect(findOrderPair(configs, REVERT)?.key).toBe('GBP/JPY');
+    expect(findOrderPair(configs, { source_currency: 'EUR', target_currency: 'JPY' })).toBeNull();
+  });
+});
+
+describe('describeLimitOrder', () => {
+  it('states the amount, direction and trigger', () => {
+    const db = createTestDb();
+    expect(describeLimitOrder(createLimitOrder(db, BUY), PRIMARY_PAIR)).toBe(
+      'Convert £2,000.00 to JPY when GBP/JPY ≥ 205.00'
+    );
+  });
+});
+
+describe('evaluateLimitOrders', () => {
+  it('triggers each order once when its condition is met', () => {
+    const db = createTestDb();
+    const buy = createLimitOrder(db, BUY);
+    const revert = createLimitOrder(db, REVERT);
+
+    expect(evaluateLimitOrders(db, PRIMARY_PAIR, 190, '2024-03-01')).toEqual([]);
+
+    const triggered = evaluateLimitOrders(db, PRIMARY_PAIR, 205.2, '2024-03-02');
+    expect(triggered.map((o) => o.id)).toEqual([buy.id]);
+    expect(triggered[0].status).toBe('TRIGGERED');
+    expect(triggered[0].triggered_rate).toBe(205.2);
+
+    expect(evaluateLimitOrders(db, PRIMARY_PAIR, 206, '2024-03-03')).toEqual([]);
+    expect(evaluateLimitOrders(db, PRIMARY_PAIR, 174.5, '2024-03-04').map((o) => o.id)).toEqual([revert.id]);
+  });
+
+  it('raises one alert per triggered order', () => {
+    const db = createTestDb();
+    const buy = createLimitOrder(db, BUY);
+
+    evaluateLimitOrders(db, PRIMARY_PAIR, 205.2, '2024-03-02');
+    evaluateLimitOrders(db, PRIMARY_PAIR, 206, '2024-03-03');
+
+    expect(db.select().from(alerts).all()).toEqual([
+      expect.objectContaining({
+        type: 'limit_order',
+        message: 'Limit order triggered at 205.20: Convert £2,000.00 to JPY when GBP/JPY ≥ 205.00',
+        rate: 205.2,
+        dedupe_key: `limit_order:${buy.id}`,
+      }),
+    ]);
+  });
+
+  it('expires pending orders after their last day and ignores other pairs', () => {
+    const db = createTestDb();
+    const expiring = createLimitOrder(db, { ...BUY, expires_on: '2024-03-01' });
+    const euro = createLimitOrder(db, { ...BUY, source_currency: 'EUR', target_rate: 160 });
+
+    expect(evaluateLimitOrders(db, PRIMARY_PAIR, 210, '2024-03-01').map((o) => o.id)).toEqual([expiring.id]);
+
+    const later = createLimitOrder(db, { ...BUY, expires_on: '2024-03-01' });
+    expect(evaluateLimitOrders(db, PRIMARY_PAIR, 210, '2024-03-02')).toEqual([]);
+    expect(getLimitOrder(db, later.id)?.status).toBe('EXPIRED');
+    expect(getLimitOrder(db, euro.id)?.status).toBe('PENDING');
+  });
+
+  it('expires triggered orders that were never filled', () => {
+    const db = createTestDb();
+    const order = createLimitOrder(db, { ...BUY, expires_on: '2024-03-01' });
+    evaluateLimitOrders(db, PRIMARY_PAIR, 210, '2024-03-01');
+
+    evaluateLimitOrders(db, PRIMARY_PAIR, 210, '2024-03-02');
+
+    expect(getLimitOrder(db, order.id)?.status).toBe('EXPIRED');
+    expect(fillLimitOrder(db, order.id, PRIMARY_PAIR, { date: '2024-03-02' })).toBeNull();
+  });
+});
+
+describe('fillLimitOrder', () => {
+  it('logs the conversion at the trigger rate and marks the order filled', () => {
+    const db = createTestDb();
+    const order = createLimitOrder(db, BUY);
+    evaluateLimitOrders(db, PRIMARY_PAIR, 205.5, '2024-03-02');
+
+    const result = fillLimitOrder(db, order.id, PRIMARY_PAIR, { date: '2024-03-02' })!;
+
+    expect(result.conversion.source_amount).toBe(200000);
+    expect(result.conversion.target_amount).toBe(411000);
+    expect(result.conversion.exchange_rate).toBeCloseTo(205.5, 6);
+    expect(result.conversion.spot_rate).toBe(205.5);
+    expect(result.order.status).toBe('FILLED');
+    expect(result.order.conversion_id).toBe(result.conversion.id);
+
+    // Already filled
+    expect(fillLimitOrder(db, order.id, PRIMARY_PAIR, { date: '2024-03-02' })).toBeNull();
+  });
+
+  it('quotes a reverse conversion as yen per pound and accepts actual amounts', () => {
+    const db = createTestDb();
+    const order = createLimitOrder(db, REVERT);
+    evaluateLimitOrders(db, PRIMARY_PAIR, 175, '2024-03-02');
+
+    const { conversion } = fillLimitOrder(db, order.id, PRIMARY_PAIR, {
+      date: '2024-03-02',
+      targetAmount: 170000,   // £1,700 after fees
+      provider: 'REVOLUT',
+    })!;
+
+    expect(conversion.target_amount).toBe(170000);
+    expect(conversion.exchange_rate).toBeCloseTo(300000 / 1700, 6);
+    expect(conversion.provider).toBe('REVOLUT');
+    expect(conversion.notes).toBe(`Limit order #${order.id}: Top up GBP buffer`);
+  });
+
+  it('only fills triggered orders, and cancelled orders stay cancelled', () => {
+    const db = createTestDb();
+    const order = createLimitOrder(db, BUY);
+
+    expect(fillLimitOrder(db, order.id, PRIMARY_PAIR, { date: '2024-03-02' })).toBeNull();
+    expect(cancelLimitOrder(db, order.id)?.status).toBe('CANCELLED');
+    expect(cancelLimitOrder(db, order.id)).toBeNull();
+    expect(evaluateLimitOrders(db, PRIMARY_PAIR, 210, '2024-03-02')).toEqual([]);
+  });
+});
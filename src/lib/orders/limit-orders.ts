@@ -0,0 +1,196 @@
+import { and, desc, eq, inArray, isNotNull, lt, or, sql } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { alerts, conversions, limitOrders } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { formatMoney, formatRate, fromMinorUnits, pairKey, toMinorUnits } from '@/lib/finance/currency';
+import type { ConversionValues } from '@/lib/conversions/revisions';
+import type { ConversionRecord, CurrencyPair, LimitOrderRecord, PairConfig } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type LimitOrderValues = Pick<
+  LimitOrderRecord,
+  'source_currency' | 'target_currency' | 'amount' | 'condition' | 'target_rate' | 'expires_on' | 'notes'
+>;
+
+export interface LimitOrderFill {
+  date: string;
+  targetAmount?: number;   // minor units actually received; defaults to the amount at the trigger rate
+  provider?: string;
+  feePct?: number;
+}
+
+// Orders that can still trigger or be filled
+const OPEN_STATUSES = ['PENDING', 'TRIGGERED'];
+
+/** The configured pair an order trades, in either direction. */
+export function findOrderPair(
+  configs: PairConfig[],
+  order: Pick<LimitOrderRecord, 'source_currency' | 'target_currency'>
+): PairConfig | null {
+  return (
+    configs.find(
+      ({ pair }) =>
+        (pair.base === order.source_currency && pair.quote === order.target_currency) ||
+        (pair.quote === order.source_currency && pair.base === order.target_currency)
+    ) ?? null
+  );
+}
+
+export function isOrderTriggered(
+  order: Pick<LimitOrderRecord, 'condition' | 'target_rate'>,
+  rate: number
+): boolean {
+  return order.condition === 'ABOVE' ? rate >= order.target_rate : rate <= order.target_rate;
+}
+
+/** e.g. "Convert £2,000.00 to JPY when GBP/JPY >= 205.00" */
+export function describeLimitOrder(order: LimitOrderRecord, pair: CurrencyPair): string {
+  const comparison = order.condition === 'ABOVE' ? '\u2265' : '\u2264';
+  return `Convert ${formatMoney(order.amount, order.source_currency)} to ${order.target_currency} when ${pairKey(pair)} ${comparison} ${formatRate(order.target_rate)}`;
+}
+
+export function createLimitOrder(db: DB, values: LimitOrderValues): LimitOrderRecord {
+  return db.insert(limitOrders).values(values).returning().get() as LimitOrderRecord;
+}
+
+export function getLimitOrder(db: DB, id: number): LimitOrderRecord | null {
+  return (db.select().from(limitOrders).where(eq(limitOrders.id, id)).get() as LimitOrderRecord | undefined) ?? null;
+}
+
+/** Every order, newest first. */
+export function getLimitOrders(db: DB): LimitOrderRecord[] {
+  return db.select().from(limitOrders).orderBy(desc(limitOrders.id)).all() as LimitOrderRecord[];
+}
+
+/** Cancel an order that has not been filled. Returns null if it is no longer open. */
+export function cancelLimitOrder(db: DB, id: number): LimitOrderRecord | null {
+  return (
+    (db
+      .update(limitOrders)
+      .set({ status: 'CANCELLED' })
+      .where(and(eq(limitOrders.id, id), inArray(limitOrders.status, OPEN_STATUSES)))
+      .returning()
+      .get() as LimitOrderRecord | undefined) ?? null
+  );
+}
+
+/**
+ * Check pending orders against a freshly fetched rate. Open orders past
+ * their expiry date (any pair), triggered or not, are expired first; pending
+ * orders in `pair` whose condition holds are marked triggered at `rate`, with
+ * a limit_order alert for each. Returns the newly triggered orders, so each
+ * triggers once.
+ */
+export function evaluateLimitOrders(
+  db: DB,
+  pair: CurrencyPair,
+  rate: number,
+  today: string
+): LimitOrderRecord[] {
+  return db.transaction((tx) => {
+    tx.update(limitOrders)
+      .set({ status: 'EXPIRED' })
+      .where(
+        and(
+          inArray(limitOrders.status, OPEN_STATUSES),
+          isNotNull(limitOrders.expires_on),
+          lt(limitOrders.expires_on, today)
+        )
+      )
+      .run();
+
+    const pending = tx
+      .select()
+      .from(limitOrders)
+      .where(
+        and(
+          eq(limitOrders.status, 'PENDING'),
+          or(
+            and(eq(limitOrders.source_currency, pair.base), eq(limitOrders.target_currency, pair.quote)),
+            and(eq(limitOrders.source_currency, pair.quote), eq(limitOrders.target_currency, pair.base))
+          )
+        )
+      )
+      .all() as LimitOrderRecord[];
+
+    const ids = pending.filter((order) => isOrderTriggered(order, rate)).map((order) => order.id);
+    if (ids.length === 0) return [];
+
+    const triggered = tx
+      .update(limitOrders)
+      .set({ status: 'TRIGGERED', triggered_rate: rate, triggered_at: sql`(datetime('now'))` })
+      .where(inArray(limitOrders.id, ids))
+      .returning()
+      .all() as LimitOrderRecord[];
+
+    tx.insert(alerts)
+      .values(
+        triggered.map((order) => ({
+          type: 'limit_order',
+          message: `Limit order triggered at ${rate.toFixed(2)}: ${describeLimitOrder(order, pair)}`,
+          rate,
+          dedupe_key: `limit_order:${order.id}`,
+        }))
+      )
+      .run();
+    return triggered;
+  });
+}
+
+/**
+ * Log the conversion for a triggered order and mark it filled. The amounts
+ * default to the order amount at the rate it triggered on. Returns null if
+ * the order is not waiting to be filled.
+ */
+export function fillLimitOrder(
+  db: DB,
+  id: number,
+  pair: CurrencyPair,
+  fill: LimitOrderFill
+): { order: LimitOrderRecord; conversion: ConversionRecord } | null {
+  return db.transaction((tx) => {
+    const order = tx
+      .select()
+      .from(limitOrders)
+      .where(and(eq(limitOrders.id, id), eq(limitOrders.status, 'TRIGGERED')))
+      .get() as LimitOrderRecord | undefined;
+    if (!order || order.triggered_rate == null) return null;
+
+    const forward = order.source_currency === pair.base;
+    const sourceMajor = fromMinorUnits(order.amount, order.source_currency);
+    const targetAmount =
+      fill.targetAmount ??
+      toMinorUnits(
+        forward ? sourceMajor * order.triggered_rate : sourceMajor / order.triggered_rate,
+        order.target_currency
+      );
+    const targetMajor = fromMinorUnits(targetAmount, order.target_currency);
+
+    const values: ConversionValues = {
+      date: fill.date,
+      source_currency: order.source_currency,
+      target_currency: order.target_currency,
+      source_amount: order.amount,
+      target_amount: targetAmount,
+      exchange_rate: forward ? targetMajor / sourceMajor : sourceMajor / targetMajor,
+      spot_rate: order.triggered_rate,
+      fee_pct: fill.feePct ?? 0,
+      provider: fill.provider ?? 'WISE',
+      band_at_time: null,
+      notes: order.notes ? `Limit order #${order.id}: ${order.notes}` : `Limit order #${order.id}`,
+      source_account_id: null,
+      target_account_id: null,
+    };
+
+    const conversion = tx.insert(conversions).values(values).returning().get() as ConversionRecord;
+    const filled = tx
+      .update(limitOrders)
+      .set({ status: 'FILLED', conversion_id: conversion.id })
+      .where(eq(limitOrders.id, id))
+      .returning()
+      .get() as LimitOrderRecord;
+
+    return { order: filled, conversion };
+  });
+}
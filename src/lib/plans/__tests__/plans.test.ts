@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createTestDb } from '@/lib/db/testing';
+import { conversions } from '@/lib/db/schema';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { purgeConversions, restoreConversion, trashConversion } from '@/lib/conversions/trash';
+import { createPlan, deletePlan, getPlannedInMonth, getPlanRuns, recordPlanRun } from '@/lib/plans/plans';
+
+function seed() {
+  const db = createTestDb();
+  const plan = createPlan(db, {
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    amount: 50000,
+    day_of_month: 15,
+    provider: 'WISE',
+    start_date: '2024-01-01',
+    end_date: null,
+    notes: 'Rent',
+  });
+  return { db, plan };
+}
+
+describe('recordPlanRun', () => {
+  it('logs the conversion with the actual amounts when a run is confirmed', () => {
+    const { db, plan } = seed();
+    const recorded = recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-15', 'CONFIRMED', {
+      date: '2024-03-16',
+      targetAmount: 94500,
+      spotRate: 190,
+      feePct: 0.5,
+    });
+
+    expect(recorded?.run).toMatchObject({ status: 'CONFIRMED', conversion_id: recorded?.conversion?.id });
+    expect(recorded?.conversion).toMatchObject({
+      date: '2024-03-16',
+      source_amount: 50000,
+      target_amount: 94500,
+      exchange_rate: 189,
+      spot_rate: 190,
+      provider: 'WISE',
+      notes: `Recurring plan #${plan.id}: Rent`,
+    });
+    expect(getPlannedInMonth(db, PRIMARY_PAIR, '2024-03')).toBe(0);
+    expect(getPlannedInMonth(db, PRIMARY_PAIR, '2024-04')).toBe(50000);
+  });
+
+  it('refuses dates off the schedule and runs already recorded', () => {
+    const { db, plan } = seed();
+
+    expect(recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-14', 'SKIPPED')).toBeNull();
+    expect(recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-15', 'SKIPPED')?.conversion).toBeNull();
+    expect(recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-15', 'SKIPPED')).toBeNull();
+  });
+
+  it('reopens a run when its conversion is purged and drops runs with the plan', () => {
+    const { db, plan } = seed();
+    const recorded = recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-15', 'CONFIRMED', {
+      date: '2024-03-15',
+      targetAmount: 95000,
+    });
+    const conversionId = recorded?.conversion?.id ?? 0;
+    recordPlanRun(db, plan, PRIMARY_PAIR, '2024-04-15', 'SKIPPED');
+
+    db.update(conversions).set({ deleted_at: '2024-03-20 10:00:00' }).where(eq(conversions.id, conversionId)).run();
+    purgeConversions(db);
+
+    expect(getPlanRuns(db).map((r) => r.scheduled_date)).toEqual(['2024-04-15']);
+    expect(deletePlan(db, plan.id)?.id).toBe(plan.id);
+    expect(getPlanRuns(db)).toEqual([]);
+  });
+
+  it('treats a run as outstanding while its conversion is in the trash', () => {
+    const { db, plan } = seed();
+    const recorded = recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-15', 'CONFIRMED', {
+      date: '2024-03-15',
+      targetAmount: 95000,
+    });
+    const conversionId = recorded?.conversion?.id ?? 0;
+
+    trashConversion(db, conversionId);
+    expect(getPlanRuns(db)).toEqual([]);
+    expect(getPlannedInMonth(db, PRIMARY_PAIR, '2024-03')).toBe(50000);
+
+    restoreConversion(db, conversionId);
+    expect(getPlannedInMonth(db, PRIMARY_PAIR, '2024-03')).toBe(0);
+
+    trashConversion(db, conversionId);
+    const again = recordPlanRun(db, plan, PRIMARY_PAIR, '2024-03-15', 'SKIPPED');
+    expect(again?.run.status).toBe('SKIPPED');
+    expect(getPlanRuns(db).map((r) => r.status)).toEqual(['SKIPPED']);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { planRunDates, plannedInMonth, scheduledDate, scheduleRuns } from '@/lib/plans/schedule';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import type { PlanRunRecord, RecurringPlanRecord } from '@/types';
+
+function mockPlan(overrides: Partial<RecurringPlanRecord>): RecurringPlanRecord {
+  return {
+    id: 1,
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    amount: 50000,             // £500
+    day_of_month: 15,
+    provider: 'WISE',
+    start_date: '2024-01-01',
+    end_date: null,
+    active: 1,
+    notes: null,
+    created_at: '2024-01-01T00:00:00',
+    ...overrides,
+  };
+}
+
+function mockRun(overrides: Partial<PlanRunRecord>): PlanRunRecord {
+  return {
+    id: 1,
+    plan_id: 1,
+    scheduled_date: '2024-01-15',
+    status: 'CONFIRMED',
+    conversion_id: 10,
+    created_at: '2024-01-15T00:00:00',
+    ...overrides,
+  };
+}
+
+describe('planRunDates', () => {
+  it('falls on the last day of short months and respects the start and end dates', () => {
+    expect(scheduledDate('2024-02', 31)).toBe('2024-02-29');
+    expect(scheduledDate('2023-02', 31)).toBe('2023-02-28');
+
+    const plan = mockPlan({ day_of_month: 31, start_date: '2024-01-31', end_date: '2024-04-29' });
+    expect(planRunDates(plan, '2023-12-01', '2024-12-31')).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+    expect(planRunDates(mockPlan({ start_date: '2024-01-20' }), '2024-01-01', '2024-02-15')).toEqual(['2024-02-15']);
+  });
+});
+
+describe('scheduleRuns', () => {
+  it('marks unrecorded runs missed, due or upcoming and keeps recorded ones', () => {
+    const plans = [mockPlan({}), mockPlan({ id: 2, day_of_month: 1, active: 0 })];
+    const runs = [
+      mockRun({}),
+      mockRun({ id: 2, plan_id: 2, scheduled_date: '2024-02-01', status: 'SKIPPED', conversion_id: null }),
+    ];
+    const scheduled = scheduleRuns(plans, runs, '2024-03-15', 31);
+
+    expect(scheduled.map((r) => [r.planId, r.date, r.status])).toEqual([
+      [1, '2024-01-15', 'CONFIRMED'],
+      [2, '2024-02-01', 'SKIPPED'],     // a paused plan keeps its history only
+      [1, '2024-02-15', 'MISSED'],
+      [1, '2024-03-15', 'DUE'],
+      [1, '2024-04-15', 'UPCOMING'],
+    ]);
+    expect(scheduled[0].conversionId).toBe(10);
+  });
+});
+
+describe('plannedInMonth', () => {
+  it('counts outstanding runs of active plans buying the quote currency', () => {
+    const plans = [
+      mockPlan({}),
+      mockPlan({ id: 2, day_of_month: 1, amount: 20000 }),
+      mockPlan({ id: 3, amount: 99999, active: 0 }),
+      mockPlan({ id: 4, source_currency: 'JPY', target_currency: 'GBP', amount: 1000000 }),
+    ];
+    const runs = [mockRun({ plan_id: 2, scheduled_date: '2024-03-01' })];
+
+    expect(plannedInMonth(plans, runs, PRIMARY_PAIR, '2024-03')).toBe(50000);
+    expect(plannedInMonth(plans, [], PRIMARY_PAIR, '2024-03')).toBe(70000);
+  });
+});
@@ -0,0 +1,154 @@
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { conversions, planRuns, recurringPlans } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { fromMinorUnits } from '@/lib/finance/currency';
+import type { ConversionValues } from '@/lib/conversions/revisions';
+import { isScheduledDate, plannedInMonth } from '@/lib/plans/schedule';
+import type {
+  ConversionRecord,
+  CurrencyPair,
+  PlanRunRecord,
+  PlanRunStatus,
+  Provider,
+  RecurringPlanRecord,
+} from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type RecurringPlanValues = Pick<
+  RecurringPlanRecord,
+  'source_currency' | 'target_currency' | 'amount' | 'day_of_month' | 'provider' | 'start_date' | 'end_date' | 'notes'
+>;
+
+export interface PlanRunConfirmation {
+  date: string;             // when the conversion happened
+  targetAmount: number;     // minor units actually received
+  sourceAmount?: number;    // minor units actually sent; defaults to the plan amount
+  spotRate?: number;
+  feePct?: number;
+  provider?: Provider;
+}
+
+export function createPlan(db: DB, values: RecurringPlanValues): RecurringPlanRecord {
+  return db.insert(recurringPlans).values(values).returning().get() as RecurringPlanRecord;
+}
+
+export function getPlan(db: DB, id: number): RecurringPlanRecord | null {
+  return (db.select().from(recurringPlans).where(eq(recurringPlans.id, id)).get() as RecurringPlanRecord | undefined) ?? null;
+}
+
+/** Every plan, paused ones included, oldest first. */
+export function getPlans(db: DB): RecurringPlanRecord[] {
+  return db.select().from(recurringPlans).orderBy(asc(recurringPlans.id)).all() as RecurringPlanRecord[];
+}
+
+/** Returns null if there is no such plan. The currencies never change. */
+export function updatePlan(
+  db: DB,
+  id: number,
+  values: Partial<Pick<RecurringPlanRecord, 'amount' | 'day_of_month' | 'provider' | 'end_date' | 'active' | 'notes'>>
+): RecurringPlanRecord | null {
+  return (
+    (db.update(recurringPlans).set(values).where(eq(recurringPlans.id, id)).returning().get() as
+      | RecurringPlanRecord
+      | undefined) ?? null
+  );
+}
+
+/**
+ * Delete a plan and its run records. Conversions it logged stay. Returns
+ * null if there is no such plan.
+ */
+export function deletePlan(db: DB, id: number): RecurringPlanRecord | null {
+  return db.transaction((tx) => {
+    tx.delete(planRuns).where(eq(planRuns.plan_id, id)).run();
+    return (tx.delete(recurringPlans).where(eq(recurringPlans.id, id)).returning().get() as
+      | RecurringPlanRecord
+      | undefined) ?? null;
+  });
+}
+
+/**
+ * Recorded runs, oldest first. A run confirmed by a conversion now in the
+ * trash is left out, so it counts as outstanding until the conversion is
+ * restored.
+ */
+export function getPlanRuns(db: DB): PlanRunRecord[] {
+  return db
+    .select({ run: planRuns })
+    .from(planRuns)
+    .leftJoin(conversions, eq(planRuns.conversion_id, conversions.id))
+    .where(isNull(conversions.deleted_at))
+    .orderBy(asc(planRuns.scheduled_date))
+    .all()
+    .map((r) => r.run) as PlanRunRecord[];
+}
+
+/** Base currency the plans still expect to convert into `pair`'s quote currency in `month`. */
+export function getPlannedInMonth(db: DB, pair: CurrencyPair, month: string): number {
+  return plannedInMonth(getPlans(db), getPlanRuns(db), pair, month);
+}
+
+/**
+ * Record a scheduled run as confirmed, logging the conversion with the
+ * amounts actually sent and received, or as skipped. Returns null if
+ * `scheduledDate` is not one of the plan's run dates or the run is already
+ * recorded. A run whose conversion is in the trash can be recorded again;
+ * the trashed conversion then no longer confirms it.
+ */
+export function recordPlanRun(
+  db: DB,
+  plan: RecurringPlanRecord,
+  pair: CurrencyPair,
+  scheduledDate: string,
+  status: PlanRunStatus,
+  confirmation?: PlanRunConfirmation
+): { run: PlanRunRecord; conversion: ConversionRecord | null } | null {
+  if (!isScheduledDate(plan, scheduledDate)) return null;
+
+  return db.transaction((tx) => {
+    const existing = tx
+      .select({ id: planRuns.id, trashedAt: conversions.deleted_at })
+      .from(planRuns)
+      .leftJoin(conversions, eq(planRuns.conversion_id, conversions.id))
+      .where(and(eq(planRuns.plan_id, plan.id), eq(planRuns.scheduled_date, scheduledDate)))
+      .get();
+    if (existing && existing.trashedAt === null) return null;
+    if (existing) tx.delete(planRuns).where(eq(planRuns.id, existing.id)).run();
+
+    let conversion: ConversionRecord | null = null;
+    if (status === 'CONFIRMED' && confirmation) {
+      const forward = plan.source_currency === pair.base;
+      const sourceAmount = confirmation.sourceAmount ?? plan.amount;
+      const sourceMajor = fromMinorUnits(sourceAmount, plan.source_currency);
+      const targetMajor = fromMinorUnits(confirmation.targetAmount, plan.target_currency);
+
+      const values: ConversionValues = {
+        date: confirmation.date,
+        source_currency: plan.source_currency,
+        target_currency: plan.target_currency,
+        source_amount: sourceAmount,
+        target_amount: confirmation.targetAmount,
+        exchange_rate: forward ? targetMajor / sourceMajor : sourceMajor / targetMajor,
+        spot_rate: confirmation.spotRate ?? null,
+        fee_pct: confirmation.feePct ?? 0,
+        provider: confirmation.provider ?? plan.provider,
+        band_at_time: null,
+        notes: plan.notes ? `Recurring plan #${plan.id}: ${plan.notes}` : `Recurring plan #${plan.id}`,
+        source_account_id: null,
+        target_account_id: null,
+      };
+      conversion = tx.insert(conversions).values(values).returning().get() as ConversionRecord;
+    }
+
+    const run = tx
+      .insert(planRuns)
+      .values({ plan_id: plan.id, scheduled_date: scheduledDate, status, conversion_id: conversion?.id ?? null })
+      .returning()
+      .get() as PlanRunRecord;
+
+    return { run, conversion };
+  });
+}
+
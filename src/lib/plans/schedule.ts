@@ -0,0 +1,93 @@
+import type { CurrencyPair, PlanRunRecord, RecurringPlanRecord, ScheduledRun } from '@/types';
+import { addDays } from '@/lib/rates/calendar';
+
+// How far ahead the dashboard looks for upcoming runs
+export const UPCOMING_DAYS = 31;
+
+/** The plan's run date in `month` (YYYY-MM), on the last day when the month is too short. */
+export function scheduledDate(month: string, dayOfMonth: number): string {
+  const [year, mon] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, mon, 0)).getUTCDate();
+  return `${month}-${String(Math.min(dayOfMonth, lastDay)).padStart(2, '0')}`;
+}
+
+function nextMonth(month: string): string {
+  const [year, mon] = month.split('-').map(Number);
+  return mon === 12 ? `${year + 1}-01` : `${year}-${String(mon + 1).padStart(2, '0')}`;
+}
+
+/** Every date the plan runs on between `from` and `to` inclusive, within its start and end dates. */
+export function planRunDates(
+  plan: Pick<RecurringPlanRecord, 'day_of_month' | 'start_date' | 'end_date'>,
+  from: string,
+  to: string
+): string[] {
+  const start = plan.start_date > from ? plan.start_date : from;
+  const end = plan.end_date !== null && plan.end_date < to ? plan.end_date : to;
+  const dates: string[] = [];
+
+  for (let month = start.slice(0, 7); month <= end.slice(0, 7); month = nextMonth(month)) {
+    const date = scheduledDate(month, plan.day_of_month);
+    if (date >= start && date <= end) dates.push(date);
+  }
+  return dates;
+}
+
+export function isScheduledDate(plan: RecurringPlanRecord, date: string): boolean {
+  return planRunDates(plan, date, date).length === 1;
+}
+
+/**
+ * Every run of every plan from its start until `horizonDays` after `today`,
+ * oldest first. Recorded runs keep their status, including those of paused
+ * plans; unrecorded runs of active plans are missed, due or upcoming.
+ */
+export function scheduleRuns(
+  plans: RecurringPlanRecord[],
+  runs: PlanRunRecord[],
+  today: string,
+  horizonDays = UPCOMING_DAYS
+): ScheduledRun[] {
+  const recorded = new Map(runs.map((r) => [`${r.plan_id}:${r.scheduled_date}`, r]));
+  const horizon = addDays(today, horizonDays);
+  const scheduled: ScheduledRun[] = [];
+
+  for (const plan of plans) {
+    for (const date of planRunDates(plan, plan.start_date, horizon)) {
+      const run = recorded.get(`${plan.id}:${date}`);
+      if (run) {
+        scheduled.push({ planId: plan.id, date, status: run.status, conversionId: run.conversion_id });
+      } else if (plan.active) {
+        const status = date < today ? 'MISSED' : date === today ? 'DUE' : 'UPCOMING';
+        scheduled.push({ planId: plan.id, date, status, conversionId: null });
+      }
+    }
+  }
+
+  return scheduled.sort((a, b) => a.date.localeCompare(b.date) || a.planId - b.planId);
+}
+
+/**
+ * Base currency that active plans buying `pair`'s quote currency are still
+ * expected to convert in `month`: runs not yet confirmed or skipped. A
+ * confirmed run is already a conversion, so it is not counted twice.
+ */
+export function plannedInMonth(
+  plans: RecurringPlanRecord[],
+  runs: PlanRunRecord[],
+  pair: CurrencyPair,
+  month: string
+): number {
+  const recorded = new Set(runs.map((r) => `${r.plan_id}:${r.scheduled_date}`));
+  const first = `${month}-01`;
+  const last = scheduledDate(month, 31);
+
+  return plans
+    .filter((p) => p.active && p.source_currency === pair.base && p.target_currency === pair.quote)
+    .reduce(
+      (sum, plan) =>
+        sum +
+        planRunDates(plan, first, last).filter((date) => !recorded.has(`${plan.id}:${date}`)).length * plan.amount,
+      0
+    );
+}
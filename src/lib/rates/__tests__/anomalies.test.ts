@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies, MIN_52_WEEK_POINTS } from '@/lib/rates/anomalies';
+import { addDays } from '@/lib/rates/calendar';
+import type { RateHistoryPoint } from '@/lib/rates/history';
+
+const config = { anomaly_std_devs: 3, anomaly_window_days: 20, anomaly_max_jump_pct: 5 };
+
+/** Daily closes ending the day before `end`, alternating +/- `step` around `base`. */
+function history(days: number, end: string, base = 190, step = 0.2): RateHistoryPoint[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: addDays(end, i - days),
+    rate: base + (i % 2 === 0 ? step : -step),
+  }));
+}
+
+function quote(rate: number, previousRate: number | null = null) {
+  return { rate, date: '2024-06-03', source: 'frankfurter', previousRate };
+}
+
+describe('detectAnomalies', () => {
+  it('finds nothing for an ordinary move', () => {
+    expect(detectAnomalies(history(30, '2024-06-03'), quote(190.1), config)).toEqual([]);
+  });
+
+  it('flags a day-over-day move beyond the std dev threshold', () => {
+    const [anomaly] = detectAnomalies(history(30, '2024-06-03'), quote(193), config);
+
+    expect(anomaly.kind).toBe('volatility_move');
+    expect(anomaly.key).toBe('volatility_move:2024-06-03');
+    expect(anomaly.message).toContain('20-day volatility');
+  });
+
+  it('needs a full volatility window', () => {
+    expect(detectAnomalies(history(20, '2024-06-03'), quote(193), config)).toEqual([]);
+  });
+
+  it('ignores history on or after the quote date', () => {
+    const points = [...history(30, '2024-06-03'), { date: '2024-06-03', rate: 193 }];
+    expect(detectAnomalies(points, quote(193), config)[0]?.kind).toBe('volatility_move');
+  });
+
+  it('flags new 52-week highs and lows once there is enough history', () => {
+    const points = history(MIN_52_WEEK_POINTS, '2024-06-03', 190, 1);
+    const loose = { ...config, anomaly_std_devs: 100 };
+
+    expect(detectAnomalies(points, quote(191.5), loose).map((a) => a.kind)).toEqual(['new_high']);
+    expect(detectAnomalies(points, quote(188.5), loose).map((a) => a.kind)).toEqual(['new_low']);
+    expect(detectAnomalies(points.slice(1), quote(191.5), loose)).toEqual([]);
+  });
+
+  it('flags a provider quote far from the cached value', () => {
+    const anomalies = detectAnomalies([], quote(19.1, 190), config);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].kind).toBe('provider_mismatch');
+    expect(anomalies[0].message).toContain('frankfurter returned 19.10');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { rateHistory } from '@/lib/db/schema';
+import { createTestDb } from '@/lib/db/testing';
+import { findMissingBusinessDays, planChunks, runBackfill } from '@/lib/rates/backfill';
+import { businessDaysBetween, isBusinessDay } from '@/lib/rates/calendar';
+
+describe('calendar', () => {
+  it('treats weekends and TARGET holidays as non-business days', () => {
+    expect(isBusinessDay('2024-03-28')).toBe(true);  // Thursday
+    expect(isBusinessDay('2024-03-29')).toBe(false); // Good Friday
+    expect(isBusinessDay('2024-03-30')).toBe(false); // Saturday
+    expect(isBusinessDay('2024-04-01')).toBe(false); // Easter Monday
+    expect(isBusinessDay('2024-12-25')).toBe(false);
+    expect(isBusinessDay('2024-12-27')).toBe(true);
+  });
+
+  it('lists business days inclusively', () => {
+    expect(businessDaysBetween('2024-01-05', '2024-01-09')).toEqual([
+      '2024-01-05',
+      '2024-01-08',
+      '2024-01-09',
+    ]);
+  });
+});
+
+describe('findMissingBusinessDays', () => {
+  it('returns business days with no existing row', () => {
+    const missing = findMissingBusinessDays(['2024-01-08'], '2024-01-05', '2024-01-10');
+    expect(missing).toEqual(['2024-01-05', '2024-01-09', '2024-01-10']);
+  });
+});
+
+describe('planChunks', () => {
+  it('keeps a run of missing days across a weekend in one chunk', () => {
+    const chunks = planChunks(['2024-01-05', '2024-01-08', '2024-01-09']);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ from: '2024-01-05', to: '2024-01-09' });
+  });
+
+  it('splits around days that already exist', () => {
+    // 2024-01-08 exists, so 01-05 and 01-09 are separate runs
+    const chunks = planChunks(['2024-01-05', '2024-01-09']);
+    expect(chunks.map((c) => [c.from, c.to])).toEqual([
+      ['2024-01-05', '2024-01-05'],
+      ['2024-01-09', '2024-01-09'],
+    ]);
+  });
+
+  it('limits each chunk to maxChunkDays calendar days', () => {
+    const days = businessDaysBetween('2024-01-01', '2024-01-31');
+    const chunks = planChunks(days, 10);
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(new Date(chunk.to).getTime() - new Date(chunk.from).getTime()).toBeLessThan(10 * 86_400_000);
+    }
+    expect(chunks.flatMap((c) => c.days)).toEqual(days);
+  });
+});
+
+describe('runBackfill against a stand-in Frankfurter server', () => {
+  const requests: string[] = [];
+  let failNext = false;
+  let server: http.Server;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      const match = /^\/(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})/.exec(req.url ?? '');
+      if (failNext || !match) {
+        failNext = false;
+        res.writeHead(503).end();
+        return;
+      }
+
+      const rates: Record<string, { JPY: number }> = {};
+      for (const day of businessDaysBetween(match[1], match[2])) {
+        if (day === '2024-01-10') continue; // pretend the ECB skipped this day
+        rates[day] = { JPY: 180 + parseInt(day.slice(8), 10) / 10 };
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ amount: 1, base: 'GBP', start_date: match[1], end_date: match[2], rates }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    process.env.FRANKFURTER_BASE_URL = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.FRANKFURTER_BASE_URL;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    failNext = false;
+  });
+
+  it('fills missing days, reports unavailable ones and never overwrites', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-08', rate: 999, source: 'manual', fetched_at: 'x' }).run();
+
+    const progressUpdates: number[] = [];
+    const result = await runBackfill(
+      db,
+      { from: '2024-01-01', to: '2024-01-12' },
+      (p) => progressUpdates.push(p.completedChunks)
+    );
+
+    expect(result.status).toBe('completed');
+    expect(result.totalChunks).toBe(2); // 01-02..01-05 and 01-09..01-12
+    expect(result.inserted).toBe(7);
+    expect(result.unavailable).toEqual(['2024-01-10']);
+    expect(progressUpdates[progressUpdates.length - 1]).toBe(2);
+
+    const kept = db.select().from(rateHistory).all().find((r) => r.date === '2024-01-08');
+    expect(kept?.rate).toBe(999);
+  });
+
+  it('only re-fetches what is still missing on a re-run', async () => {
+    const db = createTestDb();
+    await runBackfill(db, { from: '2024-01-02', to: '2024-01-05' });
+    requests.length = 0;
+
+    const rerun = await runBackfill(db, { from: '2024-01-02', to: '2024-01-05' });
+    expect(rerun.missingDays).toBe(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('marks the job failed and keeps earlier chunks when the API errors', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-08', rate: 190, source: 'frankfurter', fetched_at: 'x' }).run();
+    failNext = false;
+
+    const result = await runBackfill(db, { from: '2024-01-02', to: '2024-01-12' }, (p) => {
+      if (p.completedChunks === 1) failNext = true;
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('503');
+    expect(result.completedChunks).toBe(1);
+    expect(db.select().from(rateHistory).all()).toHaveLength(5);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { rateHistory } from '@/lib/db/schema';
+import {
+  commitRateImport,
+  parseImportDate,
+  parseRateCsv,
+  previewRateImport,
+} from '@/lib/rates/import';
+
+const CSV = `Date,GBP/JPY
+05 Jan 2024,185.50
+04/01/2024,"184.25"
+2024-01-03,183.00
+not a date,182.00
+2024-01-02,
+`;
+
+describe('parseImportDate', () => {
+  it('reads ISO, day-first and named-month dates', () => {
+    expect(parseImportDate('2024-01-05')).toBe('2024-01-05');
+    expect(parseImportDate('5/1/2024')).toBe('2024-01-05');
+    expect(parseImportDate('05 Jan 2024')).toBe('2024-01-05');
+    expect(parseImportDate('5-January-2024')).toBe('2024-01-05');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseImportDate('31/02/2024')).toBeNull();
+    expect(parseImportDate('2024-13-01')).toBeNull();
+    expect(parseImportDate('05 Foo 2024')).toBeNull();
+  });
+});
+
+describe('parseRateCsv', () => {
+  it('returns rows sorted by date and reports unreadable lines', () => {
+    const { rows, errors } = parseRateCsv(CSV, { dateColumn: 'Date', rateColumn: 'GBP/JPY' });
+
+    expect(rows.map((r) => [r.date, r.rate])).toEqual([
+      ['2024-01-03', 183],
+      ['2024-01-04', 184.25],
+      ['2024-01-05', 185.5],
+    ]);
+    expect(errors.map((e) => e.line)).toEqual([5, 6]);
+  });
+
+  it('counts blank lines when reporting lines', () => {
+    const { rows, errors } = parseRateCsv('\nDate,Rate\n2024-01-02,190\n\n\nbad,191\n2024-01-03,191\n', {
+      dateColumn: 'Date',
+      rateColumn: 'Rate',
+    });
+
+    expect(errors).toEqual([{ line: 6, message: 'Unreadable date "bad"' }]);
+    expect(rows.map((r) => [r.line, r.date])).toEqual([
+      [3, '2024-01-02'],
+      [7, '2024-01-03'],
+    ]);
+  });
+
+  it('inverts JPY/GBP quotes', () => {
+    const { rows } = parseRateCsv('date,rate\n2024-01-05,0.005\n', {
+      dateColumn: 'date',
+      rateColumn: 'rate',
+      inverted: true,
+    });
+    expect(rows[0].rate).toBeCloseTo(200);
+  });
+
+  it('reports a missing column instead of parsing', () => {
+    const { rows, errors } = parseRateCsv(CSV, { dateColumn: 'Date', rateColumn: 'Close' });
+    expect(rows).toEqual([]);
+    expect(errors[0].message).toContain('Close');
+  });
+});
+
+describe('previewRateImport / commitRateImport', () => {
+  function seed() {
+    const db = createTestDb();
+    db.insert(rateHistory).values([
+      { date: '2024-01-03', rate: 183, open: 182.5, high: 183.5, low: 182, fetched_at: '2024-01-03T17:00:00Z' },
+      { date: '2024-01-04', rate: 190, open: 189, high: 191, low: 188, fetched_at: '2024-01-04T17:00:00Z' },
+    ]).run();
+    return db;
+  }
+
+  it('classifies rows as new, conflicting or unchanged', () => {
+    const db = seed();
+    const preview = previewRateImport(db, parseRateCsv(CSV, { dateColumn: 'Date', rateColumn: 'GBP/JPY' }));
+
+    expect(preview.counts).toEqual({ new: 1, conflict: 1, unchanged: 1 });
+    expect(preview.rows.find((r) => r.status === 'conflict')).toMatchObject({
+      date: '2024-01-04',
+      rate: 184.25,
+      existingRate: 190,
+      existingSource: 'frankfurter',
+    });
+    expect(preview.errors).toHaveLength(2);
+  });
+
+  it('skips conflicts and tags inserted rows with the import source', () => {
+    const db = seed();
+    const preview = previewRateImport(db, parseRateCsv(CSV, { dateColumn: 'Date', rateColumn: 'GBP/JPY' }));
+
+    expect(commitRateImport(db, preview, 'skip', 'boe')).toEqual({ inserted: 1, overwritten: 0, skipped: 2 });
+
+    const rows = db.select().from(rateHistory).all();
+    expect(rows.find((r) => r.date === '2024-01-04')?.rate).toBe(190);
+    expect(rows.find((r) => r.date === '2024-01-05')).toMatchObject({ rate: 185.5, source: 'boe' });
+  });
+
+  it('overwrites conflicts and clears their intraday range', () => {
+    const db = seed();
+    const preview = previewRateImport(db, parseRateCsv(CSV, { dateColumn: 'Date', rateColumn: 'GBP/JPY' }));
+
+    expect(commitRateImport(db, preview, 'overwrite')).toEqual({ inserted: 1, overwritten: 1, skipped: 1 });
+
+    const rows = db.select().from(rateHistory).all();
+    expect(rows.find((r) => r.date === '2024-01-04')).toMatchObject({
+      rate: 184.25,
+      open: null,
+      high: null,
+      low: null,
+      source: 'csv_import',
+    });
+    expect(rows.find((r) => r.date === '2024-01-03')?.high).toBe(183.5);
+  });
+});
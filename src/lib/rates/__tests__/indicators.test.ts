@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bollingerBands,
+  calculateIndicators,
+  ema,
+  rollingVolatility,
+  rsi,
+  sma,
+  zScore,
+} from '@/lib/rates/indicators';
+import type { RateHistoryPoint } from '@/lib/rates/history';
+
+describe('moving averages', () => {
+  it('computes a simple moving average once the window is full', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('seeds the EMA with the SMA and then weights recent values', () => {
+    // k = 2 / (3 + 1) = 0.5
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(ema([2, 2, 2, 8], 3)[3]).toBe(5);
+  });
+});
+
+describe('bollingerBands', () => {
+  it('places the bands two population standard deviations around the SMA', () => {
+    const [, , band] = bollingerBands([1, 2, 3], 3, 2);
+    const sd = Math.sqrt(2 / 3);
+
+    expect(band.middle).toBe(2);
+    expect(band.upper).toBeCloseTo(2 + 2 * sd);
+    expect(band.lower).toBeCloseTo(2 - 2 * sd);
+  });
+});
+
+describe('rollingVolatility', () => {
+  it('is zero for a constant rate and null before the window fills', () => {
+    const result = rollingVolatility([190, 190, 190, 190], 2);
+    expect(result).toEqual([null, null, 0, 0]);
+  });
+});
+
+describe('rsi', () => {
+  it('is 100 for a rate that only rises and 0 for one that only falls', () => {
+    expect(rsi([1, 2, 3, 4], 3)).toEqual([null, null, null, 100]);
+    expect(rsi([4, 3, 2, 1], 3)).toEqual([null, null, null, 0]);
+  });
+
+  it('is 50 when average gains equal average losses', () => {
+    expect(rsi([10, 11, 10, 11, 10], 4)[4]).toBe(50);
+  });
+});
+
+describe('zScore', () => {
+  it('measures the current rate against the trailing mean', () => {
+    // mean 2, population sd sqrt(2/3)
+    expect(zScore([1, 2, 3], 4, 3)).toBeCloseTo(2 / Math.sqrt(2 / 3));
+  });
+
+  it('needs a full window', () => {
+    expect(zScore([1, 2], 3, 3)).toBeNull();
+  });
+});
+
+describe('calculateIndicators', () => {
+  it('returns an empty series for no history', () => {
+    expect(calculateIndicators([])).toEqual({ series: [], latest: null });
+  });
+
+  it('aligns every indicator with the history dates', () => {
+    const history: RateHistoryPoint[] = Array.from({ length: 60 }, (_, i) => ({
+      date: `2024-${String(Math.floor(i / 28) + 1).padStart(2, '0')}-${String((i % 28) + 1).padStart(2, '0')}`,
+      rate: 180 + i * 0.5,
+    }));
+
+    const { series, latest } = calculateIndicators(history, 215);
+
+    expect(series).toHaveLength(60);
+    expect(series[18].sma20).toBeNull();
+    expect(series[19].sma20).toBeCloseTo(184.75);
+    expect(series[59].sma50).not.toBeNull();
+    expect(series[59].sma200).toBeNull();
+    expect(latest?.rsi).toBe(100);
+    expect(latest?.zScore).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { crossRate, parseEcbDailyXml } from '@/lib/rates/ecb';
+import {
+  buildProviderChain,
+  createFileProvider,
+  createManualProvider,
+  fetchFromChain,
+  parseProviderChain,
+} from '@/lib/rates/providers';
+import type { RateProvider } from '@/lib/rates/providers';
+import type { RateProviderName } from '@/types';
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <Cube>
+    <Cube time='2024-01-05'>
+      <Cube currency='USD' rate='1.0921'/>
+      <Cube currency='JPY' rate='158.26'/>
+      <Cube currency='GBP' rate='0.86190'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+function stubProvider(name: RateProviderName, rate: number | null): RateProvider {
+  return {
+    name,
+    async fetchCurrentRate() {
+      if (rate === null) throw new Error(`${name} down`);
+      return { rate, date: '2024-01-05', source: 'stub', isStale: false, fetchedAt: '2024-01-05T12:00:00Z' };
+    },
+  };
+}
+
+describe('parseEcbDailyXml', () => {
+  it('reads the reference date and EUR rates', () => {
+    const daily = parseEcbDailyXml(ECB_XML);
+    expect(daily.date).toBe('2024-01-05');
+    expect(daily.rates.JPY).toBe(158.26);
+    expect(daily.rates.GBP).toBe(0.8619);
+  });
+
+  it('crosses GBP/JPY through EUR', () => {
+    const daily = parseEcbDailyXml(ECB_XML);
+    expect(crossRate(daily.rates, 'GBP', 'JPY')).toBeCloseTo(183.618, 3);
+  });
+
+  it('throws when the feed has no date', () => {
+    expect(() => parseEcbDailyXml('<Cube></Cube>')).toThrow('no reference date');
+  });
+});
+
+describe('parseProviderChain', () => {
+  it('keeps known providers in order and drops duplicates and unknowns', () => {
+    expect(parseProviderChain('ecb, bogus,frankfurter,ecb')).toEqual(['ecb', 'frankfurter']);
+  });
+
+  it('uses the default chain when unset', () => {
+    expect(parseProviderChain(null)).toEqual(['frankfurter', 'ecb']);
+  });
+});
+
+describe('fetchFromChain', () => {
+  it('returns the first provider that answers and records earlier failures', async () => {
+    const result = await fetchFromChain([
+      stubProvider('frankfurter', null),
+      stubProvider('ecb', 183.6),
+      stubProvider('manual', 999),
+    ]);
+
+    expect(result.rate.rate).toBe(183.6);
+    expect(result.rate.source).toBe('ecb');
+    expect(result.failures).toEqual([{ provider: 'frankfurter', error: 'frankfurter down' }]);
+  });
+
+  it('throws with every failure when all providers fail', async () => {
+    await expect(
+      fetchFromChain([stubProvider('frankfurter', null), stubProvider('ecb', null)])
+    ).rejects.toThrow('frankfurter (frankfurter down); ecb (ecb down)');
+  });
+
+  it('skips an unset manual override and moves on', async () => {
+    const chain = buildProviderChain({ rate_providers: 'manual', manual_rate: null });
+    await expect(fetchFromChain(chain)).rejects.toThrow('No manual rate set');
+
+    const result = await fetchFromChain([createManualProvider(null), stubProvider('ecb', 183)]);
+    expect(result.rate.source).toBe('ecb');
+  });
+
+  it('answers from a local fixture file', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'yen-tracker-'));
+    const fixture = path.join(dir, 'rate.json');
+    writeFileSync(fixture, JSON.stringify({ rate: 191.25, date: '2024-01-05' }));
+
+    const result = await fetchFromChain([createFileProvider(fixture)]);
+    expect(result.rate).toMatchObject({ rate: 191.25, date: '2024-01-05', source: 'file' });
+  });
+
+  it('only uses the manual override for GBP/JPY', async () => {
+    await expect(
+      fetchFromChain([createManualProvider(190)], { base: 'EUR', quote: 'JPY' })
+    ).rejects.toThrow('Manual rate only applies to GBP/JPY');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { alerts, rateHistory } from '@/lib/db/schema';
+import { createTestDb } from '@/lib/db/testing';
+import { createLimitOrder, getLimitOrder } from '@/lib/orders/limit-orders';
+import { clearRateCache, getCurrentRate } from '@/lib/rates/service';
+import type { RateProvider } from '@/lib/rates/providers';
+
+function countingProvider(rate: number | null) {
+  const provider = {
+    calls: 0,
+    name: 'frankfurter' as const,
+    async fetchCurrentRate() {
+      provider.calls += 1;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      if (rate === null) throw new Error('down');
+      return { rate, date: '2024-01-05', source: 'frankfurter', isStale: false, fetchedAt: '2024-01-05T12:00:00Z' };
+    },
+  };
+  return provider satisfies RateProvider;
+}
+
+const CONFIG = {
+  rate_providers: 'frankfurter',
+  manual_rate: null,
+  stale_after_hours: 12,
+  stale_hard_limit_hours: 72,
+  anomaly_std_devs: 3,
+  anomaly_window_days: 20,
+  anomaly_max_jump_pct: 5,
+};
+
+describe('getCurrentRate', () => {
+  beforeEach(() => {
+    clearRateCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one upstream fetch between concurrent callers', async () => {
+    const db = createTestDb();
+    const provider = countingProvider(190);
+
+    const [a, b, c] = await Promise.all([
+      getCurrentRate(db, undefined, { providers: [provider] }),
+      getCurrentRate(db, undefined, { providers: [provider] }),
+      getCurrentRate(db, undefined, { providers: [provider] }),
+    ]);
+
+    expect(provider.calls).toBe(1);
+    expect(a.rate?.cache?.status).toBe('miss');
+    expect(b.rate?.cache?.status).toBe('joined');
+    expect(c.rate?.cache?.status).toBe('joined');
+    expect(db.select().from(rateHistory).all()).toHaveLength(1);
+  });
+
+  it('serves from the TTL cache until it expires', async () => {
+    const db = createTestDb();
+    const provider = countingProvider(190);
+
+    await getCurrentRate(db, undefined, { providers: [provider], ttlMs: 1_000 });
+    const hit = await getCurrentRate(db, undefined, { providers: [provider], ttlMs: 1_000 });
+    expect(hit.rate?.cache?.status).toBe('hit');
+    expect(provider.calls).toBe(1);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 1_001);
+    const refreshed = await getCurrentRate(db, undefined, { providers: [provider], ttlMs: 1_000 });
+    expect(refreshed.rate?.cache?.status).toBe('miss');
+    expect(provider.calls).toBe(2);
+  });
+
+  it('does not reuse the cache when the provider settings change', async () => {
+    const db = createTestDb();
+    const provider = countingProvider(190);
+
+    await getCurrentRate(db, CONFIG, { providers: [provider] });
+    await getCurrentRate(db, { ...CONFIG, rate_providers: 'manual,frankfurter', manual_rate: 200 }, { providers: [provider] });
+
+    expect(provider.calls).toBe(2);
+  });
+
+  it('reports the value a fresh fetch replaced, but not on a cache hit', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-04', rate: 188, source: 'frankfurter', fetched_at: '2024-01-04T12:00:00Z' }).run();
+    const provider = countingProvider(190);
+
+    const first = await getCurrentRate(db, undefined, { providers: [provider] });
+    const hit = await getCurrentRate(db, undefined, { providers: [provider] });
+
+    expect(first.previousRate).toBe(188);
+    expect(hit.previousRate).toBeNull();
+  });
+
+  it('does not record a quote flagged as suspect provider data', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-04', rate: 188, source: 'frankfurter', fetched_at: '2024-01-04T12:00:00Z' }).run();
+    const provider = countingProvider(250);
+
+    const first = await getCurrentRate(db, CONFIG, { providers: [provider] });
+    const hit = await getCurrentRate(db, CONFIG, { providers: [provider] });
+
+    expect(first.anomalies.map((a) => a.kind)).toEqual(['provider_mismatch']);
+    expect(hit.anomalies).toEqual(first.anomalies);
+    expect(db.select().from(rateHistory).all().map((r) => [r.date, r.rate])).toEqual([['2024-01-04', 188]]);
+  });
+
+  it('records a quote that passes the anomaly check', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-04', rate: 188, source: 'frankfurter', fetched_at: '2024-01-04T12:00:00Z' }).run();
+
+    const result = await getCurrentRate(db, CONFIG, { providers: [countingProvider(190)] });
+
+    expect(result.anomalies).toEqual([]);
+    expect(db.select().from(rateHistory).all()).toHaveLength(2);
+  });
+
+  it('triggers limit orders on the fetched rate, in any pair', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-05T13:00:00Z'));
+    const db = createTestDb();
+    const order = { amount: 100000, condition: 'ABOVE' as const, target_rate: 159, expires_on: null, notes: null };
+    const gbp = createLimitOrder(db, { ...order, source_currency: 'GBP', target_currency: 'JPY', target_rate: 185 });
+    const eur = createLimitOrder(db, { ...order, source_currency: 'EUR', target_currency: 'JPY' });
+
+    await getCurrentRate(db, CONFIG, { providers: [countingProvider(190)] });
+    await getCurrentRate(db, CONFIG, { providers: [countingProvider(160)], pair: { base: 'EUR', quote: 'JPY' } });
+
+    expect(getLimitOrder(db, gbp.id)).toMatchObject({ status: 'TRIGGERED', triggered_rate: 190 });
+    expect(getLimitOrder(db, eur.id)).toMatchObject({ status: 'TRIGGERED', triggered_rate: 160 });
+    expect(db.select().from(alerts).all().map((a) => a.dedupe_key)).toEqual([
+      `limit_order:${gbp.id}`,
+      `limit_order:${eur.id}`,
+    ]);
+  });
+
+  it('leaves limit orders alone when the fetched rate is past the hard staleness limit', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-12T13:00:00Z'));
+    const db = createTestDb();
+    const order = createLimitOrder(db, {
+      source_currency: 'GBP',
+      target_currency: 'JPY',
+      amount: 100000,
+      condition: 'ABOVE',
+      target_rate: 185,
+      expires_on: null,
+      notes: null,
+    });
+
+    const result = await getCurrentRate(db, CONFIG, { providers: [countingProvider(190)] });
+
+    expect(result.rate?.beyondHardLimit).toBe(true);
+    expect(getLimitOrder(db, order.id)?.status).toBe('PENDING');
+  });
+
+  it('falls back to rate_history with provider failures when every provider fails', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-04', rate: 188, source: 'frankfurter', fetched_at: '2024-01-04T12:00:00Z' }).run();
+
+    const result = await getCurrentRate(db, undefined, { providers: [countingProvider(null)] });
+
+    expect(result.fallback).toBe(true);
+    expect(result.rate?.rate).toBe(188);
+    expect(result.providerFailures).toEqual([{ provider: 'frankfurter', error: 'down' }]);
+  });
+
+  it('caches other pairs separately and keeps them out of rate_history', async () => {
+    const db = createTestDb();
+    const provider = countingProvider(160);
+
+    await getCurrentRate(db, undefined, { providers: [provider] });
+    const eur = await getCurrentRate(db, undefined, { providers: [provider], pair: { base: 'EUR', quote: 'JPY' } });
+
+    expect(provider.calls).toBe(2);
+    expect(eur.rate?.cache?.status).toBe('miss');
+    expect(db.select().from(rateHistory).all()).toHaveLength(1);
+  });
+
+  it('has no offline fallback for pairs other than GBP/JPY', async () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-04', rate: 188, source: 'frankfurter', fetched_at: '2024-01-04T12:00:00Z' }).run();
+
+    const result = await getCurrentRate(db, undefined, {
+      providers: [countingProvider(null)],
+      pair: { base: 'EUR', quote: 'JPY' },
+    });
+
+    expect(result.fallback).toBe(true);
+    expect(result.rate).toBeNull();
+  });
+});
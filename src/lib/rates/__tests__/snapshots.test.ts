@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { rateHistory } from '@/lib/db/schema';
+import { getSnapshotsForDate, recordSnapshot, rollupSnapshots } from '@/lib/rates/snapshots';
+import type { RateInfo } from '@/types';
+
+function quote(rate: number, fetchedAt: string, source = 'frankfurter'): RateInfo {
+  return { rate, date: '2024-01-05', source, isStale: false, fetchedAt };
+}
+
+describe('rollupSnapshots', () => {
+  it('returns null for a day without snapshots', () => {
+    expect(rollupSnapshots([])).toBeNull();
+  });
+
+  it('orders quotes by fetch time regardless of input order', () => {
+    const ohlc = rollupSnapshots([
+      { rate: 191, source: 'ecb', fetched_at: '2024-01-05T15:00:00Z' },
+      { rate: 190, source: 'frankfurter', fetched_at: '2024-01-05T09:00:00Z' },
+      { rate: 193, source: 'frankfurter', fetched_at: '2024-01-05T12:00:00Z' },
+      { rate: 189, source: 'frankfurter', fetched_at: '2024-01-05T13:00:00Z' },
+    ]);
+
+    expect(ohlc).toEqual({
+      open: 190,
+      high: 193,
+      low: 189,
+      close: 191,
+      count: 4,
+      source: 'ecb',
+      fetchedAt: '2024-01-05T15:00:00Z',
+    });
+  });
+});
+
+describe('recordSnapshot', () => {
+  it('keeps every quote and rolls the day up into rate_history', () => {
+    const db = createTestDb();
+
+    recordSnapshot(db, quote(190, '2024-01-05T09:00:00Z'));
+    recordSnapshot(db, quote(192, '2024-01-05T12:00:00Z'));
+    recordSnapshot(db, quote(191, '2024-01-05T15:00:00Z', 'ecb'));
+
+    expect(getSnapshotsForDate(db, '2024-01-05').map((s) => s.rate)).toEqual([190, 192, 191]);
+
+    const rows = db.select().from(rateHistory).all();
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      date: '2024-01-05',
+      rate: 191,
+      open: 190,
+      high: 192,
+      low: 190,
+      source: 'ecb',
+      fetched_at: '2024-01-05T15:00:00Z',
+    });
+  });
+
+  it('replaces a backfilled close-only row with the intraday roll-up', () => {
+    const db = createTestDb();
+    db.insert(rateHistory).values({ date: '2024-01-05', rate: 188, source: 'frankfurter' }).run();
+
+    recordSnapshot(db, quote(190, '2024-01-05T09:00:00Z'));
+
+    const [row] = db.select().from(rateHistory).all();
+    expect(row).toMatchObject({ rate: 190, open: 190, high: 190, low: 190 });
+  });
+});
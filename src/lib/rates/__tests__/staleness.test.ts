@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { assessStaleness, parseTimestamp, withStaleness } from '@/lib/rates/staleness';
+
+const thresholds = { staleAfterHours: 12, hardLimitHours: 72 };
+
+describe('assessStaleness', () => {
+  it("treats Friday's rate as current over the weekend", () => {
+    // Friday 2024-01-05 rate, checked Sunday afternoon
+    const result = assessStaleness(
+      { date: '2024-01-05', fetchedAt: '2024-01-05T17:00:00Z' },
+      thresholds,
+      new Date('2024-01-07T15:00:00Z')
+    );
+
+    expect(result.isStale).toBe(false);
+    expect(result.businessDaysBehind).toBe(0);
+    expect(result.ageSeconds).toBe(46 * 3600);
+    expect(result.staleReason).toBeNull();
+  });
+
+  it('treats the Easter weekend as non-business days', () => {
+    // Thursday 2024-03-28 rate, checked Easter Monday evening
+    const result = assessStaleness(
+      { date: '2024-03-28', fetchedAt: '2024-03-28T17:00:00Z' },
+      thresholds,
+      new Date('2024-04-01T20:00:00Z')
+    );
+
+    expect(result.isStale).toBe(false);
+  });
+
+  it('waits for the publication time before counting a day as missed', () => {
+    const morning = assessStaleness(
+      { date: '2024-01-05', fetchedAt: '2024-01-05T17:00:00Z' },
+      thresholds,
+      new Date('2024-01-08T09:00:00Z')
+    );
+    expect(morning.businessDaysBehind).toBe(0);
+  });
+
+  it('is soft-stale once a newer rate has been missing past the threshold', () => {
+    // Monday's rate due 16:00 UTC Monday; checked Tuesday 06:00 (14h later)
+    const result = assessStaleness(
+      { date: '2024-01-05', fetchedAt: '2024-01-05T17:00:00Z' },
+      thresholds,
+      new Date('2024-01-09T06:00:00Z')
+    );
+
+    expect(result.isStale).toBe(true);
+    expect(result.beyondHardLimit).toBe(false);
+    expect(result.businessDaysBehind).toBe(1);
+    expect(result.staleReason).toContain('1 business day behind');
+  });
+
+  it('flags rates beyond the hard limit', () => {
+    const result = assessStaleness(
+      { date: '2024-01-05', fetchedAt: '2024-01-05T17:00:00Z' },
+      thresholds,
+      new Date('2024-01-26T12:00:00Z')
+    );
+
+    expect(result.isStale).toBe(true);
+    expect(result.beyondHardLimit).toBe(true);
+    expect(result.businessDaysBehind).toBe(14);
+  });
+});
+
+describe('parseTimestamp', () => {
+  it("reads SQLite's datetime('now') format as UTC", () => {
+    expect(parseTimestamp('2024-01-05 12:00:00')).toBe(Date.parse('2024-01-05T12:00:00Z'));
+    expect(parseTimestamp('2024-01-05T12:00:00.000Z')).toBe(Date.parse('2024-01-05T12:00:00Z'));
+  });
+});
+
+describe('withStaleness', () => {
+  it('fills in the staleness fields on a RateInfo', () => {
+    const rate = withStaleness(
+      { rate: 190, date: '2024-01-05', source: 'frankfurter', isStale: false, fetchedAt: '2024-01-05T17:00:00Z' },
+      thresholds,
+      new Date('2024-01-26T12:00:00Z')
+    );
+
+    expect(rate.isStale).toBe(true);
+    expect(rate.beyondHardLimit).toBe(true);
+    expect(rate.staleReason).toContain('2024-01-05');
+  });
+});
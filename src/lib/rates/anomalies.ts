@@ -0,0 +1,93 @@
+import type { RateHistoryPoint } from '@/lib/rates/history';
+import type { Settings } from '@/types';
+import { addDays } from '@/lib/rates/calendar';
+
+export type AnomalyKind = 'volatility_move' | 'new_high' | 'new_low' | 'provider_mismatch';
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  key: string;        // kind + rate date; one alert per kind per business day
+  message: string;
+}
+
+export type AnomalyConfig = Pick<
+  Settings,
+  'anomaly_std_devs' | 'anomaly_window_days' | 'anomaly_max_jump_pct'
+>;
+
+export interface AnomalyInput {
+  rate: number;
+  date: string;                  // business date of the quote
+  source: string;
+  previousRate: number | null;   // cached value the quote replaced; null unless freshly fetched
+}
+
+// A 52-week extreme needs most of a year of closes behind it to mean anything
+export const MIN_52_WEEK_POINTS = 200;
+
+function stdDev(values: number[]): number {
+  const avg = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length);
+}
+
+/**
+ * Check a quote against stored closes (oldest first). History on or after the
+ * quote's date is ignored, so re-checking during the day compares against the
+ * same baseline as the first check.
+ */
+export function detectAnomalies(
+  history: RateHistoryPoint[],
+  quote: AnomalyInput,
+  config: AnomalyConfig
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  const add = (kind: AnomalyKind, message: string) =>
+    anomalies.push({ kind, key: `${kind}:${quote.date}`, message });
+
+  const prior = history.filter((h) => h.date < quote.date);
+  const rates = prior.map((h) => h.rate);
+
+  // Day-over-day move measured in std devs of recent daily log returns
+  if (rates.length > config.anomaly_window_days) {
+    const window = rates.slice(-(config.anomaly_window_days + 1));
+    const sd = stdDev(window.slice(1).map((r, i) => Math.log(r / window[i])));
+    const previousClose = rates[rates.length - 1];
+    const move = Math.log(quote.rate / previousClose);
+
+    if (sd > 0 && Math.abs(move) > config.anomaly_std_devs * sd) {
+      const pct = (quote.rate / previousClose - 1) * 100;
+      add(
+        'volatility_move',
+        `Rate moved ${pct >= 0 ? '+' : ''}${pct.toFixed(2)}% to ${quote.rate.toFixed(2)}, ` +
+          `${(Math.abs(move) / sd).toFixed(1)} std devs of ${config.anomaly_window_days}-day volatility`
+      );
+    }
+  }
+
+  const yearAgo = addDays(quote.date, -364);
+  const year = prior.filter((h) => h.date >= yearAgo);
+  if (year.length >= MIN_52_WEEK_POINTS) {
+    // Closes, matching calculate52WeekRange on the dashboard
+    const high = Math.max(...year.map((h) => h.rate));
+    const low = Math.min(...year.map((h) => h.rate));
+
+    if (quote.rate > high) {
+      add('new_high', `New 52-week high at ${quote.rate.toFixed(2)} (previous ${high.toFixed(2)})`);
+    } else if (quote.rate < low) {
+      add('new_low', `New 52-week low at ${quote.rate.toFixed(2)} (previous ${low.toFixed(2)})`);
+    }
+  }
+
+  if (quote.previousRate !== null && quote.previousRate > 0) {
+    const jumpPct = Math.abs(quote.rate / quote.previousRate - 1) * 100;
+    if (jumpPct > config.anomaly_max_jump_pct) {
+      add(
+        'provider_mismatch',
+        `${quote.source} returned ${quote.rate.toFixed(2)}, ${jumpPct.toFixed(1)}% away from the cached ` +
+          `${quote.previousRate.toFixed(2)}; check for bad data`
+      );
+    }
+  }
+
+  return anomalies;
+}
@@ -0,0 +1,196 @@
+import { and, gte, lte } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { rateHistory } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { fetchHistoricalRates } from '@/lib/rates/frankfurter';
+import { addDays, businessDaysBetween } from '@/lib/rates/calendar';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type BackfillStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+export interface BackfillChunk {
+  from: string;
+  to: string;
+  days: string[];        // missing business days covered by this chunk
+}
+
+export interface BackfillProgress {
+  status: BackfillStatus;
+  from: string | null;
+  to: string | null;
+  missingDays: number;
+  totalChunks: number;
+  completedChunks: number;
+  inserted: number;
+  unavailable: string[]; // business days the API returned no rate for
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface BackfillOptions {
+  from: string;
+  to: string;
+  chunkDays?: number;
+}
+
+export const DEFAULT_BACKFILL_DAYS = 365;
+export const DEFAULT_CHUNK_DAYS = 90;
+
+function idleProgress(): BackfillProgress {
+  return {
+    status: 'idle',
+    from: null,
+    to: null,
+    missingDays: 0,
+    totalChunks: 0,
+    completedChunks: 0,
+    inserted: 0,
+    unavailable: [],
+    error: null,
+    startedAt: null,
+    finishedAt: null,
+  };
+}
+
+/**
+ * Business days between `from` and `to` (inclusive) with no rate_history row.
+ */
+export function findMissingBusinessDays(
+  existingDates: Iterable<string>,
+  from: string,
+  to: string
+): string[] {
+  const existing = new Set(existingDates);
+  return businessDaysBetween(from, to).filter((d) => !existing.has(d));
+}
+
+/**
+ * Group missing days into time-series requests. A chunk covers one contiguous
+ * run of missing business days (so we never re-download days we already have)
+ * and never spans more than `maxChunkDays` calendar days.
+ */
+export function planChunks(
+  missingDays: string[],
+  maxChunkDays: number = DEFAULT_CHUNK_DAYS
+): BackfillChunk[] {
+  const chunks: BackfillChunk[] = [];
+  let current: BackfillChunk | null = null;
+
+  for (const day of missingDays) {
+    const contiguous =
+      current !== null &&
+      businessDaysBetween(addDays(current.to, 1), addDays(day, -1)).length === 0;
+    const fits = current !== null && day <= addDays(current.from, maxChunkDays - 1);
+
+    if (current && contiguous && fits) {
+      current.to = day;
+      current.days.push(day);
+    } else {
+      current = { from: day, to: day, days: [day] };
+      chunks.push(current);
+    }
+  }
+
+  return chunks;
+}
+
+export function getExistingRateDates(db: DB, from: string, to: string): string[] {
+  return db
+    .select({ date: rateHistory.date })
+    .from(rateHistory)
+    .where(and(gte(rateHistory.date, from), lte(rateHistory.date, to)))
+    .all()
+    .map((row) => row.date);
+}
+
+/**
+ * Fill missing business days in rate_history from the Frankfurter time-series
+ * endpoint. Existing rows are never overwritten, so re-running after a failure
+ * only fetches what is still missing.
+ */
+export async function runBackfill(
+  db: DB,
+  options: BackfillOptions,
+  onProgress?: (progress: BackfillProgress) => void
+): Promise<BackfillProgress> {
+  const missing = findMissingBusinessDays(
+    getExistingRateDates(db, options.from, options.to),
+    options.from,
+    options.to
+  );
+  const chunks = planChunks(missing, options.chunkDays ?? DEFAULT_CHUNK_DAYS);
+
+  const progress: BackfillProgress = {
+    ...idleProgress(),
+    status: 'running',
+    from: options.from,
+    to: options.to,
+    missingDays: missing.length,
+    totalChunks: chunks.length,
+    startedAt: new Date().toISOString(),
+  };
+  onProgress?.({ ...progress });
+
+  try {
+    for (const chunk of chunks) {
+      const rates = await fetchHistoricalRates(chunk.from, chunk.to);
+      const fetchedAt = new Date().toISOString();
+
+      const rows = chunk.days
+        .filter((d) => rates[d] !== undefined)
+        .map((d) => ({ date: d, rate: rates[d], source: 'frankfurter', fetched_at: fetchedAt }));
+
+      if (rows.length > 0) {
+        const result = db.insert(rateHistory).values(rows).onConflictDoNothing().run();
+        progress.inserted += result.changes;
+      }
+
+      progress.unavailable.push(...chunk.days.filter((d) => rates[d] === undefined));
+      progress.completedChunks += 1;
+      onProgress?.({ ...progress });
+    }
+
+    progress.status = 'completed';
+  } catch (error) {
+    progress.status = 'failed';
+    progress.error = error instanceof Error ? error.message : 'Backfill failed';
+  }
+
+  progress.finishedAt = new Date().toISOString();
+  onProgress?.({ ...progress });
+  return progress;
+}
+
+// ── Background job ───────────────────────────────────────────────────
+
+let currentJob: BackfillProgress = idleProgress();
+
+export function getBackfillProgress(): BackfillProgress {
+  return { ...currentJob, unavailable: [...currentJob.unavailable] };
+}
+
+/**
+ * Start a backfill in the background. Only one job runs at a time; returns
+ * null if a job is already running.
+ */
+export function startBackfill(db: DB, options: BackfillOptions): BackfillProgress | null {
+  if (currentJob.status === 'running') {
+    return null;
+  }
+
+  currentJob = { ...idleProgress(), status: 'running', from: options.from, to: options.to };
+  runBackfill(db, options, (progress) => {
+    currentJob = progress;
+  }).catch((error: unknown) => {
+    currentJob = {
+      ...currentJob,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Backfill failed',
+      finishedAt: new Date().toISOString(),
+    };
+  });
+
+  return getBackfillProgress();
+}
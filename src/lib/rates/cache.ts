@@ -3,10 +3,16 @@ import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
 import { rateHistory } from '@/lib/db/schema';
 import type * as schema from '@/lib/db/schema';
 import type { RateInfo } from '@/types';
+import { withStaleness, DEFAULT_STALENESS_THRESHOLDS } from '@/lib/rates/staleness';
+import type { StalenessThresholds } from '@/lib/rates/staleness';
 
 type DB = BetterSQLite3Database<typeof schema>;
 
-export function getCachedRate(db: DB, date: string): RateInfo | null {
+export function getCachedRate(
+  db: DB,
+  date: string,
+  thresholds: StalenessThresholds = DEFAULT_STALENESS_THRESHOLDS
+): RateInfo | null {
   const rows = db
     .select()
     .from(rateHistory)
@@ -18,13 +24,16 @@ export function getCachedRate(db: DB, date: string): RateInfo | null {
   }
 
   const row = rows[0];
-  return {
-    rate: row.rate,
-    date: row.date,
-    source: row.source,
-    isStale: false,
-    fetchedAt: row.fetched_at,
-  };
+  return withStaleness(
+    {
+      rate: row.rate,
+      date: row.date,
+      source: row.source,
+      isStale: false,
+      fetchedAt: row.fetched_at,
+    },
+    thresholds
+  );
 }
 
 export function cacheRate(db: DB, rateInfo: RateInfo): void {
@@ -46,7 +55,10 @@ export function cacheRate(db: DB, rateInfo: RateInfo): void {
     .run();
 }
 
-export function getLatestCachedRate(db: DB): RateInfo | null {
+export function getLatestCachedRate(
+  db: DB,
+  thresholds: StalenessThresholds = DEFAULT_STALENESS_THRESHOLDS
+): RateInfo | null {
   const rows = db
     .select()
     .from(rateHistory)
@@ -59,11 +71,14 @@ export function getLatestCachedRate(db: DB): RateInfo | null {
   }
 
   const row = rows[0];
-  return {
-    rate: row.rate,
-    date: row.date,
-    source: row.source,
-    isStale: false,
-    fetchedAt: row.fetched_at,
-  };
+  return withStaleness(
+    {
+      rate: row.rate,
+      date: row.date,
+      source: row.source,
+      isStale: false,
+      fetchedAt: row.fetched_at,
+    },
+    thresholds
+  );
 }
@@ -0,0 +1,91 @@
+/**
+ * Business-day calendar for ECB reference rates (which Frankfurter republishes).
+ * Rates are published on TARGET2 business days: weekdays excluding New Year's
+ * Day, Good Friday, Easter Monday, 1 May, Christmas Day and Boxing Day.
+ *
+ * All dates are 'YYYY-MM-DD' strings and all arithmetic is done in UTC so the
+ * result does not depend on the server's timezone.
+ */
+
+function toUtcDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toUtcDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateString(d);
+}
+
+/**
+ * Whole days from `from` to `to` (negative if `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / 86_400_000);
+}
+
+/**
+ * Easter Sunday for a given year (anonymous Gregorian algorithm).
+ */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function isWeekend(date: string): boolean {
+  const day = toUtcDate(date).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+export function isTargetHoliday(date: string): boolean {
+  const monthDay = date.slice(5);
+  if (monthDay === '01-01' || monthDay === '05-01' || monthDay === '12-25' || monthDay === '12-26') {
+    return true;
+  }
+
+  const easter = easterSunday(parseInt(date.slice(0, 4), 10));
+  return date === addDays(easter, -2) || date === addDays(easter, 1);
+}
+
+export function isBusinessDay(date: string): boolean {
+  return !isWeekend(date) && !isTargetHoliday(date);
+}
+
+/**
+ * All business days from `from` to `to`, inclusive.
+ */
+export function businessDaysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    if (isBusinessDay(d)) days.push(d);
+  }
+  return days;
+}
+
+/**
+ * Most recent business day on or before `date`.
+ */
+export function previousBusinessDay(date: string): string {
+  let d = date;
+  while (!isBusinessDay(d)) {
+    d = addDays(d, -1);
+  }
+  return d;
+}
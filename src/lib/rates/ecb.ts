@@ -0,0 +1,70 @@
+import type { CurrencyPair, RateInfo } from '@/types';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { withStaleness } from '@/lib/rates/staleness';
+
+/**
+ * URL of the ECB daily reference rate feed. Overridable via ECB_DAILY_URL for
+ * local testing.
+ */
+function getDailyUrl(): string {
+  return process.env.ECB_DAILY_URL ?? 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+}
+
+export interface EcbDailyRates {
+  date: string;
+  rates: Record<string, number>;   // units of currency per 1 EUR
+}
+
+/**
+ * Parse the ECB eurofxref daily XML. Every rate is quoted against EUR, e.g.
+ * <Cube time='2024-01-05'><Cube currency='JPY' rate='158.26'/>...</Cube>
+ */
+export function parseEcbDailyXml(xml: string): EcbDailyRates {
+  const timeMatch = /<Cube\s+time=['"](\d{4}-\d{2}-\d{2})['"]/.exec(xml);
+  if (!timeMatch) {
+    throw new Error('ECB feed error: no reference date found');
+  }
+
+  const rates: Record<string, number> = {};
+  const ratePattern = /<Cube\s+currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g;
+  for (const match of xml.matchAll(ratePattern)) {
+    rates[match[1]] = parseFloat(match[2]);
+  }
+
+  return { date: timeMatch[1], rates };
+}
+
+/**
+ * Pairs like GBP/JPY are not published directly, so cross them through EUR:
+ * JPY per EUR / GBP per EUR.
+ */
+export function crossRate(rates: Record<string, number>, base: string, quote: string): number {
+  const baseRate = base === 'EUR' ? 1 : rates[base];
+  const quoteRate = quote === 'EUR' ? 1 : rates[quote];
+
+  if (!baseRate || !quoteRate) {
+    throw new Error(`ECB feed error: missing ${!baseRate ? base : quote} rate`);
+  }
+
+  return quoteRate / baseRate;
+}
+
+export async function fetchEcbRate(pair: CurrencyPair = PRIMARY_PAIR): Promise<RateInfo> {
+  const response = await fetch(getDailyUrl());
+
+  if (!response.ok) {
+    throw new Error(
+      `ECB feed error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const daily = parseEcbDailyXml(await response.text());
+
+  return withStaleness({
+    rate: crossRate(daily.rates, pair.base, pair.quote),
+    date: daily.date,
+    source: 'ecb',
+    isStale: false,
+    fetchedAt: new Date().toISOString(),
+  });
+}
@@ -1,12 +1,12 @@
-import type { RateInfo } from '@/types';
+import type { CurrencyPair, RateInfo } from '@/types';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { withStaleness } from '@/lib/rates/staleness';
 
 interface FrankfurterLatestResponse {
   amount: number;
   base: string;
   date: string;
-  rates: {
-    JPY: number;
-  };
+  rates: Record<string, number>;
 }
 
 interface FrankfurterTimeSeriesResponse {
@@ -14,17 +14,20 @@ interface FrankfurterTimeSeriesResponse {
   base: string;
   start_date: string;
   end_date: string;
-  rates: Record<string, { JPY: number }>;
+  rates: Record<string, Record<string, number>>;
 }
 
-function isWeekday(date: Date): boolean {
-  const day = date.getDay();
-  return day !== 0 && day !== 6;
+/**
+ * Base URL of the Frankfurter API. Overridable via FRANKFURTER_BASE_URL so the
+ * backfill job and tests can run against a local stand-in server.
+ */
+function getBaseUrl(): string {
+  return process.env.FRANKFURTER_BASE_URL ?? 'https://api.frankfurter.dev/v1';
 }
 
-export async function fetchCurrentRate(): Promise<RateInfo> {
+export async function fetchCurrentRate(pair: CurrencyPair = PRIMARY_PAIR): Promise<RateInfo> {
   const response = await fetch(
-    'https://api.frankfurter.dev/v1/latest?base=GBP&symbols=JPY'
+    `${getBaseUrl()}/latest?base=${pair.base}&symbols=${pair.quote}`
   );
 
   if (!response.ok) {
@@ -34,29 +37,28 @@ export async function fetchCurrentRate(): Promise<RateInfo> {
   }
 
   const data: FrankfurterLatestResponse = await response.json();
-  const today = new Date();
-  const todayStr = today.toLocaleDateString('sv'); // 'YYYY-MM-DD' in local timezone
+  const rate = data.rates[pair.quote];
 
-  let isStale = false;
-  if (data.date !== todayStr && isWeekday(today)) {
-    isStale = true;
+  if (rate == null) {
+    throw new Error(`Frankfurter API error: no ${pair.quote} rate in response`);
   }
 
-  return {
-    rate: data.rates.JPY,
+  return withStaleness({
+    rate,
     date: data.date,
     source: 'frankfurter',
-    isStale,
+    isStale: false,
     fetchedAt: new Date().toISOString(),
-  };
+  });
 }
 
 export async function fetchHistoricalRates(
   from: string,
-  to: string
+  to: string,
+  pair: CurrencyPair = PRIMARY_PAIR
 ): Promise<Record<string, number>> {
   const response = await fetch(
-    `https://api.frankfurter.dev/v1/${from}..${to}?base=GBP&symbols=JPY`
+    `${getBaseUrl()}/${from}..${to}?base=${pair.base}&symbols=${pair.quote}`
   );
 
   if (!response.ok) {
@@ -69,7 +71,7 @@ export async function fetchHistoricalRates(
 
   const rates: Record<string, number> = {};
   for (const [date, rateObj] of Object.entries(data.rates)) {
-    rates[date] = rateObj.JPY;
+    rates[date] = rateObj[pair.quote];
   }
 
   return rates;
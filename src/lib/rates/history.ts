@@ -16,7 +16,10 @@ export interface RateRange {
 
 export interface RateHistoryPoint {
   date: string;
-  rate: number;
+  rate: number;          // close
+  open?: number | null;  // open/high/low are null for days without intraday snapshots
+  high?: number | null;
+  low?: number | null;
 }
 
 /**
@@ -28,7 +31,13 @@ export function getRateHistory(db: DB, days: number = 365): RateHistoryPoint[] {
   const cutoffStr = cutoff.toISOString().split('T')[0];
 
   return db
-    .select({ date: rateHistory.date, rate: rateHistory.rate })
+    .select({
+      date: rateHistory.date,
+      rate: rateHistory.rate,
+      open: rateHistory.open,
+      high: rateHistory.high,
+      low: rateHistory.low,
+    })
     .from(rateHistory)
     .where(gte(rateHistory.date, cutoffStr))
     .orderBy(asc(rateHistory.date))
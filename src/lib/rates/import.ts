@@ -0,0 +1,224 @@
+import { inArray } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import Papa from 'papaparse';
+import { rateHistory } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type ConflictMode = 'skip' | 'overwrite';
+
+export interface RateCsvOptions {
+  dateColumn: string;
+  rateColumn: string;
+  inverted?: boolean;   // file quotes GBP per JPY; store 1 / rate
+}
+
+export interface ParsedRateRow {
+  line: number;         // 1-based line in the file, counting the header
+  date: string;
+  rate: number;
+}
+
+export interface RateCsvError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedRateCsv {
+  rows: ParsedRateRow[];
+  errors: RateCsvError[];
+}
+
+export type ImportRowStatus = 'new' | 'conflict' | 'unchanged';
+
+export interface RateImportPreviewRow extends ParsedRateRow {
+  status: ImportRowStatus;
+  existingRate: number | null;
+  existingSource: string | null;
+}
+
+export interface RateImportPreview {
+  rows: RateImportPreviewRow[];
+  errors: RateCsvError[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+export interface RateImportResult {
+  inserted: number;
+  overwritten: number;
+  skipped: number;
+}
+
+export interface CsvRecord {
+  line: number;         // 1-based line in the file
+  values: Record<string, string>;
+}
+
+export interface ParsedCsvRecords {
+  fields: string[];
+  headerLine: number;
+  records: CsvRecord[];
+}
+
+export const DEFAULT_IMPORT_SOURCE = 'csv_import';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Normalise the date formats used by the ECB and Bank of England downloads:
+ * 2024-01-05, 05/01/2024 (day first) and 05 Jan 2024.
+ */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(trimmed))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[\s-]([A-Za-z]{3})[a-z]*[\s-](\d{4})$/.exec(trimmed))) {
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    [day, year] = [Number(match[1]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a CSV with a header row into records that keep their line in the
+ * file. Blank lines before the header and blank rows are skipped without
+ * shifting the lines of the rows after them.
+ */
+export function parseCsvRecords(csv: string): ParsedCsvRecords {
+  const body = csv.trimStart();
+  const headerLine = csv.slice(0, csv.length - body.length).split('\n').length;
+  const parsed = Papa.parse<Record<string, string>>(body.trimEnd(), {
+    header: true,
+    transformHeader: (h) => h.trim(),
+  });
+
+  const records = parsed.data.flatMap((values, i) =>
+    Object.values(values).every((v) => (v ?? '').trim() === '') ? [] : [{ line: headerLine + 1 + i, values }]
+  );
+  return { fields: parsed.meta.fields ?? [], headerLine, records };
+}
+
+/**
+ * Parse a CSV of historical rates. Rows with an unreadable date or rate are
+ * reported as errors rather than failing the whole file; a date that appears
+ * twice keeps its last row.
+ */
+export function parseRateCsv(csv: string, options: RateCsvOptions): ParsedRateCsv {
+  const { fields, headerLine, records } = parseCsvRecords(csv);
+  for (const column of [options.dateColumn, options.rateColumn]) {
+    if (!fields.includes(column)) {
+      return { rows: [], errors: [{ line: headerLine, message: `Column "${column}" not found` }] };
+    }
+  }
+
+  const byDate = new Map<string, ParsedRateRow>();
+  const errors: RateCsvError[] = [];
+
+  records.forEach(({ line, values: record }) => {
+    const date = parseImportDate(record[options.dateColumn] ?? '');
+    const raw = parseFloat((record[options.rateColumn] ?? '').replace(/,/g, ''));
+
+    if (!date) {
+      errors.push({ line, message: `Unreadable date "${record[options.dateColumn] ?? ''}"` });
+      return;
+    }
+    if (!Number.isFinite(raw) || raw <= 0) {
+      errors.push({ line, message: `No rate for ${date}` });
+      return;
+    }
+
+    byDate.set(date, { line, date, rate: options.inverted ? 1 / raw : raw });
+  });
+
+  const rows = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  return { rows, errors };
+}
+
+/**
+ * Compare parsed rows with what rate_history already holds. A row whose rate
+ * matches the stored one to 4 d.p. is unchanged, not a conflict.
+ */
+export function previewRateImport(db: DB, parsed: ParsedRateCsv): RateImportPreview {
+  const existing = new Map<string, { rate: number; source: string }>();
+
+  // Query in batches to stay under SQLite's bound-parameter limit
+  for (let i = 0; i < parsed.rows.length; i += 500) {
+    const dates = parsed.rows.slice(i, i + 500).map((r) => r.date);
+    for (const row of db
+      .select({ date: rateHistory.date, rate: rateHistory.rate, source: rateHistory.source })
+      .from(rateHistory)
+      .where(inArray(rateHistory.date, dates))
+      .all()) {
+      existing.set(row.date, row);
+    }
+  }
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, conflict: 0, unchanged: 0 };
+  const rows = parsed.rows.map((row): RateImportPreviewRow => {
+    const current = existing.get(row.date);
+    const status: ImportRowStatus = !current
+      ? 'new'
+      : Math.abs(current.rate - row.rate) < 0.00005 ? 'unchanged' : 'conflict';
+    counts[status]++;
+
+    return {
+      ...row,
+      status,
+      existingRate: current?.rate ?? null,
+      existingSource: current?.source ?? null,
+    };
+  });
+
+  return { rows, errors: parsed.errors, counts };
+}
+
+/**
+ * Write the previewed rows in one transaction. Conflicting rows are skipped
+ * or overwritten per `onConflict`; unchanged rows are always left alone.
+ * Overwritten rows lose their intraday open/high/low, which no longer match.
+ */
+export function commitRateImport(
+  db: DB,
+  preview: RateImportPreview,
+  onConflict: ConflictMode,
+  source: string = DEFAULT_IMPORT_SOURCE
+): RateImportResult {
+  const result: RateImportResult = { inserted: 0, overwritten: 0, skipped: 0 };
+  const fetchedAt = new Date().toISOString();
+
+  db.transaction((tx) => {
+    for (const row of preview.rows) {
+      if (row.status === 'unchanged' || (row.status === 'conflict' && onConflict === 'skip')) {
+        result.skipped++;
+        continue;
+      }
+
+      const values = { rate: row.rate, open: null, high: null, low: null, source, fetched_at: fetchedAt };
+      tx.insert(rateHistory)
+        .values({ date: row.date, ...values })
+        .onConflictDoUpdate({ target: rateHistory.date, set: values })
+        .run();
+
+      if (row.status === 'new') result.inserted++;
+      else result.overwritten++;
+    }
+  });
+
+  return result;
+}
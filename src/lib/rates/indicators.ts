@@ -0,0 +1,159 @@
+import type { RateHistoryPoint } from '@/lib/rates/history';
+
+export const MOVING_AVERAGE_PERIODS = [20, 50, 200] as const;
+export const VOLATILITY_WINDOW = 20;
+export const BOLLINGER_PERIOD = 20;
+export const BOLLINGER_STD_DEVS = 2;
+export const RSI_PERIOD = 14;
+export const Z_SCORE_WINDOW = 50;
+
+// FX trades roughly 252 days a year; used to annualise daily volatility
+const TRADING_DAYS_PER_YEAR = 252;
+
+type MovingAverages = Record<`${'sma' | 'ema'}${(typeof MOVING_AVERAGE_PERIODS)[number]}`, number | null>;
+
+export interface IndicatorPoint extends MovingAverages {
+  date: string;
+  rate: number;
+  bollingerUpper: number | null;
+  bollingerMiddle: number | null;
+  bollingerLower: number | null;
+  volatility: number | null;   // annualised, in percent
+  rsi: number | null;          // 0-100
+}
+
+export interface IndicatorSummary extends IndicatorPoint {
+  zScore: number | null;       // current rate vs trailing Z_SCORE_WINDOW-day mean, in std devs
+}
+
+export interface IndicatorsResult {
+  series: IndicatorPoint[];
+  latest: IndicatorSummary | null;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - avg) ** 2)));
+}
+
+/** Apply fn to each trailing window of `period` values; null until the window is full. */
+function rolling(values: number[], period: number, fn: (window: number[]) => number): (number | null)[] {
+  return values.map((_, i) => (i + 1 >= period ? fn(values.slice(i + 1 - period, i + 1)) : null));
+}
+
+export function sma(values: number[], period: number): (number | null)[] {
+  return rolling(values, period, mean);
+}
+
+/** Exponential moving average, seeded with the SMA of the first `period` values. */
+export function ema(values: number[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  const result: (number | null)[] = [];
+  let previous: number | null = null;
+
+  values.forEach((value, i) => {
+    if (i + 1 < period) {
+      result.push(null);
+      return;
+    }
+    previous = previous === null ? mean(values.slice(0, period)) : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+
+  return result;
+}
+
+/**
+ * Annualised volatility (%) from the standard deviation of daily log returns
+ * over the trailing `period` days.
+ */
+export function rollingVolatility(values: number[], period: number = VOLATILITY_WINDOW): (number | null)[] {
+  const returns = values.slice(1).map((v, i) => Math.log(v / values[i]));
+  const daily = rolling(returns, period, stdDev);
+  return [null, ...daily.map((sd) => (sd === null ? null : sd * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100))];
+}
+
+export function bollingerBands(
+  values: number[],
+  period: number = BOLLINGER_PERIOD,
+  stdDevs: number = BOLLINGER_STD_DEVS
+): { upper: number | null; middle: number | null; lower: number | null }[] {
+  const middles = sma(values, period);
+  const deviations = rolling(values, period, stdDev);
+
+  return middles.map((middle, i) => {
+    const sd = deviations[i];
+    if (middle === null || sd === null) return { upper: null, middle: null, lower: null };
+    return { upper: middle + stdDevs * sd, middle, lower: middle - stdDevs * sd };
+  });
+}
+
+/** Relative strength index with Wilder's smoothing. */
+export function rsi(values: number[], period: number = RSI_PERIOD): (number | null)[] {
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) return result;
+
+  const changes = values.slice(1).map((v, i) => v - values[i]);
+  let avgGain = mean(changes.slice(0, period).map((c) => Math.max(c, 0)));
+  let avgLoss = mean(changes.slice(0, period).map((c) => Math.max(-c, 0)));
+
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRsi();
+
+  for (let i = period; i < changes.length; i++) {
+    avgGain = (avgGain * (period - 1) + Math.max(changes[i], 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-changes[i], 0)) / period;
+    result[i + 1] = toRsi();
+  }
+
+  return result;
+}
+
+/** How many standard deviations `current` sits from the mean of the trailing window. */
+export function zScore(values: number[], current: number, window: number = Z_SCORE_WINDOW): number | null {
+  if (values.length < window) return null;
+  const trailing = values.slice(-window);
+  const sd = stdDev(trailing);
+  return sd > 0 ? (current - mean(trailing)) / sd : 0;
+}
+
+/**
+ * Compute every indicator over the history (oldest first). Indicators are
+ * null until enough history has accumulated for their window.
+ * `currentRate` defaults to the latest close.
+ */
+export function calculateIndicators(history: RateHistoryPoint[], currentRate?: number): IndicatorsResult {
+  const rates = history.map((h) => h.rate);
+  const smas = MOVING_AVERAGE_PERIODS.map((p) => sma(rates, p));
+  const emas = MOVING_AVERAGE_PERIODS.map((p) => ema(rates, p));
+  const bands = bollingerBands(rates);
+  const volatility = rollingVolatility(rates);
+  const rsis = rsi(rates);
+
+  const series: IndicatorPoint[] = history.map((h, i) => ({
+    date: h.date,
+    rate: h.rate,
+    sma20: smas[0][i],
+    sma50: smas[1][i],
+    sma200: smas[2][i],
+    ema20: emas[0][i],
+    ema50: emas[1][i],
+    ema200: emas[2][i],
+    bollingerUpper: bands[i].upper,
+    bollingerMiddle: bands[i].middle,
+    bollingerLower: bands[i].lower,
+    volatility: volatility[i],
+    rsi: rsis[i],
+  }));
+
+  const last = series[series.length - 1];
+  const latest = last
+    ? { ...last, zScore: zScore(rates, currentRate ?? last.rate) }
+    : null;
+
+  return { series, latest };
+}
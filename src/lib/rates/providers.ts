@@ -0,0 +1,149 @@
+import { readFile } from 'fs/promises';
+import type { CurrencyPair, ProviderFailure, RateInfo, RateProviderName, Settings } from '@/types';
+import { isPrimaryPair, pairKey, PRIMARY_PAIR } from '@/lib/finance/currency';
+import { fetchCurrentRate as fetchFrankfurterRate } from '@/lib/rates/frankfurter';
+import { fetchEcbRate } from '@/lib/rates/ecb';
+import { withStaleness } from '@/lib/rates/staleness';
+
+export interface RateProvider {
+  name: RateProviderName;
+  fetchCurrentRate(pair?: CurrencyPair): Promise<RateInfo>;
+}
+
+export interface ChainResult {
+  rate: RateInfo;
+  failures: ProviderFailure[];   // providers tried (and failed) before the one that answered
+}
+
+export const RATE_PROVIDER_NAMES: RateProviderName[] = ['frankfurter', 'ecb', 'manual', 'file'];
+
+export const DEFAULT_PROVIDER_CHAIN = 'frankfurter,ecb';
+
+/** Thrown by fetchFromChain when every provider fails. */
+export class ProviderChainError extends Error {
+  constructor(public readonly failures: ProviderFailure[]) {
+    super(
+      failures.length > 0
+        ? `All rate providers failed: ${failures.map((f) => `${f.provider} (${f.error})`).join('; ')}`
+        : 'No rate providers configured'
+    );
+    this.name = 'ProviderChainError';
+  }
+}
+
+export const frankfurterProvider: RateProvider = {
+  name: 'frankfurter',
+  fetchCurrentRate: fetchFrankfurterRate,
+};
+
+export const ecbProvider: RateProvider = {
+  name: 'ecb',
+  fetchCurrentRate: fetchEcbRate,
+};
+
+/**
+ * Answers with the override rate from settings. Fails (so the chain moves on)
+ * when no override is set. The override is a GBP/JPY rate.
+ */
+export function createManualProvider(manualRate: number | null): RateProvider {
+  return {
+    name: 'manual',
+    async fetchCurrentRate(pair = PRIMARY_PAIR) {
+      if (!isPrimaryPair(pair)) {
+        throw new Error(`Manual rate only applies to ${pairKey(PRIMARY_PAIR)}`);
+      }
+      if (manualRate == null || manualRate <= 0) {
+        throw new Error('No manual rate set');
+      }
+      return {
+        rate: manualRate,
+        date: new Date().toLocaleDateString('sv'),
+        source: 'manual',
+        isStale: false,
+        fetchedAt: new Date().toISOString(),
+      };
+    },
+  };
+}
+
+/**
+ * Reads a rate from a local JSON file: { "rate": 190.5, "date": "2024-01-05" }.
+ * An optional "pair" ("EUR/JPY") says which pair it quotes; default GBP/JPY.
+ * Path defaults to ./data/rate-fixture.json, overridable via RATE_FIXTURE_PATH.
+ */
+export function createFileProvider(
+  path: string = process.env.RATE_FIXTURE_PATH ?? './data/rate-fixture.json'
+): RateProvider {
+  return {
+    name: 'file',
+    async fetchCurrentRate(pair = PRIMARY_PAIR) {
+      const data = JSON.parse(await readFile(path, 'utf-8')) as { rate?: unknown; date?: unknown; pair?: unknown };
+      const fixturePair = typeof data.pair === 'string' ? data.pair : pairKey(PRIMARY_PAIR);
+
+      if (fixturePair !== pairKey(pair)) {
+        throw new Error(`Fixture ${path} quotes ${fixturePair}, not ${pairKey(pair)}`);
+      }
+
+      if (typeof data.rate !== 'number' || data.rate <= 0) {
+        throw new Error(`Fixture ${path} has no valid rate`);
+      }
+
+      return withStaleness({
+        rate: data.rate,
+        date: typeof data.date === 'string' ? data.date : new Date().toLocaleDateString('sv'),
+        source: 'file',
+        isStale: false,
+        fetchedAt: new Date().toISOString(),
+      });
+    },
+  };
+}
+
+export function parseProviderChain(chain: string | null | undefined): RateProviderName[] {
+  const names = (chain ?? DEFAULT_PROVIDER_CHAIN)
+    .split(',')
+    .map((n) => n.trim())
+    .filter((n): n is RateProviderName => (RATE_PROVIDER_NAMES as string[]).includes(n));
+
+  return Array.from(new Set(names));
+}
+
+/**
+ * Build the ordered provider chain from settings. Without settings, falls back
+ * to the default chain.
+ */
+export function buildProviderChain(config?: Pick<Settings, 'rate_providers' | 'manual_rate'>): RateProvider[] {
+  return parseProviderChain(config?.rate_providers).map((name) => {
+    switch (name) {
+      case 'frankfurter': return frankfurterProvider;
+      case 'ecb': return ecbProvider;
+      case 'manual': return createManualProvider(config?.manual_rate ?? null);
+      case 'file': return createFileProvider();
+    }
+  });
+}
+
+/**
+ * Try each provider in order and return the first answer. The returned
+ * RateInfo's `source` is the provider that actually answered.
+ */
+export async function fetchFromChain(
+  providers: RateProvider[],
+  pair: CurrencyPair = PRIMARY_PAIR
+): Promise<ChainResult> {
+  const failures: ProviderFailure[] = [];
+
+  for (const provider of providers) {
+    try {
+      const rate = await provider.fetchCurrentRate(pair);
+      return { rate: { ...rate, source: provider.name }, failures };
+    } catch (error) {
+      failures.push({
+        provider: provider.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  throw new ProviderChainError(failures);
+}
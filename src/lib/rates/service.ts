@@ -0,0 +1,174 @@
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import type * as schema from '@/lib/db/schema';
+import type { CurrencyPair, ProviderFailure, RateInfo, Settings } from '@/types';
+import { isPrimaryPair, pairKey, PRIMARY_PAIR } from '@/lib/finance/currency';
+import { evaluateLimitOrders } from '@/lib/orders/limit-orders';
+import { detectAnomalies } from '@/lib/rates/anomalies';
+import type { Anomaly } from '@/lib/rates/anomalies';
+import { getLatestCachedRate } from '@/lib/rates/cache';
+import { getRateHistory } from '@/lib/rates/history';
+import { recordSnapshot } from '@/lib/rates/snapshots';
+import { buildProviderChain, fetchFromChain, ProviderChainError } from '@/lib/rates/providers';
+import { getStalenessThresholds, withStaleness } from '@/lib/rates/staleness';
+import type { ChainResult, RateProvider } from '@/lib/rates/providers';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+type RateConfig = Pick<
+  Settings,
+  | 'rate_providers'
+  | 'manual_rate'
+  | 'stale_after_hours'
+  | 'stale_hard_limit_hours'
+  | 'anomaly_std_devs'
+  | 'anomaly_window_days'
+  | 'anomaly_max_jump_pct'
+>;
+
+export interface CurrentRate {
+  rate: RateInfo | null;
+  fallback: boolean;                 // true when every provider failed and rate_history was used
+  providerFailures: ProviderFailure[];
+  previousRate: number | null;       // cached value a fresh fetch replaced; null on a cache hit
+  anomalies: Anomaly[];              // found when the cached GBP/JPY quote was fetched
+}
+
+export interface RateServiceOptions {
+  pair?: CurrencyPair;               // defaults to GBP/JPY
+  providers?: RateProvider[];        // override the chain built from settings (tests)
+  ttlMs?: number;
+}
+
+/** Matches the dashboard's refresh interval, so one page view = at most one upstream call. */
+export const DEFAULT_RATE_TTL_MS = 60_000;
+
+interface CacheEntry {
+  result: ChainResult;
+  cachedAt: number;
+  expiresAt: number;
+  anomalies: Anomaly[];
+}
+
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<ChainResult>>();
+
+function cacheKey(pair: CurrencyPair, config?: RateConfig): string {
+  return `${pairKey(pair)}|${config?.rate_providers ?? 'default'}|${config?.manual_rate ?? ''}`;
+}
+
+function withCacheInfo(
+  rate: RateInfo,
+  status: 'hit' | 'miss' | 'joined',
+  entry: CacheEntry
+): RateInfo {
+  return {
+    ...rate,
+    cache: {
+      status,
+      cachedAt: new Date(entry.cachedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+    },
+  };
+}
+
+export function clearRateCache(): void {
+  cache.clear();
+  inflight.clear();
+}
+
+/**
+ * The current rate, shared by every route. Serves from an in-process TTL cache,
+ * and concurrent callers on a miss share one upstream fetch (single-flight).
+ * Only the caller that performed the fetch checks it for anomalies and then
+ * records it as a snapshot (which also refreshes that day's rate_history
+ * roll-up); a quote flagged as suspect provider data is not recorded.
+ * The leader also checks limit orders in the pair against the fetched rate,
+ * unless it is past the hard staleness limit.
+ * Falls back to the latest rate_history row if every provider fails.
+ * Snapshots and rate_history hold GBP/JPY only; other pairs are cached in
+ * memory and have no offline fallback.
+ * Staleness is re-assessed on every call, since a cached rate ages.
+ */
+export async function getCurrentRate(
+  db: DB,
+  config?: RateConfig,
+  options: RateServiceOptions = {}
+): Promise<CurrentRate> {
+  const pair = options.pair ?? PRIMARY_PAIR;
+  const key = cacheKey(pair, config);
+  const ttlMs = options.ttlMs ?? DEFAULT_RATE_TTL_MS;
+  const thresholds = getStalenessThresholds(config);
+  const cached = cache.get(key);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return {
+      rate: withStaleness(withCacheInfo(cached.result.rate, 'hit', cached), thresholds),
+      fallback: false,
+      providerFailures: cached.result.failures,
+      previousRate: null,
+      anomalies: cached.anomalies,
+    };
+  }
+
+  const pending = inflight.get(key);
+  const isLeader = !pending;
+  const request = pending ?? fetchFromChain(options.providers ?? buildProviderChain(config), pair);
+
+  if (isLeader) {
+    inflight.set(key, request);
+  }
+
+  try {
+    const result = await request;
+    const now = Date.now();
+
+    // The leader's continuation runs before any joiner's, so joiners see its entry
+    let entry = cache.get(key);
+    if (isLeader || !entry) {
+      entry = { result, cachedAt: now, expiresAt: now + ttlMs, anomalies: [] };
+      cache.set(key, entry);
+    }
+    // Read before recording, which overwrites today's rate_history close
+    let previousRate: number | null = null;
+    if (isLeader) {
+      previousRate =
+        cached?.result.rate.rate ??
+        (isPrimaryPair(pair) ? getLatestCachedRate(db)?.rate ?? null : null);
+    }
+    if (isLeader && isPrimaryPair(pair)) {
+      // Checked first, so a bad quote never becomes the day's close
+      const { rate, date, source } = result.rate;
+      entry.anomalies = config
+        ? detectAnomalies(getRateHistory(db, 400), { rate, date, source, previousRate }, config)
+        : [];
+      if (!entry.anomalies.some((a) => a.kind === 'provider_mismatch')) {
+        recordSnapshot(db, result.rate);
+      }
+    }
+
+    const rate = withStaleness(withCacheInfo(result.rate, isLeader ? 'miss' : 'joined', entry), thresholds);
+    if (isLeader && config && !rate.beyondHardLimit) {
+      evaluateLimitOrders(db, pair, rate.rate, new Date(now).toISOString().split('T')[0]);
+    }
+
+    return {
+      rate,
+      fallback: false,
+      providerFailures: result.failures,
+      previousRate,
+      anomalies: entry.anomalies,
+    };
+  } catch (error) {
+    return {
+      rate: isPrimaryPair(pair) ? getLatestCachedRate(db, thresholds) : null,
+      fallback: true,
+      providerFailures: error instanceof ProviderChainError ? error.failures : [],
+      previousRate: null,
+      anomalies: [],
+    };
+  } finally {
+    if (isLeader) {
+      inflight.delete(key);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { eq, asc } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { rateHistory, rateSnapshots } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import type { RateInfo } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export interface RateSnapshot {
+  id: number;
+  date: string;
+  rate: number;
+  source: string;
+  fetched_at: string;
+}
+
+export interface DailyOhlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  count: number;
+  source: string;     // provider of the closing quote
+  fetchedAt: string;  // time of the closing quote
+}
+
+/**
+ * Roll a day's quotes up into open/high/low/close. Order is by fetched_at, so
+ * the first quote of the day is the open and the latest is the close.
+ */
+export function rollupSnapshots(
+  snapshots: Pick<RateSnapshot, 'rate' | 'source' | 'fetched_at'>[]
+): DailyOhlc | null {
+  if (snapshots.length === 0) return null;
+
+  const sorted = [...snapshots].sort((a, b) => a.fetched_at.localeCompare(b.fetched_at));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return {
+    open: first.rate,
+    high: Math.max(...sorted.map((s) => s.rate)),
+    low: Math.min(...sorted.map((s) => s.rate)),
+    close: last.rate,
+    count: sorted.length,
+    source: last.source,
+    fetchedAt: last.fetched_at,
+  };
+}
+
+export function getSnapshotsForDate(db: DB, date: string): RateSnapshot[] {
+  return db
+    .select()
+    .from(rateSnapshots)
+    .where(eq(rateSnapshots.date, date))
+    .orderBy(asc(rateSnapshots.fetched_at))
+    .all();
+}
+
+/**
+ * Record a fetched quote and refresh that day's rate_history row from the
+ * roll-up of all its snapshots (rate = close).
+ */
+export function recordSnapshot(db: DB, rateInfo: RateInfo): DailyOhlc {
+  return db.transaction((tx) => {
+    tx.insert(rateSnapshots)
+      .values({
+        date: rateInfo.date,
+        rate: rateInfo.rate,
+        source: rateInfo.source,
+        fetched_at: rateInfo.fetchedAt,
+      })
+      .run();
+
+    const ohlc = rollupSnapshots(
+      tx.select().from(rateSnapshots).where(eq(rateSnapshots.date, rateInfo.date)).all()
+    ) as DailyOhlc;
+
+    const values = {
+      rate: ohlc.close,
+      open: ohlc.open,
+      high: ohlc.high,
+      low: ohlc.low,
+      source: ohlc.source,
+      fetched_at: ohlc.fetchedAt,
+    };
+
+    tx.insert(rateHistory)
+      .values({ date: rateInfo.date, ...values })
+      .onConflictDoUpdate({ target: rateHistory.date, set: values })
+      .run();
+
+    return ohlc;
+  });
+}
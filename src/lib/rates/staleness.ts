@@ -0,0 +1,99 @@
+import type { RateInfo, Settings } from '@/types';
+import { addDays, isBusinessDay } from '@/lib/rates/calendar';
+
+export interface StalenessThresholds {
+  staleAfterHours: number;       // soft: flag as stale once newer data has been missing this long
+  hardLimitHours: number;        // hard: too old to act on
+}
+
+export interface Staleness {
+  isStale: boolean;
+  ageSeconds: number;            // seconds since the rate was fetched
+  businessDaysBehind: number;    // business-day publications newer than the rate's date
+  staleReason: string | null;
+  beyondHardLimit: boolean;
+}
+
+export const DEFAULT_STALENESS_THRESHOLDS: StalenessThresholds = {
+  staleAfterHours: 12,
+  hardLimitHours: 72,
+};
+
+/**
+ * ECB reference rates are published around 16:00 CET; using 16:00 UTC leaves a
+ * margin in both summer and winter time.
+ */
+const PUBLICATION_HOUR_UTC = 16;
+
+function publicationTime(date: string): number {
+  return new Date(`${date}T${String(PUBLICATION_HOUR_UTC).padStart(2, '0')}:00:00Z`).getTime();
+}
+
+/**
+ * Parse fetched_at, which is either an ISO string from a provider or SQLite's
+ * datetime('now') format ('YYYY-MM-DD HH:MM:SS', UTC without a zone marker).
+ */
+export function parseTimestamp(value: string): number {
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  return new Date(hasZone ? value : `${value.replace(' ', 'T')}Z`).getTime();
+}
+
+export function getStalenessThresholds(
+  config?: Pick<Settings, 'stale_after_hours' | 'stale_hard_limit_hours'>
+): StalenessThresholds {
+  if (!config) return DEFAULT_STALENESS_THRESHOLDS;
+  return {
+    staleAfterHours: config.stale_after_hours,
+    hardLimitHours: config.stale_hard_limit_hours,
+  };
+}
+
+/**
+ * How stale a rate is. Weekends and TARGET holidays don't count: Friday's rate
+ * on a Sunday is current, because nothing newer has been published. Staleness
+ * is measured from when the first newer business-day rate should have appeared.
+ */
+export function assessStaleness(
+  rate: Pick<RateInfo, 'date' | 'fetchedAt'>,
+  thresholds: StalenessThresholds = DEFAULT_STALENESS_THRESHOLDS,
+  now: Date = new Date()
+): Staleness {
+  const nowMs = now.getTime();
+  const fetchedMs = parseTimestamp(rate.fetchedAt);
+  const ageSeconds = Number.isNaN(fetchedMs) ? 0 : Math.max(0, Math.round((nowMs - fetchedMs) / 1000));
+
+  let businessDaysBehind = 0;
+  let firstMissed: string | null = null;
+  const today = now.toISOString().split('T')[0];
+
+  for (let d = addDays(rate.date, 1); d <= today; d = addDays(d, 1)) {
+    if (isBusinessDay(d) && publicationTime(d) <= nowMs) {
+      businessDaysBehind += 1;
+      firstMissed ??= d;
+    }
+  }
+
+  const lagHours = firstMissed ? (nowMs - publicationTime(firstMissed)) / 3_600_000 : 0;
+  const isStale = businessDaysBehind > 0 && lagHours >= thresholds.staleAfterHours;
+  const beyondHardLimit = businessDaysBehind > 0 && lagHours >= thresholds.hardLimitHours;
+
+  let staleReason: string | null = null;
+  if (isStale) {
+    const days = `${businessDaysBehind} business day${businessDaysBehind === 1 ? '' : 's'}`;
+    staleReason = `Rate is from ${rate.date}, ${days} behind (newer rate due ${Math.floor(lagHours)}h ago)`;
+  }
+
+  return { isStale, ageSeconds, businessDaysBehind, staleReason, beyondHardLimit };
+}
+
+/**
+ * Return a copy of the rate with staleness fields filled in.
+ */
+export function withStaleness(
+  rate: RateInfo,
+  thresholds: StalenessThresholds = DEFAULT_STALENESS_THRESHOLDS,
+  now: Date = new Date()
+): RateInfo {
+  const { isStale, ageSeconds, staleReason, beyondHardLimit } = assessStaleness(rate, thresholds, now);
+  return { ...rate, isStale, ageSeconds, staleReason, beyondHardLimit };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { createAccount, getAccountBalances } from '@/lib/accounts/accounts';
+import {
+  createExpense,
+  deleteExpense,
+  getExpenses,
+  importExpenses,
+  validateExpenseAccount,
+} from '@/lib/spending/expenses';
+import { parseExpenseCsv } from '@/lib/spending/ledger';
+
+function seed() {
+  const db = createTestDb();
+  const wiseJpy = createAccount(db, { name: 'Wise JPY', currency: 'JPY', kind: 'WISE', opening_balance: 100000 });
+  const wiseGbp = createAccount(db, { name: 'Wise GBP', currency: 'GBP', kind: 'WISE', opening_balance: 0 });
+  return { db, wiseJpy, wiseGbp };
+}
+
+const expense = {
+  date: '2024-03-05',
+  currency: 'JPY',
+  amount: 30000,
+  account_id: null,
+  category: 'Food',
+  description: null,
+};
+
+describe('expenses', () => {
+  it('requires the paying account to hold the expense currency', () => {
+    const { db, wiseJpy, wiseGbp } = seed();
+
+    expect(validateExpenseAccount(db, null, 'JPY')).toBeNull();
+    expect(validateExpenseAccount(db, wiseJpy.id, 'JPY')).toBeNull();
+    expect(validateExpenseAccount(db, wiseGbp.id, 'JPY')).toBe('Account Wise GBP holds GBP, not JPY');
+    expect(validateExpenseAccount(db, 99, 'JPY')).toBe('Account not found');
+  });
+
+  it('imports a parsed file, filters by date and reduces the paying account', () => {
+    const { db, wiseJpy } = seed();
+    const parsed = parseExpenseCsv('Date,Amount\n2024-03-01,20000\n2024-04-01,15000', {
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      currency: 'JPY',
+    });
+
+    expect(importExpenses(db, parsed, 'JPY', wiseJpy.id)).toBe(2);
+    const manual = createExpense(db, { ...expense, date: '2024-03-10' });
+
+    expect(getExpenses(db).map((e) => e.date)).toEqual(['2024-04-01', '2024-03-10', '2024-03-01']);
+    expect(getExpenses(db, { from: '2024-03-01', to: '2024-03-31' })).toHaveLength(2);
+    expect(getAccountBalances(db).find((b) => b.account.id === wiseJpy.id)?.balance).toBe(65000);
+
+    expect(deleteExpense(db, manual.id)?.id).toBe(manual.id);
+    expect(deleteExpense(db, manual.id)).toBeNull();
+  });
+});
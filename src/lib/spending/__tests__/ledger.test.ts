@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMonthlySpending, parseExpenseCsv, totalSpent } from '@/lib/spending/ledger';
+import type { ExpenseRecord } from '@/types';
+
+function mockExpense(overrides: Partial<ExpenseRecord>): ExpenseRecord {
+  return {
+    id: 1,
+    date: '2024-03-05',
+    currency: 'JPY',
+    amount: 10000,
+    account_id: null,
+    category: null,
+    description: null,
+    created_at: '2024-03-05T00:00:00',
+    ...overrides,
+  };
+}
+
+describe('calculateMonthlySpending', () => {
+  it('totals each month against the budget, newest first', () => {
+    const expenses = [
+      mockExpense({ id: 1, date: '2024-03-05', amount: 120000, category: 'Rent' }),
+      mockExpense({ id: 2, date: '2024-03-20', amount: 150000, category: 'Food' }),
+      mockExpense({ id: 3, date: '2024-04-02', amount: 50000 }),
+      mockExpense({ id: 4, date: '2024-04-03', amount: 2000, currency: 'GBP' }),
+    ];
+    const monthly = calculateMonthlySpending(expenses, 250000);
+
+    expect(monthly.map((m) => m.month)).toEqual(['2024-04', '2024-03']);
+    expect(monthly[0]).toMatchObject({ spent: 50000, remaining: 200000, count: 1, byCategory: { '': 50000 } });
+    expect(monthly[1]).toMatchObject({
+      spent: 270000,
+      remaining: -20000,
+      count: 2,
+      byCategory: { Rent: 120000, Food: 150000 },
+    });
+    expect(totalSpent(expenses, 'JPY')).toBe(320000);
+  });
+});
+
+describe('parseExpenseCsv', () => {
+  it('reads amounts without their sign and reports unreadable rows', () => {
+    const csv = [
+      'Date,Amount,Merchant,Category',
+      '05/03/2024,"-1,200",Lawson,Food',
+      '2024-03-01,85000,,Rent',
+      'not a date,500,Cafe,Food',
+      '2024-03-06,0,Refund,',
+    ].join('\n');
+    const parsed = parseExpenseCsv(csv, {
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Merchant',
+      categoryColumn: 'Category',
+      currency: 'JPY',
+    });
+
+    expect(parsed.rows).toEqual([
+      { line: 3, date: '2024-03-01', amount: 85000, description: null, category: 'Rent' },
+      { line: 2, date: '2024-03-05', amount: 1200, description: 'Lawson', category: 'Food' },
+    ]);
+    expect(parsed.total).toBe(86200);
+    expect(parsed.errors.map((e) => e.line)).toEqual([4, 5]);
+  });
+
+  it('counts blank rows when reporting lines', () => {
+    const parsed = parseExpenseCsv('\nDate,Amount\n2024-03-01,100\n\n \nbad,200', {
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      currency: 'JPY',
+    });
+
+    expect(parsed.rows.map((r) => r.line)).toEqual([3]);
+    expect(parsed.errors).toEqual([{ line: 6, message: 'Unreadable date "bad"' }]);
+  });
+
+  it('rejects a file without the chosen columns', () => {
+    const parsed = parseExpenseCsv('Date,Value\n2024-03-01,100', {
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      currency: 'JPY',
+    });
+
+    expect(parsed.rows).toEqual([]);
+    expect(parsed.errors).toEqual([{ line: 1, message: 'Column "Amount" not found' }]);
+  });
+});
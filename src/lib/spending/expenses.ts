@@ -0,0 +1,70 @@
+import { and, desc, eq, gte, lte } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { expenses } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { getAccount } from '@/lib/accounts/accounts';
+import type { ParsedExpenseCsv } from '@/lib/spending/ledger';
+import type { ExpenseRecord } from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export type ExpenseValues = Omit<ExpenseRecord, 'id' | 'created_at'>;
+
+/** Expenses between two dates inclusive, newest first. */
+export function getExpenses(db: DB, range: { from?: string; to?: string } = {}): ExpenseRecord[] {
+  const conditions = [];
+  if (range.from) conditions.push(gte(expenses.date, range.from));
+  if (range.to) conditions.push(lte(expenses.date, range.to));
+
+  return db
+    .select()
+    .from(expenses)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(expenses.date), desc(expenses.id))
+    .all() as ExpenseRecord[];
+}
+
+/**
+ * Check the account an expense is paid from: it must exist and hold the
+ * expense currency. Returns the problem, or null if valid.
+ */
+export function validateExpenseAccount(db: DB, accountId: number | null, currency: string): string | null {
+  if (accountId === null) return null;
+  const account = getAccount(db, accountId);
+  if (!account) return 'Account not found';
+  if (account.currency !== currency) return `Account ${account.name} holds ${account.currency}, not ${currency}`;
+  return null;
+}
+
+export function createExpense(db: DB, values: ExpenseValues): ExpenseRecord {
+  return db.insert(expenses).values(values).returning().get() as ExpenseRecord;
+}
+
+/** Insert every parsed row in one transaction; returns how many were added. */
+export function importExpenses(
+  db: DB,
+  parsed: ParsedExpenseCsv,
+  currency: string,
+  accountId: number | null
+): number {
+  db.transaction((tx) => {
+    for (const row of parsed.rows) {
+      tx.insert(expenses)
+        .values({
+          date: row.date,
+          currency,
+          amount: row.amount,
+          account_id: accountId,
+          category: row.category,
+          description: row.description,
+        })
+        .run();
+    }
+  });
+  return parsed.rows.length;
+}
+
+/** Returns null if there is no such expense. */
+export function deleteExpense(db: DB, id: number): ExpenseRecord | null {
+  return (db.delete(expenses).where(eq(expenses.id, id)).returning().get() as ExpenseRecord | undefined) ?? null;
+}
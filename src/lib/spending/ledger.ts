@@ -0,0 +1,112 @@
+import type { ExpenseRecord, MonthlySpending } from '@/types';
+import { toMinorUnits } from '@/lib/finance/currency';
+import { parseCsvRecords, parseImportDate } from '@/lib/rates/import';
+
+export interface ExpenseCsvOptions {
+  dateColumn: string;
+  amountColumn: string;
+  descriptionColumn?: string;
+  categoryColumn?: string;
+  currency: string;
+}
+
+export interface ParsedExpenseRow {
+  line: number;         // 1-based line in the file, counting the header
+  date: string;
+  amount: number;       // minor units, always positive
+  description: string | null;
+  category: string | null;
+}
+
+export interface ExpenseCsvError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedExpenseCsv {
+  rows: ParsedExpenseRow[];
+  errors: ExpenseCsvError[];
+  total: number;
+}
+
+/** Total ever spent in `currency`. */
+export function totalSpent(expenses: ExpenseRecord[], currency: string): number {
+  return expenses.filter((e) => e.currency === currency).reduce((s, e) => s + e.amount, 0);
+}
+
+/**
+ * Spending in `currency` per calendar month against a flat monthly budget,
+ * newest month first. Months with no spending are left out.
+ */
+export function calculateMonthlySpending(
+  expenses: ExpenseRecord[],
+  budget: number,
+  currency = 'JPY'
+): MonthlySpending[] {
+  const months = new Map<string, MonthlySpending>();
+
+  for (const e of expenses) {
+    if (e.currency !== currency) continue;
+    const month = e.date.slice(0, 7);
+    let entry = months.get(month);
+    if (!entry) {
+      entry = { month, spent: 0, budget, remaining: budget, count: 0, byCategory: {} };
+      months.set(month, entry);
+    }
+    const category = e.category ?? '';
+    entry.spent += e.amount;
+    entry.remaining = budget - entry.spent;
+    entry.count++;
+    entry.byCategory[category] = (entry.byCategory[category] ?? 0) + e.amount;
+  }
+
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Parse a bank or card export into expenses. Amounts are read in major units
+ * and their sign is dropped, since exports disagree on whether spending is
+ * negative; rows with a zero or unreadable amount or date are reported as
+ * errors rather than failing the whole file.
+ */
+export function parseExpenseCsv(csv: string, options: ExpenseCsvOptions): ParsedExpenseCsv {
+  const { fields, headerLine, records } = parseCsvRecords(csv);
+  const columns = [options.dateColumn, options.amountColumn, options.descriptionColumn, options.categoryColumn];
+  for (const column of columns) {
+    if (column !== undefined && !fields.includes(column)) {
+      return { rows: [], errors: [{ line: headerLine, message: `Column "${column}" not found` }], total: 0 };
+    }
+  }
+
+  const rows: ParsedExpenseRow[] = [];
+  const errors: ExpenseCsvError[] = [];
+  const text = (record: Record<string, string>, column: string | undefined) => {
+    const value = column !== undefined ? (record[column] ?? '').trim() : '';
+    return value === '' ? null : value;
+  };
+
+  records.forEach(({ line, values: record }) => {
+    const date = parseImportDate(record[options.dateColumn] ?? '');
+    const raw = parseFloat((record[options.amountColumn] ?? '').replace(/[^\d.-]/g, ''));
+
+    if (!date) {
+      errors.push({ line, message: `Unreadable date "${record[options.dateColumn] ?? ''}"` });
+      return;
+    }
+    if (!Number.isFinite(raw) || raw === 0) {
+      errors.push({ line, message: `No amount for ${date}` });
+      return;
+    }
+
+    rows.push({
+      line,
+      date,
+      amount: toMinorUnits(Math.abs(raw), options.currency),
+      description: text(record, options.descriptionColumn),
+      category: text(record, options.categoryColumn),
+    });
+  });
+
+  rows.sort((a, b) => a.date.localeCompare(b.date));
+  return { rows, errors, total: rows.reduce((s, r) => s + r.amount, 0) };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { runBacktest } from '@/lib/strategy/backtest';
+import { getPrimaryPairConfig } from '@/lib/strategy/pairs';
+import type { Settings } from '@/types';
+
+function mockSettings(overrides: Partial<Settings> = {}): Settings {
+  return {
+    id: 1,
+    total_gbp_savings_pence: 5000000, max_fx_exposure_pct: 80,
+    monthly_jpy_expenses: 250000, monthly_jpy_salary_net: 300000,
+    nisa_monthly_jpy: 100000, nisa_return_pct: 5,
+    circuit_breaker_loss_pence: 500000, gbp_safety_net_months: 6,
+    scenario_best_rate: 210, scenario_base_rate: 190, scenario_worst_rate: 170,
+    last_band_review: null, review_interval_days: 90,
+    rate_providers: 'frankfurter,ecb', manual_rate: null,
+    stale_after_hours: 12, stale_hard_limit_hours: 72,
+    anomaly_std_devs: 3, anomaly_window_days: 20, anomaly_max_jump_pct: 5,
+    sizing_mode: 'stepped',
+    updated_at: '2024-01-01T00:00:00',
+    ...overrides,
+  };
+}
+
+// Aggressive, still aggressive, hold, then normal
+const series = [
+  { date: '2024-02-01', rate: 180 },
+  { date: '2024-01-02', rate: 205 },
+  { date: '2024-01-03', rate: 210 },
+  { date: '2024-02-02', rate: 195 },
+];
+
+describe('runBacktest', () => {
+  it('replays the thermostat day by day against lump-sum and monthly baselines', () => {
+    const settings = mockSettings();
+    const result = runBacktest(series, settings, getPrimaryPairConfig())!;
+
+    expect(result.from).toBe('2024-01-02');
+    expect(result.to).toBe('2024-02-02');
+    expect(result.budget).toBe(4000000); // 80% of £50,000
+
+    // £2,000 at 205 on the first aggressive day, then the cap is used up;
+    // nothing in the hold zone, then £1,000 at 195
+    const { thermostat } = result;
+    expect(thermostat.trades.map((t) => [t.date, t.band, t.baseAmount])).toEqual([
+      ['2024-01-02', 'AGGRESSIVE_BUY', 200000],
+      ['2024-02-02', 'NORMAL_BUY', 100000],
+    ]);
+    expect(thermostat.quoteAcquired).toBe(410000 + 195000);
+    expect(thermostat.avgRate).toBeCloseTo(605000 / 3000, 6);
+    expect(thermostat.months).toEqual([
+      { month: '2024-01', closeRate: 210, baseAmount: 200000, quoteAmount: 410000, avgRate: 205, trades: 1 },
+      { month: '2024-02', closeRate: 195, baseAmount: 100000, quoteAmount: 195000, avgRate: 195, trades: 1 },
+    ]);
+
+    // Everything on day one at 205
+    expect(result.lumpSum.quoteAcquired).toBe(8200000);
+    expect(result.lumpSum.avgRate).toBe(205);
+
+    // Half on the first day of each month, at 205 and 180
+    expect(result.dca.trades.map((t) => [t.date, t.baseAmount])).toEqual([
+      ['2024-01-02', 2000000],
+      ['2024-02-01', 2000000],
+    ]);
+    expect(result.dca.quoteAcquired).toBe(4100000 + 3600000);
+  });
+
+  it('measures the largest fall in value from a peak', () => {
+    const settings = mockSettings();
+    const { lumpSum, equity } = runBacktest(series, settings, getPrimaryPairConfig())!;
+
+    // ¥8.2m is worth £40,000 at 205, £45,555.56 at 180 and £42,051.28 at 195
+    expect(equity.map((p) => p.lumpSum)).toEqual([4000000, 3904762, 4555556, 4205128]);
+    expect(lumpSum.maxDrawdown).toBe(4555556 - 4205128);
+    expect(lumpSum.maxDrawdownPct).toBeCloseTo(7.69, 2);
+    expect(lumpSum.finalValue).toBe(4205128);
+  });
+
+  it('stops converting at the exposure limit', () => {
+    // Limit is 80% of £3,000 = £2,400
+    const settings = mockSettings({ total_gbp_savings_pence: 300000 });
+    const result = runBacktest(series, settings, getPrimaryPairConfig(), 1000000)!;
+
+    expect(result.thermostat.trades.map((t) => t.baseAmount)).toEqual([200000, 40000]);
+    expect(result.lumpSum.baseDeployed).toBe(1000000);
+  });
+
+  it('needs at least two rates', () => {
+    const settings = mockSettings();
+    expect(runBacktest([{ date: '2024-01-02', rate: 205 }], settings, getPrimaryPairConfig())).toBeNull();
+  });
+});
@@ -1,7 +1,25 @@
 import { describe, it, expect } from 'vitest';
-import { determineBand, getBandLabel, getBandClasses, getBandBadgeClasses, getBandFullClasses } from '@/lib/strategy/bands';
-
-const thresholds = { aggressiveAbove: 200, normalAbove: 190, holdAbove: 175 };
+import {
+  determineBand,
+  getBandCap,
+  getBandLabel,
+  getBandClasses,
+  getBandBadgeClasses,
+  getBandFullClasses,
+  ladderFromThresholds,
+} from '@/lib/strategy/bands';
+import type { BandTier } from '@/types';
+
+const thresholds = ladderFromThresholds({ aggressiveAbove: 200, normalAbove: 190, holdAbove: 175 }, 200000, 100000);
+
+// Five tiers, listed out of order
+const ladder: BandTier[] = [
+  { key: 'HOLD', label: 'Wait', floor: 180, color: 'amber', monthlyCap: 0, direction: 'HOLD' },
+  { key: 'STRONG', label: 'Strong', floor: 205, color: 'emerald', monthlyCap: 300000, direction: 'BUY' },
+  { key: 'GOOD', label: 'Good', floor: 195, color: 'teal', monthlyCap: 150000, direction: 'BUY' },
+  { key: 'FAIR', label: 'Fair', floor: 188, color: 'violet', monthlyCap: 50000, direction: 'BUY' },
+  { key: 'BACK', label: 'Convert Back', floor: 160, color: 'red', monthlyCap: 0, direction: 'REVERSE' },
+];
 
 describe('determineBand', () => {
   it('returns AGGRESSIVE_BUY when rate is above aggressive threshold', () => {
@@ -32,16 +50,35 @@ describe('determineBand', () => {
     expect(determineBand(170, thresholds).band).toBe('REVERSE');
   });
 
-  it('includes rate and thresholds in result', () => {
+  it('includes rate, tier and ladder in result', () => {
     const result = determineBand(195, thresholds);
     expect(result.rate).toBe(195);
-    expect(result.thresholds).toEqual(thresholds);
+    expect(result.tier).toEqual(thresholds[1]);
+    expect(result.ladder).toEqual(thresholds);
   });
 
   it('includes a suggestion string', () => {
     const result = determineBand(210, thresholds);
     expect(result.suggestion).toContain('aggressive');
   });
+
+  it('picks the tier with the highest floor at or below the rate in any ladder', () => {
+    expect(determineBand(210, ladder).band).toBe('STRONG');
+    expect(determineBand(195, ladder).band).toBe('GOOD');
+    expect(determineBand(190, ladder).band).toBe('FAIR');
+    expect(determineBand(185, ladder).band).toBe('HOLD');
+    expect(determineBand(170, ladder).band).toBe('BACK');
+    expect(determineBand(120, ladder).band).toBe('BACK');
+    expect(determineBand(190, ladder).ladder.map((t) => t.key)).toEqual(['STRONG', 'GOOD', 'FAIR', 'HOLD', 'BACK']);
+  });
+});
+
+describe('getBandCap', () => {
+  it('returns the cap of buy tiers and zero otherwise', () => {
+    expect(getBandCap('GOOD', ladder)).toBe(150000);
+    expect(getBandCap('HOLD', ladder)).toBe(0);
+    expect(getBandCap('MISSING', ladder)).toBe(0);
+  });
 });
 
 describe('getBandLabel', () => {
@@ -59,6 +96,12 @@ describe('getBandLabel', () => {
   it('returns -- for null', () => {
     expect(getBandLabel(null)).toBe('--');
   });
+
+  it('prefers labels from the ladder', () => {
+    expect(getBandLabel('HOLD', ladder)).toBe('Wait');
+    expect(getBandLabel('GOOD', ladder)).toBe('Good');
+    expect(getBandLabel('NORMAL_BUY', ladder)).toBe('Normal Buy');
+  });
 });
 
 describe('getBandClasses', () => {
@@ -78,6 +121,10 @@ describe('getBandClasses', () => {
     expect(getBandClasses(null)).toContain('bg-gray');
     expect(getBandClasses('UNKNOWN')).toContain('bg-gray');
   });
+
+  it('uses the tier colour from the ladder', () => {
+    expect(getBandClasses('FAIR', true, ladder)).toContain('border-violet');
+  });
 });
 
 describe('getBandBadgeClasses / getBandFullClasses', () => {
@@ -5,11 +5,6 @@ import type { ConversionRecord, Settings } from '@/types';
 function makeSettings(overrides: Partial<Settings> = {}): Settings {
   return {
     id: 1,
-    aggressive_above: 200,
-    normal_above: 190,
-    hold_above: 175,
-    cap_aggressive_gbp: 200000,
-    cap_normal_gbp: 100000,
     total_gbp_savings_pence: 5000000,
     max_fx_exposure_pct: 80,
     monthly_jpy_expenses: 250000,
@@ -23,6 +18,14 @@ function makeSettings(overrides: Partial<Settings> = {}): Settings {
     scenario_worst_rate: 170,
     last_band_review: null,
     review_interval_days: 90,
+    rate_providers: 'frankfurter,ecb',
+    manual_rate: null,
+    stale_after_hours: 12,
+    stale_hard_limit_hours: 72,
+    anomaly_std_devs: 3,
+    anomaly_window_days: 20,
+    anomaly_max_jump_pct: 5,
+    sizing_mode: 'stepped',
     updated_at: '2024-01-01',
     ...overrides,
   };
@@ -32,16 +35,20 @@ function makeConversion(overrides: Partial<ConversionRecord> = {}): ConversionRe
   return {
     id: 1,
     date: '2024-01-01',
-    direction: 'GBP_TO_JPY',
-    gbp_amount: 100000, // 1000 GBP in pence
-    jpy_amount: 190000,
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: 100000, // 1000 GBP in pence
+    target_amount: 190000,
     exchange_rate: 190,
     spot_rate: null,
     fee_pct: null,
     provider: null,
     band_at_time: null,
     notes: null,
+    source_account_id: null,
+    target_account_id: null,
     created_at: '2024-01-01',
+    deleted_at: null,
     ...overrides,
   };
 }
@@ -56,8 +63,8 @@ describe('checkCircuitBreaker', () => {
   it('does not trigger when portfolio is in profit', () => {
     const conversions = [
       makeConversion({
-        gbp_amount: 100000, // 1000 GBP
-        jpy_amount: 190000,
+        source_amount: 100000, // 1000 GBP
+        target_amount: 190000,
         exchange_rate: 190,
       }),
     ];
@@ -73,8 +80,8 @@ describe('checkCircuitBreaker', () => {
   it('does not trigger when loss is below threshold', () => {
     const conversions = [
       makeConversion({
-        gbp_amount: 100000,
-        jpy_amount: 190000,
+        source_amount: 100000,
+        target_amount: 190000,
         exchange_rate: 190,
       }),
     ];
@@ -90,8 +97,8 @@ describe('checkCircuitBreaker', () => {
     const settings = makeSettings({ circuit_breaker_loss_pence: 1000 });
     const conversions = [
       makeConversion({
-        gbp_amount: 100000,
-        jpy_amount: 190000,
+        source_amount: 100000,
+        target_amount: 190000,
         exchange_rate: 190,
       }),
     ];
@@ -120,15 +127,17 @@ describe('checkCircuitBreaker', () => {
     const conversions = [
       makeConversion({
         id: 1,
-        direction: 'GBP_TO_JPY',
-        gbp_amount: 100000,
-        jpy_amount: 190000,
+        source_currency: 'GBP',
+        target_currency: 'JPY',
+        source_amount: 100000,
+        target_amount: 190000,
       }),
       makeConversion({
         id: 2,
-        direction: 'JPY_TO_GBP',
-        gbp_amount: 50000,
-        jpy_amount: 95000,
+        source_currency: 'JPY',
+        target_currency: 'GBP',
+        source_amount: 95000,
+        target_amount: 50000,
       }),
     ];
     // netDeployed = 100000 - 50000 = 50000
@@ -142,12 +151,30 @@ describe('checkCircuitBreaker', () => {
   it('computes lossPct correctly', () => {
     const conversions = [
       makeConversion({
-        gbp_amount: 100000,
-        jpy_amount: 190000,
+        source_amount: 100000,
+        target_amount: 190000,
       }),
     ];
     // At rate 200: value=95000, loss=-5000, lossPct = -5000/100000*100 = -5%
     const result = checkCircuitBreaker(conversions, 200, makeSettings());
     expect(result.lossPct).toBeCloseTo(-5, 0);
   });
+
+  it('ignores conversions in the trash', () => {
+    const conversions = [
+      makeConversion({ deleted_at: '2024-01-02 12:00:00' }),
+    ];
+    const result = checkCircuitBreaker(conversions, 200, makeSettings({ circuit_breaker_loss_pence: 1000 }));
+    expect(result.triggered).toBe(false);
+    expect(result.message).toBe('No conversions to monitor.');
+  });
+
+  it('leaves spent yen and its share of the cost out of the loss', () => {
+    const settings = makeSettings({ circuit_breaker_loss_pence: 3000 });
+    // Half the yen spent: ¥95,000 held is worth 47500 at 200 against
+    // half of the 100000 deployed, so the loss is -2500, not -5000
+    const result = checkCircuitBreaker([makeConversion()], 200, settings, 95000);
+    expect(result.currentLoss).toBe(-2500);
+    expect(result.triggered).toBe(false);
+  });
 });
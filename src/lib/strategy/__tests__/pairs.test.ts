@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createTestDb } from '@/lib/db/testing';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import {
+  createPair,
+  deletePair,
+  getBandTiers,
+  getPairConfigs,
+  getPrimaryPairConfig,
+  saveBandTiers,
+} from '@/lib/strategy/pairs';
+
+const EUR_JPY = { base: 'EUR', quote: 'JPY' } as const;
+
+const eurLadder = [
+  { label: 'Buy', floor: 165, color: 'emerald', monthlyCap: 150000, direction: 'BUY' },
+  { label: 'Hold', floor: 155, color: 'amber', monthlyCap: 0, direction: 'HOLD' },
+  { key: 'REVERSE', label: 'Reverse', floor: 0, color: 'red', monthlyCap: 0, direction: 'REVERSE' },
+] as const;
+
+describe('band ladder', () => {
+  it('falls back to the default four tiers until a ladder is stored', () => {
+    const { ladder } = getPrimaryPairConfig(getBandTiers(createTestDb()));
+
+    expect(ladder.map((t) => [t.key, t.floor, t.monthlyCap])).toEqual([
+      ['AGGRESSIVE_BUY', 200, 200000],
+      ['NORMAL_BUY', 190, 100000],
+      ['HOLD', 175, 0],
+      ['REVERSE', 0, 0],
+    ]);
+  });
+
+  it('replaces the ladder, keeping existing keys and deriving new ones from labels', () => {
+    const db = createTestDb();
+    saveBandTiers(db, PRIMARY_PAIR, getPrimaryPairConfig().ladder);
+
+    const saved = saveBandTiers(db, PRIMARY_PAIR, [
+      { key: 'NORMAL_BUY', label: 'Normal Buy', floor: 190, color: 'blue', monthlyCap: 100000, direction: 'BUY' },
+      { label: 'Hold', floor: 180, color: 'amber', monthlyCap: 0, direction: 'HOLD' },
+      { label: 'Strong buy!', floor: 205, color: 'emerald', monthlyCap: 300000, direction: 'BUY' },
+      { key: 'REVERSE', label: 'Reverse Zone', floor: 0, color: 'red', monthlyCap: 0, direction: 'REVERSE' },
+    ]);
+
+    expect(saved.map((t) => t.key)).toEqual(['STRONG_BUY', 'NORMAL_BUY', 'HOLD', 'REVERSE']);
+    expect(getPrimaryPairConfig(getBandTiers(db)).ladder[0]).toMatchObject({
+      label: 'Strong buy!',
+      monthlyCap: 300000,
+    });
+  });
+});
+
+describe('pair ladders', () => {
+  it('gives each pair its own ladder, with keys shared across pairs', () => {
+    const db = createTestDb();
+    saveBandTiers(db, PRIMARY_PAIR, getPrimaryPairConfig().ladder);
+
+    const created = createPair(db, EUR_JPY, [...eurLadder]);
+
+    expect(created?.key).toBe('EUR/JPY');
+    expect(created?.ladder.map((t) => t.key)).toEqual(['BUY', 'HOLD', 'REVERSE']);
+    expect(getBandTiers(db)).toHaveLength(4);
+
+    const configs = getPairConfigs(db);
+    expect(configs.map((c) => c.key)).toEqual(['GBP/JPY', 'EUR/JPY']);
+    expect(configs[1].ladder[0]).toMatchObject({ floor: 165, monthlyCap: 150000 });
+  });
+
+  it('refuses a pair that is already configured', () => {
+    const db = createTestDb();
+    createPair(db, EUR_JPY, [...eurLadder]);
+
+    expect(createPair(db, EUR_JPY, [...eurLadder])).toBeNull();
+    expect(getBandTiers(db, EUR_JPY)).toHaveLength(3);
+  });
+
+  it('removes a pair together with its ladder', () => {
+    const db = createTestDb();
+    const created = createPair(db, EUR_JPY, [...eurLadder]);
+
+    expect(deletePair(db, created?.id ?? 0)).toBe(true);
+    expect(getBandTiers(db, EUR_JPY)).toEqual([]);
+    expect(getPairConfigs(db).map((c) => c.key)).toEqual(['GBP/JPY']);
+    expect(deletePair(db, created?.id ?? 0)).toBe(false);
+  });
+});
@@ -1,17 +1,21 @@
 import { describe, it, expect } from 'vitest';
-import { calculateScenarios, calculateBreakEven, compareStrategies } from '@/lib/strategy/projections';
+import { calculateScenarios, calculateBreakEven } from '@/lib/strategy/projections';
 import type { Settings } from '@/types';
 
 function mockSettings(overrides: Partial<Settings> = {}): Settings {
   return {
-    id: 1, aggressive_above: 200, normal_above: 190, hold_above: 175,
-    cap_aggressive_gbp: 200000, cap_normal_gbp: 100000,
+    id: 1,
     total_gbp_savings_pence: 5000000, max_fx_exposure_pct: 80,
     monthly_jpy_expenses: 250000, monthly_jpy_salary_net: 300000,
     nisa_monthly_jpy: 100000, nisa_return_pct: 5,
     circuit_breaker_loss_pence: 500000, gbp_safety_net_months: 6,
     scenario_best_rate: 210, scenario_base_rate: 190, scenario_worst_rate: 170,
-    last_band_review: null, review_interval_days: 90, updated_at: '2024-01-01T00:00:00',
+    last_band_review: null, review_interval_days: 90,
+    rate_providers: 'frankfurter,ecb', manual_rate: null,
+    stale_after_hours: 12, stale_hard_limit_hours: 72,
+    anomaly_std_devs: 3, anomaly_window_days: 20, anomaly_max_jump_pct: 5,
+    sizing_mode: 'stepped',
+    updated_at: '2024-01-01T00:00:00',
     ...overrides,
   };
 }
@@ -60,30 +64,3 @@ describe('calculateBreakEven', () => {
     expect(calculateBreakEven(0, 0)).toBe(0);
   });
 });
-
-describe('compareStrategies', () => {
-  it('lump sum uses current rate', () => {
-    const result = compareStrategies(1000000, 200, mockSettings(), 12);
-    // £10,000 * 200 = ¥2,000,000
-    expect(result.lumpSum.totalJpy).toBe(2000000);
-    expect(result.lumpSum.avgRate).toBe(200);
-    expect(result.lumpSum.riskLevel).toBe('High');
-  });
-
-  it('monthly drip uses base rate', () => {
-    const result = compareStrategies(1000000, 200, mockSettings(), 12);
-    // £10,000 * 190 (base) = ¥1,900,000
-    expect(result.monthlyDrip.totalJpy).toBe(1900000);
-    expect(result.monthlyDrip.avgRate).toBe(190);
-    expect(result.monthlyDrip.riskLevel).toBe('Low');
-  });
-
-  it('thermostat uses weighted base+best rate', () => {
-    const result = compareStrategies(1000000, 200, mockSettings(), 12);
-    // 190*0.4 + 210*0.6 = 76 + 126 = 202
-    const expectedRate = 190 * 0.4 + 210 * 0.6;
-    expect(result.thermostat.avgRate).toBe(expectedRate);
-    expect(result.thermostat.totalJpy).toBe(Math.round(10000 * expectedRate));
-    expect(result.thermostat.riskLevel).toBe('Medium');
-  });
-});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { countBandDays, defaultPercentiles, proposeLadder, recalibrate } from '@/lib/strategy/recalibration';
+import { getPrimaryPairConfig } from '@/lib/strategy/pairs';
+import { addDays } from '@/lib/rates/calendar';
+import type { Settings } from '@/types';
+
+function mockSettings(overrides: Partial<Settings> = {}): Settings {
+  return {
+    id: 1,
+    total_gbp_savings_pence: 5000000, max_fx_exposure_pct: 80,
+    monthly_jpy_expenses: 250000, monthly_jpy_salary_net: 300000,
+    nisa_monthly_jpy: 100000, nisa_return_pct: 5,
+    circuit_breaker_loss_pence: 500000, gbp_safety_net_months: 6,
+    scenario_best_rate: 210, scenario_base_rate: 190, scenario_worst_rate: 170,
+    last_band_review: '2024-01-01', review_interval_days: 90,
+    rate_providers: 'frankfurter,ecb', manual_rate: null,
+    stale_after_hours: 12, stale_hard_limit_hours: 72,
+    anomaly_std_devs: 3, anomaly_window_days: 20, anomaly_max_jump_pct: 5,
+    sizing_mode: 'stepped',
+    updated_at: '2024-01-01T00:00:00',
+    ...overrides,
+  };
+}
+
+// 101 days climbing from 180 to 190 in steps of 0.1
+const history = Array.from({ length: 101 }, (_, i) => ({
+  date: addDays('2024-01-01', i),
+  rate: 180 + i / 10,
+}));
+
+describe('proposeLadder', () => {
+  const { ladder } = getPrimaryPairConfig();
+
+  it('sets each floor above the lowest tier at a percentile of past rates', () => {
+    expect(proposeLadder(history, ladder, [80, 50, 20]).map((t) => t.floor)).toEqual([188, 185, 182, 0]);
+  });
+
+  it('counts the days each band would have covered', () => {
+    const days = countBandDays(history, proposeLadder(history, ladder, [80, 50, 20]));
+    expect(days).toEqual({ AGGRESSIVE_BUY: 21, NORMAL_BUY: 30, HOLD: 30, REVERSE: 20 });
+  });
+
+  it('spreads default percentiles over longer ladders', () => {
+    expect(defaultPercentiles(4)).toEqual([80, 50, 20]);
+    expect(defaultPercentiles(5)).toEqual([80, 60, 40, 20]);
+    expect(defaultPercentiles(2)).toEqual([50]);
+  });
+});
+
+describe('recalibrate', () => {
+  it('compares current and proposed thresholds over the same rates', () => {
+    const settings = mockSettings();
+    const result = recalibrate(history, settings, getPrimaryPairConfig())!;
+
+    expect(result.days).toBe(101);
+    expect(result.from).toBe('2024-01-01');
+    expect(result.lastReview).toBe('2024-01-01');
+
+    // The current bands only reach normal on the last day, for one conversion
+    expect(result.current.bandDays).toEqual({ AGGRESSIVE_BUY: 0, NORMAL_BUY: 1, HOLD: 100, REVERSE: 0 });
+    expect(result.current.baseDeployed).toBe(100000);
+    expect(result.current.trades).toBe(1);
+
+    // The proposal buys from 185 every month
+    expect(result.proposed.ladder[0]).toMatchObject({ key: 'AGGRESSIVE_BUY', floor: 188 });
+    expect(result.proposed.trades).toBeGreaterThan(1);
+    expect(result.proposed.baseDeployed).toBeGreaterThan(result.current.baseDeployed);
+    expect(result.proposed.avgRate).toBeGreaterThanOrEqual(185);
+  });
+
+  it('needs enough history', () => {
+    const settings = mockSettings();
+    expect(recalibrate(history.slice(0, 5), settings, getPrimaryPairConfig())).toBeNull();
+  });
+});
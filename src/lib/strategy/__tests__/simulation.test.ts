@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, logReturns, percentile, runSimulation } from '@/lib/strategy/simulation';
+import { PRIMARY_PAIR } from '@/lib/finance/currency';
+import { addDays } from '@/lib/rates/calendar';
+
+// A year of daily rates zig-zagging around 190
+const history = Array.from({ length: 250 }, (_, i) => ({
+  date: addDays('2024-01-01', i),
+  rate: 190 * Math.exp(0.004 * Math.sin(i) + 0.0001 * i),
+}));
+
+const position = {
+  startDate: '2025-01-10',
+  startRate: 190,
+  remainingBase: 1000000,   // £10,000
+  heldQuote: 1900000,       // ¥1,900,000
+};
+
+describe('simulation helpers', () => {
+  it('draws the same numbers from the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const draws = Array.from({ length: 5 }, () => a());
+    expect(draws).toEqual(Array.from({ length: 5 }, () => b()));
+    expect(draws.every((d) => d >= 0 && d < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(draws[0]);
+  });
+
+  it('takes log returns in date order and interpolates percentiles', () => {
+    const returns = logReturns([
+      { date: '2024-01-03', rate: 110 },
+      { date: '2024-01-02', rate: 100 },
+    ]);
+    expect(returns).toHaveLength(1);
+    expect(returns[0]).toBeCloseTo(Math.log(1.1), 10);
+
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([10, 20], 25)).toBe(12.5);
+  });
+});
+
+describe('runSimulation', () => {
+  it('fans out from the start rate with ordered percentiles on business days', () => {
+    const result = runSimulation(history, position, PRIMARY_PAIR, { mode: 'gbm', horizonDays: 120, paths: 500, seed: 7 })!;
+
+    const first = result.points[0];
+    expect(first.day).toBe(0);
+    expect(first.rate.p5).toBe(190);
+    expect(first.rate.p95).toBe(190);
+    expect(first.savingsQuote.p50).toBe(1900000);
+    expect(first.holdingsBase.p50).toBe(1000000);
+
+    // 120 days sampled every other day, plus the start
+    expect(result.points).toHaveLength(61);
+    const last = result.points[result.points.length - 1];
+    expect(last.day).toBe(120);
+    expect(new Date(`${last.date}T00:00:00Z`).getUTCDay()).not.toBe(0);
+
+    for (const b of [last.rate, last.savingsQuote, last.holdingsBase]) {
+      expect(b.p5).toBeLessThan(b.p25);
+      expect(b.p25).toBeLessThan(b.p50);
+      expect(b.p50).toBeLessThan(b.p75);
+      expect(b.p75).toBeLessThan(b.p95);
+    }
+    // The spread widens with time
+    const mid = result.points[30];
+    expect(last.rate.p95 - last.rate.p5).toBeGreaterThan(mid.rate.p95 - mid.rate.p5);
+  });
+
+  it('is reproducible for a seed in both modes', () => {
+    for (const mode of ['gbm', 'bootstrap'] as const) {
+      const options = { mode, horizonDays: 20, paths: 200, seed: 11 };
+      const a = runSimulation(history, position, PRIMARY_PAIR, options)!;
+      const b = runSimulation(history, position, PRIMARY_PAIR, options)!;
+      expect(a.points).toEqual(b.points);
+      expect(runSimulation(history, position, PRIMARY_PAIR, { ...options, seed: 12 })!.points).not.toEqual(a.points);
+    }
+  });
+
+  it('bootstraps only moves seen in the history', () => {
+    const steady = Array.from({ length: 30 }, (_, i) => ({ date: addDays('2024-01-01', i), rate: 100 * 1.01 ** i }));
+    const result = runSimulation(steady, position, PRIMARY_PAIR, { mode: 'bootstrap', horizonDays: 10, paths: 100 })!;
+
+    // Every past move was +1%, so every path ends 10 moves up
+    const last = result.points[result.points.length - 1];
+    expect(last.rate.p5).toBeCloseTo(190 * 1.01 ** 10, 6);
+    expect(last.rate.p95).toBeCloseTo(190 * 1.01 ** 10, 6);
+  });
+
+  it('needs enough history to fit', () => {
+    expect(runSimulation(history.slice(0, 10), position, PRIMARY_PAIR, { mode: 'gbm', horizonDays: 20 })).toBeNull();
+  });
+});
@@ -1,15 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { calculateThermostat } from '@/lib/strategy/thermostat';
-import type { ConversionRecord, Settings } from '@/types';
+import { ladderFromThresholds } from '@/lib/strategy/bands';
+import { getPrimaryPairConfig } from '@/lib/strategy/pairs';
+import type { ConversionRecord, PairConfig, Settings } from '@/types';
 
 function mockSettings(overrides: Partial<Settings> = {}): Settings {
   return {
     id: 1,
-    aggressive_above: 200,
-    normal_above: 190,
-    hold_above: 175,
-    cap_aggressive_gbp: 200000,  // £2000
-    cap_normal_gbp: 100000,       // £1000
     total_gbp_savings_pence: 5000000, // £50k
     max_fx_exposure_pct: 80,
     monthly_jpy_expenses: 250000,
@@ -23,6 +20,14 @@ function mockSettings(overrides: Partial<Settings> = {}): Settings {
     scenario_worst_rate: 170,
     last_band_review: null,
     review_interval_days: 90,
+    rate_providers: 'frankfurter,ecb',
+    manual_rate: null,
+    stale_after_hours: 12,
+    stale_hard_limit_hours: 72,
+    anomaly_std_devs: 3,
+    anomaly_window_days: 20,
+    anomaly_max_jump_pct: 5,
+    sizing_mode: 'stepped',
     updated_at: '2024-01-01T00:00:00',
     ...overrides,
   };
@@ -32,23 +37,29 @@ function mockConversion(overrides: Partial<ConversionRecord> = {}): ConversionRe
   return {
     id: 1,
     date: '2024-01-15',
-    direction: 'GBP_TO_JPY',
-    gbp_amount: 100000, // £1000
-    jpy_amount: 190000,
+    source_currency: 'GBP',
+    target_currency: 'JPY',
+    source_amount: 100000, // £1000
+    target_amount: 190000,
     exchange_rate: 190,
     spot_rate: null,
     fee_pct: null,
     provider: 'WISE',
     band_at_time: null,
     notes: null,
+    source_account_id: null,
+    target_account_id: null,
     created_at: '2024-01-15T00:00:00',
+    deleted_at: null,
     ...overrides,
   };
 }
 
+const gbpJpy = getPrimaryPairConfig();
+
 describe('calculateThermostat', () => {
   it('returns full aggressive cap with no conversions', () => {
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), [], '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, [], '2024-01');
 
     expect(result.monthlyCap).toBe(200000);
     expect(result.convertedThisMonth).toBe(0);
@@ -60,9 +71,9 @@ describe('calculateThermostat', () => {
 
   it('reduces remaining budget after conversions this month', () => {
     const conversions = [
-      mockConversion({ date: '2024-01-10', gbp_amount: 80000 }), // £800
+      mockConversion({ date: '2024-01-10', source_amount: 80000 }), // £800
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
 
     expect(result.convertedThisMonth).toBe(80000);
     expect(result.remainingBudget).toBe(120000); // £2000 - £800 = £1200
@@ -71,24 +82,37 @@ describe('calculateThermostat', () => {
 
   it('returns atCap when monthly cap is reached', () => {
     const conversions = [
-      mockConversion({ date: '2024-01-10', gbp_amount: 200000 }), // £2000 = full aggressive cap
+      mockConversion({ date: '2024-01-10', source_amount: 200000 }), // £2000 = full aggressive cap
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
 
     expect(result.remainingBudget).toBe(0);
     expect(result.atCap).toBe(true);
     expect(result.suggestedAmount).toBe(0);
   });
 
+  it('holds back what recurring plans are still due to convert', () => {
+    const conversions = [
+      mockConversion({ date: '2024-01-10', source_amount: 80000 }), // £800
+    ];
+    const result = calculateThermostat(
+      'AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01', undefined, 50000
+    );
+
+    expect(result.plannedThisMonth).toBe(50000);
+    expect(result.remainingBudget).toBe(70000); // £2000 - £800 - £500 planned
+    expect(result.suggestion).toContain('£500.00 planned');
+  });
+
   it('uses normal cap for NORMAL_BUY band', () => {
-    const result = calculateThermostat('NORMAL_BUY', mockSettings(), [], '2024-01');
+    const result = calculateThermostat('NORMAL_BUY', mockSettings(), gbpJpy, [], '2024-01');
 
     expect(result.monthlyCap).toBe(100000); // £1000 normal cap
     expect(result.remainingBudget).toBe(100000);
   });
 
   it('returns zero cap for HOLD band', () => {
-    const result = calculateThermostat('HOLD', mockSettings(), [], '2024-01');
+    const result = calculateThermostat('HOLD', mockSettings(), gbpJpy, [], '2024-01');
 
     expect(result.monthlyCap).toBe(0);
     expect(result.remainingBudget).toBe(0);
@@ -98,9 +122,9 @@ describe('calculateThermostat', () => {
 
   it('ignores conversions from other months', () => {
     const conversions = [
-      mockConversion({ date: '2024-02-10', gbp_amount: 100000 }), // different month
+      mockConversion({ date: '2024-02-10', source_amount: 100000 }), // different month
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
 
     expect(result.convertedThisMonth).toBe(0);
     expect(result.remainingBudget).toBe(200000);
@@ -110,9 +134,9 @@ describe('calculateThermostat', () => {
     // £50k savings, 80% max = £40k max exposure
     // Already converted exactly £40k — at limit, not over
     const conversions = [
-      mockConversion({ date: '2024-01-01', gbp_amount: 4000000 }), // £40k
+      mockConversion({ date: '2024-01-01', source_amount: 4000000 }), // £40k
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-02');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-02');
 
     expect(result.overExposed).toBe(false);
     expect(result.exposurePct).toBe(80);
@@ -123,9 +147,9 @@ describe('calculateThermostat', () => {
     // £50k savings, 80% max = £40k max exposure
     // Already converted £40.1k — over limit
     const conversions = [
-      mockConversion({ date: '2024-01-01', gbp_amount: 4010000 }), // £40.1k
+      mockConversion({ date: '2024-01-01', source_amount: 4010000 }), // £40.1k
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-02');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-02');
 
     expect(result.overExposed).toBe(true);
     expect(result.suggestedAmount).toBe(0);
@@ -136,9 +160,9 @@ describe('calculateThermostat', () => {
     // £50k savings, 80% max = £40k max exposure
     // Already converted £39k, so only £1k exposure remaining
     const conversions = [
-      mockConversion({ date: '2023-12-01', gbp_amount: 3900000 }), // £39k last month
+      mockConversion({ date: '2023-12-01', source_amount: 3900000 }), // £39k last month
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
 
     // Monthly cap = £2000, but exposure remaining = £1000
     expect(result.monthlyCap).toBe(200000); // £2000
@@ -146,7 +170,7 @@ describe('calculateThermostat', () => {
   });
 
   it('returns zero cap and reverse suggestion for REVERSE band', () => {
-    const result = calculateThermostat('REVERSE', mockSettings(), [], '2024-01');
+    const result = calculateThermostat('REVERSE', mockSettings(), gbpJpy, [], '2024-01');
 
     expect(result.monthlyCap).toBe(0);
     expect(result.remainingBudget).toBe(0);
@@ -156,24 +180,203 @@ describe('calculateThermostat', () => {
 
   it('does not count JPY_TO_GBP conversions in monthly total', () => {
     const conversions = [
-      mockConversion({ date: '2024-01-10', direction: 'JPY_TO_GBP', gbp_amount: 50000 }),
+      mockConversion({ date: '2024-01-10', source_currency: 'JPY', target_currency: 'GBP', source_amount: 95000, target_amount: 50000 }),
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
 
     expect(result.convertedThisMonth).toBe(0);
     expect(result.remainingBudget).toBe(200000); // full cap still available
   });
 
+  it('refuses to suggest converting when the rate is beyond the hard staleness limit', () => {
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, [], '2024-01', {
+      beyondHardLimit: true,
+      staleReason: 'Rate is from 2024-01-05, 14 business days behind',
+    });
+
+    expect(result.rateTooStale).toBe(true);
+    expect(result.remainingBudget).toBe(200000);
+    expect(result.suggestedAmount).toBe(0);
+    expect(result.suggestion).toContain('too stale');
+  });
+
   it('sums multiple conversions in the same month correctly', () => {
     const conversions = [
-      mockConversion({ id: 1, date: '2024-01-05', gbp_amount: 50000 }),  // £500
-      mockConversion({ id: 2, date: '2024-01-15', gbp_amount: 30000 }),  // £300
-      mockConversion({ id: 3, date: '2024-01-25', gbp_amount: 20000 }),  // £200
+      mockConversion({ id: 1, date: '2024-01-05', source_amount: 50000 }),  // £500
+      mockConversion({ id: 2, date: '2024-01-15', source_amount: 30000 }),  // £300
+      mockConversion({ id: 3, date: '2024-01-25', source_amount: 20000 }),  // £200
     ];
-    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), conversions, '2024-01');
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
 
     expect(result.convertedThisMonth).toBe(100000); // £500 + £300 + £200 = £1000
     expect(result.remainingBudget).toBe(100000);    // £2000 cap - £1000 = £1000
     expect(result.atCap).toBe(false);
   });
+
+  it('uses the pair config for caps and only applies the GBP exposure limit to GBP pairs', () => {
+    const eurJpy: PairConfig = {
+      id: 2,
+      pair: { base: 'EUR', quote: 'JPY' },
+      key: 'EUR/JPY',
+      ladder: ladderFromThresholds({ aggressiveAbove: 165, normalAbove: 160, holdAbove: 150 }, 300000, 150000),
+    };
+    const conversions = [
+      mockConversion({ date: '2024-01-01', source_amount: 4500000 }), // £45k, over the GBP limit
+      mockConversion({
+        date: '2024-01-10',
+        source_currency: 'EUR',
+        source_amount: 50000,
+        target_amount: 80000,
+      }),
+    ];
+
+    const result = calculateThermostat('NORMAL_BUY', mockSettings(), eurJpy, conversions, '2024-01');
+
+    expect(result.currency).toBe('EUR');
+    expect(result.monthlyCap).toBe(150000);
+    expect(result.convertedThisMonth).toBe(50000);
+    expect(result.overExposed).toBe(false);
+    expect(result.suggestedAmount).toBe(100000);
+    expect(result.suggestion).toContain('\u20AC1,000.00');
+  });
+
+  it('ignores conversions in the trash', () => {
+    const conversions = [
+      mockConversion({ date: '2024-01-10', source_amount: 80000 }),
+      mockConversion({ date: '2024-01-12', source_amount: 50000, deleted_at: '2024-01-13 08:00:00' }),
+    ];
+    const result = calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions, '2024-01');
+
+    expect(result.convertedThisMonth).toBe(80000);
+    expect(result.exposurePct).toBe(
+      calculateThermostat('AGGRESSIVE_BUY', mockSettings(), gbpJpy, conversions.slice(0, 1), '2024-01').exposurePct
+    );
+  });
+
+  it('takes the cap and direction from the tier in a custom ladder', () => {
+    const pairConfig = getPrimaryPairConfig([
+      { key: 'STRONG', label: 'Strong', floor: 205, color: 'emerald', monthlyCap: 300000, direction: 'BUY' },
+      { key: 'FAIR', label: 'Fair', floor: 188, color: 'violet', monthlyCap: 50000, direction: 'BUY' },
+      { key: 'WAIT', label: 'Wait', floor: 175, color: 'amber', monthlyCap: 0, direction: 'HOLD' },
+      { key: 'BACK', label: 'Back', floor: 0, color: 'red', monthlyCap: 0, direction: 'REVERSE' },
+    ]);
+    const conversions = [mockConversion({ date: '2024-01-05', source_amount: 20000 })];
+
+    const fair = calculateThermostat('FAIR', mockSettings(), pairConfig, conversions, '2024-01');
+    expect(fair.monthlyCap).toBe(50000);
+    expect(fair.suggestedAmount).toBe(30000);
+
+    const wait = calculateThermostat('WAIT', mockSettings(), pairConfig, conversions, '2024-01');
+    expect(wait.monthlyCap).toBe(0);
+    expect(wait.suggestion).toContain('Hold zone');
+
+    const back = calculateThermostat('BACK', mockSettings(), pairConfig, conversions, '2024-01');
+    expect(back.suggestion).toContain('Reverse zone');
+  });
 });
+
+describe('continuous sizing', () => {
+  const range = (percentile: number) => ({
+    high: 210, low: 170, highDate: '2023-06-01', lowDate: '2023-11-01', current: 200, percentile,
+  });
+
+  it('keeps the tier caps in stepped mode and says so', () => {
+    const result = calculateThermostat('NORMAL_BUY', mockSettings(), gbpJpy, [], '2024-01', undefined, 0, { rate: 199.99 });
+
+    expect(result.monthlyCap).toBe(100000);
+    expect(result.sizing).toMatchObject({ mode: 'stepped', fraction: null });
+    expect(result.sizing.steps[0]).toContain('Normal Buy tier cap');
+  });
+
+  it('scales the top cap linearly from the hold floor to the highest buy floor', () => {
+    const settings = mockSettings({ sizing_mode: 'linear' });
+    const at = (rate: number, band: string) =>
+      calculateThermostat(band, settings, gbpJpy, [], '2024-01', undefined, 0, { rate });
+
+    expect(at(192.5, 'NORMAL_BUY').monthlyCap).toBe(140000);
+    expect(at(192.5, 'NORMAL_BUY').sizing.fraction).toBeCloseTo(0.7);
+    expect(at(192.5, 'NORMAL_BUY').sizing.steps[0]).toContain('70%');
+    expect(at(199.99, 'NORMAL_BUY').monthlyCap).toBe(199920);
+    expect(at(200, 'AGGRESSIVE_BUY').monthlyCap).toBe(200000);
+    expect(at(215, 'AGGRESSIVE_BUY').monthlyCap).toBe(200000);
+
+    // A little above the hold floor converts a little
+    const hold = at(180, 'HOLD');
+    expect(hold.monthlyCap).toBe(40000);
+    expect(hold.suggestion).toContain('Convert up to');
+
+    const reverse = at(170, 'REVERSE');
+    expect(reverse.monthlyCap).toBe(0);
+    expect(reverse.suggestion).toContain('Reverse zone');
+  });
+
+  it('rises slowly then steeply in exponential mode', () => {
+    const settings = mockSettings({ sizing_mode: 'exponential' });
+    const result = calculateThermostat('NORMAL_BUY', settings, gbpJpy, [], '2024-01', undefined, 0, { rate: 192.5 });
+
+    expect(result.sizing.fraction).toBeCloseTo(0.3755, 3);
+    expect(result.monthlyCap).toBe(75095);
+  });
+
+  it('scales to each ladder\'s own top buy floor and steps when there is nothing to scale to', () => {
+    const settings = mockSettings({ sizing_mode: 'linear' });
+    const eurJpy: PairConfig = {
+      id: 2,
+      pair: { base: 'EUR', quote: 'JPY' },
+      key: 'EUR/JPY',
+      ladder: ladderFromThresholds({ aggressiveAbove: 165, normalAbove: 160, holdAbove: 150 }, 300000, 150000),
+    };
+    const scaled = calculateThermostat('NORMAL_BUY', settings, eurJpy, [], '2024-01', undefined, 0, { rate: 157.5 });
+    expect(scaled.monthlyCap).toBe(150000);
+    expect(scaled.sizing.steps[0]).toContain('165.00');
+
+    const flat = getPrimaryPairConfig([
+      { key: 'BUY', label: 'Buy', floor: 190, color: 'emerald', monthlyCap: 100000, direction: 'BUY' },
+      { key: 'BACK', label: 'Back', floor: 0, color: 'red', monthlyCap: 0, direction: 'REVERSE' },
+    ]);
+    const fallback = calculateThermostat('BUY', settings, flat, [], '2024-01', undefined, 0, { rate: 195 });
+    expect(fallback.sizing.mode).toBe('stepped');
+    expect(fallback.monthlyCap).toBe(100000);
+    expect(fallback.sizing.steps[0]).toContain('No buy floor above');
+  });
+
+  it('scales by the 52-week range and falls back to stepped without one', () => {
+    const settings = mockSettings({ sizing_mode: 'percentile' });
+
+    const scaled = calculateThermostat('NORMAL_BUY', settings, gbpJpy, [], '2024-01', undefined, 0, {
+      rate: 200,
+      range52Week: range(75),
+    });
+    expect(scaled.monthlyCap).toBe(150000);
+    expect(scaled.sizing.steps[0]).toContain('52-week range');
+
+    const fallback = calculateThermostat('NORMAL_BUY', settings, gbpJpy, [], '2024-01', undefined, 0, { rate: 200 });
+    expect(fallback.sizing.mode).toBe('stepped');
+    expect(fallback.monthlyCap).toBe(100000);
+  });
+
+  it('explains what was converted and the exposure limit', () => {
+    const settings = mockSettings({ sizing_mode: 'linear', total_gbp_savings_pence: 1000000, max_fx_exposure_pct: 10 });
+    const conversions = [mockConversion({ date: '2024-01-05', source_amount: 60000 })];
+    const result = calculateThermostat('NORMAL_BUY', settings, gbpJpy, conversions, '2024-01', undefined, 0, { rate: 185 });
+
+    expect(result.remainingBudget).toBe(20000);
+    expect(result.suggestedAmount).toBe(20000);
+    expect(result.sizing.steps).toHaveLength(2);
+    expect(result.sizing.steps[1]).toContain('converted');
+
+    const limited = calculateThermostat(
+      'NORMAL_BUY',
+      mockSettings({ sizing_mode: 'linear', total_gbp_savings_pence: 500000, max_fx_exposure_pct: 15 }),
+      gbpJpy,
+      conversions,
+      '2024-01',
+      undefined,
+      0,
+      { rate: 185 }
+    );
+    expect(limited.suggestedAmount).toBe(15000);
+    expect(limited.sizing.steps[2]).toContain('exposure limit');
+  });
+});
+
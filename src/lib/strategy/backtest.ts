@@ -0,0 +1,271 @@
+import type {
+  BacktestEquityPoint,
+  BacktestMonth,
+  BacktestResult,
+  BacktestRun,
+  BacktestStrategy,
+  BacktestTrade,
+  ConversionRecord,
+  CurrencyPair,
+  PairConfig,
+  RateHistoryPoint,
+  Settings,
+} from '@/types';
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/currency';
+import { addDays } from '@/lib/rates/calendar';
+import { calculate52WeekRange } from '@/lib/rates/history';
+import { determineBand, sortLadder } from '@/lib/strategy/bands';
+import { calculateThermostat } from '@/lib/strategy/thermostat';
+
+type BacktestPoint = Pick<RateHistoryPoint, 'date' | 'rate'>;
+
+const LABELS: Record<BacktestStrategy, string> = {
+  thermostat: 'Thermostat',
+  lumpSum: 'Lump Sum',
+  dca: 'Monthly DCA',
+};
+
+/**
+ * What each strategy may convert when no budget is given: the exposure limit
+ * for pairs that spend GBP savings, otherwise a year at the cap of the lowest
+ * buy tier.
+ */
+export function defaultBacktestBudget(
+  settings: Pick<Settings, 'total_gbp_savings_pence' | 'max_fx_exposure_pct'>,
+  pairConfig: PairConfig
+): number {
+  if (pairConfig.pair.base === 'GBP') {
+    return Math.round(settings.total_gbp_savings_pence * settings.max_fx_exposure_pct / 100);
+  }
+  const buyTiers = sortLadder(pairConfig.ladder).filter((t) => t.direction === 'BUY');
+  return (buyTiers[buyTiers.length - 1]?.monthlyCap ?? 0) * 12;
+}
+
+function quoteFor(baseAmount: number, rate: number, pair: CurrencyPair): number {
+  return toMinorUnits(fromMinorUnits(baseAmount, pair.base) * rate, pair.quote);
+}
+
+function trade(point: BacktestPoint, baseAmount: number, pairConfig: PairConfig): BacktestTrade {
+  return {
+    date: point.date,
+    rate: point.rate,
+    band: determineBand(point.rate, pairConfig.ladder).band,
+    baseAmount,
+    quoteAmount: quoteFor(baseAmount, point.rate, pairConfig.pair),
+  };
+}
+
+/**
+ * Replay the live strategy: each day, work out the band and ask the
+ * thermostat what to convert given the trades made so far, converting all
+ * of it at that day's rate.
+ */
+function replayThermostat(
+  series: BacktestPoint[],
+  settings: Settings,
+  pairConfig: PairConfig,
+  budget: number
+): BacktestTrade[] {
+  const { pair } = pairConfig;
+  const conversions: ConversionRecord[] = [];
+  const trades: BacktestTrade[] = [];
+  let deployed = 0;
+  // First point of the trailing 52 weeks, for percentile sizing
+  let windowStart = 0;
+
+  for (const [i, point] of series.entries()) {
+    const yearAgo = addDays(point.date, -365);
+    while (series[windowStart].date <= yearAgo) windowStart += 1;
+    const range52Week = settings.sizing_mode === 'percentile'
+      ? calculate52WeekRange(series.slice(windowStart, i + 1), point.rate)
+      : null;
+
+    const { band } = determineBand(point.rate, pairConfig.ladder);
+    const thermostat = calculateThermostat(
+      band,
+      settings,
+      pairConfig,
+      conversions,
+      point.date.slice(0, 7),
+      undefined,
+      0,
+      { rate: point.rate, range52Week }
+    );
+    const amount = Math.min(thermostat.suggestedAmount, budget - deployed);
+    if (amount <= 0) continue;
+
+    const made = trade(point, amount, pairConfig);
+    trades.push(made);
+    deployed += amount;
+    conversions.push({
+      id: conversions.length + 1,
+      date: point.date,
+      source_currency: pair.base,
+      target_currency: pair.quote,
+      source_amount: made.baseAmount,
+      target_amount: made.quoteAmount,
+      exchange_rate: point.rate,
+      spot_rate: point.rate,
+      fee_pct: 0,
+      provider: null,
+      band_at_time: band,
+      notes: null,
+      source_account_id: null,
+      target_account_id: null,
+      created_at: point.date,
+      deleted_at: null,
+    });
+  }
+
+  return trades;
+}
+
+/** The whole budget on the first day. */
+function lumpSumTrades(series: BacktestPoint[], pairConfig: PairConfig, budget: number): BacktestTrade[] {
+  return budget > 0 ? [trade(series[0], budget, pairConfig)] : [];
+}
+
+/** An equal share of the budget on the first day of each month in the series. */
+function dcaTrades(series: BacktestPoint[], pairConfig: PairConfig, budget: number): BacktestTrade[] {
+  const firstDays = series.filter((p, i) => i === 0 || series[i - 1].date.slice(0, 7) !== p.date.slice(0, 7));
+
+  // Spread the rounding so the shares add up to the budget exactly
+  return firstDays
+    .map((point, i) => {
+      const amount =
+        Math.round((budget * (i + 1)) / firstDays.length) - Math.round((budget * i) / firstDays.length);
+      return trade(point, amount, pairConfig);
+    })
+    .filter((t) => t.baseAmount > 0);
+}
+
+function averageRate(baseAmount: number, quoteAmount: number, pair: CurrencyPair): number {
+  return baseAmount > 0 ? fromMinorUnits(quoteAmount, pair.quote) / fromMinorUnits(baseAmount, pair.base) : 0;
+}
+
+function monthlyLog(series: BacktestPoint[], trades: BacktestTrade[], pair: CurrencyPair): BacktestMonth[] {
+  const months = new Map<string, BacktestMonth>();
+
+  for (const point of series) {
+    const month = point.date.slice(0, 7);
+    const entry = months.get(month) ?? { month, closeRate: point.rate, baseAmount: 0, quoteAmount: 0, avgRate: null, trades: 0 };
+    entry.closeRate = point.rate;
+    months.set(month, entry);
+  }
+
+  for (const t of trades) {
+    const entry = months.get(t.date.slice(0, 7));
+    if (!entry) continue;
+    entry.baseAmount += t.baseAmount;
+    entry.quoteAmount += t.quoteAmount;
+    entry.trades += 1;
+    entry.avgRate = averageRate(entry.baseAmount, entry.quoteAmount, pair);
+  }
+
+  return Array.from(months.values());
+}
+
+/**
+ * Value each day of the budget left unconverted plus the holdings converted
+ * back at that day's rate.
+ */
+function valueSeries(series: BacktestPoint[], trades: BacktestTrade[], budget: number, pair: CurrencyPair): number[] {
+  const byDate = new Map<string, BacktestTrade[]>();
+  for (const t of trades) byDate.set(t.date, [...(byDate.get(t.date) ?? []), t]);
+
+  let cash = budget;
+  let held = 0;
+  return series.map((point) => {
+    for (const t of byDate.get(point.date) ?? []) {
+      cash -= t.baseAmount;
+      held += t.quoteAmount;
+    }
+    return cash + toMinorUnits(fromMinorUnits(held, pair.quote) / point.rate, pair.base);
+  });
+}
+
+function summarise(
+  strategy: BacktestStrategy,
+  series: BacktestPoint[],
+  trades: BacktestTrade[],
+  values: number[],
+  pair: CurrencyPair
+): BacktestRun {
+  const baseDeployed = trades.reduce((sum, t) => sum + t.baseAmount, 0);
+  const quoteAcquired = trades.reduce((sum, t) => sum + t.quoteAmount, 0);
+
+  let peak = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    if (peak - value > maxDrawdown) {
+      maxDrawdown = peak - value;
+      maxDrawdownPct = ((peak - value) / peak) * 100;
+    }
+  }
+
+  return {
+    strategy,
+    label: LABELS[strategy],
+    baseDeployed,
+    quoteAcquired,
+    avgRate: averageRate(baseDeployed, quoteAcquired, pair),
+    finalValue: values[values.length - 1] ?? 0,
+    maxDrawdown,
+    maxDrawdownPct,
+    trades,
+    months: monthlyLog(series, trades, pair),
+  };
+}
+
+/**
+ * Replay the band strategy over a rate series with the current bands, caps
+ * and exposure limit, next to converting the whole budget on day one and
+ * converting an equal share each month. Each strategy starts from nothing
+ * converted and may convert at most `budget`. Returns null if the series has
+ * fewer than two rates.
+ */
+export function runBacktest(
+  series: BacktestPoint[],
+  settings: Settings,
+  pairConfig: PairConfig,
+  budget: number = defaultBacktestBudget(settings, pairConfig)
+): BacktestResult | null {
+  const sorted = series
+    .filter((p) => p.rate > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return null;
+
+  const { pair } = pairConfig;
+  const trades: Record<BacktestStrategy, BacktestTrade[]> = {
+    thermostat: replayThermostat(sorted, settings, pairConfig, budget),
+    lumpSum: lumpSumTrades(sorted, pairConfig, budget),
+    dca: dcaTrades(sorted, pairConfig, budget),
+  };
+  const values: Record<BacktestStrategy, number[]> = {
+    thermostat: valueSeries(sorted, trades.thermostat, budget, pair),
+    lumpSum: valueSeries(sorted, trades.lumpSum, budget, pair),
+    dca: valueSeries(sorted, trades.dca, budget, pair),
+  };
+
+  const equity: BacktestEquityPoint[] = sorted.map((point, i) => ({
+    date: point.date,
+    rate: point.rate,
+    thermostat: values.thermostat[i],
+    lumpSum: values.lumpSum[i],
+    dca: values.dca[i],
+  }));
+
+  return {
+    pair: pairConfig.key,
+    from: sorted[0].date,
+    to: sorted[sorted.length - 1].date,
+    days: sorted.length,
+    budget,
+    thermostat: summarise('thermostat', sorted, trades.thermostat, values.thermostat, pair),
+    lumpSum: summarise('lumpSum', sorted, trades.lumpSum, values.lumpSum, pair),
+    dca: summarise('dca', sorted, trades.dca, values.dca, pair),
+    equity,
+  };
+}
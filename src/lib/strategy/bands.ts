@@ -1,81 +1,124 @@
-import type { Band, BandResult } from '@/types';
+import type { Band, BandColor, BandDirection, BandResult, BandThresholds, BandTier } from '@/types';
+import { formatRate } from '@/lib/finance/currency';
 
-interface BandThresholds {
-  aggressiveAbove: number;
-  normalAbove: number;
-  holdAbove: number;
+export const BAND_COLORS: BandColor[] = ['emerald', 'teal', 'blue', 'violet', 'amber', 'orange', 'red', 'gray'];
+
+export const BAND_DIRECTIONS: BandDirection[] = ['BUY', 'HOLD', 'REVERSE'];
+
+// Full class names, so Tailwind picks them up
+const COLOR_CLASSES: Record<BandColor, { badge: string; border: string; bar: string }> = {
+  emerald: { badge: 'bg-emerald-500/20 text-emerald-400', border: 'border-emerald-500/30', bar: 'bg-emerald-500' },
+  teal: { badge: 'bg-teal-500/20 text-teal-400', border: 'border-teal-500/30', bar: 'bg-teal-500' },
+  blue: { badge: 'bg-blue-500/20 text-blue-400', border: 'border-blue-500/30', bar: 'bg-blue-500' },
+  violet: { badge: 'bg-violet-500/20 text-violet-400', border: 'border-violet-500/30', bar: 'bg-violet-500' },
+  amber: { badge: 'bg-amber-500/20 text-amber-400', border: 'border-amber-500/30', bar: 'bg-amber-500' },
+  orange: { badge: 'bg-orange-500/20 text-orange-400', border: 'border-orange-500/30', bar: 'bg-orange-500' },
+  red: { badge: 'bg-red-500/20 text-red-400', border: 'border-red-500/30', bar: 'bg-red-500' },
+  gray: { badge: 'bg-gray-500/20 text-gray-400', border: 'border-gray-500/30', bar: 'bg-gray-600' },
+};
+
+// The four tiers every ladder started as. Conversions recorded before a tier
+// was removed still carry these keys, so they keep their labels and colours.
+const DEFAULT_TIERS: Record<string, Pick<BandTier, 'label' | 'color' | 'direction'>> = {
+  AGGRESSIVE_BUY: { label: 'Aggressive Buy', color: 'emerald', direction: 'BUY' },
+  NORMAL_BUY: { label: 'Normal Buy', color: 'blue', direction: 'BUY' },
+  HOLD: { label: 'Hold', color: 'amber', direction: 'HOLD' },
+  REVERSE: { label: 'Reverse Zone', color: 'red', direction: 'REVERSE' },
+};
+
+/**
+ * The four-tier ladder equivalent to a pair's thresholds and caps: aggressive
+ * and normal buy, hold, and a reverse zone from zero up to `holdAbove`.
+ */
+export function ladderFromThresholds(
+  thresholds: BandThresholds,
+  capAggressive: number,
+  capNormal: number
+): BandTier[] {
+  return [
+    { key: 'AGGRESSIVE_BUY', ...DEFAULT_TIERS.AGGRESSIVE_BUY, floor: thresholds.aggressiveAbove, monthlyCap: capAggressive },
+    { key: 'NORMAL_BUY', ...DEFAULT_TIERS.NORMAL_BUY, floor: thresholds.normalAbove, monthlyCap: capNormal },
+    { key: 'HOLD', ...DEFAULT_TIERS.HOLD, floor: thresholds.holdAbove, monthlyCap: 0 },
+    { key: 'REVERSE', ...DEFAULT_TIERS.REVERSE, floor: 0, monthlyCap: 0 },
+  ];
 }
 
-export function determineBand(rate: number, thresholds: BandThresholds): BandResult {
-  let band: Band;
-  let suggestion: string;
-
-  if (rate >= thresholds.aggressiveAbove) {
-    band = 'AGGRESSIVE_BUY';
-    suggestion = 'Rate is excellent. Convert up to your aggressive monthly cap.';
-  } else if (rate >= thresholds.normalAbove) {
-    band = 'NORMAL_BUY';
-    suggestion = 'Rate is favourable. Convert up to your normal monthly cap.';
-  } else if (rate >= thresholds.holdAbove) {
-    band = 'HOLD';
-    suggestion = 'Rate is below your buy threshold. Hold and wait for improvement.';
-  } else {
-    band = 'REVERSE';
-    suggestion = 'Rate is very low. Consider converting JPY back to GBP if needed.';
+/** The GBP/JPY ladder until one is saved: buy from 200 and 190 with £2,000 and £1,000 caps, hold from 175. */
+export const DEFAULT_LADDER: BandTier[] = ladderFromThresholds(
+  { aggressiveAbove: 200, normalAbove: 190, holdAbove: 175 },
+  200000,
+  100000
+);
+
+/** Highest floor first. */
+export function sortLadder(ladder: BandTier[]): BandTier[] {
+  return [...ladder].sort((a, b) => b.floor - a.floor);
+}
+
+function suggestionFor(tier: BandTier): string {
+  switch (tier.direction) {
+    case 'BUY':
+      return `Rate is at or above ${formatRate(tier.floor)}. Convert up to your ${tier.label.toLowerCase()} monthly cap.`;
+    case 'HOLD':
+      return 'Rate is below your buy threshold. Hold and wait for improvement.';
+    case 'REVERSE':
+      return 'Rate is very low. Consider converting back to your base currency if needed.';
   }
+}
+
+/** The tier `rate` falls in: the highest floor at or below it, else the lowest tier. */
+export function determineBand(rate: number, ladder: BandTier[]): BandResult {
+  const sorted = sortLadder(ladder);
+  const tier = sorted.find((t) => rate >= t.floor) ?? sorted[sorted.length - 1];
+  if (!tier) throw new Error('Band ladder has no tiers');
 
   return {
-    band,
+    band: tier.key,
+    tier,
     rate,
-    thresholds: {
-      aggressiveAbove: thresholds.aggressiveAbove,
-      normalAbove: thresholds.normalAbove,
-      holdAbove: thresholds.holdAbove,
-    },
-    suggestion,
+    ladder: sorted,
+    suggestion: suggestionFor(tier),
   };
 }
 
-export function getBandLabel(band: Band | string | null): string {
-  switch (band) {
-    case 'AGGRESSIVE_BUY': return 'Aggressive Buy';
-    case 'NORMAL_BUY': return 'Normal Buy';
-    case 'HOLD': return 'Hold';
-    case 'REVERSE': return 'Reverse Zone';
-    default: return band ?? '--';
-  }
+/** Monthly cap to convert against in `band`; only BUY tiers have one. */
+export function getBandCap(band: Band, ladder: BandTier[]): number {
+  const tier = ladder.find((t) => t.key === band);
+  return tier?.direction === 'BUY' ? tier.monthlyCap : 0;
+}
+
+export function getBandDirection(band: Band | null, ladder: BandTier[] = []): BandDirection | null {
+  if (!band) return null;
+  return ladder.find((t) => t.key === band)?.direction ?? DEFAULT_TIERS[band]?.direction ?? null;
+}
+
+export function getBandLabel(band: Band | null, ladder: BandTier[] = []): string {
+  if (!band) return '--';
+  return ladder.find((t) => t.key === band)?.label ?? DEFAULT_TIERS[band]?.label ?? band;
+}
+
+function getBandColor(band: Band | null, ladder: BandTier[]): BandColor {
+  if (!band) return 'gray';
+  return ladder.find((t) => t.key === band)?.color ?? DEFAULT_TIERS[band]?.color ?? 'gray';
 }
 
 /** Returns bg + text classes, optionally with border classes for pill variants */
-export function getBandClasses(band: Band | string | null, withBorder = false): string {
-  const base = (() => {
-    switch (band) {
-      case 'AGGRESSIVE_BUY': return withBorder
-        ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
-        : 'bg-emerald-500/20 text-emerald-400';
-      case 'NORMAL_BUY': return withBorder
-        ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
-        : 'bg-blue-500/20 text-blue-400';
-      case 'HOLD': return withBorder
-        ? 'bg-amber-500/20 text-amber-400 border-amber-500/30'
-        : 'bg-amber-500/20 text-amber-400';
-      case 'REVERSE': return withBorder
-        ? 'bg-red-500/20 text-red-400 border-red-500/30'
-        : 'bg-red-500/20 text-red-400';
-      default: return withBorder
-        ? 'bg-gray-500/20 text-gray-400 border-gray-500/30'
-        : 'bg-gray-500/20 text-gray-400';
-    }
-  })();
-  return base;
+export function getBandClasses(band: Band | null, withBorder = false, ladder: BandTier[] = []): string {
+  const classes = COLOR_CLASSES[getBandColor(band, ladder)];
+  return withBorder ? `${classes.badge} ${classes.border}` : classes.badge;
 }
 
 /** bg + text classes for band badges (no border) */
-export function getBandBadgeClasses(band: Band | string | null): string {
-  return getBandClasses(band, false);
+export function getBandBadgeClasses(band: Band | null, ladder: BandTier[] = []): string {
+  return getBandClasses(band, false, ladder);
 }
 
 /** bg + text + border classes for band pills */
-export function getBandFullClasses(band: Band | string | null): string {
-  return getBandClasses(band, true);
+export function getBandFullClasses(band: Band | null, ladder: BandTier[] = []): string {
+  return getBandClasses(band, true, ladder);
+}
+
+/** Solid bg class for progress bars */
+export function getBandBarClass(band: Band | null, ladder: BandTier[] = []): string {
+  return COLOR_CLASSES[getBandColor(band, ladder)].bar;
 }
@@ -1,4 +1,6 @@
 import type { ConversionRecord, Settings } from '@/types';
+import { getPairLegs, PRIMARY_PAIR } from '@/lib/finance/currency';
+import type { PairLegs } from '@/lib/finance/currency';
 
 export interface CircuitBreakerResult {
   triggered: boolean;
@@ -14,28 +16,43 @@ export interface CircuitBreakerResult {
  * (deployed - threshold) at the current rate.
  *
  * E.g. deployed £10k, threshold £5k -> fires if current value < £5k
+ * The threshold is in pence, so only GBP/JPY conversions are monitored.
+ * Conversions in the trash are ignored. Yen already spent (`jpySpent`) is
+ * not at risk, so it is left out along with its average share of the cost.
  */
 export function checkCircuitBreaker(
   conversions: ConversionRecord[],
   currentRate: number,
-  settings: Settings
+  settings: Settings,
+  jpySpent = 0
 ): CircuitBreakerResult {
-  const gbpToJpy = conversions.filter((c) => c.direction === 'GBP_TO_JPY');
-  const jpyToGbp = conversions.filter((c) => c.direction === 'JPY_TO_GBP');
+  const legs = conversions
+    .filter((c) => !c.deleted_at)
+    .map((c) => getPairLegs(c, PRIMARY_PAIR))
+    .filter((l): l is PairLegs => l !== null);
+  const gbpToJpy = legs.filter((l) => l.forward);
+  const jpyToGbp = legs.filter((l) => !l.forward);
 
-  const totalGbpOut = gbpToJpy.reduce((s, c) => s + c.gbp_amount, 0);
-  const totalGbpBack = jpyToGbp.reduce((s, c) => s + c.gbp_amount, 0);
+  const totalGbpOut = gbpToJpy.reduce((s, l) => s + l.base, 0);
+  const totalGbpBack = jpyToGbp.reduce((s, l) => s + l.base, 0);
   const netDeployed = totalGbpOut - totalGbpBack;
 
-  const jpyHeld =
-    gbpToJpy.reduce((s, c) => s + c.jpy_amount, 0) -
-    jpyToGbp.reduce((s, c) => s + c.jpy_amount, 0);
+  const jpyAcquired =
+    gbpToJpy.reduce((s, l) => s + l.quote, 0) -
+    jpyToGbp.reduce((s, l) => s + l.quote, 0);
+  const jpyHeld = Math.max(0, jpyAcquired - jpySpent);
+
+  // The part of the GBP deployed that paid for the yen still held
+  const heldDeployed =
+    jpySpent > 0 && jpyAcquired > 0
+      ? Math.round((netDeployed * jpyHeld) / jpyAcquired)
+      : netDeployed;
 
   const currentValuePence =
     currentRate > 0 ? Math.round((jpyHeld / currentRate) * 100) : 0;
 
-  const loss = currentValuePence - netDeployed; // negative = loss
-  const lossPct = netDeployed > 0 ? (loss / netDeployed) * 100 : 0;
+  const loss = currentValuePence - heldDeployed; // negative = loss
+  const lossPct = heldDeployed > 0 ? (loss / heldDeployed) * 100 : 0;
   const threshold = settings.circuit_breaker_loss_pence;
 
   // Triggered when loss exceeds threshold (loss is negative, threshold is positive)
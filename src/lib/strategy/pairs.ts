@@ -0,0 +1,161 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { bandTiers, currencyPairs } from '@/lib/db/schema';
+import type * as schema from '@/lib/db/schema';
+import { pairKey, parsePairKey, PRIMARY_PAIR } from '@/lib/finance/currency';
+import { DEFAULT_LADDER, sortLadder } from '@/lib/strategy/bands';
+import type { BandLadderInput } from '@/lib/validators';
+import type {
+  BandColor,
+  BandDirection,
+  BandTier,
+  BandTierRecord,
+  CurrencyPair,
+  CurrencyPairRecord,
+  PairConfig,
+} from '@/types';
+
+type DB = BetterSQLite3Database<typeof schema>;
+
+export function toBandTier(row: BandTierRecord): BandTier {
+  return {
+    key: row.key,
+    label: row.label,
+    floor: row.floor,
+    color: row.color as BandColor,
+    monthlyCap: row.monthly_cap,
+    direction: row.direction as BandDirection,
+  };
+}
+
+function pairTiers(pair: CurrencyPair) {
+  return and(eq(bandTiers.base_currency, pair.base), eq(bandTiers.quote_currency, pair.quote));
+}
+
+/** The ladder stored for `pair`, highest floor first; empty if it has none. */
+export function getBandTiers(db: DB, pair: CurrencyPair = PRIMARY_PAIR): BandTier[] {
+  const rows = db.select().from(bandTiers).where(pairTiers(pair)).orderBy(desc(bandTiers.floor)).all() as BandTierRecord[];
+  return rows.map(toBandTier);
+}
+
+// Keys are stored on conversions and alerts, so new tiers get one derived
+// from their label and existing tiers keep theirs
+function tierKey(label: string, taken: Set<string>): string {
+  const stem = label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 32) || 'TIER';
+  const base = /^[A-Z]/.test(stem) ? stem : `TIER_${stem}`;
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+/** Replace `pair`'s ladder with `tiers` in one transaction. */
+export function saveBandTiers(db: DB, pair: CurrencyPair, tiers: BandLadderInput['tiers']): BandTier[] {
+  const taken = new Set(tiers.flatMap((t) => (t.key ? [t.key] : [])));
+  const values = tiers.map((t) => {
+    const key = t.key ?? tierKey(t.label, taken);
+    taken.add(key);
+    return {
+      base_currency: pair.base,
+      quote_currency: pair.quote,
+      key,
+      label: t.label,
+      floor: t.floor,
+      color: t.color,
+      monthly_cap: t.monthlyCap,
+      direction: t.direction,
+    };
+  });
+
+  db.transaction((tx) => {
+    tx.delete(bandTiers).where(pairTiers(pair)).run();
+    tx.insert(bandTiers).values(values).run();
+  });
+
+  return getBandTiers(db, pair);
+}
+
+/** Add a pair with its ladder. Returns null if the pair is already configured. */
+export function createPair(db: DB, pair: CurrencyPair, tiers: BandLadderInput['tiers']): PairConfig | null {
+  return db.transaction(() => {
+    const existing = db
+      .select()
+      .from(currencyPairs)
+      .where(and(eq(currencyPairs.base_currency, pair.base), eq(currencyPairs.quote_currency, pair.quote)))
+      .get();
+    if (existing) return null;
+
+    const row = db
+      .insert(currencyPairs)
+      .values({ base_currency: pair.base, quote_currency: pair.quote })
+      .returning()
+      .get() as CurrencyPairRecord;
+    return toPairConfig(row, saveBandTiers(db, pair, tiers));
+  });
+}
+
+/** Remove a pair and its ladder. Returns false if there is no such pair. */
+export function deletePair(db: DB, id: number): boolean {
+  return db.transaction((tx) => {
+    const row = tx.delete(currencyPairs).where(eq(currencyPairs.id, id)).returning().get() as
+      | CurrencyPairRecord
+      | undefined;
+    if (!row) return false;
+
+    tx.delete(bandTiers)
+      .where(and(eq(bandTiers.base_currency, row.base_currency), eq(bandTiers.quote_currency, row.quote_currency)))
+      .run();
+    return true;
+  });
+}
+
+/** GBP/JPY with its stored ladder, or the default ladder until one is saved. */
+export function getPrimaryPairConfig(tiers: BandTier[] = []): PairConfig {
+  return {
+    id: null,
+    pair: PRIMARY_PAIR,
+    key: pairKey(PRIMARY_PAIR),
+    ladder: sortLadder(tiers.length > 0 ? tiers : DEFAULT_LADDER),
+  };
+}
+
+/** Null for an unknown pair or one without a ladder. */
+export function toPairConfig(row: CurrencyPairRecord, tiers: BandTier[]): PairConfig | null {
+  const pair = parsePairKey(`${row.base_currency}/${row.quote_currency}`);
+  if (!pair || tiers.length === 0) return null;
+
+  return {
+    id: row.id,
+    pair,
+    key: pairKey(pair),
+    ladder: sortLadder(tiers),
+  };
+}
+
+/** Every configured pair, primary first. */
+export function getPairConfigs(db: DB): PairConfig[] {
+  const rows = db
+    .select()
+    .from(currencyPairs)
+    .orderBy(asc(currencyPairs.base_currency), asc(currencyPairs.quote_currency))
+    .all();
+
+  const ladders = new Map<string, BandTier[]>();
+  for (const row of db.select().from(bandTiers).all() as BandTierRecord[]) {
+    const key = `${row.base_currency}/${row.quote_currency}`;
+    ladders.set(key, [...(ladders.get(key) ?? []), toBandTier(row)]);
+  }
+
+  return [
+    getPrimaryPairConfig(ladders.get(pairKey(PRIMARY_PAIR))),
+    ...rows
+      .map((row) => toPairConfig(row, ladders.get(`${row.base_currency}/${row.quote_currency}`) ?? []))
+      .filter((c): c is PairConfig => c !== null),
+  ];
+}
+
+/** Look up a pair by key ('EUR/JPY'); a missing key means the primary pair. */
+export function findPairConfig(configs: PairConfig[], key: string | null): PairConfig | null {
+  if (!key) return configs[0] ?? null;
+  const pair = parsePairKey(key);
+  return pair ? configs.find((c) => c.key === pairKey(pair)) ?? null : null;
+}
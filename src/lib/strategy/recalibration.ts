@@ -0,0 +1,113 @@
+import type {
+  Band,
+  BandTier,
+  PairConfig,
+  RateHistoryPoint,
+  RecalibrationResult,
+  Settings,
+  ThresholdEvaluation,
+} from '@/types';
+import { determineBand, sortLadder } from '@/lib/strategy/bands';
+import { runBacktest } from '@/lib/strategy/backtest';
+import { percentile } from '@/lib/strategy/simulation';
+
+// Too few rates for percentiles to mean anything
+const MIN_RATES = 20;
+
+/**
+ * One percentile per tier above the lowest, highest first. For the default
+ * four tiers that is aggressive in the top 20% of the year's rates, normal in
+ * the top half and reverse in the bottom 20%; longer ladders spread evenly
+ * between the same ends.
+ */
+export function defaultPercentiles(tierCount: number): number[] {
+  const count = tierCount - 1;
+  if (count <= 1) return [50];
+  return Array.from({ length: count }, (_, i) => Math.round(80 - (60 * i) / (count - 1)));
+}
+
+/**
+ * `ladder` with each tier above the lowest floored at the matching
+ * percentile of the rates in `history`, to two decimal places. The lowest
+ * tier keeps its floor unless that would now overlap the tier above.
+ */
+export function proposeLadder(
+  history: Pick<RateHistoryPoint, 'rate'>[],
+  ladder: BandTier[],
+  percentiles: number[]
+): BandTier[] {
+  const tiers = sortLadder(ladder);
+  if (percentiles.length !== tiers.length - 1) {
+    throw new Error(`Expected ${tiers.length - 1} percentiles, one per tier above the lowest`);
+  }
+
+  const sorted = history.map((p) => p.rate).sort((a, b) => a - b);
+  const at = (p: number) => Math.round(percentile(sorted, p) * 100) / 100;
+  const floors = percentiles.map(at);
+  const lowest = floors[floors.length - 1];
+
+  return tiers.map((tier, i) =>
+    i < floors.length
+      ? { ...tier, floor: floors[i] }
+      : { ...tier, floor: tier.floor < lowest ? tier.floor : 0 }
+  );
+}
+
+/** How many rates in `history` fall in each tier. */
+export function countBandDays(
+  history: Pick<RateHistoryPoint, 'rate'>[],
+  ladder: BandTier[]
+): Record<Band, number> {
+  const days: Record<Band, number> = Object.fromEntries(ladder.map((t) => [t.key, 0]));
+  for (const point of history) {
+    days[determineBand(point.rate, ladder).band] += 1;
+  }
+  return days;
+}
+
+function evaluate(
+  history: Pick<RateHistoryPoint, 'date' | 'rate'>[],
+  ladder: BandTier[],
+  settings: Settings,
+  pairConfig: PairConfig
+): ThresholdEvaluation {
+  const backtest = runBacktest(history, settings, { ...pairConfig, ladder });
+
+  return {
+    ladder: sortLadder(ladder),
+    bandDays: countBandDays(history, ladder),
+    baseDeployed: backtest?.thermostat.baseDeployed ?? 0,
+    quoteAcquired: backtest?.thermostat.quoteAcquired ?? 0,
+    avgRate: backtest?.thermostat.avgRate ?? 0,
+    trades: backtest?.thermostat.trades.length ?? 0,
+  };
+}
+
+/**
+ * Propose tier floors from percentiles of the rates in `history` and compare
+ * them with the current ones: days spent in each tier and what the
+ * thermostat would have converted over the same rates. Returns null if the
+ * history is too short.
+ */
+export function recalibrate(
+  history: Pick<RateHistoryPoint, 'date' | 'rate'>[],
+  settings: Settings,
+  pairConfig: PairConfig,
+  percentiles: number[] = defaultPercentiles(pairConfig.ladder.length)
+): RecalibrationResult | null {
+  const rates = history.filter((p) => p.rate > 0);
+  if (rates.length < MIN_RATES) return null;
+
+  const dates = rates.map((p) => p.date).sort();
+
+  return {
+    pair: pairConfig.key,
+    from: dates[0],
+    to: dates[dates.length - 1],
+    days: rates.length,
+    percentiles,
+    lastReview: settings.last_band_review,
+    current: evaluate(rates, pairConfig.ladder, settings, pairConfig),
+    proposed: evaluate(rates, proposeLadder(rates, pairConfig.ladder, percentiles), settings, pairConfig),
+  };
+}
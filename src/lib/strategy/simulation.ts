@@ -0,0 +1,195 @@
+import type {
+  CurrencyPair,
+  PercentileBand,
+  RateHistoryPoint,
+  SimulationMode,
+  SimulationPoint,
+  SimulationResult,
+} from '@/types';
+import { fromMinorUnits, pairKey, toMinorUnits } from '@/lib/finance/currency';
+import { addDays, isBusinessDay } from '@/lib/rates/calendar';
+
+export const DEFAULT_SIMULATION_PATHS = 1000;
+export const DEFAULT_SIMULATION_SEED = 1;
+
+// FX trades roughly 252 days a year; used to annualise daily volatility
+const TRADING_DAYS_PER_YEAR = 252;
+
+// Enough points for a smooth fan without sending every simulated day
+const MAX_POINTS = 60;
+
+// Fitting volatility to fewer returns than this is meaningless
+const MIN_RETURNS = 20;
+
+export interface SimulationOptions {
+  mode: SimulationMode;
+  horizonDays: number;   // trading days
+  paths?: number;
+  seed?: number;
+}
+
+export interface SimulationPosition {
+  startDate: string;
+  startRate: number;
+  remainingBase: number;   // savings not yet converted, base minor units
+  heldQuote: number;       // quote currency held, minor units
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32), so the same seed
+ * always draws the same paths.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box-Muller). */
+function normal(random: () => number): number {
+  const u = 1 - random(); // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - avg) ** 2)));
+}
+
+/** Daily log returns between consecutive rates, oldest first. */
+export function logReturns(history: Pick<RateHistoryPoint, 'date' | 'rate'>[]): number[] {
+  const rates = [...history]
+    .filter((p) => p.rate > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((p) => p.rate);
+  return rates.slice(1).map((rate, i) => Math.log(rate / rates[i]));
+}
+
+/** Value at percentile `p` (0-100) of sorted values, interpolating between neighbours. */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = ((sorted.length - 1) * p) / 100;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function band(values: Float64Array): PercentileBand {
+  const sorted = Float64Array.from(values).sort();
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+  };
+}
+
+/** The next `count` business days after `date`. */
+function tradingDates(date: string, count: number): string[] {
+  const dates: string[] = [];
+  for (let d = addDays(date, 1); dates.length < count; d = addDays(d, 1)) {
+    if (isBusinessDay(d)) dates.push(d);
+  }
+  return dates;
+}
+
+function point(
+  date: string,
+  day: number,
+  rates: Float64Array,
+  position: SimulationPosition,
+  pair: CurrencyPair
+): SimulationPoint {
+  const remainingMajor = fromMinorUnits(position.remainingBase, pair.base);
+  const heldMajor = fromMinorUnits(position.heldQuote, pair.quote);
+  const rate = band(rates);
+
+  // Savings are worth more quote currency, and holdings less base currency,
+  // the higher the rate, so each band follows from the rate band directly
+  return {
+    date,
+    day,
+    rate,
+    savingsQuote: {
+      p5: toMinorUnits(remainingMajor * rate.p5, pair.quote),
+      p25: toMinorUnits(remainingMajor * rate.p25, pair.quote),
+      p50: toMinorUnits(remainingMajor * rate.p50, pair.quote),
+      p75: toMinorUnits(remainingMajor * rate.p75, pair.quote),
+      p95: toMinorUnits(remainingMajor * rate.p95, pair.quote),
+    },
+    holdingsBase: {
+      p5: toMinorUnits(heldMajor / rate.p95, pair.base),
+      p25: toMinorUnits(heldMajor / rate.p75, pair.base),
+      p50: toMinorUnits(heldMajor / rate.p50, pair.base),
+      p75: toMinorUnits(heldMajor / rate.p25, pair.base),
+      p95: toMinorUnits(heldMajor / rate.p5, pair.base),
+    },
+  };
+}
+
+/**
+ * Simulate rate paths from the historical daily log returns in `history`,
+ * either as geometric Brownian motion with their mean and volatility or by
+ * drawing past returns at random with replacement. Reports the 5th to 95th
+ * percentiles of the rate, of the remaining savings converted at it and of
+ * the current holdings converted back, at up to MAX_POINTS dates over the
+ * horizon. Returns null if the history has too few returns to fit.
+ */
+export function runSimulation(
+  history: Pick<RateHistoryPoint, 'date' | 'rate'>[],
+  position: SimulationPosition,
+  pair: CurrencyPair,
+  options: SimulationOptions
+): SimulationResult | null {
+  const returns = logReturns(history);
+  if (returns.length < MIN_RETURNS || position.startRate <= 0) return null;
+
+  const paths = options.paths ?? DEFAULT_SIMULATION_PATHS;
+  const seed = options.seed ?? DEFAULT_SIMULATION_SEED;
+  const random = createRandom(seed);
+  const drift = mean(returns);
+  const sigma = stdDev(returns);
+
+  const step = Math.max(1, Math.ceil(options.horizonDays / MAX_POINTS));
+  const dates = tradingDates(position.startDate, options.horizonDays);
+  const logRates = new Float64Array(paths).fill(Math.log(position.startRate));
+  const points = [point(position.startDate, 0, new Float64Array(paths).fill(position.startRate), position, pair)];
+
+  for (let day = 1; day <= options.horizonDays; day++) {
+    for (let i = 0; i < paths; i++) {
+      logRates[i] +=
+        options.mode === 'gbm'
+          ? drift + sigma * normal(random)
+          : returns[Math.floor(random() * returns.length)];
+    }
+    if (day % step === 0 || day === options.horizonDays) {
+      points.push(point(dates[day - 1], day, logRates.map(Math.exp), position, pair));
+    }
+  }
+
+  return {
+    pair: pairKey(pair),
+    mode: options.mode,
+    seed,
+    paths,
+    horizonDays: options.horizonDays,
+    startDate: position.startDate,
+    startRate: position.startRate,
+    returns: returns.length,
+    drift,
+    volatility: sigma * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100,
+    remainingBase: position.remainingBase,
+    heldQuote: position.heldQuote,
+    points,
+  };
+}
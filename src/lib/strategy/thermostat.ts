@@ -1,50 +1,156 @@
-import type { Band, ConversionRecord, Settings, ThermostatResult } from '@/types';
-import { formatGBP } from '@/lib/finance/currency';
+import type {
+  Band,
+  BandTier,
+  ConversionRecord,
+  PairConfig,
+  RateInfo,
+  Settings,
+  SizingMode,
+  ThermostatResult,
+} from '@/types';
+import type { RateRange } from '@/lib/rates/history';
+import { formatMoney, formatRate, getPairLegs } from '@/lib/finance/currency';
+import { getBandCap, getBandDirection, getBandLabel, sortLadder } from '@/lib/strategy/bands';
 
+// Savings (total_gbp_savings_pence) and the exposure limit are tracked in GBP
+const SAVINGS_CURRENCY = 'GBP';
+
+// Curvature of exponential sizing: halfway up the ramp gives 18% of the top cap
+const EXPONENTIAL_CURVE = 3;
+
+/** The rate now, and its 52-week range for percentile sizing. */
+export interface ThermostatMarket {
+  rate: number;
+  range52Week?: RateRange | null;
+}
+
+interface CapSizing {
+  monthlyCap: number;
+  mode: SizingMode;
+  fraction: number | null;
+  step: string;
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(0)}%`;
+
+/**
+ * Size the monthly cap from the current tier (stepped) or as a share of the
+ * largest tier cap that grows with the rate. Continuous modes start from the
+ * hold tier's floor (the lowest buy floor if there is no hold tier), never
+ * buy in a reverse tier, and fall back to stepped without the rate data
+ * they need. Linear and exponential reach the full cap at the highest buy
+ * floor, and fall back to stepped if that is not above where they start.
+ */
+function sizeCap(
+  band: Band,
+  settings: Settings,
+  ladder: BandTier[],
+  format: (minor: number) => string,
+  market?: ThermostatMarket
+): CapSizing {
+  const requested = settings.sizing_mode;
+  const tierCap = getBandCap(band, ladder);
+  const stepped = (note = ''): CapSizing => ({
+    monthlyCap: tierCap,
+    mode: 'stepped',
+    fraction: null,
+    step: `${note}${getBandLabel(band, ladder)} tier cap: ${format(tierCap)}.`,
+  });
+
+  if (requested === 'stepped') return stepped();
+  if (!market) return stepped('No current rate for continuous sizing. ');
+
+  const sorted = sortLadder(ladder);
+  const buyTiers = sorted.filter((t) => t.direction === 'BUY');
+  const start = sorted.find((t) => t.direction === 'HOLD') ?? buyTiers[buyTiers.length - 1];
+  const topCap = Math.max(0, ...buyTiers.map((t) => t.monthlyCap));
+  if (!start || topCap === 0) return stepped('No buy tiers to scale. ');
+
+  const top = buyTiers[0].floor;
+  if (requested !== 'percentile' && top <= start.floor) {
+    return stepped(`No buy floor above the ${start.label} floor of ${formatRate(start.floor)} to scale to. `);
+  }
+
+  const { rate } = market;
+  if (rate < start.floor || getBandDirection(band, ladder) === 'REVERSE') {
+    return {
+      monthlyCap: 0,
+      mode: requested,
+      fraction: 0,
+      step: `${formatRate(rate)} is below the ${start.label} floor of ${formatRate(start.floor)}, so no cap.`,
+    };
+  }
+
+  let fraction: number;
+  let reason: string;
+  if (requested === 'percentile') {
+    if (!market.range52Week) return stepped('No 52-week range for percentile sizing. ');
+    const { low, high, percentile } = market.range52Week;
+    fraction = Math.min(1, Math.max(0, percentile / 100));
+    reason = `${formatRate(rate)} sits ${percent(fraction)} of the way up its 52-week range (${formatRate(low)}\u2013${formatRate(high)})`;
+  } else {
+    const position = Math.min(1, (rate - start.floor) / (top - start.floor));
+    fraction = requested === 'linear'
+      ? position
+      : (Math.exp(EXPONENTIAL_CURVE * position) - 1) / (Math.exp(EXPONENTIAL_CURVE) - 1);
+    reason = `${formatRate(rate)} is ${percent(position)} of the way from ${formatRate(start.floor)} to ${formatRate(top)}`;
+    if (requested === 'exponential') reason += `, ${percent(fraction)} on an exponential curve`;
+  }
+
+  const monthlyCap = Math.round(topCap * fraction);
+  return {
+    monthlyCap,
+    mode: requested,
+    fraction,
+    step: `${reason}, so ${percent(fraction)} of the ${format(topCap)} top cap: ${format(monthlyCap)}.`,
+  };
+}
+
+/**
+ * `plannedThisMonth` is base currency that recurring plans are still due to
+ * convert this month; it is held back from the remaining budget so planned
+ * and band-driven conversions together stay within the cap. `market` is only
+ * needed for the continuous sizing modes.
+ */
 export function calculateThermostat(
   band: Band,
   settings: Settings,
-  conversions: ConversionRecord[],
-  currentMonth?: string  // YYYY-MM format, defaults to current month
+  pairConfig: PairConfig,
+  allConversions: ConversionRecord[],
+  currentMonth?: string,  // YYYY-MM format, defaults to current month
+  rate?: Pick<RateInfo, 'beyondHardLimit' | 'staleReason'>,
+  plannedThisMonth = 0,
+  market?: ThermostatMarket
 ): ThermostatResult {
   const month = currentMonth ?? new Date().toISOString().slice(0, 7);
+  const { pair } = pairConfig;
+  const format = (minor: number) => formatMoney(minor, pair.base);
+  // Conversions in the trash count towards neither the cap nor exposure
+  const conversions = allConversions.filter(c => !c.deleted_at);
 
-  // Filter conversions to current month, GBP_TO_JPY only
-  const thisMonthConversions = conversions.filter(
-    c => c.date.startsWith(month) && c.direction === 'GBP_TO_JPY'
-  );
+  // Base currency converted into the quote currency this month
+  const convertedThisMonth = conversions
+    .filter(c => c.date.startsWith(month))
+    .reduce((sum, c) => {
+      const legs = getPairLegs(c, pair);
+      return legs?.forward ? sum + legs.base : sum;
+    }, 0);
 
-  const convertedThisMonth = thisMonthConversions.reduce(
-    (sum, c) => sum + c.gbp_amount, 0
-  );
+  // Stepped sizing only gives buy tiers a cap; continuous sizing may also
+  // convert a little in a hold tier
+  const direction = getBandDirection(band, pairConfig.ladder);
+  const sizing = sizeCap(band, settings, pairConfig.ladder, format, market);
+  const { monthlyCap } = sizing;
 
-  // Determine monthly cap based on band
-  let monthlyCap: number;
-  switch (band) {
-    case 'AGGRESSIVE_BUY':
-      monthlyCap = settings.cap_aggressive_gbp;
-      break;
-    case 'NORMAL_BUY':
-      monthlyCap = settings.cap_normal_gbp;
-      break;
-    case 'HOLD':
-    case 'REVERSE':
-      monthlyCap = 0; // Don't convert in hold/reverse
-      break;
-    default:
-      monthlyCap = 0;
-      break;
-  }
-
-  const remainingBudget = Math.max(0, monthlyCap - convertedThisMonth);
+  const remainingBudget = Math.max(0, monthlyCap - convertedThisMonth - plannedThisMonth);
 
-  // Calculate total FX exposure
+  // Calculate total FX exposure: GBP converted out, across every pair, less GBP converted back
   const totalConverted = conversions
-    .filter(c => c.direction === 'GBP_TO_JPY')
-    .reduce((sum, c) => sum + c.gbp_amount, 0);
+    .filter(c => c.source_currency === SAVINGS_CURRENCY)
+    .reduce((sum, c) => sum + c.source_amount, 0);
   const totalReverted = conversions
-    .filter(c => c.direction === 'JPY_TO_GBP')
-    .reduce((sum, c) => sum + c.gbp_amount, 0);
+    .filter(c => c.target_currency === SAVINGS_CURRENCY)
+    .reduce((sum, c) => sum + c.target_amount, 0);
   const netDeployed = totalConverted - totalReverted;
 
   const maxExposure = Math.round(
@@ -53,32 +159,54 @@ export function calculateThermostat(
   const exposurePct = settings.total_gbp_savings_pence > 0
     ? (netDeployed / settings.total_gbp_savings_pence) * 100
     : 0;
-  const overExposed = netDeployed > maxExposure;
+  // Savings in other currencies are not tracked, so the limit only
+  // applies to pairs that spend GBP
+  const limitApplies = pair.base === SAVINGS_CURRENCY;
+  const overExposed = limitApplies && netDeployed > maxExposure;
 
   // Cap the suggested amount by exposure limit too
-  const exposureRemaining = Math.max(0, maxExposure - netDeployed);
-  const suggestedAmount = Math.min(remainingBudget, exposureRemaining);
+  const exposureRemaining = limitApplies ? Math.max(0, maxExposure - netDeployed) : Infinity;
+
+  // Never suggest converting on a rate past the hard staleness limit
+  const rateTooStale = rate?.beyondHardLimit === true;
+  const suggestedAmount = rateTooStale ? 0 : Math.min(remainingBudget, exposureRemaining);
 
   const atCap = monthlyCap > 0 && remainingBudget === 0;
 
+  const planned = plannedThisMonth > 0 ? `, ${format(plannedThisMonth)} planned` : '';
+
   // Build suggestion string
   let suggestion: string;
-  if (band === 'HOLD') {
+  if (direction === 'HOLD' && monthlyCap === 0) {
     suggestion = 'Hold zone — no conversions recommended this month.';
-  } else if (band === 'REVERSE') {
-    suggestion = 'Reverse zone — consider converting JPY back to GBP if needed.';
+  } else if (direction === 'REVERSE') {
+    suggestion = `Reverse zone — consider converting ${pair.quote} back to ${pair.base} if needed.`;
+  } else if (rateTooStale) {
+    suggestion = `Rate data is too stale to act on${rate?.staleReason ? ` (${rate.staleReason})` : ''}. Refresh the rate before converting.`;
   } else if (overExposed) {
     suggestion = `FX exposure at ${exposurePct.toFixed(1)}% \u2014 over your ${settings.max_fx_exposure_pct}% limit. Hold further conversions.`;
   } else if (atCap) {
-    suggestion = `Monthly cap reached. You've converted ${formatGBP(convertedThisMonth)} of ${formatGBP(monthlyCap)} this month.`;
+    suggestion = `Monthly cap reached. You've converted ${format(convertedThisMonth)} of ${format(monthlyCap)} this month${planned}.`;
   } else if (suggestedAmount > 0) {
-    suggestion = `Convert up to ${formatGBP(suggestedAmount)} more this month (${formatGBP(convertedThisMonth)} of ${formatGBP(monthlyCap)} used).`;
+    suggestion = `Convert up to ${format(suggestedAmount)} more this month (${format(convertedThisMonth)} of ${format(monthlyCap)} used${planned}).`;
   } else {
     suggestion = 'No budget remaining for conversions this month.';
   }
 
+  const steps = [sizing.step];
+  if (convertedThisMonth > 0 || plannedThisMonth > 0) {
+    steps.push(`Less ${format(convertedThisMonth)} converted${planned} this month leaves ${format(remainingBudget)}.`);
+  }
+  if (limitApplies && exposureRemaining < remainingBudget) {
+    steps.push(`Limited to the ${format(exposureRemaining)} left under the ${settings.max_fx_exposure_pct}% exposure limit.`);
+  }
+  if (rateTooStale) {
+    steps.push('Nothing suggested while the rate is too stale to act on.');
+  }
+
   return {
     band,
+    currency: pair.base,
     monthlyCap,
     convertedThisMonth,
     remainingBudget,
@@ -87,5 +215,8 @@ export function calculateThermostat(
     atCap,
     exposurePct,
     overExposed,
+    rateTooStale,
+    plannedThisMonth,
+    sizing: { mode: sizing.mode, fraction: sizing.fraction, steps },
   };
 }
@@ -1,13 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { conversionSchema, settingsSchema } from '@/lib/validators';
+import { conversionSchema, currencyPairSchema, settingsSchema } from '@/lib/validators';
 
 describe('conversionSchema', () => {
   it('accepts a valid conversion input', () => {
     const result = conversionSchema.safeParse({
       date: '2026-02-25',
-      direction: 'GBP_TO_JPY',
-      gbpPence: 100000,
-      jpyAmount: 190000,
+      sourceCurrency: 'GBP',
+      targetCurrency: 'JPY',
+      sourceAmount: 100000,
+      targetAmount: 190000,
       rate: 190,
     });
     expect(result.success).toBe(true);
@@ -16,9 +17,10 @@ describe('conversionSchema', () => {
   it('rejects an invalid date format', () => {
     const result = conversionSchema.safeParse({
       date: '25/02/2026',
-      direction: 'GBP_TO_JPY',
-      gbpPence: 100000,
-      jpyAmount: 190000,
+      sourceCurrency: 'GBP',
+      targetCurrency: 'JPY',
+      sourceAmount: 100000,
+      targetAmount: 190000,
       rate: 190,
     });
     expect(result.success).toBe(false);
@@ -27,11 +29,6 @@ describe('conversionSchema', () => {
 
 describe('settingsSchema', () => {
   const validSettings = {
-    aggressive_above: 200,
-    normal_above: 190,
-    hold_above: 175,
-    cap_aggressive_gbp: 200000,
-    cap_normal_gbp: 100000,
     total_gbp_savings_pence: 5000000,
     max_fx_exposure_pct: 50,
     monthly_jpy_expenses: 300000,
@@ -46,27 +43,15 @@ describe('settingsSchema', () => {
     review_interval_days: 30,
   };
 
-  it('accepts valid settings with correct threshold ordering', () => {
+  it('accepts valid settings', () => {
     const result = settingsSchema.safeParse(validSettings);
     expect(result.success).toBe(true);
   });
 
-  it('rejects settings where hold_above >= normal_above', () => {
-    const result = settingsSchema.safeParse({
-      ...validSettings,
-      hold_above: 195,
-    });
-    expect(result.success).toBe(false);
-    if (!result.success) {
-      const paths = result.error.issues.map((i) => i.path);
-      expect(paths.some((p) => p?.includes('hold_above'))).toBe(true);
-    }
-  });
-
   it('rejects NaN values for numeric fields', () => {
     const result = settingsSchema.safeParse({
       ...validSettings,
-      aggressive_above: NaN,
+      scenario_best_rate: NaN,
     });
     expect(result.success).toBe(false);
   });
@@ -95,39 +80,54 @@ describe('settingsSchema', () => {
     const omittedResult = settingsSchema.safeParse(validSettings);
     expect(omittedResult.success).toBe(true);
   });
+});
 
-  it('rejects settings where normal_above > aggressive_above', () => {
-    const result = settingsSchema.safeParse({
-      ...validSettings,
-      normal_above: 210,
-      aggressive_above: 200,
+describe('currencyPairSchema', () => {
+  const tiers = [
+    { label: 'Buy', floor: 165, color: 'emerald', monthlyCap: 150000, direction: 'BUY' },
+    { label: 'Hold', floor: 155, color: 'amber', monthlyCap: 0, direction: 'HOLD' },
+    { label: 'Reverse', floor: 0, color: 'red', monthlyCap: 0, direction: 'REVERSE' },
+  ];
+
+  it('accepts a pair with its ladder', () => {
+    expect(currencyPairSchema.safeParse({ base_currency: 'EUR', quote_currency: 'JPY', tiers }).success).toBe(true);
+  });
+
+  it('rejects tiers sharing a floor and a currency paired with itself', () => {
+    const shared = currencyPairSchema.safeParse({
+      base_currency: 'EUR',
+      quote_currency: 'JPY',
+      tiers: [...tiers, { ...tiers[1], label: 'Wait' }],
     });
-    expect(result.success).toBe(false);
-    if (!result.success) {
-      const paths = result.error.issues.map((i) => i.path);
-      expect(paths.some((p) => p?.includes('normal_above'))).toBe(true);
+    expect(shared.success).toBe(false);
+    if (!shared.success) {
+      expect(shared.error.issues.map((i) => i.path[0])).toContain('tiers');
     }
+
+    expect(currencyPairSchema.safeParse({ base_currency: 'EUR', quote_currency: 'EUR', tiers }).success).toBe(false);
   });
 });
 
 describe('conversionSchema — edge cases', () => {
-  it('rejects negative gbpPence', () => {
+  it('rejects a negative source amount', () => {
     const result = conversionSchema.safeParse({
       date: '2026-02-25',
-      direction: 'GBP_TO_JPY',
-      gbpPence: -100,
-      jpyAmount: 190000,
+      sourceCurrency: 'GBP',
+      targetCurrency: 'JPY',
+      sourceAmount: -100,
+      targetAmount: 190000,
       rate: 190,
     });
     expect(result.success).toBe(false);
   });
 
-  it('rejects an invalid direction', () => {
+  it('rejects an unsupported currency', () => {
     const result = conversionSchema.safeParse({
       date: '2026-02-25',
-      direction: 'USD_TO_JPY',
-      gbpPence: 100000,
-      jpyAmount: 190000,
+      sourceCurrency: 'CHF',
+      targetCurrency: 'JPY',
+      sourceAmount: 100000,
+      targetAmount: 190000,
       rate: 190,
     });
     expect(result.success).toBe(false);
@@ -136,11 +136,24 @@ describe('conversionSchema — edge cases', () => {
   it('accepts when optional fields are omitted', () => {
     const result = conversionSchema.safeParse({
       date: '2026-02-25',
-      direction: 'GBP_TO_JPY',
-      gbpPence: 100000,
-      jpyAmount: 190000,
+      sourceCurrency: 'GBP',
+      targetCurrency: 'JPY',
+      sourceAmount: 100000,
+      targetAmount: 190000,
       rate: 190,
     });
     expect(result.success).toBe(true);
   });
+
+  it('rejects converting a currency into itself', () => {
+    const result = conversionSchema.safeParse({
+      date: '2026-02-25',
+      sourceCurrency: 'EUR',
+      targetCurrency: 'EUR',
+      sourceAmount: 100000,
+      targetAmount: 100000,
+      rate: 1,
+    });
+    expect(result.success).toBe(false);
+  });
 });
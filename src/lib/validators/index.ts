@@ -1,25 +1,76 @@
 import { z } from 'zod';
 
-export const conversionSchema = z.object({
+const currencyCode = z.enum(['GBP', 'JPY', 'EUR', 'USD']);
+
+// Tier keys from the band ladder, e.g. NORMAL_BUY
+const bandKey = z.string().regex(/^[A-Z][A-Z0-9_]{0,39}$/, 'Band must be an upper-case key like NORMAL_BUY');
+
+const conversionFields = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
-  direction: z.enum(['GBP_TO_JPY', 'JPY_TO_GBP']),
-  gbpPence: z.number().int().positive('GBP amount must be positive'),
-  jpyAmount: z.number().int().positive('JPY amount must be positive'),
+  sourceCurrency: currencyCode,
+  targetCurrency: currencyCode,
+  sourceAmount: z.number().int().positive('Source amount must be positive'),
+  targetAmount: z.number().int().positive('Target amount must be positive'),
   rate: z.number().positive('Exchange rate must be positive'),
   spotRate: z.number().positive('Spot rate must be positive').optional(),
   feePct: z.number().min(0).max(100).optional(),
   provider: z.enum(['WISE', 'REVOLUT', 'OTHER']).optional(),
   notes: z.string().max(500).optional(),
-  bandAtTime: z.enum(['AGGRESSIVE_BUY', 'NORMAL_BUY', 'HOLD', 'REVERSE']).nullable().optional(),
+  bandAtTime: bandKey.nullable().optional(),
+  sourceAccountId: z.number().int().positive().nullable().optional(),
+  targetAccountId: z.number().int().positive().nullable().optional(),
 });
 
+export const conversionSchema = conversionFields
+  .refine(
+    (data) => data.sourceCurrency !== data.targetCurrency,
+    { message: 'Source and target currencies must differ', path: ['targetCurrency'] }
+  );
+
+// Validated again as a whole after merging with the stored conversion
+export const conversionUpdateSchema = conversionFields
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'No fields to update' });
+
+const bandTierSchema = z.object({
+  key: bandKey.optional(),   // omitted for new tiers
+  label: z.string().trim().min(1, 'Tier label is required').max(40),
+  floor: z.number().min(0, 'Floor must not be negative'),
+  color: z.enum(['emerald', 'teal', 'blue', 'violet', 'amber', 'orange', 'red', 'gray']),
+  monthlyCap: z.number().int().min(0),
+  direction: z.enum(['BUY', 'HOLD', 'REVERSE']),
+});
+
+const bandLadderTiers = z
+  .array(bandTierSchema)
+  .min(2, 'The ladder needs at least two tiers')
+  .max(12)
+  .refine(
+    (tiers) => new Set(tiers.map((t) => t.floor)).size === tiers.length,
+    { message: 'Each tier needs a different floor' }
+  )
+  .refine(
+    (tiers) => {
+      const keys = tiers.flatMap((t) => (t.key ? [t.key] : []));
+      return new Set(keys).size === keys.length;
+    },
+    { message: 'Tier keys must be unique' }
+  );
+
+// A pair is added with its ladder; after that the ladder is edited on its own
+export const currencyPairSchema = z
+  .object({
+    base_currency: currencyCode,
+    quote_currency: currencyCode,
+    tiers: bandLadderTiers,
+  })
+  .refine(
+    (data) => data.base_currency !== data.quote_currency,
+    { message: 'Base and quote currencies must differ', path: ['quote_currency'] }
+  );
+
 export const settingsSchema = z
   .object({
-    aggressive_above: z.number().positive('Aggressive threshold must be positive'),
-    normal_above: z.number().positive('Normal threshold must be positive'),
-    hold_above: z.number().positive('Hold threshold must be positive'),
-    cap_aggressive_gbp: z.number().int().positive('Aggressive cap must be positive'),
-    cap_normal_gbp: z.number().int().positive('Normal cap must be positive'),
     total_gbp_savings_pence: z.number().int().positive('Total savings must be positive'),
     max_fx_exposure_pct: z.number().int().min(0).max(100),
     monthly_jpy_expenses: z.number().int().min(0),
@@ -33,15 +84,324 @@ export const settingsSchema = z
     scenario_worst_rate: z.number().positive(),
     review_interval_days: z.number().int().min(1),
     last_band_review: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format').nullable().optional(),
+    rate_providers: z
+      .string()
+      .regex(/^(frankfurter|ecb|manual|file)(,(frankfurter|ecb|manual|file))*$/, 'Providers must be a comma-separated list of frankfurter, ecb, manual, file')
+      .optional(),
+    manual_rate: z.number().positive('Manual rate must be positive').nullable().optional(),
+    stale_after_hours: z.number().int().min(0).optional(),
+    stale_hard_limit_hours: z.number().int().min(1).optional(),
+    anomaly_std_devs: z.number().min(1, 'Anomaly threshold must be at least 1 std dev').optional(),
+    anomaly_window_days: z.number().int().min(5).max(250).optional(),
+    anomaly_max_jump_pct: z.number().positive('Provider jump limit must be positive').optional(),
+    sizing_mode: z.enum(['stepped', 'linear', 'exponential', 'percentile']).optional(),
+  })
+  .refine(
+    (data) =>
+      data.stale_after_hours === undefined ||
+      data.stale_hard_limit_hours === undefined ||
+      data.stale_after_hours <= data.stale_hard_limit_hours,
+    { message: 'Stale warning must not exceed the hard staleness limit', path: ['stale_after_hours'] }
+  );
+
+export const backfillSchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format').optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format').optional(),
+    chunkDays: z.number().int().min(1).max(366).optional(),
+  })
+  .refine(
+    (data) => !data.from || !data.to || data.from <= data.to,
+    { message: 'from must be on or before to', path: ['from'] }
+  );
+
+export const rateImportSchema = z.object({
+  csv: z.string().min(1, 'CSV file is empty').max(5_000_000, 'CSV file is too large'),
+  dateColumn: z.string().min(1, 'Date column is required'),
+  rateColumn: z.string().min(1, 'Rate column is required'),
+  inverted: z.boolean().optional(),
+  source: z
+    .string()
+    .regex(/^[a-z0-9_]{1,32}$/, 'Source must be lowercase letters, digits or underscores')
+    .optional(),
+  mode: z.enum(['preview', 'commit']),
+  onConflict: z.enum(['skip', 'overwrite']).optional(),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format');
+
+// Query-string filters for listing and exporting conversions
+export const conversionQuerySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    direction: z.string().regex(/^[A-Z]{3}_TO_[A-Z]{3}$/, 'Direction must look like GBP_TO_JPY').optional(),
+    provider: z.enum(['WISE', 'REVOLUT', 'OTHER']).optional(),
+    band: bandKey.optional(),   // NONE for conversions without a band
+    minAmount: z.coerce.number().min(0).optional(),
+    maxAmount: z.coerce.number().min(0).optional(),
+    q: z.string().max(100).optional(),
+    sort: z.enum(['date', 'amount', 'rate', 'created']).optional(),
+    order: z.enum(['asc', 'desc']).optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional(),
+    cursor: z.string().optional(),
   })
   .refine(
-    (data) => data.hold_above < data.normal_above,
-    { message: 'hold_above must be less than normal_above', path: ['hold_above'] }
+    (data) => !data.from || !data.to || data.from <= data.to,
+    { message: 'from must be on or before to', path: ['from'] }
   )
   .refine(
-    (data) => data.normal_above <= data.aggressive_above,
-    { message: 'normal_above must be less than or equal to aggressive_above', path: ['normal_above'] }
+    (data) => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount,
+    { message: 'minAmount must not exceed maxAmount', path: ['minAmount'] }
   );
 
+export const statementImportSchema = z
+  .object({
+    csv: z.string().min(1, 'CSV file is empty').max(5_000_000, 'CSV file is too large'),
+    format: z.enum(['wise', 'revolut', 'generic']),
+    mapping: z
+      .object({
+        date: z.string().min(1),
+        sourceCurrency: z.string().min(1),
+        sourceAmount: z.string().min(1),
+        targetCurrency: z.string().min(1),
+        targetAmount: z.string().min(1),
+        fee: z.string().min(1).optional(),
+      })
+      .optional(),
+    provider: z.enum(['WISE', 'REVOLUT', 'OTHER']).optional(),
+    mode: z.enum(['preview', 'commit']),
+    includeDuplicates: z.boolean().optional(),
+  })
+  .refine(
+    (data) => data.format !== 'generic' || data.mapping !== undefined,
+    { message: 'Column mapping is required for generic statements', path: ['mapping'] }
+  );
+
+export const limitOrderSchema = z
+  .object({
+    sourceCurrency: currencyCode,
+    targetCurrency: currencyCode,
+    amount: z.number().int().positive('Amount must be positive'),
+    condition: z.enum(['ABOVE', 'BELOW']),
+    targetRate: z.number().positive('Target rate must be positive'),
+    expiresOn: isoDate.nullable().optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine(
+    (data) => data.sourceCurrency !== data.targetCurrency,
+    { message: 'Source and target currencies must differ', path: ['targetCurrency'] }
+  );
+
+export const limitOrderFillSchema = z.object({
+  date: isoDate.optional(),
+  targetAmount: z.number().int().positive('Target amount must be positive').optional(),
+  feePct: z.number().min(0).max(100).optional(),
+  provider: z.enum(['WISE', 'REVOLUT', 'OTHER']).optional(),
+});
+
+export const lotAssignmentSchema = z.object({
+  assignments: z
+    .array(
+      z.object({
+        lotId: z.number().int().positive(),
+        quote: z.number().int().positive('Amount must be positive'),
+      })
+    )
+    .max(200),
+});
+
+export const taxReportQuerySchema = z.object({
+  system: z.enum(['uk', 'jp']).default('uk'),
+  taxYear: z.string().regex(/^\d{4}(-\d{4})?$/, 'Tax year must look like 2025-2026 or 2025'),
+  format: z.enum(['json', 'csv', 'html']).default('json'),
+  openingRate: z.coerce.number().positive().optional(),
+});
+
+export const accountSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  currency: currencyCode,
+  kind: z.enum(['WISE', 'BANK', 'CASH', 'OTHER']).default('BANK'),
+  openingBalance: z.number().int().default(0),
+});
+
+export const accountUpdateSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100),
+    kind: z.enum(['WISE', 'BANK', 'CASH', 'OTHER']),
+    openingBalance: z.number().int(),
+    archived: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'No fields to update' });
+
+export const transferSchema = z
+  .object({
+    date: isoDate,
+    fromAccountId: z.number().int().positive(),
+    toAccountId: z.number().int().positive(),
+    amount: z.number().int().positive('Amount must be positive'),
+    fee: z.number().int().min(0, 'Fee cannot be negative').default(0),
+    notes: z.string().max(500).optional(),
+  })
+  .refine(
+    (data) => data.fromAccountId !== data.toAccountId,
+    { message: 'Choose two different accounts', path: ['toAccountId'] }
+  );
+
+export const expenseSchema = z.object({
+  date: isoDate,
+  currency: currencyCode.default('JPY'),
+  amount: z.number().int().positive('Amount must be positive'),
+  accountId: z.number().int().positive().nullable().optional(),
+  category: z.string().max(50).optional(),
+  description: z.string().max(500).optional(),
+});
+
+export const expenseQuerySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .refine(
+    (data) => !data.from || !data.to || data.from <= data.to,
+    { message: 'from must be on or before to', path: ['from'] }
+  );
+
+export const expenseImportSchema = z.object({
+  csv: z.string().min(1, 'CSV file is empty').max(5_000_000, 'CSV file is too large'),
+  dateColumn: z.string().min(1, 'Date column is required'),
+  amountColumn: z.string().min(1, 'Amount column is required'),
+  descriptionColumn: z.string().min(1).optional(),
+  categoryColumn: z.string().min(1).optional(),
+  currency: currencyCode.default('JPY'),
+  accountId: z.number().int().positive().nullable().optional(),
+  mode: z.enum(['preview', 'commit']),
+});
+
+export const recurringPlanSchema = z
+  .object({
+    sourceCurrency: currencyCode,
+    targetCurrency: currencyCode,
+    amount: z.number().int().positive('Amount must be positive'),
+    dayOfMonth: z.number().int().min(1).max(31),
+    provider: z.enum(['WISE', 'REVOLUT', 'OTHER']).default('WISE'),
+    startDate: isoDate,
+    endDate: isoDate.nullable().optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine(
+    (data) => data.sourceCurrency !== data.targetCurrency,
+    { message: 'Source and target currencies must differ', path: ['targetCurrency'] }
+  )
+  .refine(
+    (data) => !data.endDate || data.startDate <= data.endDate,
+    { message: 'End date must be on or after the start date', path: ['endDate'] }
+  );
+
+export const recurringPlanUpdateSchema = z
+  .object({
+    amount: z.number().int().positive('Amount must be positive'),
+    dayOfMonth: z.number().int().min(1).max(31),
+    provider: z.enum(['WISE', 'REVOLUT', 'OTHER']),
+    endDate: isoDate.nullable(),
+    active: z.boolean(),
+    notes: z.string().max(500).nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'No fields to update' });
+
+export const planRunSchema = z
+  .object({
+    scheduledDate: isoDate,
+    status: z.enum(['CONFIRMED', 'SKIPPED']),
+    date: isoDate.optional(),
+    sourceAmount: z.number().int().positive('Source amount must be positive').optional(),
+    targetAmount: z.number().int().positive('Target amount must be positive').optional(),
+    spotRate: z.number().positive().optional(),
+    feePct: z.number().min(0).max(100).optional(),
+    provider: z.enum(['WISE', 'REVOLUT', 'OTHER']).optional(),
+  })
+  .refine(
+    (data) => data.status !== 'CONFIRMED' || data.targetAmount !== undefined,
+    { message: 'Enter the amount received to confirm a run', path: ['targetAmount'] }
+  );
+
+// Backtest over stored rate history for the primary pair
+export const backtestQuerySchema = z.object({
+  days: z.coerce.number().int().min(30).max(3650).optional(),
+  budget: z.coerce.number().int().positive('Budget must be positive').optional(),
+});
+
+// Backtest over an uploaded series, which is not stored
+export const backtestImportSchema = z.object({
+  csv: z.string().min(1, 'CSV file is empty').max(5_000_000, 'CSV file is too large'),
+  dateColumn: z.string().min(1, 'Date column is required'),
+  rateColumn: z.string().min(1, 'Rate column is required'),
+  inverted: z.boolean().optional(),
+  pair: z.string().optional(),
+  budget: z.number().int().positive('Budget must be positive').optional(),
+});
+
+export const simulationQuerySchema = z.object({
+  mode: z.enum(['gbm', 'bootstrap']).optional(),
+  horizonDays: z.coerce.number().int().min(5).max(1260).optional(),
+  historyDays: z.coerce.number().int().min(60).max(3650).optional(),
+  paths: z.coerce.number().int().min(100).max(5000).optional(),
+  seed: z.coerce.number().int().min(0).max(4294967295).optional(),
+});
+
+export const bandLadderSchema = z.object({ tiers: bandLadderTiers });
+
+// Percentiles of past rates to set each tier's floor at (80 = top 20%), one per
+// tier above the lowest, highest first
+export const recalibrationQuerySchema = z
+  .object({
+    percentiles: z
+      .string()
+      .regex(/^\d{1,2}(,\d{1,2})*$/, 'Percentiles must be a comma-separated list like 80,50,20')
+      .transform((v) => v.split(',').map(Number))
+      .optional(),
+    days: z.coerce.number().int().min(90).max(3650).default(365),
+  })
+  .refine(
+    (data) => !data.percentiles || data.percentiles.every((p) => p >= 1 && p <= 99),
+    { message: 'Percentiles must be between 1 and 99', path: ['percentiles'] }
+  )
+  .refine(
+    (data) => !data.percentiles || data.percentiles.every((p, i, all) => i === 0 || p < all[i - 1]),
+    { message: 'Percentiles must fall from the highest tier to the lowest', path: ['percentiles'] }
+  );
+
+// New floors by tier key; tiers left out keep theirs
+export const recalibrationAcceptSchema = z.object({
+  floors: z.record(bandKey, z.number().min(0, 'Floor must not be negative')),
+});
+
 export type ConversionInput = z.infer<typeof conversionSchema>;
+export type ConversionUpdateInput = z.infer<typeof conversionUpdateSchema>;
 export type SettingsInput = z.infer<typeof settingsSchema>;
+export type CurrencyPairInput = z.infer<typeof currencyPairSchema>;
+export type BackfillInput = z.infer<typeof backfillSchema>;
+export type RateImportInput = z.infer<typeof rateImportSchema>;
+export type StatementImportInput = z.infer<typeof statementImportSchema>;
+export type ConversionQueryInput = z.infer<typeof conversionQuerySchema>;
+export type LimitOrderInput = z.infer<typeof limitOrderSchema>;
+export type LimitOrderFillInput = z.infer<typeof limitOrderFillSchema>;
+export type LotAssignmentInput = z.infer<typeof lotAssignmentSchema>;
+export type TaxReportQueryInput = z.infer<typeof taxReportQuerySchema>;
+export type AccountInput = z.infer<typeof accountSchema>;
+export type AccountUpdateInput = z.infer<typeof accountUpdateSchema>;
+export type TransferInput = z.infer<typeof transferSchema>;
+export type ExpenseInput = z.infer<typeof expenseSchema>;
+export type ExpenseQueryInput = z.infer<typeof expenseQuerySchema>;
+export type ExpenseImportInput = z.infer<typeof expenseImportSchema>;
+export type RecurringPlanInput = z.infer<typeof recurringPlanSchema>;
+export type RecurringPlanUpdateInput = z.infer<typeof recurringPlanUpdateSchema>;
+export type PlanRunInput = z.infer<typeof planRunSchema>;
+export type BacktestQueryInput = z.infer<typeof backtestQuerySchema>;
+export type BacktestImportInput = z.infer<typeof backtestImportSchema>;
+export type SimulationQueryInput = z.infer<typeof simulationQuerySchema>;
+export type RecalibrationQueryInput = z.infer<typeof recalibrationQuerySchema>;
+export type BandLadderInput = z.infer<typeof bandLadderSchema>;
+export type RecalibrationAcceptInput = z.infer<typeof recalibrationAcceptSchema>;
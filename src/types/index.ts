@@ -1,10 +1,32 @@
-export type Band = 'AGGRESSIVE_BUY' | 'NORMAL_BUY' | 'HOLD' | 'REVERSE';
+/**
+ * Key of a tier in the band ladder. The default ladder uses 'AGGRESSIVE_BUY',
+ * 'NORMAL_BUY', 'HOLD' and 'REVERSE'; tiers added in Settings get their own.
+ */
+export type Band = string;
 
-export type ConversionDirection = 'GBP_TO_JPY' | 'JPY_TO_GBP';
+export type BandDirection = 'BUY' | 'HOLD' | 'REVERSE';
+
+export type BandColor = 'emerald' | 'teal' | 'blue' | 'violet' | 'amber' | 'orange' | 'red' | 'gray';
+
+export type CurrencyCode = 'GBP' | 'JPY' | 'EUR' | 'USD';
+
+/** A quoted pair: rates are units of `quote` per one unit of `base`. */
+export interface CurrencyPair {
+  base: CurrencyCode;
+  quote: CurrencyCode;
+}
 
 export type Provider = 'WISE' | 'REVOLUT' | 'OTHER';
 
-export type AlertType = 'band_change' | 'circuit_breaker' | 'reverse_zone' | 'recalibrate';
+export type RateProviderName = 'frankfurter' | 'ecb' | 'manual' | 'file';
+
+export type AlertType = 'band_change' | 'circuit_breaker' | 'reverse_zone' | 'recalibrate' | 'anomaly' | 'limit_order';
+
+export interface RateCacheInfo {
+  status: 'hit' | 'miss' | 'joined';   // joined = shared a concurrent in-flight fetch
+  cachedAt: string;
+  expiresAt: string;
+}
 
 export interface RateInfo {
   rate: number;
@@ -12,6 +34,15 @@ export interface RateInfo {
   source: string;
   isStale: boolean;
   fetchedAt: string;
+  ageSeconds?: number;          // seconds since fetchedAt
+  staleReason?: string | null;  // why isStale is true, for display
+  beyondHardLimit?: boolean;    // too stale to act on (see stale_hard_limit_hours)
+  cache?: RateCacheInfo;
+}
+
+export interface ProviderFailure {
+  provider: RateProviderName;
+  error: string;
 }
 
 export interface BandThresholds {
@@ -20,32 +51,74 @@ export interface BandThresholds {
   holdAbove: number;
 }
 
+/**
+ * One rung of the band ladder: rates at or above `floor`, and below the next
+ * tier up, fall in this tier. Only BUY tiers have a cap to convert against.
+ */
+export interface BandTier {
+  key: Band;
+  label: string;
+  floor: number;
+  color: BandColor;
+  monthlyCap: number;   // minor units of the base currency
+  direction: BandDirection;
+}
+
+export interface BandTierRecord {
+  id: number;
+  base_currency: string;
+  quote_currency: string;
+  key: string;
+  label: string;
+  floor: number;
+  color: string;
+  monthly_cap: number;
+  direction: string;
+  created_at: string;
+}
+
 export interface BandResult {
   band: Band;
+  tier: BandTier;
   rate: number;
-  thresholds: BandThresholds;
+  ladder: BandTier[];   // highest floor first
   suggestion: string;
 }
 
+// Amounts are in minor units: base for *Base fields, quote for *Quote fields
 export interface PortfolioSummary {
-  totalGbpConverted: number;
-  netGbpDeployed: number;
-  totalJpyAcquired: number;
+  pair: string;
+  totalBaseConverted: number;
+  netBaseDeployed: number;
+  totalQuoteAcquired: number;
+  heldQuote: number;            // what is actually held; the value is based on this
+  consumedQuote: number;        // acquired but since spent or lost to fees
+  heldCostBase: number;         // share of netBaseDeployed paid for heldQuote
   weightedAvgRate: number;
   currentRate: number;
-  currentValueGbp: number;
-  unrealisedPnlGbp: number;
+  currentValueBase: number;
+  unrealisedPnlBase: number;
   unrealisedPnlPct: number;
   conversionCount: number;
 }
 
+/** The band ladder for one pair. */
+export interface PairConfig {
+  id: number | null;            // null for the primary pair, whose ladder lives in band_tiers
+  pair: CurrencyPair;
+  key: string;                  // e.g. 'GBP/JPY'
+  ladder: BandTier[];           // highest floor first
+}
+
+export interface CurrencyPairRecord {
+  id: number;
+  base_currency: string;
+  quote_currency: string;
+  created_at: string;
+}
+
 export interface Settings {
   id: number;
-  aggressive_above: number;
-  normal_above: number;
-  hold_above: number;
-  cap_aggressive_gbp: number;
-  cap_normal_gbp: number;
   total_gbp_savings_pence: number;
   max_fx_exposure_pct: number;
   monthly_jpy_expenses: number;
@@ -59,24 +132,51 @@ export interface Settings {
   scenario_worst_rate: number;
   last_band_review: string | null;
   review_interval_days: number;
+  rate_providers: string;
+  manual_rate: number | null;
+  stale_after_hours: number;
+  stale_hard_limit_hours: number;
+  anomaly_std_devs: number;
+  anomaly_window_days: number;
+  anomaly_max_jump_pct: number;
+  sizing_mode: SizingMode;
   updated_at: string;
 }
 
 export interface RatesResponse {
+  pair: string;
   rate: RateInfo;
   band: BandResult;
   fallback: boolean;
+  providerFailures: ProviderFailure[];
 }
 
 export interface ThermostatResponse {
+  pair: string;
   thermostat: ThermostatResult;
   rate: RateInfo;
   band: BandResult;
   fallback: boolean;
 }
 
+/**
+ * How the thermostat sizes the monthly cap: 'stepped' uses the current tier's
+ * cap; the others scale the largest tier cap smoothly with the rate, from the
+ * hold tier's floor up to the highest buy floor ('linear', 'exponential') or by
+ * where the rate sits in its 52-week range ('percentile').
+ */
+export type SizingMode = 'stepped' | 'linear' | 'exponential' | 'percentile';
+
+/** How the cap and suggested amount were derived, one sentence per step. */
+export interface ThermostatSizing {
+  mode: SizingMode;          // mode actually used; continuous modes fall back to stepped without the data they need
+  fraction: number | null;   // share of the largest tier cap (0-1), continuous modes only
+  steps: string[];
+}
+
 export interface ThermostatResult {
   band: Band;
+  currency: string;          // base currency the amounts below are in (minor units)
   monthlyCap: number;
   convertedThisMonth: number;
   remainingBudget: number;
@@ -85,6 +185,9 @@ export interface ThermostatResult {
   atCap: boolean;
   exposurePct: number;
   overExposed: boolean;
+  rateTooStale: boolean;
+  plannedThisMonth: number;  // recurring plan runs still to come this month, held back from the budget
+  sizing: ThermostatSizing;
 }
 
 // ── Projection types ─────────────────────────────────────────────────
@@ -97,20 +200,6 @@ export interface ScenarioResult {
   jpyPerPound: number;
 }
 
-export interface StrategyResult {
-  label: string;
-  description: string;
-  totalJpy: number;
-  avgRate: number;
-  riskLevel: string;
-}
-
-export interface StrategyComparison {
-  lumpSum: StrategyResult;
-  monthlyDrip: StrategyResult;
-  thermostat: StrategyResult;
-}
-
 export interface NisaYear {
   year: number;
   contributed: number;
@@ -129,6 +218,15 @@ export interface NisaProjection {
 export interface RateHistoryPoint {
   date: string;
   rate: number;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+}
+
+export interface RateSnapshotsResponse {
+  date: string;
+  snapshots: { id: number; date: string; rate: number; source: string; fetched_at: string }[];
+  ohlc: { open: number; high: number; low: number; close: number; count: number } | null;
 }
 
 export interface RateRange {
@@ -147,7 +245,6 @@ export interface ProjectionsData {
     worst: ScenarioResult;
   };
   breakEvenRate: number;
-  strategyComparison: StrategyComparison;
   nisaProjection: NisaProjection;
   rateHistory: RateHistoryPoint[];
   range52Week: RateRange | null;
@@ -155,19 +252,265 @@ export interface ProjectionsData {
   portfolio: PortfolioSummary;
 }
 
+// ── Backtest types ───────────────────────────────────────────────────
+
+export type BacktestStrategy = 'thermostat' | 'lumpSum' | 'dca';
+
+export interface BacktestTrade {
+  date: string;
+  rate: number;
+  band: Band;
+  baseAmount: number;    // minor units of the pair's base currency
+  quoteAmount: number;   // minor units of the pair's quote currency
+}
+
+export interface BacktestMonth {
+  month: string;         // YYYY-MM
+  closeRate: number;     // last rate of the month in the series
+  baseAmount: number;
+  quoteAmount: number;
+  avgRate: number | null;   // null for months without trades
+  trades: number;
+}
+
+export interface BacktestRun {
+  strategy: BacktestStrategy;
+  label: string;
+  baseDeployed: number;
+  quoteAcquired: number;
+  avgRate: number;           // 0 if nothing was converted
+  finalValue: number;        // base left unconverted plus holdings at the last rate
+  maxDrawdown: number;       // largest peak-to-trough fall in value, base minor units
+  maxDrawdownPct: number;
+  trades: BacktestTrade[];
+  months: BacktestMonth[];
+}
+
+export interface BacktestEquityPoint {
+  date: string;
+  rate: number;
+  thermostat: number;    // value in base minor units on this day
+  lumpSum: number;
+  dca: number;
+}
+
+export interface BacktestResult {
+  pair: string;
+  from: string;
+  to: string;
+  days: number;          // rates in the series
+  budget: number;        // base minor units each strategy may convert
+  thermostat: BacktestRun;
+  lumpSum: BacktestRun;
+  dca: BacktestRun;
+  equity: BacktestEquityPoint[];
+}
+
+// ── Simulation types ─────────────────────────────────────────────────
+
+export type SimulationMode = 'gbm' | 'bootstrap';
+
+export interface PercentileBand {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationPoint {
+  date: string;
+  day: number;                   // trading days from the start
+  rate: PercentileBand;
+  savingsQuote: PercentileBand;  // remaining savings converted at the simulated rate, quote minor units
+  holdingsBase: PercentileBand;  // current holdings converted back at the simulated rate, base minor units
+}
+
+export interface SimulationResult {
+  pair: string;
+  mode: SimulationMode;
+  seed: number;
+  paths: number;
+  horizonDays: number;           // trading days simulated
+  startDate: string;
+  startRate: number;
+  returns: number;               // historical daily returns the model was fitted to
+  drift: number;                 // mean daily log return
+  volatility: number;            // annualised volatility of daily log returns, %
+  remainingBase: number;
+  heldQuote: number;
+  points: SimulationPoint[];
+}
+
+// ── Recalibration types ──────────────────────────────────────────────
+
+export interface ThresholdEvaluation {
+  ladder: BandTier[];               // highest floor first
+  bandDays: Record<Band, number>;   // rates in the history that fall in each tier
+  baseDeployed: number;             // what the backtest would have converted
+  quoteAcquired: number;
+  avgRate: number;
+  trades: number;
+}
+
+export interface RecalibrationResult {
+  pair: string;
+  from: string;
+  to: string;
+  days: number;
+  percentiles: number[];            // one per tier above the lowest, e.g. 80 for the top 20%
+  lastReview: string | null;
+  current: ThresholdEvaluation;
+  proposed: ThresholdEvaluation;
+}
+
 // ── Conversion types ─────────────────────────────────────────────────
 
 export interface ConversionRecord {
   id: number;
   date: string;
-  direction: ConversionDirection;
-  gbp_amount: number;
-  jpy_amount: number;
-  exchange_rate: number;
+  source_currency: string;
+  target_currency: string;
+  source_amount: number;   // minor units of source_currency
+  target_amount: number;   // minor units of target_currency
+  exchange_rate: number;   // quote per base of the conversion's pair
   spot_rate: number | null;
   fee_pct: number | null;
   provider: string | null;
   band_at_time: string | null;
   notes: string | null;
+  source_account_id: number | null;
+  target_account_id: number | null;
+  created_at: string;
+  deleted_at: string | null;   // set while the conversion is in the trash
+}
+
+// ── Limit order types ────────────────────────────────────────────────
+
+export type LimitOrderCondition = 'ABOVE' | 'BELOW';   // rate >= target / rate <= target
+
+export type LimitOrderStatus = 'PENDING' | 'TRIGGERED' | 'FILLED' | 'EXPIRED' | 'CANCELLED';
+
+export interface LimitOrderRecord {
+  id: number;
+  source_currency: string;
+  target_currency: string;
+  amount: number;              // minor units of source_currency
+  condition: LimitOrderCondition;
+  target_rate: number;         // quote per base of the order's pair
+  expires_on: string | null;   // last day the order can trigger
+  status: LimitOrderStatus;
+  triggered_rate: number | null;
+  triggered_at: string | null;
+  conversion_id: number | null;   // the conversion that filled it
+  notes: string | null;
+  created_at: string;
+}
+
+// ── Recurring plan types ─────────────────────────────────────────────
+
+export interface RecurringPlanRecord {
+  id: number;
+  source_currency: string;
+  target_currency: string;
+  amount: number;              // minor units of source_currency
+  day_of_month: number;        // 1-31; late days fall on the last day of shorter months
+  provider: Provider;
+  start_date: string;
+  end_date: string | null;     // last day a run can fall on
+  active: number;              // 0 once paused; paused plans schedule nothing
+  notes: string | null;
+  created_at: string;
+}
+
+export type PlanRunStatus = 'CONFIRMED' | 'SKIPPED';
+
+export interface PlanRunRecord {
+  id: number;
+  plan_id: number;
+  scheduled_date: string;
+  status: PlanRunStatus;
+  conversion_id: number | null;   // set when confirmed
+  created_at: string;
+}
+
+/** Runs with no record are upcoming, due today, or missed once their date has passed. */
+export type ScheduledRunStatus = 'UPCOMING' | 'DUE' | 'MISSED' | PlanRunStatus;
+
+export interface ScheduledRun {
+  planId: number;
+  date: string;
+  status: ScheduledRunStatus;
+  conversionId: number | null;
+}
+
+export interface PlansResponse {
+  plans: RecurringPlanRecord[];
+  runs: ScheduledRun[];        // oldest first
+}
+
+// ── Account types ────────────────────────────────────────────────────
+
+export type AccountKind = 'WISE' | 'BANK' | 'CASH' | 'OTHER';
+
+export interface AccountRecord {
+  id: number;
+  name: string;
+  currency: string;
+  kind: AccountKind;
+  opening_balance: number;     // minor units of currency
+  archived: number;            // 1 once hidden from pickers; balances still count
+  created_at: string;
+}
+
+export interface TransferRecord {
+  id: number;
+  date: string;
+  from_account_id: number;
+  to_account_id: number;
+  amount: number;              // minor units arriving in to_account
+  fee: number;                 // charged to from_account on top of amount
+  notes: string | null;
+  created_at: string;
+}
+
+export interface AccountBalance {
+  account: AccountRecord;
+  balance: number;             // minor units of the account currency
+  conversionsIn: number;
+  conversionsOut: number;
+  transfersIn: number;
+  transfersOut: number;        // including fees
+  fees: number;
+  spent: number;               // expenses paid from the account
+}
+
+// ── Spending types ───────────────────────────────────────────────────
+
+export interface ExpenseRecord {
+  id: number;
+  date: string;
+  currency: string;
+  amount: number;              // minor units spent
+  account_id: number | null;   // null when paid from outside any tracked account
+  category: string | null;
+  description: string | null;
   created_at: string;
 }
+
+export interface MonthlySpending {
+  month: string;                        // YYYY-MM
+  spent: number;                        // minor units
+  budget: number;
+  remaining: number;                    // negative once over budget
+  count: number;
+  byCategory: Record<string, number>;   // uncategorised spending under ''
+}
+
+export interface SpendingResponse {
+  expenses: ExpenseRecord[];
+  currency: string;
+  budget: number;              // monthly_jpy_expenses
+  totalSpent: number;
+  monthly: MonthlySpending[];  // newest first
+}